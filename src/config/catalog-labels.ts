@@ -0,0 +1,105 @@
+import { StagingStage } from '../interfaces/upload.interface';
+import { CatalogLocale } from '../interfaces/catalog.interface';
+
+// Idioma do campo label de room_types/furniture_styles
+export const DEFAULT_CATALOG_LOCALE: CatalogLocale = 'pt-BR';
+
+export interface CatalogLabels {
+  roomTypes: Record<string, string>;
+  furnitureStyles: Record<string, string>;
+  stages: Record<StagingStage, string>;
+}
+
+/**
+ * Nomes exibidos dos cômodos/estilos embutidos e das etapas.
+ * Traduções cadastradas pelos admins (coluna labels) têm prioridade.
+ */
+export const BUILT_IN_CATALOG_LABELS: Record<CatalogLocale, CatalogLabels> = {
+  'pt-BR': {
+    roomTypes: {
+      living_room: 'Sala de Estar',
+      bedroom: 'Quarto',
+      kitchen: 'Cozinha',
+      bathroom: 'Banheiro',
+      dining_room: 'Sala de Jantar',
+      home_office: 'Escritório',
+      kids_room: 'Quarto Infantil',
+      outdoor: 'Área Externa',
+    },
+    furnitureStyles: {
+      standard: 'Padrão',
+      modern: 'Moderno',
+      scandinavian: 'Escandinavo',
+      industrial: 'Industrial',
+      midcentury: 'Mid-Century',
+      luxury: 'Luxo',
+      coastal: 'Litorâneo',
+      farmhouse: 'Rústico',
+    },
+    stages: {
+      foundation: 'Móveis principais',
+      complement: 'Complementos',
+      wall_decoration: 'Decoração de parede',
+      windows_decoration: 'Decoração de janelas',
+      customization: 'Personalização',
+    },
+  },
+  en: {
+    roomTypes: {
+      living_room: 'Living Room',
+      bedroom: 'Bedroom',
+      kitchen: 'Kitchen',
+      bathroom: 'Bathroom',
+      dining_room: 'Dining Room',
+      home_office: 'Home Office',
+      kids_room: "Kids' Room",
+      outdoor: 'Outdoor',
+    },
+    furnitureStyles: {
+      standard: 'Standard',
+      modern: 'Modern',
+      scandinavian: 'Scandinavian',
+      industrial: 'Industrial',
+      midcentury: 'Mid-Century',
+      luxury: 'Luxury',
+      coastal: 'Coastal',
+      farmhouse: 'Farmhouse',
+    },
+    stages: {
+      foundation: 'Main furniture',
+      complement: 'Complements',
+      wall_decoration: 'Wall decoration',
+      windows_decoration: 'Window decoration',
+      customization: 'Customization',
+    },
+  },
+  es: {
+    roomTypes: {
+      living_room: 'Sala de Estar',
+      bedroom: 'Dormitorio',
+      kitchen: 'Cocina',
+      bathroom: 'Baño',
+      dining_room: 'Comedor',
+      home_office: 'Oficina en Casa',
+      kids_room: 'Habitación Infantil',
+      outdoor: 'Exterior',
+    },
+    furnitureStyles: {
+      standard: 'Estándar',
+      modern: 'Moderno',
+      scandinavian: 'Escandinavo',
+      industrial: 'Industrial',
+      midcentury: 'Mid-Century',
+      luxury: 'Lujo',
+      coastal: 'Costero',
+      farmhouse: 'Rústico',
+    },
+    stages: {
+      foundation: 'Muebles principales',
+      complement: 'Complementos',
+      wall_decoration: 'Decoración de pared',
+      windows_decoration: 'Decoración de ventanas',
+      customization: 'Personalización',
+    },
+  },
+};
@@ -0,0 +1,58 @@
+import { FurnitureStyle } from '../interfaces/upload.interface';
+
+/**
+ * Materiais e cores de onde a paleta do imóvel é sorteada, por estilo de móveis
+ */
+export interface PaletteOptions {
+  materials: string[];
+  colors: string[];
+}
+
+// Quantos valores de cada grupo entram numa paleta gerada
+export const PALETTE_SIZES = {
+  materials: 3,
+  colors: 3,
+  complementary: 6,
+  wallDecor: 3,
+  windowsDecor: 2,
+} as const;
+
+// Limites das paletas editadas pelo cliente
+export const MAX_PALETTE_VALUES = 10;
+export const MAX_PALETTE_VALUE_LENGTH = 100;
+export const MAX_PALETTE_SEED = 2147483647;
+
+export const BUILT_IN_PALETTE_OPTIONS: Record<FurnitureStyle, PaletteOptions> = {
+  standard: {
+    materials: ['oak veneer', 'walnut veneer', 'linen upholstery', 'cotton weave', 'brushed nickel', 'matte black metal'],
+    colors: ['greige', 'warm gray', 'soft white', 'taupe', 'muted navy', 'sand beige'],
+  },
+  modern: {
+    materials: ['matte lacquer', 'powder-coated steel', 'smoked glass', 'travertine', 'basalt stone', 'fluted oak'],
+    colors: ['charcoal', 'warm white', 'stone gray', 'black', 'cognac', 'muted olive'],
+  },
+  scandinavian: {
+    materials: ['light oak', 'beech', 'bouclé', 'wool knit', 'stoneware', 'natural linen'],
+    colors: ['cream', 'soft white', 'pale sage', 'dusty pink', 'light gray', 'oat'],
+  },
+  industrial: {
+    materials: ['blackened steel', 'reclaimed wood', 'raw concrete', 'oiled leather', 'canvas', 'antique brass'],
+    colors: ['charcoal', 'ink blue', 'tobacco brown', 'rust', 'smoke gray', 'black'],
+  },
+  midcentury: {
+    materials: ['walnut', 'teak', 'linen tweed', 'bouclé', 'brass', 'rattan cane'],
+    colors: ['mustard', 'teal', 'olive green', 'burnt orange', 'warm white', 'walnut brown'],
+  },
+  luxury: {
+    materials: ['velvet', 'silk blend', 'marble', 'polished brass', 'fluted glass', 'lacquered wood'],
+    colors: ['ivory', 'champagne gold', 'emerald', 'sapphire blue', 'deep taupe', 'blush'],
+  },
+  coastal: {
+    materials: ['rattan', 'jute', 'driftwood', 'whitewashed oak', 'linen', 'brushed nickel'],
+    colors: ['sand', 'seafoam', 'soft blue', 'white', 'driftwood gray', 'navy'],
+  },
+  farmhouse: {
+    materials: ['reclaimed pine', 'knotty oak', 'stoneware', 'cotton ticking', 'antique bronze', 'woven seagrass'],
+    colors: ['warm white', 'sage green', 'barn red', 'charcoal', 'natural wood', 'oatmeal'],
+  },
+};
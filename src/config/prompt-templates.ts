@@ -0,0 +1,89 @@
+import {
+  PromptTemplateDefinition,
+  PromptTemplateName,
+} from '../interfaces/prompt-template.interface';
+
+// Variáveis comuns aos prompts das etapas
+const STAGE_VARIABLES = [
+  'room',
+  'style',
+  'items',
+  'minItems',
+  'maxItems',
+  'mainRange',
+  'complementaryRange',
+  'wallDecorRange',
+  'windowsDecorRange',
+  'styleGuidance',
+];
+
+/**
+ * Regras de preservação gravadas em StagingPlan.globalRules
+ */
+export const STAGING_GLOBAL_RULES = `Add only new furniture items on top of the original photo; never modify or substitute existing architecture or surfaces.
+Preserve floor, walls, ceiling, doors, windows, and lighting exactly as they appear, without recoloring or altering textures.
+Maintain composition, perspective, dimensions, and circulation paths identical to the original image.`;
+
+/**
+ * Templates embutidos (versão 0). Atendem todo o tráfego não alocado a versões
+ * cadastradas pelos admins e servem de fallback quando o banco está indisponível.
+ * Variáveis no formato {{nome}}.
+ */
+export const BUILT_IN_PROMPT_TEMPLATES: Record<PromptTemplateName, PromptTemplateDefinition> = {
+  'stage.foundation': {
+    description: 'Etapa 1: móveis principais',
+    variables: STAGE_VARIABLES,
+    body: `${STAGING_GLOBAL_RULES}
+Add between {{minItems}}-{{maxItems}} main furniture item appropriate to this {{room}} in {{style}} style:
+{{items}}
+ `,
+  },
+  'stage.complement': {
+    description: 'Etapa 2: complementos e acessórios',
+    variables: STAGE_VARIABLES,
+    body: `Add only new decor items on top of the original photo; never modify or substitute existing architecture or surfaces.
+Preserve floor, walls, ceiling, doors, windows, and lighting exactly as they appear, without recoloring or altering textures.
+Maintain composition, perspective, dimensions, and circulation paths identical to the original image.
+Add between {{minItems}}-{{maxItems}} main furniture item appropriate to this {{room}} in {{style}} style:
+{{items}}`,
+  },
+  'stage.windows_decoration': {
+    description: 'Etapa 3: decoração de janelas',
+    variables: STAGE_VARIABLES,
+    body: `Add only new windows decoration items on top of the original photo; never modify or substitute existing architecture or surfaces.
+Preserve floor, walls, ceiling, doors, windows, and lighting exactly as they appear, without recoloring or altering textures.
+Maintain composition, perspective, dimensions, and circulation paths identical to the original image.
+Add between {{minItems}}-{{maxItems}} main furniture item appropriate to this {{room}} in {{style}} style:
+{{items}}`,
+  },
+  'stage.wall_decoration': {
+    description: 'Etapa 4: decoração de parede',
+    variables: STAGE_VARIABLES,
+    body: `Add only new wall decor items on top of the original photo; never modify or substitute existing architecture or surfaces.
+Preserve floor, walls, ceiling, doors, windows, and lighting exactly as they appear, without recoloring or altering textures.
+Maintain composition, perspective, dimensions, and circulation paths identical to the original image.
+Add between {{minItems}}-{{maxItems}} main furniture item appropriate to this {{room}} in {{style}} style:
+{{items}}`,
+  },
+  'stage.customization': {
+    description: 'Etapa 5: ajustes finais',
+    variables: STAGE_VARIABLES,
+    body: `
+        Maintain wall, ground and roof as original image.
+{{styleGuidance}}
+Maintain all doors, openings, windows, dimensions (width and height) and circulation paths exactly as in the original image. Do not block, move, resize, or alter them in any way.
+`,
+  },
+  'stage.instruction': {
+    description: 'Instrução do cliente anexada ao prompt da etapa (regeneração)',
+    variables: ['prompt', 'instruction'],
+    body: `{{prompt}}
+
+Additional instruction from the client for this stage (keep all other rules): {{instruction}}`,
+  },
+  single: {
+    description: 'Staging em uma única chamada (Black Forest)',
+    variables: ['room', 'style'],
+    body: 'Virtual staging of an empty {{room}} in {{style}} style. Add only furniture and decor; do not change walls, floors, ceilings, doors, windows, lighting or architecture. Keep existing geometry and perspective intact. Photorealistic interior photography.',
+  },
+};
@@ -1,4 +1,10 @@
 import { ProviderConfig } from '../interfaces/virtual-staging-provider.interface';
+import {
+  ProviderRoutingPolicy,
+  ProviderRoutingRule,
+} from '../interfaces/provider-routing.interface';
+import { CircuitBreakerConfig } from '../interfaces/provider-health.interface';
+import { Provider } from '../interfaces/upload.interface';
 
 /**
  * Configurações dos providers de virtual staging
@@ -6,9 +12,13 @@ import { ProviderConfig } from '../interfaces/virtual-staging-provider.interface
 export class ProviderConfigManager {
   private static instance: ProviderConfigManager;
   private configs: Map<string, ProviderConfig> = new Map();
+  private routingPolicy!: ProviderRoutingPolicy;
+  private circuitBreakerConfig!: CircuitBreakerConfig;
 
   private constructor() {
     this.loadConfigurations();
+    this.loadRoutingPolicy();
+    this.loadCircuitBreakerConfig();
   }
 
   public static getInstance(): ProviderConfigManager {
@@ -39,6 +49,90 @@ export class ProviderConfigManager {
       retryAttempts: parseInt(process.env.INSTANT_DECO_RETRY_ATTEMPTS || '2'),
       webhookUrl: 'https://api.stagingfy.com/api/v1/webhooks/instant-deco',
     });
+
+    // Provider mock local (apenas desenvolvimento/CI)
+    if (process.env.MOCK_PROVIDER_ENABLED === 'true') {
+      const baseUrl =
+        process.env.MOCK_PROVIDER_BASE_URL ||
+        process.env.BASE_URL ||
+        `http://localhost:${process.env.PORT || 3001}`;
+
+      this.configs.set('mock', {
+        apiKey: 'mock',
+        baseUrl,
+        webhookUrl: `${baseUrl}/api/v1/webhooks/mock`,
+        delayMs: parseInt(process.env.MOCK_PROVIDER_DELAY_MS || '3000'),
+        scenario: process.env.MOCK_PROVIDER_SCENARIO || 'success',
+        failStage: process.env.MOCK_PROVIDER_FAIL_STAGE || undefined,
+        webhooksEnabled: process.env.MOCK_PROVIDER_WEBHOOKS !== 'false',
+      });
+    }
+  }
+
+  /**
+   * Carrega a política de roteamento/failover entre providers
+   *
+   * PROVIDER_ROUTING_RULES: JSON com ProviderRoutingRule[]
+   * PROVIDER_ROUTING_WEIGHTS: "black-forest:80,instant-deco:20"
+   */
+  private loadRoutingPolicy(): void {
+    let rules: ProviderRoutingRule[] = [];
+    if (process.env.PROVIDER_ROUTING_RULES) {
+      try {
+        const parsed = JSON.parse(process.env.PROVIDER_ROUTING_RULES);
+        rules = Array.isArray(parsed)
+          ? parsed.filter(rule => Array.isArray(rule?.providers) && rule.providers.length > 0)
+          : [];
+      } catch {
+        console.warn('PROVIDER_ROUTING_RULES inválido, ignorando regras de roteamento');
+      }
+    }
+
+    const weights: Partial<Record<Provider, number>> = {};
+    for (const entry of (process.env.PROVIDER_ROUTING_WEIGHTS || '').split(',')) {
+      const [name, weight] = entry.split(':').map(part => part.trim());
+      const value = parseFloat(weight || '');
+      if (name && value > 0) {
+        weights[name as Provider] = value;
+      }
+    }
+
+    this.routingPolicy = {
+      rules,
+      weights,
+      failover: process.env.PROVIDER_FAILOVER_ENABLED !== 'false',
+    };
+  }
+
+  /**
+   * Obtém a política de roteamento entre providers
+   */
+  public getRoutingPolicy(): ProviderRoutingPolicy {
+    return this.routingPolicy;
+  }
+
+  /**
+   * Carrega os limites do circuit breaker dos providers
+   */
+  private loadCircuitBreakerConfig(): void {
+    this.circuitBreakerConfig = {
+      failureRateThreshold: parseFloat(
+        process.env.PROVIDER_CIRCUIT_FAILURE_RATE || '0.5'
+      ),
+      minimumRequests: parseInt(process.env.PROVIDER_CIRCUIT_MIN_REQUESTS || '10'),
+      windowMs: parseInt(process.env.PROVIDER_CIRCUIT_WINDOW_MS || '60000'),
+      openDurationMs: parseInt(process.env.PROVIDER_CIRCUIT_OPEN_MS || '30000'),
+      slowCallThresholdMs: parseInt(
+        process.env.PROVIDER_CIRCUIT_SLOW_CALL_MS || '45000'
+      ),
+    };
+  }
+
+  /**
+   * Obtém os limites do circuit breaker dos providers
+   */
+  public getCircuitBreakerConfig(): CircuitBreakerConfig {
+    return this.circuitBreakerConfig;
   }
 
   /**
@@ -95,6 +189,8 @@ export class ProviderConfigManager {
   public reloadConfigurations(): void {
     this.configs.clear();
     this.loadConfigurations();
+    this.loadRoutingPolicy();
+    this.loadCircuitBreakerConfig();
   }
 
   /**
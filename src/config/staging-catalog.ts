@@ -0,0 +1,528 @@
+import {
+  RoomCatalogEntry,
+  StagingCatalog,
+  StyleCatalogEntry,
+} from '../interfaces/staging-catalog.interface';
+import { RoomType, FurnitureStyle } from '../interfaces/upload.interface';
+
+/**
+ * Catálogo de staging embutido.
+ * Usado enquanto nenhuma versão foi publicada no banco (ou se o banco estiver
+ * indisponível) e como base da primeira versão criada pelos endpoints de admin.
+ */
+export const DEFAULT_STAGING_CATALOG: StagingCatalog = {
+  // Biblioteca base por cômodo
+  rooms: {
+    living_room: {
+      promptLabel: 'living room',
+      // Quantidades ajustadas (essenciais, sem sobrecarregar)
+      mainPiecesRange: [2, 4],
+      wallDecorRange: [0, 2], // pode ser 0 quando há muitas janelas
+      complementaryRange: [3, 5],
+      windowsDecorRange: [1, 4], // tratar janelas quando existirem
+
+      allowedMainItems: [
+        // Seating âncora — modernos e relevantes
+        'modular sectional (low-profile, neutral tones)',
+        'compact 2–3 seat sofa (straight arms, slim legs)',
+        'accent swivel chair (bouclé or fabric, 1–2)',
+        'barrel lounge chair (sculptural, upholstered)',
+        'chaise lounge (slim, modern profile)',
+
+        // Mesas de centro — vidro, pedra, metal
+        'smoked-glass coffee table with slim metal base',
+        'clear tempered-glass coffee table (rectangular or square)',
+        'marble or travertine coffee table (pedestal or slab)',
+        'nesting coffee tables (glass/stone top, metal frame)',
+        'plinth-style coffee table (stone, lacquer, or glass base)',
+
+        // Mesas laterais / apoio
+        'cylinder side table (stone, glass, or lacquer finish)',
+        'round glass side table with metal legs',
+        'sculptural pedestal side table (minimal, modern)',
+      ],
+
+      allowedWallDecor: [
+        // Arte e espelhos essenciais (superficiais, sem obra)
+        'smalled framed artwork (abstract/botanical)',
+        'smalled round or pill mirror',
+        // Iluminação de parede plug-in (não embutida)
+        'plug-in wall sconces (pair, no hardwiring)',
+        'plug-in picture light over artwork',
+      ],
+
+      // SOMENTE complementos (detalhes) — nada de mini-móveis
+      allowedComplementary: [
+        // Tapetes (base da composição)
+        'large area rug anchoring front legs of seating',
+        'layered rug (smaller patterned rug on top of neutral base rug)',
+
+        // Iluminação portátil/leve
+        'arc floor lamp or slim linear floor lamp',
+        'reading/task floor lamp (slim, matte black or brass)',
+        'portable cordless table lamp (rechargeable, modern design)',
+        'small sculptural table lamp (stone, ceramic or smoked glass)',
+
+        // Têxteis de apoio
+        'contrasting throw pillows (2–4) in complementary textures',
+        'neutral bouclé or linen throw blanket casually draped on sofa',
+        'pouf or small ottoman (fabric or leather)',
+        'floor cushion (oversized, casual seating)',
+
+        // Plantas (variar tamanhos e suportes)
+        'indoor tree (olive, fiddle-leaf, bird of paradise) in matte planter',
+        'medium plant (monstera, rubber plant, ZZ plant) in ceramic or stone planter',
+        'tall snake plant (sansevieria) in slim pedestal planter',
+        'tabletop plant (succulent, pothos) in small ceramic pot',
+        'arrangement of dried pampas/grass in tall vase',
+
+        // Objetos modernos (materiais honestos, 2024/25)
+        'ceramic/stone vases in varied heights (cluster of 2–3)',
+        'ribbed or smoked-glass vase with single branch or flower',
+        'travertine or marble tray with candles/decor',
+        'sculptural object for coffee table (metal, resin or stone)',
+        'stack of coffee table books (2–3, neutral covers)',
+        'minimal reed diffuser (glass bottle, slim sticks)',
+        'set of decorative bowls or catchalls (stone/ceramic)',
+        'pillar candles in glass or ceramic holders (grouped)',
+
+        // Organização & lifestyle
+        'woven basket for throws or magazines (floor corner)',
+        'tray on ottoman or coffee table with drinks/books',
+        'coasters set (stone, marble or leather)',
+        'small decorative box (storage for remotes)',
+      ],
+
+      // Tratamento de janelas — só onde existir janela real, estética atual
+      allowedWindowsDecor: [
+        'linen curtains (floor-length, neutral tones)',
+        'sheer curtains (white/cream, light filtering)',
+        'double-layer curtains (sheer + blackout) on existing windows',
+        'minimal curtain rod or ceiling track (existing windows only)',
+      ],
+    },
+
+    bedroom: {
+      promptLabel: 'bedroom',
+      // ranges ajustados — sempre cama + apoios
+      mainPiecesRange: [1, 1], // cama + 1–3 itens de apoio
+      wallDecorRange: [0, 1], // pode ser zero (quando sem parede livre)
+      complementaryRange: [1, 2],
+      windowsDecorRange: [1, 1],
+
+      allowedMainItems: [
+        // Âncora obrigatória
+        'queen or king-size bed (low-profile, upholstered headboard in bouclé, linen-blend, or channel-tufted velvet)',
+      ],
+
+      allowedWallDecor: [
+        'single oversized abstract artwork above headboard',
+        'large arched mirror with thin black or brass frame',
+        'paired minimalist prints above nightstands',
+        'slim floating shelf/ledge for curated objects',
+        'slim plug-in wall sconces (matte black, brass, or alabaster)',
+      ],
+
+      allowedComplementary: [
+        // Iluminação
+        'slim LED floor lamp with sculptural base (matte black or brushed bronze)',
+        'geometric bedside lamps with linen or pleated shades',
+
+        // Têxteis
+        'layered bedding with boucle or textured throws in warm neutrals',
+        'large area rug with abstract geometric or organic pattern (low pile, neutral tones)',
+
+        // Espelhos & plantas
+        'arched full-height floor mirror with thin matte black frame',
+        'tall indoor plant (olive tree, bird of paradise, fiddle-leaf fig) in ribbed ceramic planter',
+
+        // Detalhes sobre superfícies
+        'ceramic or stone decorative tray with sculptural objects',
+        'stack of contemporary art books on nightstand or console',
+        'sculptural vase in matte ceramic or tinted glass with greenery',
+
+        // Organização
+        'woven storage basket with leather accents',
+        'minimal lidded hamper in fabric or matte metal finish',
+      ],
+      allowedWindowsDecor: [
+        'floor-length blackout curtains in neutral linen/cotton blend',
+        'layered sheers + blackout for softness and depth',
+        'roman shades in neutral textured fabric',
+      ],
+    },
+
+    kitchen: {
+      promptLabel: 'kitchen',
+      mainPiecesRange: [1, 3],
+      wallDecorRange: [0, 1],
+      complementaryRange: [1, 3],
+      windowsDecorRange: [0, 2],
+      allowedMainItems: [
+        'counter or island stools (2–4; slim metal frame, upholstered seat in boucle or faux leather)',
+        'compact café table with 2 sculptural chairs (round stone or ceramic top)',
+        'narrow bar table with sleek stools (matte metal base, oak top)',
+        'freestanding bar cart with slim metal frame and glass/stone shelves',
+      ],
+      allowedWallDecor: [
+        'small framed abstract print (neutral tones)',
+        'minimal wall clock (matte black, slim design)',
+        'slim floating ledge for small decor (surface-mounted, shallow)',
+      ],
+      allowedComplementary: [
+        'low-pile runner rug (neutral, washable, anti-slip)',
+        'compact plant (olive or snake plant) in ceramic pot away from prep zone',
+        'sculptural bowl or vase on café/bar table (stone, ceramic, or tinted glass)',
+        'seat cushions or faux leather pads for stools',
+      ],
+      allowedWindowsDecor: [
+        'sheer roman shades (moisture resistant)',
+        'light-filtering roller blinds (easy to clean)',
+        'woven wood shades (sealed, water-friendly)',
+        'frosted window film for privacy',
+        'herb planter set on sill (compact, modern containers)',
+      ],
+    },
+
+    bathroom: {
+      promptLabel: 'bathroom',
+      mainPiecesRange: [0, 1],
+      wallDecorRange: [0, 1],
+      complementaryRange: [2, 4],
+      windowsDecorRange: [0, 1],
+      allowedMainItems: [
+        'slim ladder towel rack (matte black or oak)',
+        'narrow floating shelf (above toilet or sink)',
+        'compact freestanding storage tower (metal/wood mix)',
+      ],
+
+      allowedWallDecor: [
+        'framed line art or abstract print (moisture-resistant frame)',
+        'round auxiliary mirror with slim black or brass frame',
+      ],
+
+      allowedComplementary: [
+        'set of folded neutral towels (white, beige, gray)',
+        'dispenser set in ceramic or stone (soap + lotion)',
+        'low-pile bath mat (neutral cotton)',
+        'small humidity-tolerant plant (fern, aloe, orchid) in ceramic pot (outside shower)',
+        'woven or matte metal laundry hamper (compact)',
+      ],
+
+      allowedWindowsDecor: [
+        'frosted film for privacy',
+        'linen roman shade (moisture resistant)',
+        'simple waterproof roller shade',
+      ],
+    },
+
+    dining_room: {
+      promptLabel: 'dining room',
+      mainPiecesRange: [1, 2],
+      wallDecorRange: [1, 2],
+      complementaryRange: [2, 4],
+      windowsDecorRange: [1, 2],
+
+      allowedMainItems: [
+        'extendable dining table (oak or walnut veneer, slim metal base)',
+        'rectangular dining table with matte ceramic or stone top',
+        'round pedestal dining table (marble or fluted wood base)',
+        'set of upholstered dining chairs (fabric or bouclé, slim legs)',
+        'bench with cushion (upholstered, oak base)',
+        'counter stools for bar (slim profile, neutral upholstery)',
+        'slim sideboard with fluted detailing or matte veneer',
+        'wine console with glass doors and wood/metal mix',
+      ],
+
+      allowedWallDecor: [
+        'large abstract framed artwork (earthy/neutral palette)',
+        'round mirror with oak or black metal frame',
+        'minimal floating shelf (oak or black, max 20cm deep)',
+        'pair of slim sconces (matte black or brushed brass)',
+      ],
+
+      allowedComplementary: [
+        'oversized area rug (wool, jute, or wool-blend, neutral abstract)',
+        'ceramic or stone centerpiece with seasonal greenery',
+        'linen or cotton table runner (earth tones)',
+        'pair of buffet lamps with fabric or glass shades',
+        'large plant in ribbed ceramic planter',
+        'minimalist bar cart in matte black or wood/metal mix',
+      ],
+
+      allowedWindowsDecor: [
+        'linen curtains (floor-length, neutral tones)',
+        'layered treatments (sheer + blackout)',
+        'roman shades (neutral fabric, tailored)',
+        'wooden blinds (oak or walnut tone)',
+        'minimal tiebacks in matching fabric/metal',
+      ],
+    },
+
+    home_office: {
+      promptLabel: 'home office',
+      mainPiecesRange: [2, 3],
+      wallDecorRange: [0, 2],
+      complementaryRange: [2, 4],
+      windowsDecorRange: [1, 2],
+      allowedMainItems: [
+        'sit-stand desk (white oak or matte black frame)',
+        'ergonomic task chair (mesh or upholstered)',
+        'guest lounge chair (slim, upholstered)',
+        'low credenza with clean fronts',
+        'open shelving unit or slim bookcase',
+        'compact filing cabinet (neutral finish)',
+      ],
+      allowedWallDecor: [
+        'framed abstract or photography prints',
+        'magnetic whiteboard or pinboard (framed)',
+        'modular pegboard organizer',
+        'floating shelves (oak/black metal)',
+        'decorative acoustic panels (fabric or wood)',
+      ],
+      allowedComplementary: [
+        'sleek LED desk lamp',
+        'slim floor lamp',
+        'low-pile area rug under chair zone',
+        'plant (snake plant, ZZ, or olive)',
+        'desktop organizers (wood, metal, or acrylic)',
+        'monitor stand (wood/metal finish)',
+        'cable management tray or box',
+      ],
+      allowedWindowsDecor: [
+        'light-filtering blinds (fabric or wood)',
+        'tailored roman shades (neutral tones)',
+        'cordless cellular shades',
+        'neutral professional curtains (linen/cotton blend)',
+        'anti-glare window film',
+      ],
+    },
+
+    kids_room: {
+      promptLabel: 'kids room',
+      mainPiecesRange: [2, 4],
+      wallDecorRange: [1, 2],
+      complementaryRange: [2, 4],
+      windowsDecorRange: [1, 2],
+      allowedMainItems: [
+        'twin, full, or bunk bed (upholstered headboard or wood frame)',
+        'nightstand with rounded corners',
+        'compact desk with ergonomic chair',
+        'bookcase or cubby storage system',
+        'modular toy storage unit',
+        'reading bench with cushions (storage underneath)',
+      ],
+      allowedWallDecor: [
+        'playful framed prints (animals, abstract, or typography)',
+        'customizable name/initial framed art',
+        'shatterproof mirror at child-safe height',
+        'narrow picture ledge for books',
+        'peg rail with hooks (color-accented)',
+      ],
+      allowedComplementary: [
+        'soft washable rug (cotton or wool-blend, playful pattern)',
+        'toy baskets (woven, fabric, or felt)',
+        'beanbag or lounge floor cushion',
+        'reading tent/canopy with fairy lights',
+        'table lamp or night light (fun design)',
+        'small potted plant (out of reach)',
+      ],
+      allowedWindowsDecor: [
+        'blackout curtains (neutral or soft playful print)',
+        'fun patterned roman shades (safe cordless)',
+        'cordless blinds (child safe)',
+        'room-darkening cellular shades',
+      ],
+    },
+
+    outdoor: {
+      promptLabel: 'outdoor space',
+      mainPiecesRange: [2, 4],
+      wallDecorRange: [0, 1],
+      complementaryRange: [2, 4],
+      windowsDecorRange: [0, 1],
+      allowedMainItems: [
+        'modular outdoor sectional (weather-resistant, neutral fabric)',
+        'pair of lounge chairs (aluminum or teak frame, quick-dry cushions)',
+        'outdoor coffee table (stone, concrete, or teak)',
+        'compact bistro/dining set (aluminum or teak)',
+        'chaise lounge (single or pair, slim frame)',
+        'freestanding cantilever umbrella (neutral canopy)',
+      ],
+      allowedWallDecor: [
+        'outdoor-rated abstract wall art',
+        'shatterproof outdoor mirror (minimal frame)',
+        'modular wall planter system',
+      ],
+      allowedComplementary: [
+        'UV-resistant outdoor rug (neutral geometric pattern)',
+        'planters with mixed greenery at varied heights',
+        'lanterns, solar lamps, or string lights',
+        'outdoor cushions and throws in neutral tones',
+        'small nesting side tables',
+        'ceramic or stone tray for drinks/decor',
+      ],
+      allowedWindowsDecor: [
+        'outdoor curtains (weather-resistant fabric)',
+        'bamboo or synthetic woven roll-up shades',
+        'privacy screens (movable or freestanding)',
+      ],
+    },
+  },
+
+  // Ênfase (leve, sem forçar estrutura) e orientação de estilo por estilo de móveis
+  styles: {
+    standard: {
+      promptLabel: 'standard',
+      emphasis: [
+        'balanced proportions',
+        'warm neutral palette (greige/warm gray)',
+        'oak/walnut veneers',
+        'brushed nickel hardware',
+        'cotton/linen weaves',
+        'tone-on-tone patterns (subtle herringbone/chevron)',
+        'soft rounded edges',
+      ],
+      guidance:
+        `Replace all existing furniture and decor items with standard contemporary alternatives: soft rounded edges, balanced proportions, and medium-firm box cushions. Favor oak or walnut veneers, linen or cotton weaves, and brushed nickel or matte black accents. Include subtle stitch details and tone-on-tone piping. Avoid ornate carvings, glossy glam finishes, and heavy tufting. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
+    },
+    modern: {
+      promptLabel: 'modern',
+      emphasis: [
+        'clean lines, low-profile silhouettes',
+        'matte finishes (lacquer/powder-coat)',
+        'matte black or satin chrome accents',
+        'smoked glass or stone tops',
+        'fluted wood details',
+        'integrated soft curves (2025 trend)',
+      ],
+      guidance:
+        `Replace all existing furniture and decor items with modern alternatives: clean low-profile silhouettes, rectilinear forms softened by gentle curves, thin sled or blade legs, and flush-front detailing with shadow gaps. Use matte lacquer, powder-coated metal, smoked glass, and stone such as travertine or basalt. Limited fluted wood accents are allowed, paired with matte black or satin chrome details. Avoid rustic distressing, farmhouse cross-braces, heavy ornament, or glossy mirror chrome. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
+    },
+    scandinavian: {
+      promptLabel: 'Scandinavian',
+      emphasis: [
+        'light woods (oak/beech)',
+        'airy whites/creams with soft pastels',
+        'bouclé/wool knits, cozy layers',
+        'organic curves, minimal ornament',
+        'stoneware/ceramic accents',
+        'light, natural textures',
+      ],
+      guidance:
+        `Replace all existing furniture and decor items with Scandinavian alternatives: airy minimal silhouettes, organic curves, and tapered light-wood legs in oak or beech. Favor bouclé, wool, cotton, and stoneware finishes with visible grain and natural textures. Accent with light neutral tones and subtle pastels, with matte black or white hardware. Avoid dark heavy woods, mirrored glam, or bulky tufted forms. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
+    },
+    industrial: {
+      promptLabel: 'industrial',
+      emphasis: [
+        'blackened steel/iron',
+        'raw or reclaimed wood',
+        'concrete/stone textures',
+        'charcoal/ink/tobacco neutrals',
+        'exposed joinery, robust forms',
+        'leather/canvas accents',
+      ],
+      guidance:
+        `Replace all existing furniture and decor items with industrial alternatives: robust proportions, exposed joinery, and square tube or steel frames. Use blackened steel, raw or reclaimed wood, concrete, and oiled leather finishes. Details may include visible welds, bolted brackets, and antique brass or blackened hardware. Avoid delicate ornament, glossy whites, or glam cues. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
+    },
+    midcentury: {
+      promptLabel: 'mid-century modern',
+      emphasis: [
+        'tapered legs, slim profiles',
+        'walnut/teak wood tones',
+        'mustard/teal/olive accents',
+        'linen tweed/bouclé textiles',
+        'geometric/atomic motifs',
+        'brass or black hardware',
+      ],
+      guidance:
+        `Replace all existing furniture and decor items with midcentury modern alternatives: slim profiles, boxy cushions, loose backs, and tapered walnut or teak legs. Apply linen tweed, bouclé, or fine woven fabrics with light tufting or piping. Accents may include brass or matte black hardware, with geometric or atomic-inspired motifs in small scale. Avoid oversized overstuffed seating or futuristic glossy chrome. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
+    },
+    luxury: {
+      promptLabel: 'luxury',
+      emphasis: [
+        'velvet/silk-blend, high-pile textiles',
+        'polished brass/champagne gold',
+        'marble or mirrored surfaces',
+        'rich neutrals with jewel accents',
+        'sculptural silhouettes',
+        'fine ribbed glass/fluted details',
+      ],
+      guidance:
+        `Replace all existing furniture and decor items with luxury alternatives: sculptural sumptuous silhouettes, deeply plush seating, and softly curved arms. Use rich surfaces in velvet, silk blends, marble, ribbed or fluted glass, and mirror accents. Incorporate mitered stone edges, polished reveals, and metallics in polished brass or champagne gold. Avoid rustic or distressed finishes and industrial roughness. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
+    },
+    coastal: {
+      promptLabel: 'coastal',
+      emphasis: [
+        'white/sand/driftwood palette',
+        'soft blue/seafoam accents',
+        'rattan/jute textures',
+        'weathered/whitewashed woods',
+        'linen/cotton textiles',
+        'subtle stripes, airy botanicals',
+      ],
+      guidance:
+        `Replace all existing furniture and decor items with coastal alternatives: breezy casual silhouettes, rounded edges, and relaxed slipcovered forms. Use rattan, jute, driftwood, and bleached light woods with linen or cotton upholstery. Accent with soft neutrals, light stripes, and open-weave details in brushed nickel or light bronze. Avoid jewel tones, heavy black metals, and glam velvets. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
+    },
+    farmhouse: {
+      promptLabel: 'farmhouse',
+      emphasis: [
+        'warm whites and earth tones',
+        'reclaimed/knotty woods',
+        'shaker profiles',
+        'black/antique bronze hardware',
+        'hand-thrown ceramics/stoneware',
+        'gingham/ticking stripes',
+      ],
+      guidance:
+        `Replace all existing furniture and decor items with farmhouse alternatives: sturdy shaker-inspired frames, natural or greige wood finishes, and reclaimed or knotty textures. Favor stoneware accents, textured cotton or linen fabrics, and black or antique bronze hardware. Subtle soft distressing is allowed, but avoid glass-heavy tables, ultra-modern chrome, or glossy lacquer. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
+    },
+  },
+};
+
+// Slugs que já vêm com plano no catálogo embutido
+export const BUILT_IN_ROOM_TYPES = Object.keys(DEFAULT_STAGING_CATALOG.rooms) as RoomType[];
+export const BUILT_IN_FURNITURE_STYLES = Object.keys(
+  DEFAULT_STAGING_CATALOG.styles
+) as FurnitureStyle[];
+
+/**
+ * Nome usado nos prompts a partir do slug ("laundry_room" -> "laundry room")
+ */
+export function promptLabelFromSlug(slug: string): string {
+  return slug.replace(/[_-]+/g, ' ').trim();
+}
+
+/**
+ * Plano genérico para cômodos cadastrados sem entrada no catálogo
+ */
+export function buildGenericRoomEntry(roomType: RoomType): RoomCatalogEntry {
+  const label = promptLabelFromSlug(roomType);
+  return {
+    promptLabel: label,
+    mainPiecesRange: [1, 2],
+    wallDecorRange: [0, 1],
+    complementaryRange: [1, 3],
+    windowsDecorRange: [0, 1],
+    allowedMainItems: [`main furniture piece typical of a ${label}, scaled to the space`],
+    allowedWallDecor: ['small framed artwork (neutral tones)'],
+    allowedComplementary: [
+      `functional accessories typical of a ${label}`,
+      'medium plant in ceramic planter',
+      'woven storage basket',
+    ],
+    allowedWindowsDecor: ['simple curtains or shades on existing windows only'],
+  };
+}
+
+/**
+ * Orientação genérica para estilos cadastrados sem entrada no catálogo
+ */
+export function buildGenericStyleEntry(furnitureStyle: FurnitureStyle): StyleCatalogEntry {
+  const label = promptLabelFromSlug(furnitureStyle);
+  return {
+    promptLabel: label,
+    emphasis: [],
+    guidance: `Replace all existing furniture and decor items with ${label} alternatives, with materials, finishes and silhouettes characteristic of the ${label} style. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
+  };
+}
@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { BaseController } from './base.controller';
+import { AuthenticatedRequest } from '@/middleware/auth-middleware';
+import { brandingService } from '@/services/branding.service';
+import {
+  ALLOWED_LOGO_TYPES,
+  BrandingSettingsChanges,
+  MAX_LOGO_FILE_SIZE,
+} from '@/interfaces/branding.interface';
+
+const SETTINGS_FIELDS = [
+  'textEnabled',
+  'text',
+  'textPosition',
+  'textOpacity',
+  'logoEnabled',
+  'logoPosition',
+  'logoOpacity',
+  'logoScale',
+] as const;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_LOGO_FILE_SIZE, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (!ALLOWED_LOGO_TYPES.includes(file.mimetype)) {
+      cb(new Error('File type not allowed. Use PNG, WebP, JPEG or SVG.'));
+    } else {
+      cb(null, true);
+    }
+  },
+});
+
+export class BrandingController extends BaseController {
+  /**
+   * Multer middleware for the logo (multipart field "logo")
+   */
+  uploadLogoMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+    upload.single('logo')(req, res, (err: unknown) => {
+      if (!err) {
+        next();
+        return;
+      }
+
+      const message =
+        err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE'
+          ? `The logo must be at most ${MAX_LOGO_FILE_SIZE / (1024 * 1024)}MB`
+          : err instanceof Error
+            ? err.message
+            : 'Invalid upload';
+      this.validationError(res, { logo: message });
+    });
+  };
+
+  /**
+   * Get the user's watermark and logo settings (null when never configured)
+   */
+  async getSettings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const settings = await brandingService.getSettings(req.user!.id);
+      this.success(res, settings, 'Branding settings retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get branding settings', 500, error);
+    }
+  }
+
+  /**
+   * Update the watermark settings ({ textEnabled?, text?, textPosition?, textOpacity?,
+   * logoEnabled?, logoPosition?, logoOpacity?, logoScale? })
+   */
+  async updateSettings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const body = req.body ?? {};
+      const changes = Object.fromEntries(
+        SETTINGS_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]])
+      );
+
+      const errors = brandingService.validateChanges(changes);
+      if (Object.keys(changes).length === 0) {
+        errors.settings = `Send at least one of: ${SETTINGS_FIELDS.join(', ')}`;
+      }
+      if (changes.logoEnabled === true && !errors.logoEnabled) {
+        const current = await brandingService.getSettings(req.user!.id);
+        if (!current?.logoUrl) {
+          errors.logoEnabled = 'Upload a logo before enabling it';
+        }
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const settings = await brandingService.updateSettings(
+        req.user!.id,
+        changes as BrandingSettingsChanges
+      );
+      this.success(res, settings, 'Branding settings updated successfully');
+    } catch (error) {
+      this.error(res, 'Failed to update branding settings', 500, error);
+    }
+  }
+
+  /**
+   * Upload the brokerage logo (multipart "logo"); replaces and enables it
+   */
+  async uploadLogo(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.file) {
+        this.validationError(res, { logo: 'A logo file is required' });
+        return;
+      }
+
+      const settings = await brandingService.uploadLogo(req.user!.id, req.file.buffer);
+      this.success(res, settings, 'Branding logo uploaded successfully', 201);
+    } catch (error) {
+      this.error(res, 'Failed to upload branding logo', 500, error);
+    }
+  }
+
+  /**
+   * Remove the logo; later images only get the text watermark, if enabled
+   */
+  async deleteLogo(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const settings = await brandingService.removeLogo(req.user!.id);
+      if (!settings) {
+        this.notFound(res, 'Branding settings');
+        return;
+      }
+
+      this.success(res, settings, 'Branding logo removed successfully');
+    } catch (error) {
+      this.error(res, 'Failed to remove branding logo', 500, error);
+    }
+  }
+}
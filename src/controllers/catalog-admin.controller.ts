@@ -0,0 +1,442 @@
+import { Request, Response } from 'express';
+import { BaseController } from './base.controller';
+import { catalogService, CatalogDeleteResult } from '@/services/catalog.service';
+import { CatalogLocale, SUPPORTED_CATALOG_LOCALES } from '@/interfaces/catalog.interface';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type CatalogEntryBody = {
+  name?: string;
+  label?: string;
+  labels?: Record<string, string>;
+  premiumOnly?: boolean;
+  active?: boolean;
+};
+
+export class CatalogAdminController extends BaseController {
+  // ---------- room types ----------
+
+  /**
+   * List room types (?active=true for active only)
+   */
+  async listRoomTypes(req: Request, res: Response): Promise<void> {
+    try {
+      const roomTypes = await catalogService.listRoomTypes({
+        activeOnly: req.query.active === 'true',
+      });
+      this.success(res, roomTypes, 'Room types retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to list room types', 500, error);
+    }
+  }
+
+  async getRoomType(req: Request, res: Response): Promise<void> {
+    try {
+      const roomType = await this.findEntry(req.params.id, id => catalogService.getRoomType(id));
+      if (!roomType) {
+        this.notFound(res, 'Room type');
+        return;
+      }
+      this.success(res, roomType, 'Room type retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get room type', 500, error);
+    }
+  }
+
+  /**
+   * Create a room type ({ name, label, labels?, premiumOnly?, active? })
+   */
+  async createRoomType(req: Request, res: Response): Promise<void> {
+    try {
+      const body = this.parseEntryBody(req.body, true);
+      if ('errors' in body) {
+        this.validationError(res, body.errors);
+        return;
+      }
+
+      const roomType = await catalogService.createRoomType({
+        name: body.name!,
+        label: body.label!,
+        ...(body.labels !== undefined && { labels: body.labels }),
+        ...(body.premiumOnly !== undefined && { premiumOnly: body.premiumOnly }),
+        ...(body.active !== undefined && { active: body.active }),
+      });
+      if (!roomType) {
+        this.error(res, 'A room type with this name already exists', 409);
+        return;
+      }
+
+      this.success(res, roomType, 'Room type created successfully', 201);
+    } catch (error) {
+      this.error(res, 'Failed to create room type', 500, error);
+    }
+  }
+
+  /**
+   * Update label, labels, premiumOnly or active of a room type (the slug is immutable)
+   */
+  async updateRoomType(req: Request, res: Response): Promise<void> {
+    try {
+      const body = this.parseEntryBody(req.body, false);
+      if ('errors' in body) {
+        this.validationError(res, body.errors);
+        return;
+      }
+
+      const roomType = await this.findEntry(req.params.id, id =>
+        catalogService.updateRoomType(id, body)
+      );
+      if (!roomType) {
+        this.notFound(res, 'Room type');
+        return;
+      }
+
+      this.success(res, roomType, 'Room type updated successfully');
+    } catch (error) {
+      this.error(res, 'Failed to update room type', 500, error);
+    }
+  }
+
+  async deleteRoomType(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.findEntry(req.params.id, id => catalogService.deleteRoomType(id));
+      this.sendDeleteResult(res, result ?? 'not_found', 'Room type');
+    } catch (error) {
+      this.error(res, 'Failed to delete room type', 500, error);
+    }
+  }
+
+  // ---------- furniture styles ----------
+
+  /**
+   * List furniture styles (?active=true for active only)
+   */
+  async listFurnitureStyles(req: Request, res: Response): Promise<void> {
+    try {
+      const furnitureStyles = await catalogService.listFurnitureStyles({
+        activeOnly: req.query.active === 'true',
+      });
+      this.success(res, furnitureStyles, 'Furniture styles retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to list furniture styles', 500, error);
+    }
+  }
+
+  async getFurnitureStyle(req: Request, res: Response): Promise<void> {
+    try {
+      const furnitureStyle = await this.findEntry(req.params.id, id =>
+        catalogService.getFurnitureStyle(id)
+      );
+      if (!furnitureStyle) {
+        this.notFound(res, 'Furniture style');
+        return;
+      }
+      this.success(res, furnitureStyle, 'Furniture style retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get furniture style', 500, error);
+    }
+  }
+
+  /**
+   * Create a furniture style ({ name, label, labels?, premiumOnly?, active? })
+   */
+  async createFurnitureStyle(req: Request, res: Response): Promise<void> {
+    try {
+      const body = this.parseEntryBody(req.body, true);
+      if ('errors' in body) {
+        this.validationError(res, body.errors);
+        return;
+      }
+
+      const furnitureStyle = await catalogService.createFurnitureStyle({
+        name: body.name!,
+        label: body.label!,
+        ...(body.labels !== undefined && { labels: body.labels }),
+        ...(body.premiumOnly !== undefined && { premiumOnly: body.premiumOnly }),
+        ...(body.active !== undefined && { active: body.active }),
+      });
+      if (!furnitureStyle) {
+        this.error(res, 'A furniture style with this name already exists', 409);
+        return;
+      }
+
+      this.success(res, furnitureStyle, 'Furniture style created successfully', 201);
+    } catch (error) {
+      this.error(res, 'Failed to create furniture style', 500, error);
+    }
+  }
+
+  /**
+   * Update label, labels, premiumOnly or active of a furniture style (the slug is immutable)
+   */
+  async updateFurnitureStyle(req: Request, res: Response): Promise<void> {
+    try {
+      const body = this.parseEntryBody(req.body, false);
+      if ('errors' in body) {
+        this.validationError(res, body.errors);
+        return;
+      }
+
+      const furnitureStyle = await this.findEntry(req.params.id, id =>
+        catalogService.updateFurnitureStyle(id, body)
+      );
+      if (!furnitureStyle) {
+        this.notFound(res, 'Furniture style');
+        return;
+      }
+
+      this.success(res, furnitureStyle, 'Furniture style updated successfully');
+    } catch (error) {
+      this.error(res, 'Failed to update furniture style', 500, error);
+    }
+  }
+
+  async deleteFurnitureStyle(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.findEntry(req.params.id, id =>
+        catalogService.deleteFurnitureStyle(id)
+      );
+      this.sendDeleteResult(res, result ?? 'not_found', 'Furniture style');
+    } catch (error) {
+      this.error(res, 'Failed to delete furniture style', 500, error);
+    }
+  }
+
+  // ---------- LoRAs ----------
+
+  /**
+   * List LoRAs (?roomTypeId=&furnitureStyleId=&active=true|false)
+   */
+  async listLoras(req: Request, res: Response): Promise<void> {
+    try {
+      const { roomTypeId, furnitureStyleId, active } = this.getFilters(req, [
+        'roomTypeId',
+        'furnitureStyleId',
+        'active',
+      ]);
+
+      const errors: Record<string, string> = {};
+      if (roomTypeId !== undefined && !UUID_PATTERN.test(roomTypeId)) {
+        errors.roomTypeId = 'roomTypeId must be a UUID';
+      }
+      if (furnitureStyleId !== undefined && !UUID_PATTERN.test(furnitureStyleId)) {
+        errors.furnitureStyleId = 'furnitureStyleId must be a UUID';
+      }
+      if (active !== undefined && active !== 'true' && active !== 'false') {
+        errors.active = 'active must be true or false';
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const loras = await catalogService.listLoras({
+        ...(roomTypeId !== undefined && { roomTypeId }),
+        ...(furnitureStyleId !== undefined && { furnitureStyleId }),
+        ...(active !== undefined && { active: active === 'true' }),
+      });
+      this.success(res, loras, 'LoRAs retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to list LoRAs', 500, error);
+    }
+  }
+
+  async getLora(req: Request, res: Response): Promise<void> {
+    try {
+      const lora = await this.findEntry(req.params.id, id => catalogService.getLora(id));
+      if (!lora) {
+        this.notFound(res, 'LoRA');
+        return;
+      }
+      this.success(res, lora, 'LoRA retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get LoRA', 500, error);
+    }
+  }
+
+  /**
+   * Create a LoRA ({ name, fileUrl, roomTypeId, furnitureStyleId, active? })
+   */
+  async createLora(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, fileUrl, roomTypeId, furnitureStyleId, active } = req.body ?? {};
+
+      const errors = this.validateLoraBody({ name, fileUrl, roomTypeId, furnitureStyleId, active }, true);
+      if (Object.keys(errors).length === 0) {
+        Object.assign(
+          errors,
+          await catalogService.validateLoraReferences({ roomTypeId, furnitureStyleId })
+        );
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const lora = await catalogService.createLora({
+        name,
+        fileUrl,
+        roomTypeId,
+        furnitureStyleId,
+        ...(active !== undefined && { active }),
+      });
+      this.success(res, lora, 'LoRA created successfully', 201);
+    } catch (error) {
+      this.error(res, 'Failed to create LoRA', 500, error);
+    }
+  }
+
+  /**
+   * Update name, fileUrl, active, roomTypeId or furnitureStyleId of a LoRA
+   */
+  async updateLora(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, fileUrl, roomTypeId, furnitureStyleId, active } = req.body ?? {};
+
+      const errors = this.validateLoraBody({ name, fileUrl, roomTypeId, furnitureStyleId, active }, false);
+      if (Object.keys(errors).length === 0) {
+        Object.assign(
+          errors,
+          await catalogService.validateLoraReferences({
+            ...(roomTypeId !== undefined && { roomTypeId }),
+            ...(furnitureStyleId !== undefined && { furnitureStyleId }),
+          })
+        );
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const lora = await this.findEntry(req.params.id, id =>
+        catalogService.updateLora(id, {
+          ...(name !== undefined && { name }),
+          ...(fileUrl !== undefined && { fileUrl }),
+          ...(roomTypeId !== undefined && { roomTypeId }),
+          ...(furnitureStyleId !== undefined && { furnitureStyleId }),
+          ...(active !== undefined && { active }),
+        })
+      );
+      if (!lora) {
+        this.notFound(res, 'LoRA');
+        return;
+      }
+
+      this.success(res, lora, 'LoRA updated successfully');
+    } catch (error) {
+      this.error(res, 'Failed to update LoRA', 500, error);
+    }
+  }
+
+  async deleteLora(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.findEntry(req.params.id, id => catalogService.deleteLora(id));
+      this.sendDeleteResult(res, result ?? 'not_found', 'LoRA');
+    } catch (error) {
+      this.error(res, 'Failed to delete LoRA', 500, error);
+    }
+  }
+
+  // ---------- helpers ----------
+
+  /**
+   * Run the lookup only for well-formed ids (malformed ids are simply not found)
+   */
+  private async findEntry<T>(
+    id: string | undefined,
+    lookup: (id: string) => Promise<T | null>
+  ): Promise<T | null> {
+    return id && UUID_PATTERN.test(id) ? lookup(id) : null;
+  }
+
+  private parseEntryBody(
+    body: unknown,
+    isCreate: boolean
+  ): CatalogEntryBody | { errors: Record<string, string> } {
+    const { name, label, labels, premiumOnly, active } = (body ?? {}) as Record<string, unknown>;
+    const errors: Record<string, string> = {};
+
+    if (isCreate) {
+      const slugError = catalogService.validateSlug(name);
+      if (slugError) {
+        errors.name = slugError;
+      }
+    } else if (name !== undefined) {
+      errors.name = 'name cannot be changed; create a new entry and deactivate this one';
+    }
+    if ((isCreate || label !== undefined) && (typeof label !== 'string' || !label.trim())) {
+      errors.label = 'label must be a non-empty string';
+    }
+    if (labels !== undefined && !this.isValidLabels(labels)) {
+      errors.labels = `labels must map locales (${SUPPORTED_CATALOG_LOCALES.join(', ')}) to non-empty strings`;
+    }
+    if (premiumOnly !== undefined && typeof premiumOnly !== 'boolean') {
+      errors.premiumOnly = 'premiumOnly must be a boolean';
+    }
+    if (active !== undefined && typeof active !== 'boolean') {
+      errors.active = 'active must be a boolean';
+    }
+    if (Object.keys(errors).length > 0) {
+      return { errors };
+    }
+
+    return {
+      ...(isCreate && { name: name as string }),
+      ...(label !== undefined && { label: (label as string).trim() }),
+      ...(labels !== undefined && { labels: labels as Record<string, string> }),
+      ...(premiumOnly !== undefined && { premiumOnly: premiumOnly as boolean }),
+      ...(active !== undefined && { active: active as boolean }),
+    };
+  }
+
+  private isValidLabels(labels: unknown): boolean {
+    return (
+      typeof labels === 'object' &&
+      labels !== null &&
+      !Array.isArray(labels) &&
+      Object.entries(labels).every(
+        ([locale, value]) =>
+          SUPPORTED_CATALOG_LOCALES.includes(locale as CatalogLocale) &&
+          typeof value === 'string' &&
+          value.trim().length > 0
+      )
+    );
+  }
+
+  private validateLoraBody(
+    body: Record<string, unknown>,
+    isCreate: boolean
+  ): Record<string, string> {
+    const errors: Record<string, string> = {};
+    const required = (field: string) => isCreate || body[field] !== undefined;
+
+    if (required('name') && (typeof body.name !== 'string' || !body.name.trim())) {
+      errors.name = 'name must be a non-empty string';
+    }
+    if (required('fileUrl') && (typeof body.fileUrl !== 'string' || !body.fileUrl.trim())) {
+      errors.fileUrl = 'fileUrl must be a non-empty string';
+    }
+    for (const field of ['roomTypeId', 'furnitureStyleId']) {
+      const value = body[field];
+      if (required(field) && (typeof value !== 'string' || !UUID_PATTERN.test(value))) {
+        errors[field] = `${field} must be a UUID`;
+      }
+    }
+    if (body.active !== undefined && typeof body.active !== 'boolean') {
+      errors.active = 'active must be a boolean';
+    }
+    return errors;
+  }
+
+  private sendDeleteResult(res: Response, result: CatalogDeleteResult, resource: string): void {
+    if (result === 'not_found') {
+      this.notFound(res, resource);
+      return;
+    }
+    if (result === 'in_use') {
+      this.error(res, `${resource} is still referenced; deactivate it instead`, 409);
+      return;
+    }
+    this.success(res, null, `${resource} deleted successfully`);
+  }
+}
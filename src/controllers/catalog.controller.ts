@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { BaseController } from './base.controller';
+import { catalogService } from '@/services/catalog.service';
+
+export class CatalogController extends BaseController {
+  /**
+   * Room types, furniture styles, stages and provider support, with labels in
+   * the locale from ?locale= or Accept-Language
+   */
+  async getCatalog(req: Request, res: Response): Promise<void> {
+    try {
+      const locale = catalogService.resolveLocale(req.query.locale, req.get('accept-language'));
+      const catalog = await catalogService.getPublicCatalog(locale);
+
+      res.set('Content-Language', locale);
+      this.success(res, catalog, 'Catalog retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get catalog', 500, error);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { Response } from 'express';
+import { BaseController } from './base.controller';
+import { AuthenticatedRequest } from '@/middleware/auth-middleware';
+import { creditService } from '@/services/credit.service';
+import { CreditLedgerType } from '@/repositories/credit-ledger.repository';
+
+const CREDIT_LEDGER_TYPES: CreditLedgerType[] = ['reserve', 'capture', 'refund', 'grant'];
+
+export class CreditController extends BaseController {
+  /**
+   * Get current credit balance and paginated ledger history
+   */
+  async getHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const currentUser = req.user!;
+      const pagination = this.getPagination(req);
+      const { type } = this.getFilters(req, ['type']);
+
+      if (type !== undefined && !CREDIT_LEDGER_TYPES.includes(type)) {
+        this.validationError(res, {
+          type: `type must be one of: ${CREDIT_LEDGER_TYPES.join(', ')}`,
+        });
+        return;
+      }
+
+      const [balance, history] = await Promise.all([
+        creditService.getBalance(currentUser.id),
+        creditService.getHistory(currentUser.id, { ...pagination, type }),
+      ]);
+
+      this.success(
+        res,
+        { balance, entries: history.data, pagination: history.pagination },
+        'Credit history retrieved successfully'
+      );
+    } catch (error) {
+      this.error(res, 'Failed to get credit history', 500, error);
+    }
+  }
+}
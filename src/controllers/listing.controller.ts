@@ -0,0 +1,553 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { BaseController } from './base.controller';
+import { AuthenticatedRequest } from '@/middleware/auth-middleware';
+import { EntitledRequest } from '@/middleware/entitlement-middleware';
+import { listingService } from '@/services/listing.service';
+import { designPaletteService } from '@/services/design-palette.service';
+import { listingExportService } from '@/services/listing-export.service';
+import { catalogService } from '@/services/catalog.service';
+import { entitlementService } from '@/services/entitlement.service';
+import { virtualStagingService } from '@/services/virtual-staging.service';
+import { ENTITLEMENT_FEATURES } from '@/interfaces/entitlement.interface';
+import {
+  LISTING_EXPORT_DEFAULT_QUALITY,
+  LISTING_EXPORT_DEFAULT_SIZES,
+  LISTING_EXPORT_MAX_SIZE,
+  LISTING_EXPORT_MAX_SIZES,
+  LISTING_EXPORT_MIN_QUALITY,
+  LISTING_EXPORT_MIN_SIZE,
+  LISTING_STAGING_MAX_IMAGES,
+  ListingExportSize,
+} from '@/interfaces/listing.interface';
+import { logger } from '@/lib/logger';
+import { Listing } from '@/types/database';
+import {
+  Provider,
+  StageSelectionConfig,
+  STAGING_STAGES,
+} from '@/interfaces/upload.interface';
+
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+const MAX_TITLE_LENGTH = 200;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per photo
+    fieldSize: 1024 * 1024,
+    fields: 20,
+    files: LISTING_STAGING_MAX_IMAGES,
+  },
+  fileFilter: (_req, file, cb) => {
+    if (file.fieldname !== 'images') {
+      cb(new Error(`Unexpected field: ${file.fieldname}. Send the photos as "images"`));
+    } else if (!ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+      cb(new Error('File type not allowed. Use JPEG, PNG or WebP.'));
+    } else {
+      cb(null, true);
+    }
+  },
+});
+
+const isTruthyField = (value: unknown): boolean => value === true || value === 'true';
+
+export class ListingController extends BaseController {
+  /**
+   * Multer middleware for the photos of a batch (multipart field "images")
+   */
+  uploadImagesMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+    upload.array('images', LISTING_STAGING_MAX_IMAGES)(req, res, (err: unknown) => {
+      if (!err) {
+        next();
+        return;
+      }
+
+      if (err instanceof multer.MulterError) {
+        const messages: Partial<Record<multer.ErrorCode, string>> = {
+          LIMIT_FILE_SIZE: 'Each photo must be at most 10MB',
+          LIMIT_FILE_COUNT: `At most ${LISTING_STAGING_MAX_IMAGES} photos per batch`,
+          LIMIT_UNEXPECTED_FILE: `At most ${LISTING_STAGING_MAX_IMAGES} photos per batch, sent as "images"`,
+        };
+        this.validationError(res, { images: messages[err.code] ?? err.message });
+        return;
+      }
+
+      this.validationError(res, {
+        images: err instanceof Error ? err.message : 'Invalid upload',
+      });
+    });
+  };
+
+  /**
+   * Create a listing ({ title, address?, externalReference? })
+   */
+  async createListing(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { title, address, externalReference } = req.body ?? {};
+
+      const errors: Record<string, string> = {};
+      if (typeof title !== 'string' || !title.trim() || title.length > MAX_TITLE_LENGTH) {
+        errors.title = `title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`;
+      }
+      if (address !== undefined && typeof address !== 'string') {
+        errors.address = 'address must be a string';
+      }
+      if (externalReference !== undefined && typeof externalReference !== 'string') {
+        errors.externalReference = 'externalReference must be a string';
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const listing = await listingService.createListing(req.user!.id, {
+        title: title.trim(),
+        ...(address !== undefined && { address }),
+        ...(externalReference !== undefined && { externalReference }),
+      });
+
+      this.success(res, listing, 'Listing created successfully', 201);
+    } catch (error) {
+      this.error(res, 'Failed to create listing', 500, error);
+    }
+  }
+
+  /**
+   * List the user's listings (?page=&limit=)
+   */
+  async listListings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const listings = await listingService.listListings(req.user!.id, this.getPagination(req));
+      this.success(res, listings, 'Listings retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to list listings', 500, error);
+    }
+  }
+
+  /**
+   * Get a listing with the progress of its batches
+   */
+  async getListing(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const id = req.params.id!;
+      const listing = UUID_PATTERN.test(id)
+        ? await listingService.getListingDetails(req.user!.id, id)
+        : null;
+
+      if (!listing) {
+        this.notFound(res, 'Listing');
+        return;
+      }
+
+      this.success(res, listing, 'Listing retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get listing', 500, error);
+    }
+  }
+
+  /**
+   * Stage many photos of a listing with one furniture style.
+   * Multipart: images[] plus roomTypes (JSON array or comma-separated, one per
+   * photo in upload order), furnitureStyle, optional provider, preserveArchitecture
+   * and stage fields (foundation, complement, ...).
+   */
+  async createStaging(req: EntitledRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const id = req.params.id!;
+      const listing = UUID_PATTERN.test(id) ? await listingService.getListing(userId, id) : null;
+      if (!listing) {
+        this.notFound(res, 'Listing');
+        return;
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const body = req.body ?? {};
+      const { furnitureStyle, provider } = body;
+      const roomTypes = this.parseRoomTypes(body.roomTypes);
+
+      const errors: Record<string, string> = {};
+      if (files.length === 0) {
+        errors.images = 'At least one photo is required';
+      }
+      if (!roomTypes || roomTypes.length !== files.length) {
+        errors.roomTypes = 'roomTypes must list one room type per photo, in upload order';
+      } else {
+        const invalid = [];
+        for (const roomType of new Set(roomTypes)) {
+          if (!(await catalogService.isActiveRoomType(roomType))) {
+            invalid.push(roomType);
+          }
+        }
+        if (invalid.length > 0) {
+          errors.roomTypes = `Unknown room types: ${invalid.join(', ')}`;
+        }
+      }
+      if (typeof furnitureStyle !== 'string' || !(await catalogService.isActiveFurnitureStyle(furnitureStyle))) {
+        errors.furnitureStyle = 'furnitureStyle must be an active furniture style';
+      }
+      if (provider !== undefined && !virtualStagingService.isProviderAvailable(provider as Provider)) {
+        errors.provider = `provider must be one of: ${virtualStagingService
+          .getAvailableProviders()
+          .join(', ')}`;
+      }
+
+      const stageSelection = this.parseStageSelection(body);
+      if (!Object.values(stageSelection).some(Boolean)) {
+        errors.stages = 'At least one stage must be selected';
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      if (listing.designPalette && listing.designPalette.furnitureStyle !== furnitureStyle) {
+        this.error(
+          res,
+          `The listing palette is locked to the "${listing.designPalette.furnitureStyle}" furniture style; use it or reset the palette`,
+          409
+        );
+        return;
+      }
+
+      // The entitlement middleware only sees a single roomType; check every photo here
+      if (
+        req.entitlements &&
+        !entitlementService.hasFeature(req.entitlements, ENTITLEMENT_FEATURES.PREMIUM_ROOM_TYPES)
+      ) {
+        for (const roomType of new Set(roomTypes!)) {
+          if (await entitlementService.isPremiumRoomType(roomType)) {
+            res.status(403).json({
+              success: false,
+              message: `Room type "${roomType}" is not available on your plan`,
+              requiredFeature: ENTITLEMENT_FEATURES.PREMIUM_ROOM_TYPES,
+            });
+            return;
+          }
+        }
+      }
+
+      const staging = await listingService.createStaging(userId, listing, {
+        furnitureStyle,
+        stageSelection,
+        ...(provider !== undefined && { provider: provider as Provider }),
+        preserveArchitecture: isTruthyField(body.preserveArchitecture),
+        images: files.map((file, index) => ({
+          roomType: roomTypes![index]!,
+          buffer: file.buffer,
+          originalName: file.originalname,
+          mimeType: file.mimetype,
+        })),
+      });
+
+      if (!staging) {
+        this.error(res, 'Insufficient credits for every photo of the batch', 402);
+        return;
+      }
+
+      this.success(res, staging, 'Listing staging created successfully', 201);
+    } catch (error) {
+      this.error(res, 'Failed to create listing staging', 500, error);
+    }
+  }
+
+  /**
+   * Aggregate progress and per-photo status of a batch
+   */
+  async getStaging(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id, stagingId } = req.params;
+      const staging =
+        UUID_PATTERN.test(id!) && UUID_PATTERN.test(stagingId!)
+          ? await listingService.getStaging(req.user!.id, id!, stagingId!)
+          : null;
+
+      if (!staging) {
+        this.notFound(res, 'Listing staging');
+        return;
+      }
+
+      this.success(res, staging, 'Listing staging retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get listing staging', 500, error);
+    }
+  }
+
+  /**
+   * Download the staged photos of the listing as a ZIP of before/after pairs
+   * (?sizes=1024,2048,original&quality=85&watermark=true&stagingId=)
+   */
+  async exportListing(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const id = req.params.id!;
+      const listing = UUID_PATTERN.test(id)
+        ? await listingService.getListing(req.user!.id, id)
+        : null;
+      if (!listing) {
+        this.notFound(res, 'Listing');
+        return;
+      }
+
+      const { sizes: sizesParam, quality: qualityParam, watermark, stagingId } = req.query;
+      const sizes = this.parseExportSizes(sizesParam);
+      const quality =
+        qualityParam === undefined ? LISTING_EXPORT_DEFAULT_QUALITY : Number(qualityParam);
+
+      const errors: Record<string, string> = {};
+      if (!sizes) {
+        errors.sizes = `sizes must list up to ${LISTING_EXPORT_MAX_SIZES} values: "original" or a pixel size between ${LISTING_EXPORT_MIN_SIZE} and ${LISTING_EXPORT_MAX_SIZE}`;
+      }
+      if (!Number.isInteger(quality) || quality < LISTING_EXPORT_MIN_QUALITY || quality > 100) {
+        errors.quality = `quality must be an integer between ${LISTING_EXPORT_MIN_QUALITY} and 100`;
+      }
+      if (watermark !== undefined && watermark !== 'true' && watermark !== 'false') {
+        errors.watermark = 'watermark must be true or false';
+      }
+      if (stagingId !== undefined && (typeof stagingId !== 'string' || !UUID_PATTERN.test(stagingId))) {
+        errors.stagingId = 'stagingId must be a listing staging id';
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      if (
+        typeof stagingId === 'string' &&
+        !(await listingService.getStaging(req.user!.id, listing.id, stagingId))
+      ) {
+        this.notFound(res, 'Listing staging');
+        return;
+      }
+
+      const uploads = await listingExportService.findExportableUploads(
+        listing,
+        typeof stagingId === 'string' ? stagingId : undefined
+      );
+      if (uploads.length === 0) {
+        this.error(res, 'The listing has no staged photos to export', 409);
+        return;
+      }
+
+      const fileName = listing.title
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-zA-Z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .toLowerCase();
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${fileName || `listing-${listing.id}`}.zip"`
+      );
+
+      await listingExportService.writeExport(
+        listing,
+        uploads,
+        {
+          sizes: sizes!,
+          quality,
+          watermark: watermark !== 'false',
+          ...(typeof stagingId === 'string' && { stagingId }),
+        },
+        res
+      );
+    } catch (error) {
+      if (res.headersSent) {
+        // The ZIP is already streaming; drop the connection so the download fails visibly
+        logger.error('Failed to export listing', error as Error);
+        res.destroy();
+        return;
+      }
+      this.error(res, 'Failed to export listing', 500, error);
+    }
+  }
+
+  /**
+   * Draw a new design palette for the listing ({ furnitureStyle, seed? }),
+   * replacing the current one
+   */
+  async generatePalette(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const listing = await this.findUnlockedListing(req, res);
+      if (!listing) {
+        return;
+      }
+      const { furnitureStyle, seed } = req.body ?? {};
+
+      const errors = designPaletteService.validateChanges({ seed });
+      if (typeof furnitureStyle !== 'string' || !(await catalogService.isActiveFurnitureStyle(furnitureStyle))) {
+        errors.furnitureStyle = 'furnitureStyle must be an active furniture style';
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const updated = await listingService.generatePalette(listing, furnitureStyle, seed);
+      this.success(res, updated.designPalette, 'Listing palette generated successfully', 201);
+    } catch (error) {
+      this.error(res, 'Failed to generate listing palette', 500, error);
+    }
+  }
+
+  /**
+   * Adjust the listing palette ({ seed?, materials?, colors?, itemPicks?, referenceUploadId? }).
+   * referenceUploadId is a completed photo of the listing sent as reference image
+   * to every later photo; null removes it.
+   */
+  async updatePalette(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const listing = await this.findUnlockedListing(req, res);
+      if (!listing) {
+        return;
+      }
+      if (!listing.designPalette) {
+        this.notFound(res, 'Listing palette');
+        return;
+      }
+
+      const body = req.body ?? {};
+      const { seed, materials, colors, itemPicks, referenceUploadId } = body;
+      const errors = designPaletteService.validateChanges({ seed, materials, colors, itemPicks });
+      if (
+        referenceUploadId !== undefined &&
+        referenceUploadId !== null &&
+        (typeof referenceUploadId !== 'string' ||
+          !UUID_PATTERN.test(referenceUploadId) ||
+          !(await listingService.isValidReferenceUpload(listing, referenceUploadId)))
+      ) {
+        errors.referenceUploadId = 'referenceUploadId must be a completed photo of this listing';
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      if (referenceUploadId) {
+        const entitlements = await entitlementService.getEntitlements(req.user!.id);
+        if (!entitlementService.hasFeature(entitlements, ENTITLEMENT_FEATURES.REFERENCE_IMAGES)) {
+          res.status(403).json({
+            success: false,
+            message: 'Reference images are not available on your plan',
+            requiredFeature: ENTITLEMENT_FEATURES.REFERENCE_IMAGES,
+          });
+          return;
+        }
+      }
+
+      const updated = await listingService.updatePalette(listing, listing.designPalette, {
+        ...(seed !== undefined && { seed }),
+        ...(materials !== undefined && { materials }),
+        ...(colors !== undefined && { colors }),
+        ...(itemPicks !== undefined && { itemPicks }),
+        ...(referenceUploadId !== undefined && { referenceUploadId }),
+      });
+      this.success(res, updated.designPalette, 'Listing palette updated successfully');
+    } catch (error) {
+      this.error(res, 'Failed to update listing palette', 500, error);
+    }
+  }
+
+  /**
+   * Remove the listing palette; the next batch draws a new one
+   */
+  async deletePalette(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const listing = await this.findUnlockedListing(req, res);
+      if (!listing) {
+        return;
+      }
+
+      await listingService.resetPalette(listing);
+      this.success(res, null, 'Listing palette removed successfully');
+    } catch (error) {
+      this.error(res, 'Failed to remove listing palette', 500, error);
+    }
+  }
+
+  /**
+   * Listing of the request, answering 404 when missing and 409 while a batch
+   * is using its palette
+   */
+  private async findUnlockedListing(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<Listing | null> {
+    const id = req.params.id!;
+    const listing = UUID_PATTERN.test(id)
+      ? await listingService.getListing(req.user!.id, id)
+      : null;
+    if (!listing) {
+      this.notFound(res, 'Listing');
+      return null;
+    }
+
+    if (await listingService.isPaletteLocked(listing)) {
+      this.error(res, 'The listing palette cannot change while a staging batch is processing', 409);
+      return null;
+    }
+    return listing;
+  }
+
+  /**
+   * Comma-separated export sizes, deduplicated; the defaults when absent
+   */
+  private parseExportSizes(value: unknown): ListingExportSize[] | null {
+    if (value === undefined) {
+      return LISTING_EXPORT_DEFAULT_SIZES;
+    }
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    const sizes: ListingExportSize[] = [];
+    for (const item of value.split(',').map(size => size.trim().toLowerCase())) {
+      const size = item === 'original' ? item : Number(item.replace(/px$/, ''));
+      if (
+        size !== 'original' &&
+        (!Number.isInteger(size) || size < LISTING_EXPORT_MIN_SIZE || size > LISTING_EXPORT_MAX_SIZE)
+      ) {
+        return null;
+      }
+      if (!sizes.includes(size)) {
+        sizes.push(size);
+      }
+    }
+
+    return sizes.length > 0 && sizes.length <= LISTING_EXPORT_MAX_SIZES ? sizes : null;
+  }
+
+  private parseRoomTypes(value: unknown): string[] | null {
+    let roomTypes: unknown = value;
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      if (trimmed.startsWith('[')) {
+        try {
+          roomTypes = JSON.parse(trimmed);
+        } catch {
+          return null;
+        }
+      } else {
+        roomTypes = trimmed.split(',').map(roomType => roomType.trim());
+      }
+    }
+
+    return Array.isArray(roomTypes) &&
+      roomTypes.every(roomType => typeof roomType === 'string' && roomType)
+      ? roomTypes
+      : null;
+  }
+
+  /**
+   * Explicit stage fields, or every stage when none is sent (the entitlement
+   * middleware already narrowed the default to the plan's stages)
+   */
+  private parseStageSelection(body: Record<string, unknown>): StageSelectionConfig {
+    const hasAnyStageField = STAGING_STAGES.some(stage => body[stage] !== undefined);
+    return Object.fromEntries(
+      STAGING_STAGES.map(stage => [stage, hasAnyStageField ? isTruthyField(body[stage]) : true])
+    ) as unknown as StageSelectionConfig;
+  }
+}
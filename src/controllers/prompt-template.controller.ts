@@ -0,0 +1,165 @@
+import { Request, Response } from 'express';
+import { BaseController } from './base.controller';
+import { AuthenticatedRequest } from '@/middleware/auth-middleware';
+import { promptTemplateService } from '@/services/prompt-template.service';
+import {
+  PROMPT_TEMPLATE_NAMES,
+  PromptTemplateName,
+} from '@/interfaces/prompt-template.interface';
+
+export class PromptTemplateController extends BaseController {
+  /**
+   * List templates with their built-in body, variables, versions and traffic split
+   */
+  async listTemplates(_req: Request, res: Response): Promise<void> {
+    try {
+      const templates = await promptTemplateService.listTemplates();
+      this.success(res, templates, 'Prompt templates retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to list prompt templates', 500, error);
+    }
+  }
+
+  /**
+   * Get one version of a template
+   */
+  async getVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const name = this.parseName(req, res);
+      if (!name) {
+        return;
+      }
+      const version = this.parseVersion(req.params.version);
+      if (version === null) {
+        this.validationError(res, { version: 'version must be a positive integer' });
+        return;
+      }
+
+      const found = await promptTemplateService.getVersion(name, version);
+      if (!found) {
+        this.notFound(res, 'Prompt template version');
+        return;
+      }
+
+      this.success(res, found, 'Prompt template version retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get prompt template version', 500, error);
+    }
+  }
+
+  /**
+   * Create a new version of a template ({ body, notes? }); it gets no traffic
+   * until assigned through the traffic endpoint
+   */
+  async createVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const name = this.parseName(req, res);
+      if (!name) {
+        return;
+      }
+      const { body, notes } = req.body ?? {};
+
+      const errors = promptTemplateService.validateBody(name, body);
+      if (notes !== undefined && typeof notes !== 'string') {
+        errors.notes = 'notes must be a string';
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const created = await promptTemplateService.createVersion(name, body, {
+        createdBy: req.user!.id,
+        ...(notes !== undefined && { notes }),
+      });
+
+      this.success(res, created, 'Prompt template version created successfully', 201);
+    } catch (error) {
+      this.error(res, 'Failed to create prompt template version', 500, error);
+    }
+  }
+
+  /**
+   * Replace the traffic split of a template ({ traffic: { "<version>": percent } }).
+   * Versions left out stop receiving traffic; the remainder goes to the built-in template.
+   */
+  async setTraffic(req: Request, res: Response): Promise<void> {
+    try {
+      const name = this.parseName(req, res);
+      if (!name) {
+        return;
+      }
+      const { traffic } = req.body ?? {};
+
+      if (typeof traffic !== 'object' || traffic === null || Array.isArray(traffic)) {
+        this.validationError(res, {
+          traffic: 'traffic must be an object mapping versions to percentages',
+        });
+        return;
+      }
+
+      const errors = await promptTemplateService.validateTraffic(name, traffic);
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const versions = await promptTemplateService.setTraffic(name, traffic);
+      this.success(res, versions, 'Prompt template traffic updated successfully');
+    } catch (error) {
+      this.error(res, 'Failed to update prompt template traffic', 500, error);
+    }
+  }
+
+  /**
+   * Completion and complaint rates of uploads per template version (?from=&to=)
+   */
+  async getStats(req: Request, res: Response): Promise<void> {
+    try {
+      const name = this.parseName(req, res);
+      if (!name) {
+        return;
+      }
+      const { from, to } = this.getFilters(req, ['from', 'to']);
+
+      const errors: Record<string, string> = {};
+      const period: { from?: Date; to?: Date } = {};
+      for (const [field, value] of Object.entries({ from, to })) {
+        if (value === undefined) {
+          continue;
+        }
+        const date = new Date(String(value));
+        if (Number.isNaN(date.getTime())) {
+          errors[field] = `${field} must be an ISO date`;
+          continue;
+        }
+        period[field as 'from' | 'to'] = date;
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const variants = await promptTemplateService.getVariantStats(name, period);
+      this.success(res, { name, variants }, 'Prompt template stats retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get prompt template stats', 500, error);
+    }
+  }
+
+  private parseName(req: Request, res: Response): PromptTemplateName | null {
+    const { name } = req.params;
+    if (!promptTemplateService.isTemplateName(name)) {
+      this.validationError(res, {
+        name: `name must be one of: ${PROMPT_TEMPLATE_NAMES.join(', ')}`,
+      });
+      return null;
+    }
+    return name;
+  }
+
+  private parseVersion(value: string | undefined): number | null {
+    const version = Number(value);
+    return Number.isInteger(version) && version > 0 ? version : null;
+  }
+}
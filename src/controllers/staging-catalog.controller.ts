@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { BaseController } from './base.controller';
+import { AuthenticatedRequest } from '@/middleware/auth-middleware';
+import { stagingCatalogService } from '@/services/staging-catalog.service';
+import { StagingCatalog, StagingCatalogChanges } from '@/interfaces/staging-catalog.interface';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export class StagingCatalogController extends BaseController {
+  /**
+   * Get the catalog currently used to generate staging plans
+   */
+  async getActive(_req: Request, res: Response): Promise<void> {
+    try {
+      const active = await stagingCatalogService.getCatalog();
+      this.success(res, active, 'Staging catalog retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get staging catalog', 500, error);
+    }
+  }
+
+  /**
+   * Paginated list of catalog versions, newest first
+   */
+  async listVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const versions = await stagingCatalogService.listVersions(this.getPagination(req));
+      this.success(
+        res,
+        { versions: versions.data, pagination: versions.pagination },
+        'Staging catalog versions retrieved successfully'
+      );
+    } catch (error) {
+      this.error(res, 'Failed to list staging catalog versions', 500, error);
+    }
+  }
+
+  /**
+   * Get one catalog version
+   */
+  async getVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const version = this.parseVersion(req.params.version);
+      if (version === null) {
+        this.validationError(res, { version: 'version must be a positive integer' });
+        return;
+      }
+
+      const found = await stagingCatalogService.getVersion(version);
+      if (!found) {
+        this.notFound(res, 'Staging catalog version');
+        return;
+      }
+
+      this.success(res, found, 'Staging catalog version retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get staging catalog version', 500, error);
+    }
+  }
+
+  /**
+   * Create a new catalog version, either from a full catalog or from
+   * per-room/per-style changes applied on top of baseVersion (default: active)
+   */
+  async createVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { catalog, rooms, styles, baseVersion, notes, activate } = req.body ?? {};
+
+      const errors: Record<string, string> = {};
+      if (catalog !== undefined && (rooms !== undefined || styles !== undefined)) {
+        errors.catalog = 'send either a full catalog or rooms/styles changes, not both';
+      }
+      if (catalog === undefined && rooms === undefined && styles === undefined) {
+        errors.catalog = 'catalog or rooms/styles changes are required';
+      }
+      if (rooms !== undefined && !isPlainObject(rooms)) {
+        errors.rooms = 'rooms must be an object keyed by room type';
+      }
+      if (styles !== undefined && !isPlainObject(styles)) {
+        errors.styles = 'styles must be an object keyed by furniture style';
+      }
+      if (
+        baseVersion !== undefined &&
+        (catalog !== undefined || !Number.isInteger(baseVersion) || baseVersion < 1)
+      ) {
+        errors.baseVersion = 'baseVersion must be a positive integer and only applies to changes';
+      }
+      if (notes !== undefined && typeof notes !== 'string') {
+        errors.notes = 'notes must be a string';
+      }
+      if (activate !== undefined && typeof activate !== 'boolean') {
+        errors.activate = 'activate must be a boolean';
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      let candidate: StagingCatalog;
+      if (catalog !== undefined) {
+        candidate = catalog;
+      } else {
+        const base = await stagingCatalogService.getBaseCatalog(baseVersion);
+        if (!base) {
+          this.notFound(res, 'Staging catalog version');
+          return;
+        }
+        const changes: StagingCatalogChanges = {
+          ...(rooms !== undefined && { rooms }),
+          ...(styles !== undefined && { styles }),
+        };
+        candidate = stagingCatalogService.applyChanges(base, changes);
+      }
+
+      const catalogErrors = stagingCatalogService.validateCatalog(candidate);
+      if (Object.keys(catalogErrors).length > 0) {
+        this.validationError(res, catalogErrors);
+        return;
+      }
+
+      const created = await stagingCatalogService.createVersion(candidate, {
+        createdBy: req.user!.id,
+        ...(notes !== undefined && { notes }),
+        ...(activate !== undefined && { activate }),
+      });
+
+      this.success(res, created, 'Staging catalog version created successfully', 201);
+    } catch (error) {
+      this.error(res, 'Failed to create staging catalog version', 500, error);
+    }
+  }
+
+  /**
+   * Make a version the active catalog (also used to roll back)
+   */
+  async activateVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const version = this.parseVersion(req.params.version);
+      if (version === null) {
+        this.validationError(res, { version: 'version must be a positive integer' });
+        return;
+      }
+
+      const activated = await stagingCatalogService.activateVersion(version);
+      if (!activated) {
+        this.notFound(res, 'Staging catalog version');
+        return;
+      }
+
+      this.success(res, activated, 'Staging catalog version activated successfully');
+    } catch (error) {
+      this.error(res, 'Failed to activate staging catalog version', 500, error);
+    }
+  }
+
+  private parseVersion(value: string | undefined): number | null {
+    const version = Number(value);
+    return Number.isInteger(version) && version > 0 ? version : null;
+  }
+}
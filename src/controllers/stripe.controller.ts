@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { BaseController } from './base.controller';
 import { AuthenticatedRequest } from '@/middleware/auth-middleware';
 import { StripeService } from '@/services/stripe.service';
+import { stripeSyncService } from '@/services/stripe-sync.service';
 import { logger } from '@/lib/logger';
 
 export class StripeController extends BaseController {
@@ -170,7 +171,7 @@ export class StripeController extends BaseController {
   async handleWebhook(req: Request, res: Response): Promise<void> {
     try {
       const signature = req.headers['stripe-signature'] as string;
-      const payload = req.body;
+      const payload = req.body; // raw Buffer (see express.raw in index.ts)
 
       if (!signature) {
         this.validationError(res, { signature: 'Stripe signature is required' });
@@ -195,26 +196,8 @@ export class StripeController extends BaseController {
         id: event.id 
       });
 
-      // Handle different event types
-      switch (event.type) {
-        case 'customer.subscription.created':
-          logger.info('Subscription created', { data: event.data.object as any });
-          break;
-        case 'customer.subscription.updated':
-          logger.info('Subscription updated', { data: event.data.object as any });
-          break;
-        case 'customer.subscription.deleted':
-          logger.info('Subscription deleted', { data: event.data.object as any });
-          break;
-        case 'invoice.payment_succeeded':
-          logger.info('Payment succeeded', { data: event.data.object as any });
-          break;
-        case 'invoice.payment_failed':
-          logger.info('Payment failed', { data: event.data.object as any });
-          break;
-        default:
-          logger.info('Unhandled event type', { type: event.type });
-      }
+      // Apply asynchronously; the job id (event id) deduplicates redeliveries
+      await stripeSyncService.enqueueEvent(event);
 
       // Respond to Stripe
       res.status(200).json({ received: true });
@@ -5,7 +5,9 @@ import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import { uploadRepository } from '../repositories/upload.repository';
-import { VirtualStagingService } from '../services/virtual-staging.service';
+import { virtualStagingService } from '../services/virtual-staging.service';
+import { creditService } from '../services/credit.service';
+import { catalogService } from '../services/catalog.service';
 import { BlackForestProvider } from '../services/providers/black-forest.provider';
 import { 
   CreateUploadRequest, 
@@ -92,7 +94,13 @@ export class UploadController {
       }
 
       // Validar dados do corpo da requisição
-      const { roomType, furnitureStyle, plan = 'free', saveMask = false, hasMask = false } = req.body as CreateUploadRequest & { plan: string };
+      const {
+        roomType,
+        furnitureStyle,
+        saveMask = false,
+        hasMask = false,
+        preserveArchitecture = false,
+      } = req.body as CreateUploadRequest;
       
       if (!roomType || !furnitureStyle) {
         res.status(400).json({
@@ -102,6 +110,18 @@ export class UploadController {
         return;
       }
 
+      // Validar contra os slugs ativos do catálogo (gerenciados pelos admins)
+      if (
+        !(await catalogService.isActiveRoomType(roomType)) ||
+        !(await catalogService.isActiveFurnitureStyle(furnitureStyle))
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Parâmetros de roomType ou furnitureStyle inválidos'
+        });
+        return;
+      }
+
       // Validar parâmetros com o provider da Black Forest
       try {
         this.blackForestProvider.validateParams({
@@ -127,6 +147,15 @@ export class UploadController {
         return;
       }
 
+      // Verificar saldo de créditos antes de enviar a imagem
+      if (!(await creditService.hasSufficientCredits(userId))) {
+        res.status(402).json({
+          success: false,
+          message: 'Créditos insuficientes'
+        });
+        return;
+      }
+
       // Gerar nome único para o arquivo
       const fileExtension = path.extname(imageFile.originalname);
       const fileName = `input/${userId}/${uuidv4()}${fileExtension}`;
@@ -151,8 +180,20 @@ export class UploadController {
         furnitureStyle: furnitureStyle as FurnitureStyle,
         provider: 'black-forest', // Upload controller usa apenas Black Forest
         inputImageUrl,
+        preserveArchitecture: String(preserveArchitecture) === 'true',
       });
 
+      // Reservar os créditos do upload (capturados ao concluir, devolvidos em caso de falha)
+      const reservation = await creditService.reserveForUpload(userId, upload.id);
+      if (!reservation) {
+        await uploadRepository.delete(upload.id);
+        res.status(402).json({
+          success: false,
+          message: 'Créditos insuficientes'
+        });
+        return;
+      }
+
       // Processar máscara (enviada pelo usuário ou gerada automaticamente)
       let maskUrl: string | undefined;
       if (saveMask || maskFile) {
@@ -206,8 +247,12 @@ export class UploadController {
         }
       }
 
-      // Iniciar processamento assíncrono
-      this.processImageAsync(upload.id, inputImageUrl, roomType as RoomType, furnitureStyle as FurnitureStyle, maskUrl);
+      // Enfileirar processamento (executado pelo image-processing worker)
+      await virtualStagingService.enqueueNewUpload({
+        uploadId: upload.id,
+        mode: 'single',
+        ...(req.body.highResolution === true && { highResolution: true })
+      });
 
       // Retornar resposta imediata
       const responseData: any = {
@@ -238,183 +283,6 @@ export class UploadController {
     }
   }
 
-  /**
-   * Processamento assíncrono da imagem
-   */
-  private async processImageAsync(
-    uploadId: string,
-    inputImageUrl: string,
-    roomType: RoomType,
-    furnitureStyle: FurnitureStyle,
-    maskUrl?: string
-  ): Promise<void> {
-    try {
-      // Atualizar status para processing
-      await uploadRepository.updateStatus(uploadId, 'processing');
-
-      // Baixar a imagem do S3 para obter o buffer
-      const imageResponse = await fetch(inputImageUrl);
-      if (!imageResponse.ok) {
-        throw new Error(`Erro ao baixar imagem: ${imageResponse.statusText}`);
-      }
-      const imageBuffer = Buffer.from(await imageResponse.arrayBuffer());
-
-      // Converter imagem para base64 (sem prefixo data URL)
-      const imageBase64 = imageBuffer.toString('base64');
-
-      // Obter máscara (enviada pelo usuário ou gerar automaticamente)
-      let maskBase64: string;
-      if (maskUrl) {
-        // Usar máscara enviada pelo usuário
-        console.log('Usando máscara enviada pelo usuário:', maskUrl);
-        const maskResponse = await fetch(maskUrl);
-        if (!maskResponse.ok) {
-          throw new Error(`Erro ao baixar máscara: ${maskResponse.statusText}`);
-        }
-        const maskBuffer = Buffer.from(await maskResponse.arrayBuffer());
-        maskBase64 = maskBuffer.toString('base64');
-      } else {
-        // Gerar máscara branca com as mesmas dimensões da imagem
-        console.log('Gerando máscara branca automaticamente');
-        const maskBase64String = await generateWhiteMaskBase64(imageBuffer);
-        // Remover prefixo data URL da máscara também
-        maskBase64 = maskBase64String.replace(/^data:image\/png;base64,/, '');
-      }
-
-      // Validar tamanho da imagem base64 (limite de ~10MB em base64)
-      const maxBase64Size = 14 * 1024 * 1024; // ~10MB original = ~14MB em base64
-      if (imageBase64.length > maxBase64Size) {
-        throw new Error(`Imagem muito grande: ${imageBase64.length} bytes em base64. Máximo permitido: ${maxBase64Size} bytes`);
-      }
-
-      // Log para diagnóstico
-      console.log('Black Forest API Request Details:', {
-        uploadId,
-        imageSize: imageBuffer.length,
-        imageBase64Length: imageBase64.length,
-        maskBase64Length: maskBase64.length,
-        roomType,
-        furnitureStyle,
-        imageFormat: imageBuffer.subarray(0, 4).toString('hex') // Magic number para identificar formato
-      });
-
-      // Chamar Black Forest API com imagem usando flux-kontext-pro
-      const prompt = `Transform this ${roomType} with ${furnitureStyle} furniture style. Add modern furniture only; do not change structure.`;
-      const blackForestResponse = await this.blackForestProvider.generateVirtualStaging(
-        imageBase64,
-        prompt
-      );
-
-      // Salvar job ID da Black Forest
-      if (blackForestResponse.id) {
-        await uploadRepository.updateBlackForestJobId(uploadId, blackForestResponse.id);
-
-        // Aguardar conclusão do processamento (polling)
-        await this.waitForCompletion(uploadId, blackForestResponse.id);
-      } else {
-        throw new Error('Black Forest API não retornou um job ID válido');
-      }
-
-    } catch (error) {
-      console.error(`Erro no processamento do upload ${uploadId}:`, {
-        error: error instanceof Error ? error.message : 'Erro desconhecido',
-        stack: error instanceof Error ? error.stack : undefined,
-        uploadId,
-        roomType,
-        furnitureStyle
-      });
-      
-      // Capturar detalhes específicos de erro da API Black Forest
-      let errorMessage = 'Erro desconhecido';
-      if (error instanceof Error) {
-        errorMessage = error.message;
-        
-        // Se for erro da API Black Forest, tentar extrair mais detalhes
-        if (error.message.includes('Black Forest API error')) {
-          console.error('Detalhes do erro da Black Forest API:', error.message);
-        }
-      }
-      
-      await uploadRepository.updateStatus(uploadId, 'failed', errorMessage);
-    }
-  }
-
-  /**
-   * Aguarda a conclusão do processamento na Black Forest API
-   */
-  private async waitForCompletion(uploadId: string, jobId: string): Promise<void> {
-    const maxAttempts = 15; // 75 segundos (5s * 15)
-    let attempts = 0;
-
-    while (attempts < maxAttempts) {
-      try {
-        const jobStatus = await this.blackForestProvider.checkJobStatusInternal(jobId);
-
-        if (jobStatus.status === 'Ready' && jobStatus.result?.sample) {
-          // Download da imagem processada e upload para S3
-          const outputImageUrl = await this.saveProcessedImage(uploadId, jobStatus.result.sample);
-          
-          // Atualizar registro com a URL final
-          await uploadRepository.updateOutputImage(uploadId, outputImageUrl, undefined, true);
-          return;
-
-        } else if (jobStatus.status === 'Error') {
-          await uploadRepository.updateStatus(uploadId, 'failed', jobStatus.error || 'Processamento falhou na Black Forest API');
-          return;
-        } else if (jobStatus.status === 'Task not found') {
-          await uploadRepository.updateStatus(uploadId, 'failed', 'Job não encontrado na Black Forest API');
-          return;
-        } else if (jobStatus.status === 'Request Moderated' || jobStatus.status === 'Content Moderated') {
-          await uploadRepository.updateStatus(uploadId, 'failed', 'Conteúdo foi moderado pela Black Forest API');
-          return;
-        }
-
-        // Aguardar 5 segundos antes da próxima verificação
-        await new Promise(resolve => setTimeout(resolve, 5000));
-        attempts++;
-
-      } catch (error) {
-        console.error(`Erro ao verificar status do job ${jobId}:`, error);
-        attempts++;
-      }
-    }
-
-    // Timeout
-    await uploadRepository.updateStatus(uploadId, 'failed', 'Timeout no processamento');
-  }
-
-  /**
-   * Salva a imagem processada no S3
-   */
-  private async saveProcessedImage(uploadId: string, imageUrl: string): Promise<string> {
-    try {
-      // Download da imagem da Black Forest
-      const response = await fetch(imageUrl);
-      if (!response.ok) {
-        throw new Error(`Erro ao baixar imagem: ${response.statusText}`);
-      }
-
-      const imageBuffer = await response.arrayBuffer();
-      
-      // Upload para S3
-      const fileName = `output/${uploadId}.png`;
-      const uploadCommand = new PutObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: fileName,
-        Body: Buffer.from(imageBuffer),
-        ContentType: 'image/png',
-      });
-
-      await s3Client.send(uploadCommand);
-
-      return `https://${BUCKET_NAME}.s3.amazonaws.com/${fileName}`;
-
-    } catch (error) {
-      console.error('Erro ao salvar imagem processada:', error);
-      throw error;
-    }
-  }
-
   /**
    * Busca o status de um upload
    */
@@ -3,15 +3,29 @@ import multer from 'multer';
 import {
   S3Client,
   PutObjectCommand,
-  GetObjectCommand,
 } from '@aws-sdk/client-s3';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import { uploadRepository } from '../repositories/upload.repository';
 import { stagingPlanService } from '../services/staging-plan.service';
-import { VirtualStagingService } from '../services/virtual-staging.service';
-import { ProviderConfig } from '../interfaces/virtual-staging-provider.interface';
+import { virtualStagingService } from '../services/virtual-staging.service';
 import { providerConfigManager } from '../config/provider.config';
+import { stageOrchestratorService } from '../services/stage-orchestrator.service';
+import { creditService } from '../services/credit.service';
+import { entitlementService } from '../services/entitlement.service';
+import { customerWebhookService } from '../services/customer-webhook.service';
+import { catalogService } from '../services/catalog.service';
+import { stagingEventsService } from '../services/staging-events.service';
+import { comparisonImageService } from '../services/comparison-image.service';
+import { StagingEvent } from '../interfaces/staging-events.interface';
+import { ENTITLEMENT_FEATURES } from '../interfaces/entitlement.interface';
+import {
+  COMPARISON_LAYOUTS,
+  COMPARISON_LAYOUT_FORMATS,
+  ComparisonFormat,
+  ComparisonLayout,
+  ComparisonOptions,
+} from '../interfaces/comparison.interface';
 import {
   CreateUploadRequest,
   RoomType,
@@ -19,6 +33,8 @@ import {
   Upload,
   Provider,
   StageSelectionConfig,
+  StagingStage,
+  STAGING_STAGES,
 } from '../interfaces/upload.interface';
 
 // Configuração do S3
@@ -32,6 +48,15 @@ const s3Client = new S3Client({
 
 const BUCKET_NAME = process.env.AWS_S3_BUCKET!;
 
+// Comentário periódico que mantém o stream SSE aberto em proxies
+const SSE_HEARTBEAT_INTERVAL_MS = 15000;
+
+// Tamanho máximo da instrução livre enviada na regeneração de uma etapa
+const MAX_STAGE_INSTRUCTION_LENGTH = 500;
+
+// Tamanho máximo do motivo informado na reclamação sobre um resultado
+const MAX_COMPLAINT_REASON_LENGTH = 1000;
+
 // Configuração do Multer para upload em memória
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -72,23 +97,12 @@ const upload = multer({
 });
 
 export class VirtualStagingController {
-  private virtualStagingService: VirtualStagingService;
-
   constructor() {
     // Validar configurações
     const validation = providerConfigManager.validateConfigurations();
     if (!validation.isValid) {
       console.warn('Provider configuration warnings:', validation.errors);
     }
-
-    // Obter configurações dos providers
-    const providerConfigs: Record<string, ProviderConfig> = {};
-    for (const [name, config] of providerConfigManager.getAllConfigs()) {
-      providerConfigs[name] = config;
-    }
-
-    // Inicializar o service unificado
-    this.virtualStagingService = new VirtualStagingService(providerConfigs);
   }
 
   /**
@@ -229,15 +243,14 @@ export class VirtualStagingController {
       const {
         roomType,
         furnitureStyle,
-        provider = 'black-forest',
-        plan = 'free',
+        provider,
+        preserveArchitecture,
         foundation,
         complement,
         wall_decoration,
         windows_decoration,
         customization,
       } = req.body as CreateUploadRequest & { 
-        plan: string;
         foundation?: string | boolean;
         complement?: string | boolean;
         wall_decoration?: string | boolean;
@@ -286,38 +299,18 @@ export class VirtualStagingController {
       }
 
       // Validar provider
-      const validProviders: Provider[] = ['black-forest', 'instant-deco'];
-      if (!validProviders.includes(provider as Provider)) {
+      if (provider && !virtualStagingService.isProviderAvailable(provider as Provider)) {
         res.status(400).json({
           success: false,
-          message: 'provider inválido. Use "black-forest" ou "instant-deco"',
+          message: `provider inválido. Use um dos providers disponíveis: ${virtualStagingService
+            .getAvailableProviders()
+            .join(', ')}`,
         });
         return;
       }
 
-      // Validar tipos permitidos
-      const validRoomTypes: RoomType[] = [
-        'bedroom',
-        'living_room',
-        'kitchen',
-        'bathroom',
-        'home_office',
-        'dining_room',
-        'kids_room',
-        'outdoor',
-      ];
-      const validFurnitureStyles: FurnitureStyle[] = [
-        'standard',
-        'modern',
-        'scandinavian',
-        'industrial',
-        'midcentury',
-        'luxury',
-        'coastal',
-        'farmhouse',
-      ];
-
-      if (!validRoomTypes.includes(roomType as RoomType)) {
+      // Validar contra os slugs ativos do catálogo (gerenciados pelos admins)
+      if (!(await catalogService.isActiveRoomType(roomType))) {
         res.status(400).json({
           success: false,
           message: 'roomType inválido',
@@ -325,7 +318,7 @@ export class VirtualStagingController {
         return;
       }
 
-      if (!validFurnitureStyles.includes(furnitureStyle as FurnitureStyle)) {
+      if (!(await catalogService.isActiveFurnitureStyle(furnitureStyle))) {
         res.status(400).json({
           success: false,
           message: 'furnitureStyle inválido',
@@ -368,6 +361,22 @@ export class VirtualStagingController {
         return;
       }
 
+      // Rota de providers do upload: primário pela política de roteamento + failover
+      const providerRoute = await virtualStagingService.resolveProviderRoute({
+        roomType: roomType as RoomType,
+        furnitureStyle: furnitureStyle as FurnitureStyle,
+        ...(provider && { preferredProvider: provider as Provider }),
+      });
+
+      // Verificar saldo de créditos antes de enviar a imagem
+      if (!(await creditService.hasSufficientCredits(userId))) {
+        res.status(402).json({
+          success: false,
+          message: 'Créditos insuficientes',
+        });
+        return;
+      }
+
       // Gerar nome único para o arquivo
       const fileExtension = path.extname(req.file.originalname);
       const fileName = `virtual-staging/input/${userId}/${uuidv4()}${fileExtension}`;
@@ -390,23 +399,33 @@ export class VirtualStagingController {
         userId,
         roomType: roomType as RoomType,
         furnitureStyle: furnitureStyle as FurnitureStyle,
-        provider: provider as Provider,
+        provider: providerRoute[0]!,
+        providerRoute,
         inputImageUrl,
+        preserveArchitecture: String(preserveArchitecture) === 'true',
       });
 
+      // Reservar os créditos do upload (capturados ao concluir, devolvidos em caso de falha)
+      const reservation = await creditService.reserveForUpload(userId, uploadRecord.id);
+      if (!reservation) {
+        await uploadRepository.delete(uploadRecord.id);
+        res.status(402).json({
+          success: false,
+          message: 'Créditos insuficientes',
+        });
+        return;
+      }
+
       // Usar a configuração de etapas já processada
       const stageConfig: StageSelectionConfig = finalStageSelection;
 
-      // Iniciar processamento assíncrono em etapas
-      this.processVirtualStagingInStagesAsync(
-        uploadRecord.id,
-        inputImageUrl,
-        req.file.buffer,
-        roomType as RoomType,
-        furnitureStyle as FurnitureStyle,
-        provider as Provider,
-        stageConfig
-      );
+      // Enfileirar processamento em etapas (executado pelo image-processing worker)
+      await virtualStagingService.enqueueNewUpload({
+        uploadId: uploadRecord.id,
+        mode: 'staged',
+        stageSelection: stageConfig,
+        ...(req.body.highResolution === true && { highResolution: true }),
+      });
 
       // Retornar resposta imediata
       res.status(200).json({
@@ -454,17 +473,16 @@ export class VirtualStagingController {
       const {
         roomType,
         furnitureStyle,
-        provider = 'black-forest',
-        plan = 'free',
+        provider,
         seed,
         customPrompt,
+        preserveArchitecture,
         foundation,
         complement,
         wall_decoration,
         windows_decoration,
         customization,
       } = req.body as CreateUploadRequest & {
-        plan: string;
         seed?: number;
         customPrompt?: string;
         foundation?: string | boolean;
@@ -483,38 +501,18 @@ export class VirtualStagingController {
       }
 
       // Validar provider
-      const validProviders: Provider[] = ['black-forest', 'instant-deco'];
-      if (!validProviders.includes(provider as Provider)) {
+      if (provider && !virtualStagingService.isProviderAvailable(provider as Provider)) {
         res.status(400).json({
           success: false,
-          message: 'provider inválido. Use "black-forest" ou "instant-deco"',
+          message: `provider inválido. Use um dos providers disponíveis: ${virtualStagingService
+            .getAvailableProviders()
+            .join(', ')}`,
         });
         return;
       }
 
-      // Validar tipos permitidos
-      const validRoomTypes: RoomType[] = [
-        'bedroom',
-        'living_room',
-        'kitchen',
-        'bathroom',
-        'home_office',
-        'dining_room',
-        'kids_room',
-        'outdoor',
-      ];
-      const validFurnitureStyles: FurnitureStyle[] = [
-        'standard',
-        'modern',
-        'scandinavian',
-        'industrial',
-        'midcentury',
-        'luxury',
-        'coastal',
-        'farmhouse',
-      ];
-
-      if (!validRoomTypes.includes(roomType as RoomType)) {
+      // Validar contra os slugs ativos do catálogo (gerenciados pelos admins)
+      if (!(await catalogService.isActiveRoomType(roomType))) {
         res.status(400).json({
           success: false,
           message: 'roomType inválido',
@@ -522,7 +520,7 @@ export class VirtualStagingController {
         return;
       }
 
-      if (!validFurnitureStyles.includes(furnitureStyle as FurnitureStyle)) {
+      if (!(await catalogService.isActiveFurnitureStyle(furnitureStyle))) {
         res.status(400).json({
           success: false,
           message: 'furnitureStyle inválido',
@@ -565,6 +563,22 @@ export class VirtualStagingController {
         return;
       }
 
+      // Rota de providers do upload: primário pela política de roteamento + failover
+      const providerRoute = await virtualStagingService.resolveProviderRoute({
+        roomType: roomType as RoomType,
+        furnitureStyle: furnitureStyle as FurnitureStyle,
+        ...(provider && { preferredProvider: provider as Provider }),
+      });
+
+      // Verificar saldo de créditos antes de enviar a imagem
+      if (!(await creditService.hasSufficientCredits(userId))) {
+        res.status(402).json({
+          success: false,
+          message: 'Créditos insuficientes',
+        });
+        return;
+      }
+
       // Upload da imagem principal para S3
       const fileExtension = path.extname(mainImage.originalname);
       const fileName = `virtual-staging/input/${userId}/${uuidv4()}${fileExtension}`;
@@ -611,10 +625,23 @@ export class VirtualStagingController {
         userId,
         roomType: roomType as RoomType,
         furnitureStyle: furnitureStyle as FurnitureStyle,
-        provider: provider as Provider,
+        provider: providerRoute[0]!,
+        providerRoute,
         inputImageUrl,
+        preserveArchitecture: String(preserveArchitecture) === 'true',
       });
 
+      // Reservar os créditos do upload (capturados ao concluir, devolvidos em caso de falha)
+      const reservation = await creditService.reserveForUpload(userId, uploadRecord.id);
+      if (!reservation) {
+        await uploadRepository.delete(uploadRecord.id);
+        res.status(402).json({
+          success: false,
+          message: 'Créditos insuficientes',
+        });
+        return;
+      }
+
       // Converter campos individuais para StageSelectionConfig
       // Se nenhum campo for especificado, usar configuração padrão (todas habilitadas)
       const hasAnyStageField = foundation !== undefined || 
@@ -637,19 +664,15 @@ export class VirtualStagingController {
         customization: true,
       };
 
-      // Iniciar processamento assíncrono com imagens de referência
-      this.processVirtualStagingInStagesWithReferencesAsync(
-        uploadRecord.id,
-        inputImageUrl,
-        mainImage.buffer,
-        roomType as RoomType,
-        furnitureStyle as FurnitureStyle,
-        provider as Provider,
+      // Enfileirar processamento com imagens de referência (executado pelo image-processing worker)
+      await virtualStagingService.enqueueNewUpload({
+        uploadId: uploadRecord.id,
+        mode: 'staged',
+        stageSelection: finalStageSelection,
         referenceImageUrls,
-        finalStageSelection,
-        seed ? parseInt(seed.toString()) : undefined,
-        customPrompt
-      );
+        ...(seed && { seed: parseInt(seed.toString()) }),
+        ...(req.body.highResolution === true && { highResolution: true }),
+      });
 
       // Retornar resposta imediata
       res.status(200).json({
@@ -675,394 +698,391 @@ export class VirtualStagingController {
   }
 
   /**
-   * Processa virtual staging em etapas de forma assíncrona
+   * Busca o status de um processamento de virtual staging
    */
-  private async processVirtualStagingInStagesAsync(
-    uploadId: string,
-    inputImageUrl: string,
-    imageBuffer: Buffer,
-    roomType: RoomType,
-    furnitureStyle: FurnitureStyle,
-    provider: Provider,
-    stageSelection?: StageSelectionConfig
-  ): Promise<void> {
-    console.log(
-      `[${uploadId}] 🚀 Iniciando processamento em etapas assíncrono de virtual staging`,
-      {
-        uploadId,
-        inputImageUrl,
-        roomType,
-        furnitureStyle,
-        imageSize: imageBuffer.length,
-        timestamp: new Date().toISOString(),
+  async getVirtualStagingStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { uploadId } = req.params;
+      const userId = (req as any).user?.id;
+
+      if (!uploadId) {
+        res.status(400).json({
+          success: false,
+          message: 'uploadId é obrigatório',
+        });
+        return;
       }
-    );
 
-    try {
-      // Atualizar status para 'processing'
-      console.log(`[${uploadId}] Atualizando status para 'processing'`);
-      await uploadRepository.updateStatus(uploadId, 'processing');
-
-      // Verificar se é Black Forest provider
-      if (provider !== 'black-forest') {
-        console.log(
-          `[${uploadId}] ❌ Provider ${provider} não suporta processamento em etapas`
-        );
-        await uploadRepository.updateStatus(
-          uploadId,
-          'failed',
-          'Staging in stages is only available for Black Forest provider'
-        );
+      // Buscar upload no banco de dados
+      const upload = await uploadRepository.findById(uploadId);
+
+      if (!upload) {
+        res.status(404).json({
+          success: false,
+          message: 'Upload não encontrado',
+        });
         return;
       }
 
-      // Converter imagem para base64
-      const imageBase64 = `data:image/jpeg;base64,${imageBuffer.toString('base64')}`;
+      // Verificar se o upload pertence ao usuário
+      if (upload.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Acesso negado',
+        });
+        return;
+      }
 
-      // Configurar parâmetros
-      const params = {
-        uploadId: uploadId,
-        imageBase64: imageBase64,
-        roomType: roomType,
-        furnitureStyle: furnitureStyle,
-        ...(stageSelection && { stageSelection }),
-      };
+      res.status(200).json({
+        success: true,
+        data: {
+          uploadId: upload.id,
+          status: upload.status,
+          inputImageUrl: upload.inputImageUrl,
+          outputImageUrl: upload.outputImageUrl,
+          outputImageUrls: upload.outputImageUrls, // Múltiplas URLs de imagem
+          provider: upload.provider,
+          outputProvider: upload.outputProvider, // Provider que gerou a imagem final
+          roomType: upload.roomType,
+          furnitureStyle: upload.furnitureStyle,
+          errorMessage: upload.errorMessage,
+          createdAt: upload.createdAt,
+          updatedAt: upload.updatedAt,
+        },
+      });
+    } catch (error) {
+      console.error('Erro ao buscar status:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+      });
+    }
+  }
 
-      // Configurar callback de progresso
-      const onProgress = (progress: any) => {
-        console.log(`[${uploadId}] 📊 Progress:`, progress);
-      };
+  /**
+   * Stream SSE com o progresso do upload: envia o estado atual e, em seguida,
+   * cada transição de etapa, imagem intermediária e o resultado final.
+   * O stream é encerrado quando o upload termina (completed ou failed).
+   */
+  async streamStagingEvents(req: Request, res: Response): Promise<void> {
+    const { uploadId } = req.params;
+    const userId = (req as any).user?.id;
 
-      // Processar staging em etapas usando o provider diretamente
-      const blackForestConfig = providerConfigManager.getConfig('black-forest');
+    if (!uploadId) {
+      res.status(400).json({
+        success: false,
+        message: 'uploadId é obrigatório',
+      });
+      return;
+    }
 
-      if (!blackForestConfig) {
-        console.log(`[${uploadId}] ❌ Black Forest provider não configurado`);
-        await uploadRepository.updateStatus(
-          uploadId,
-          'failed',
-          'Black Forest provider not configured'
-        );
+    let unsubscribe: (() => Promise<void>) | null = null;
+    let heartbeat: NodeJS.Timeout | null = null;
+    let closed = false;
+
+    const close = () => {
+      if (closed) {
         return;
       }
+      closed = true;
+      if (heartbeat) {
+        clearInterval(heartbeat);
+      }
+      unsubscribe?.().catch(() => undefined);
+      res.end();
+    };
 
-      // Importar e instanciar o provider diretamente
-      const { BlackForestProvider } = await import(
-        '../services/providers/black-forest.provider'
-      );
-      const provider_instance = new BlackForestProvider(blackForestConfig);
+    const send = (event: StagingEvent) => {
+      if (closed) {
+        return;
+      }
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.status === 'completed' || event.status === 'failed') {
+        close();
+      }
+    };
 
-      console.log(
-        `[${uploadId}] 🔄 Iniciando processamento em etapas com Black Forest`
-      );
-      const result = await provider_instance.processVirtualStagingInStages({
-        uploadId,
-        imageBase64,
-        roomType,
-        furnitureStyle,
-      });
+    try {
+      const upload = await uploadRepository.findById(uploadId);
 
-      // Se a primeira etapa foi enviada com sucesso, inicializar o staging
-      if (result.success && result.requestId && result.metadata?.stagingPlan) {
-        console.log(
-          `[${uploadId}] ✅ Primeira etapa enviada. Inicializando staging...`
-        );
-        await uploadRepository.initializeStaging(
-          uploadId,
-          result.metadata.stagingPlan,
-          result.requestId
-        );
-        console.log(
-          `[${uploadId}] 📊 Staging inicializado. Aguardando webhook...`
-        );
+      if (!upload) {
+        res.status(404).json({
+          success: false,
+          message: 'Upload não encontrado',
+        });
         return;
       }
 
-      // Verificar se há sucesso parcial com imagem válida
-      const metadata = result.metadata as any;
-      const hasPartialSuccess =
-        metadata?.partialSuccess && result.outputImageUrl;
-
-      if (result.success || hasPartialSuccess) {
-        if (hasPartialSuccess) {
-          console.log(`[${uploadId}] ⚠️ Processamento com sucesso parcial!`, {
-            uploadId,
-            outputImageUrl: result.outputImageUrl,
-            failedStage: metadata.failedStage,
-            returnedFromStage: metadata.returnedFromStage,
-            metadata: result.metadata,
-            timestamp: new Date().toISOString(),
-          });
-        } else {
-          console.log(
-            `[${uploadId}] ✅ Processamento em etapas concluído com sucesso!`,
-            {
-              uploadId,
-              outputImageUrl: result.outputImageUrl,
-              metadata: result.metadata,
-              timestamp: new Date().toISOString(),
-            }
-          );
-        }
-
-        // Atualizar registro no banco
-        if (result.outputImageUrl) {
-          await uploadRepository.updateOutputImage(
-            uploadId,
-            result.outputImageUrl,
-            undefined,
-            true
-          );
-        }
-      } else {
-        console.log(
-          `[${uploadId}] ❌ Falha no processamento em etapas:`,
-          result.errorMessage
-        );
+      if (upload.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Acesso negado',
+        });
+        return;
+      }
 
-        // Verificar se há informações sobre sucesso parcial nos metadados
-        const metadata = result.metadata as any;
-        let errorMessage = result.errorMessage || 'Staging in stages failed';
-
-        if (
-          metadata?.partialSuccess &&
-          metadata?.failedStage &&
-          metadata?.returnedFromStage
-        ) {
-          errorMessage = `Falha na etapa ${metadata.failedStage}: ${result.errorMessage}. Retornando imagem da etapa ${metadata.returnedFromStage}.`;
-          console.log(
-            `[${uploadId}] 🔄 Sucesso parcial: Falhou na etapa ${metadata.failedStage}, mas retornou imagem da etapa ${metadata.returnedFromStage}`
-          );
-        }
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+      req.on('close', close);
 
-        await uploadRepository.updateStatus(uploadId, 'failed', errorMessage);
+      // Assina antes de ler o estado atual para não perder eventos entre as duas leituras
+      unsubscribe = await stagingEventsService.subscribe(uploadId, send);
+      if (closed) {
+        await unsubscribe();
+        return;
       }
+      const current = await uploadRepository.findById(uploadId);
+      send(stagingEventsService.buildSnapshot(current ?? upload));
+
+      heartbeat = setInterval(() => {
+        if (!closed) {
+          res.write(': heartbeat\n\n');
+        }
+      }, SSE_HEARTBEAT_INTERVAL_MS);
     } catch (error) {
-      console.error(
-        `[${uploadId}] 💥 Erro no processamento em etapas assíncrono:`,
-        error
-      );
-      await uploadRepository.updateStatus(
-        uploadId,
-        'failed',
-        'Internal server error during staging in stages'
-      );
+      console.error('Erro no stream de eventos:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          message: 'Erro interno do servidor',
+        });
+        return;
+      }
+      close();
     }
   }
 
   /**
-   * Processa virtual staging em etapas com imagens de referência de forma assíncrona
+   * Retoma um upload em etapas que falhou a partir da última etapa concluída
    */
-  private async processVirtualStagingInStagesWithReferencesAsync(
-    uploadId: string,
-    inputImageUrl: string,
-    imageBuffer: Buffer,
-    roomType: RoomType,
-    furnitureStyle: FurnitureStyle,
-    provider: Provider,
-    referenceImageUrls: string[],
-    stageSelection: StageSelectionConfig,
-    seed?: number,
-    customPrompt?: string
-  ): Promise<void> {
-    console.log(
-      `[${uploadId}] 🚀 Iniciando processamento em etapas com referências`,
-      {
-        uploadId,
-        inputImageUrl,
-        roomType,
-        furnitureStyle,
-        imageSize: imageBuffer.length,
-        referenceImagesCount: referenceImageUrls.length,
-        seed,
-        customPrompt,
-        timestamp: new Date().toISOString(),
+  async retryVirtualStaging(req: Request, res: Response): Promise<void> {
+    try {
+      const { uploadId } = req.params;
+      const userId = (req as any).user?.id;
+      const { seed } = req.body ?? {};
+
+      if (!uploadId) {
+        res.status(400).json({
+          success: false,
+          message: 'uploadId é obrigatório',
+        });
+        return;
       }
-    );
 
-    try {
-      // Atualizar status para 'processing'
-      console.log(`[${uploadId}] Atualizando status para 'processing'`);
-      await uploadRepository.updateStatus(uploadId, 'processing');
-
-      // Verificar se é Black Forest provider
-      if (provider !== 'black-forest') {
-        console.log(
-          `[${uploadId}] ❌ Provider ${provider} não suporta processamento com referências`
-        );
-        await uploadRepository.updateStatus(
-          uploadId,
-          'failed',
-          'Reference images are only available for Black Forest provider'
-        );
+      const parsedSeed = seed !== undefined ? Number(seed) : undefined;
+      if (
+        parsedSeed !== undefined &&
+        (!Number.isInteger(parsedSeed) || parsedSeed < 0)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'seed deve ser um inteiro não negativo',
+        });
         return;
       }
 
-      // Converter imagem principal para base64
-      const imageBase64 = `data:image/jpeg;base64,${imageBuffer.toString('base64')}`;
+      const upload = await uploadRepository.findById(uploadId);
 
-      // Converter imagens de referência para base64 (se fornecidas)
-      const referenceImagesBase64: string[] = [];
-      for (const refUrl of referenceImageUrls) {
-        try {
-          // Baixar imagem de referência do S3
-          const key = refUrl.replace(
-            `https://${BUCKET_NAME}.s3.amazonaws.com/`,
-            ''
-          );
-          const getCommand = new GetObjectCommand({
-            Bucket: BUCKET_NAME,
-            Key: key,
-          });
+      if (!upload) {
+        res.status(404).json({
+          success: false,
+          message: 'Upload não encontrado',
+        });
+        return;
+      }
 
-          const response = await s3Client.send(getCommand);
-          const buffer = await response.Body?.transformToByteArray();
-
-          if (buffer) {
-            const base64 = `data:image/jpeg;base64,${Buffer.from(buffer).toString('base64')}`;
-            referenceImagesBase64.push(base64);
-          }
-        } catch (error) {
-          console.error(
-            `[${uploadId}] Erro ao baixar imagem de referência ${refUrl}:`,
-            error
-          );
-        }
+      if (upload.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Acesso negado',
+        });
+        return;
       }
 
-      // Configurar parâmetros com imagens de referência
-      const params = {
-        uploadId: uploadId,
-        imageBase64: imageBase64,
-        roomType: roomType,
-        furnitureStyle: furnitureStyle,
-        ...(stageSelection && { stageSelection }),
-        ...(referenceImagesBase64[0] && {
-          referenceImage2: referenceImagesBase64[0],
-        }),
-        ...(referenceImagesBase64[1] && {
-          referenceImage3: referenceImagesBase64[1],
-        }),
-        ...(referenceImagesBase64[2] && {
-          referenceImage4: referenceImagesBase64[2],
-        }),
-        options: {
-          ...(seed && { seed }),
-          ...(customPrompt && { customPrompt }),
+      const result = await stageOrchestratorService.retryStaging(upload, {
+        ...(parsedSeed !== undefined && { seed: parsedSeed }),
+      });
+
+      switch (result.status) {
+        case 'not_retryable':
+          res.status(409).json({
+            success: false,
+            message: result.reason,
+          });
+          return;
+        case 'retry_limit_reached':
+          res.status(409).json({
+            success: false,
+            message: `Retry limit reached for stage ${result.stage}`,
+            data: { stage: result.stage, retryCount: result.retryCount },
+          });
+          return;
+        case 'insufficient_credits':
+          res.status(402).json({
+            success: false,
+            message: 'Créditos insuficientes',
+          });
+          return;
+      }
+
+      res.status(202).json({
+        success: true,
+        data: {
+          uploadId: result.upload.id,
+          status: result.upload.status,
+          currentStage: result.upload.currentStage,
+          resumedFromStage: result.resumePoint.stage,
+          attempt: result.resumePoint.attempt,
+          totalStages: result.upload.stagingPlan?.stages.length,
         },
-      };
+      });
+    } catch (error) {
+      console.error('Erro ao retomar staging:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+      });
+    }
+  }
 
-      // Configurar callback de progresso
-      const onProgress = (progress: any) => {
-        console.log(`[${uploadId}] 📊 Progress:`, progress);
-      };
+  /**
+   * Regenera uma etapa com instrução opcional do usuário e reexecuta as seguintes
+   */
+  async regenerateStage(req: Request, res: Response): Promise<void> {
+    try {
+      const { uploadId, stage } = req.params;
+      const userId = (req as any).user?.id;
+      const { instruction, seed } = req.body ?? {};
 
-      // Processar staging em etapas usando o provider diretamente
-      const blackForestConfig = providerConfigManager.getConfig('black-forest');
+      if (!uploadId || !stage) {
+        res.status(400).json({
+          success: false,
+          message: 'uploadId e stage são obrigatórios',
+        });
+        return;
+      }
 
-      if (!blackForestConfig) {
-        console.log(`[${uploadId}] ❌ Black Forest provider não configurado`);
-        await uploadRepository.updateStatus(
-          uploadId,
-          'failed',
-          'Black Forest provider not configured'
-        );
+      if (!STAGING_STAGES.includes(stage as StagingStage)) {
+        res.status(400).json({
+          success: false,
+          message: `stage deve ser um de: ${STAGING_STAGES.join(', ')}`,
+        });
         return;
       }
 
-      // Importar e instanciar o provider diretamente
-      const { BlackForestProvider } = await import(
-        '../services/providers/black-forest.provider'
-      );
-      const provider_instance = new BlackForestProvider(blackForestConfig);
+      if (
+        instruction !== undefined &&
+        (typeof instruction !== 'string' ||
+          instruction.trim().length > MAX_STAGE_INSTRUCTION_LENGTH)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: `instruction deve ser um texto de até ${MAX_STAGE_INSTRUCTION_LENGTH} caracteres`,
+        });
+        return;
+      }
 
-      console.log(
-        `[${uploadId}] 🔄 Iniciando processamento em etapas com Black Forest`
-      );
-      const result =
-        await provider_instance.processVirtualStagingInStages(params);
+      const parsedSeed = seed !== undefined ? Number(seed) : undefined;
+      if (
+        parsedSeed !== undefined &&
+        (!Number.isInteger(parsedSeed) || parsedSeed < 0)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'seed deve ser um inteiro não negativo',
+        });
+        return;
+      }
 
-      // Se a primeira etapa foi enviada com sucesso, inicializar o staging
-      if (result.success && result.requestId && result.metadata?.stagingPlan) {
-        console.log(
-          `[${uploadId}] ✅ Primeira etapa enviada. Inicializando staging...`
-        );
-        await uploadRepository.initializeStaging(
-          uploadId,
-          result.metadata.stagingPlan,
-          result.requestId
-        );
-        console.log(
-          `[${uploadId}] 📊 Staging inicializado. Aguardando webhook...`
-        );
+      const upload = await uploadRepository.findById(uploadId);
+
+      if (!upload) {
+        res.status(404).json({
+          success: false,
+          message: 'Upload não encontrado',
+        });
         return;
       }
 
-      // Verificar se há sucesso parcial com imagem válida
-      const metadata = result.metadata as any;
-      const hasPartialSuccess =
-        metadata?.partialSuccess && result.outputImageUrl;
+      if (upload.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Acesso negado',
+        });
+        return;
+      }
 
-      if (result.success || hasPartialSuccess) {
-        if (hasPartialSuccess) {
-          console.log(`[${uploadId}] ⚠️ Processamento com sucesso parcial!`, {
-            uploadId,
-            outputImageUrl: result.outputImageUrl,
-            referenceImagesUsed: referenceImagesBase64.length,
-            timestamp: new Date().toISOString(),
-          });
-        } else {
-          console.log(
-            `[${uploadId}] ✅ Processamento com referências concluído com sucesso!`,
-            {
-              uploadId,
-              outputImageUrl: result.outputImageUrl,
-              referenceImagesUsed: referenceImagesBase64.length,
-              timestamp: new Date().toISOString(),
-            }
-          );
+      const trimmedInstruction = instruction?.trim();
+      const result = await stageOrchestratorService.regenerateStage(
+        upload,
+        stage as StagingStage,
+        {
+          ...(trimmedInstruction && { instruction: trimmedInstruction }),
+          ...(parsedSeed !== undefined && { seed: parsedSeed }),
         }
+      );
 
-        // Atualizar registro no banco
-        if (result.outputImageUrl) {
-          await uploadRepository.updateOutputImage(
-            uploadId,
-            result.outputImageUrl,
-            undefined,
-            true
-          );
-        }
-      } else {
-        console.log(
-          `[${uploadId}] ❌ Falha no processamento com referências:`,
-          result.errorMessage
-        );
-        await uploadRepository.updateStatus(
-          uploadId,
-          'failed',
-          result.errorMessage || 'Processing with references failed'
-        );
+      if (result.status === 'not_regeneratable') {
+        res.status(409).json({
+          success: false,
+          message: result.reason,
+        });
+        return;
+      }
+
+      if (result.status === 'regeneration_limit_reached') {
+        res.status(409).json({
+          success: false,
+          message: 'Regeneration limit reached for this upload',
+          data: { regenerationCount: result.regenerationCount },
+        });
+        return;
+      }
+
+      if (result.status === 'insufficient_credits') {
+        res.status(402).json({
+          success: false,
+          message: 'Créditos insuficientes',
+        });
+        return;
       }
+
+      res.status(202).json({
+        success: true,
+        data: {
+          uploadId: result.upload.id,
+          status: result.upload.status,
+          currentStage: result.upload.currentStage,
+          stage,
+          attempt: result.attempt,
+          replayedStages: result.upload.stagingPlan?.stages
+            .slice(result.stageIndex + 1)
+            .map(config => config.stage),
+        },
+      });
     } catch (error) {
-      console.error(
-        `[${uploadId}] 💥 Erro no processamento com referências:`,
-        error
-      );
-      await uploadRepository.updateStatus(
-        uploadId,
-        'failed',
-        'Internal server error during processing with references'
-      );
+      console.error('Erro ao regenerar etapa:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+      });
     }
   }
 
   /**
-   * Busca o status de um processamento de virtual staging
+   * Registra a reclamação do usuário sobre o resultado de um upload concluído
+   * (usada na comparação entre variantes de prompt)
    */
-  async getVirtualStagingStatus(req: Request, res: Response): Promise<void> {
+  async reportComplaint(req: Request, res: Response): Promise<void> {
     try {
       const { uploadId } = req.params;
       const userId = (req as any).user?.id;
+      const { reason } = req.body ?? {};
 
       if (!uploadId) {
         res.status(400).json({
@@ -1072,7 +1092,18 @@ export class VirtualStagingController {
         return;
       }
 
-      // Buscar upload no banco de dados
+      if (
+        reason !== undefined &&
+        (typeof reason !== 'string' ||
+          reason.trim().length > MAX_COMPLAINT_REASON_LENGTH)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: `reason deve ser um texto de até ${MAX_COMPLAINT_REASON_LENGTH} caracteres`,
+        });
+        return;
+      }
+
       const upload = await uploadRepository.findById(uploadId);
 
       if (!upload) {
@@ -1083,7 +1114,6 @@ export class VirtualStagingController {
         return;
       }
 
-      // Verificar se o upload pertence ao usuário
       if (upload.userId !== userId) {
         res.status(403).json({
           success: false,
@@ -1092,23 +1122,108 @@ export class VirtualStagingController {
         return;
       }
 
+      if (upload.status !== 'completed') {
+        res.status(409).json({
+          success: false,
+          message: 'Apenas uploads concluídos podem receber reclamação',
+        });
+        return;
+      }
+
+      const trimmedReason = reason?.trim();
+      const complained = await uploadRepository.recordComplaint(
+        upload.id,
+        trimmedReason || undefined
+      );
+
+      if (!complained) {
+        res.status(409).json({
+          success: false,
+          message: 'Reclamação já registrada para este upload',
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: {
+          uploadId: complained.id,
+          complainedAt: complained.complainedAt,
+          complaintReason: complained.complaintReason,
+        },
+      });
+    } catch (error) {
+      console.error('Erro ao registrar reclamação:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+      });
+    }
+  }
+
+  /**
+   * Gera a comparação antes/depois de um upload concluído ({ layout?, format?, labels? })
+   * e a salva no cache do upload. Se já existir, devolve a salva.
+   */
+  async createComparison(req: Request, res: Response): Promise<void> {
+    try {
+      const request = await this.resolveComparisonRequest(req, res, req.body ?? {});
+      if (!request) {
+        return;
+      }
+
+      const { image, cached } = await comparisonImageService.getComparison(
+        request.upload,
+        request.options
+      );
+
+      res.status(cached ? 200 : 201).json({
+        success: true,
+        data: {
+          uploadId: request.upload.id,
+          ...image,
+          cached,
+        },
+      });
+    } catch (error) {
+      console.error('Erro ao gerar comparação antes/depois:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+      });
+    }
+  }
+
+  /**
+   * Comparação antes/depois já gerada (?layout=&format=&labels=); 404 quando
+   * ainda não foi criada pelo POST
+   */
+  async getComparison(req: Request, res: Response): Promise<void> {
+    try {
+      const request = await this.resolveComparisonRequest(req, res, req.query);
+      if (!request) {
+        return;
+      }
+
+      const image = comparisonImageService.findComparison(request.upload, request.options);
+      if (!image) {
+        res.status(404).json({
+          success: false,
+          message: 'Comparação ainda não gerada para estas opções',
+        });
+        return;
+      }
+
       res.status(200).json({
         success: true,
         data: {
-          uploadId: upload.id,
-          status: upload.status,
-          inputImageUrl: upload.inputImageUrl,
-          outputImageUrl: upload.outputImageUrl,
-          outputImageUrls: upload.outputImageUrls, // Múltiplas URLs de imagem
-          roomType: upload.roomType,
-          furnitureStyle: upload.furnitureStyle,
-          errorMessage: upload.errorMessage,
-          createdAt: upload.createdAt,
-          updatedAt: upload.updatedAt,
+          uploadId: request.upload.id,
+          ...image,
+          cached: true,
         },
       });
     } catch (error) {
-      console.error('Erro ao buscar status:', error);
+      console.error('Erro ao buscar comparação antes/depois:', error);
       res.status(500).json({
         success: false,
         message: 'Erro interno do servidor',
@@ -1116,6 +1231,88 @@ export class VirtualStagingController {
     }
   }
 
+  /**
+   * Valida as opções da comparação e o upload (do usuário e concluído).
+   * Responde com o erro e retorna null quando algo não confere.
+   */
+  private async resolveComparisonRequest(
+    req: Request,
+    res: Response,
+    source: Record<string, unknown>
+  ): Promise<{ upload: Upload; options: ComparisonOptions } | null> {
+    const { uploadId } = req.params;
+    const userId = (req as any).user?.id;
+    const { layout = 'side-by-side', format, labels } = source;
+
+    if (!uploadId) {
+      res.status(400).json({
+        success: false,
+        message: 'uploadId é obrigatório',
+      });
+      return null;
+    }
+
+    if (!COMPARISON_LAYOUTS.includes(layout as ComparisonLayout)) {
+      res.status(400).json({
+        success: false,
+        message: `layout deve ser um de: ${COMPARISON_LAYOUTS.join(', ')}`,
+      });
+      return null;
+    }
+
+    const formats = COMPARISON_LAYOUT_FORMATS[layout as ComparisonLayout];
+    if (format !== undefined && !formats.includes(format as ComparisonFormat)) {
+      res.status(400).json({
+        success: false,
+        message: `format para o layout ${layout} deve ser um de: ${formats.join(', ')}`,
+      });
+      return null;
+    }
+
+    if (labels !== undefined && ![true, false, 'true', 'false'].includes(labels as string)) {
+      res.status(400).json({
+        success: false,
+        message: 'labels deve ser true ou false',
+      });
+      return null;
+    }
+
+    const upload = await uploadRepository.findById(uploadId);
+
+    if (!upload) {
+      res.status(404).json({
+        success: false,
+        message: 'Upload não encontrado',
+      });
+      return null;
+    }
+
+    if (upload.userId !== userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Acesso negado',
+      });
+      return null;
+    }
+
+    if (upload.status !== 'completed' || !upload.outputImageUrl) {
+      res.status(409).json({
+        success: false,
+        message: 'Apenas uploads concluídos possuem comparação antes/depois',
+      });
+      return null;
+    }
+
+    return {
+      upload,
+      options: {
+        layout: layout as ComparisonLayout,
+        format: (format as ComparisonFormat | undefined) ?? formats[0]!,
+        labels: labels !== false && labels !== 'false',
+      },
+    };
+  }
+
   /**
    * Lista todos os processamentos de virtual staging do usuário
    */
@@ -1148,8 +1345,12 @@ export class VirtualStagingController {
     req: Request,
     res: Response
   ): Promise<void> {
+    const { uploadId } = req.params;
+    // Só o upload iniciado por esta requisição é marcado como falho em caso de erro
+    let started = false;
+
     try {
-      const { uploadId } = req.params;
+      const userId = (req as any).user?.id;
 
       if (!uploadId) {
         res.status(400).json({
@@ -1169,117 +1370,100 @@ export class VirtualStagingController {
         return;
       }
 
-      // Verificar se é Black Forest provider
-      if (upload.provider !== 'black-forest') {
-        res.status(400).json({
+      if (upload.userId !== userId) {
+        res.status(403).json({
           success: false,
-          error:
-            'Staging in stages is only available for Black Forest provider',
+          error: 'Acesso negado',
         });
         return;
       }
 
-      // Baixar imagem e converter para base64
-      let imageBase64: string;
-      try {
-        const getObjectCommand = new GetObjectCommand({
-          Bucket: BUCKET_NAME,
-          Key: upload.inputImageUrl.split('/').pop()!,
+      if (upload.status !== 'pending') {
+        res.status(409).json({
+          success: false,
+          error: `Upload is already ${upload.status}`,
         });
+        return;
+      }
 
-        const response = await s3Client.send(getObjectCommand);
-        const imageBuffer = await response.Body!.transformToByteArray();
-        imageBase64 = `data:image/jpeg;base64,${Buffer.from(imageBuffer).toString('base64')}`;
-      } catch (error) {
-        console.error(`[${uploadId}] Erro ao baixar imagem:`, error);
-        res.status(500).json({
+      // Verificar se o provider do upload suporta staging em etapas
+      if (!virtualStagingService.supportsStagedProcessing(upload.provider)) {
+        res.status(400).json({
           success: false,
-          error: 'Failed to download image for staging in stages',
+          error: `Staging in stages is not available for provider ${upload.provider}`,
         });
         return;
       }
 
-      // Configurar parâmetros
-      const params = {
-        uploadId: upload.id,
-        imageBase64: imageBase64,
-        roomType: upload.roomType,
-        furnitureStyle: upload.furnitureStyle,
-        webhookUrl: req.body?.webhookUrl,
-      };
-
-      // Configurar callback de progresso (opcional)
-      const onProgress = req.body?.enableProgress
-        ? (progress: any) => {
-            // Aqui você pode implementar WebSocket ou Server-Sent Events
-            // para enviar atualizações de progresso em tempo real
-            console.log(`[${uploadId}] Progress:`, progress);
-          }
-        : undefined;
-
-      // Processar staging em etapas usando o provider diretamente
-      const blackForestConfig = providerConfigManager.getConfig('black-forest');
+      // webhookUrl opcional: endpoint que recebe apenas os eventos deste upload
+      const { webhookUrl } = req.body ?? {};
+      if (webhookUrl !== undefined) {
+        const urlError = customerWebhookService.validateUrl(webhookUrl);
+        if (urlError) {
+          res.status(400).json({
+            success: false,
+            error: urlError,
+          });
+          return;
+        }
+      }
 
-      if (!blackForestConfig) {
-        res.status(500).json({
+      // Reservar os créditos antes de agendar as etapas
+      const reservation = await creditService.reserveForUpload(
+        upload.userId,
+        upload.id
+      );
+      if (!reservation) {
+        res.status(402).json({
           success: false,
-          error: 'Black Forest provider not configured',
+          message: 'Créditos insuficientes',
         });
         return;
       }
-
-      // Importar e instanciar o provider diretamente
-      const { BlackForestProvider } = await import(
-        '../services/providers/black-forest.provider'
-      );
-      const provider = new BlackForestProvider(blackForestConfig);
-
-      const result = await provider.processVirtualStagingInStages({
-        uploadId,
-        imageBase64,
+      started = true;
+
+      // Sem o recurso extra_stages, apenas as etapas base do plano são executadas
+      const entitlements = await entitlementService.getEntitlements(upload.userId);
+      const stageSelection = entitlementService.hasFeature(
+        entitlements,
+        ENTITLEMENT_FEATURES.EXTRA_STAGES
+      )
+        ? undefined
+        : entitlementService.getBaseStageSelection();
+
+      const webhookEndpoint =
+        webhookUrl !== undefined
+          ? await customerWebhookService.ensureUploadEndpoint(upload, webhookUrl)
+          : null;
+
+      // O orquestrador gera o plano e agenda a primeira etapa na fila
+      const stagedUpload = await stageOrchestratorService.startStaging({
+        uploadId: upload.id,
         roomType: upload.roomType,
         furnitureStyle: upload.furnitureStyle,
+        inputImageUrl: upload.inputImageUrl,
+        ...(stageSelection && { stageSelection }),
       });
 
-      if (result.success) {
-        // Atualizar registro no banco
-        if (result.outputImageUrl) {
-          await uploadRepository.updateOutputImage(
-            uploadId,
-            result.outputImageUrl,
-            undefined,
-            true
-          );
-        }
-
-        res.json({
-          success: true,
-          data: {
-            uploadId,
-            finalImageUrl: result.outputImageUrl,
-            metadata: result.metadata,
-          },
-        });
-      } else {
-        await uploadRepository.updateStatus(
+      res.status(202).json({
+        success: true,
+        data: {
           uploadId,
-          'failed',
-          result.errorMessage || 'Staging in stages failed'
-        );
-
-        res.status(500).json({
-          success: false,
-          error: result.errorMessage || 'Staging in stages failed',
-        });
-      }
+          status: stagedUpload.status,
+          currentStage: stagedUpload.currentStage,
+          totalStages: stagedUpload.stagingPlan?.stages.length,
+          // Segredo para verificar a assinatura (Stagingfy-Signature) dos eventos
+          ...(webhookEndpoint && {
+            webhook: { endpointId: webhookEndpoint.id, secret: webhookEndpoint.secret },
+          }),
+        },
+      });
     } catch (error) {
       console.error('Error processing virtual staging in stages:', error);
 
-      const { uploadId } = req.params;
-      if (uploadId) {
-        await uploadRepository.updateStatus(
+      if (started && uploadId) {
+        await stageOrchestratorService.failUpload(
           uploadId,
-          'failed',
           'Internal server error during staging in stages'
         );
       }
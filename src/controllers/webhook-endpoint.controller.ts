@@ -0,0 +1,226 @@
+import { Response } from 'express';
+import { BaseController } from './base.controller';
+import { AuthenticatedRequest } from '@/middleware/auth-middleware';
+import { customerWebhookService } from '@/services/customer-webhook.service';
+import { WebhookDeliveryStatus } from '@/repositories/webhook-delivery.repository';
+import { WebhookEndpoint } from '@/types/database';
+
+const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+export class WebhookEndpointController extends BaseController {
+  /**
+   * List the user's webhook endpoints
+   */
+  async listEndpoints(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const endpoints = await customerWebhookService.listEndpoints(req.user!.id);
+      this.success(
+        res,
+        endpoints.map(endpoint => this.withoutSecret(endpoint)),
+        'Webhook endpoints retrieved successfully'
+      );
+    } catch (error) {
+      this.error(res, 'Failed to list webhook endpoints', 500, error);
+    }
+  }
+
+  /**
+   * Register a webhook endpoint. The signing secret is only returned here.
+   */
+  async createEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { url, events, description } = req.body ?? {};
+
+      const errors: Record<string, string> = {};
+      const urlError = customerWebhookService.validateUrl(url);
+      if (urlError) {
+        errors.url = urlError;
+      }
+      const eventsError =
+        events !== undefined ? customerWebhookService.validateEvents(events) : null;
+      if (eventsError) {
+        errors.events = eventsError;
+      }
+      if (description !== undefined && typeof description !== 'string') {
+        errors.description = 'description must be a string';
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const endpoint = await customerWebhookService.createEndpoint(req.user!.id, {
+        url,
+        ...(events !== undefined && { events }),
+        ...(description !== undefined && { description }),
+      });
+
+      if (!endpoint) {
+        this.error(res, 'A webhook endpoint with this URL already exists', 409);
+        return;
+      }
+
+      this.success(res, endpoint, 'Webhook endpoint created successfully', 201);
+    } catch (error) {
+      this.error(res, 'Failed to create webhook endpoint', 500, error);
+    }
+  }
+
+  /**
+   * Get a webhook endpoint
+   */
+  async getEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const endpoint = await customerWebhookService.getEndpoint(
+        req.user!.id,
+        req.params.endpointId!
+      );
+
+      if (!endpoint) {
+        this.notFound(res, 'Webhook endpoint');
+        return;
+      }
+
+      this.success(res, this.withoutSecret(endpoint), 'Webhook endpoint retrieved successfully');
+    } catch (error) {
+      this.error(res, 'Failed to get webhook endpoint', 500, error);
+    }
+  }
+
+  /**
+   * Update url, events, description or isActive of a webhook endpoint
+   */
+  async updateEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { url, events, description, isActive } = req.body ?? {};
+
+      const errors: Record<string, string> = {};
+      if (url !== undefined) {
+        const urlError = customerWebhookService.validateUrl(url);
+        if (urlError) {
+          errors.url = urlError;
+        }
+      }
+      if (events !== undefined) {
+        const eventsError = customerWebhookService.validateEvents(events);
+        if (eventsError) {
+          errors.events = eventsError;
+        }
+      }
+      if (description !== undefined && description !== null && typeof description !== 'string') {
+        errors.description = 'description must be a string';
+      }
+      if (isActive !== undefined && typeof isActive !== 'boolean') {
+        errors.isActive = 'isActive must be a boolean';
+      }
+      if (Object.keys(errors).length > 0) {
+        this.validationError(res, errors);
+        return;
+      }
+
+      const endpoint = await customerWebhookService.updateEndpoint(
+        req.user!.id,
+        req.params.endpointId!,
+        {
+          ...(url !== undefined && { url }),
+          ...(events !== undefined && { events }),
+          ...(description !== undefined && { description }),
+          ...(isActive !== undefined && { isActive }),
+        }
+      );
+
+      if (!endpoint) {
+        this.notFound(res, 'Webhook endpoint');
+        return;
+      }
+
+      this.success(res, this.withoutSecret(endpoint), 'Webhook endpoint updated successfully');
+    } catch (error) {
+      this.error(res, 'Failed to update webhook endpoint', 500, error);
+    }
+  }
+
+  /**
+   * Delete a webhook endpoint and its delivery log
+   */
+  async deleteEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const deleted = await customerWebhookService.deleteEndpoint(
+        req.user!.id,
+        req.params.endpointId!
+      );
+
+      if (!deleted) {
+        this.notFound(res, 'Webhook endpoint');
+        return;
+      }
+
+      this.success(res, null, 'Webhook endpoint deleted successfully');
+    } catch (error) {
+      this.error(res, 'Failed to delete webhook endpoint', 500, error);
+    }
+  }
+
+  /**
+   * Paginated delivery log of a webhook endpoint
+   */
+  async getDeliveries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const pagination = this.getPagination(req);
+      const { status } = this.getFilters(req, ['status']);
+
+      if (status !== undefined && !WEBHOOK_DELIVERY_STATUSES.includes(status)) {
+        this.validationError(res, {
+          status: `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      const deliveries = await customerWebhookService.getDeliveries(
+        req.user!.id,
+        req.params.endpointId!,
+        { ...pagination, ...(status !== undefined && { status }) }
+      );
+
+      if (!deliveries) {
+        this.notFound(res, 'Webhook endpoint');
+        return;
+      }
+
+      this.success(
+        res,
+        { deliveries: deliveries.data, pagination: deliveries.pagination },
+        'Webhook deliveries retrieved successfully'
+      );
+    } catch (error) {
+      this.error(res, 'Failed to get webhook deliveries', 500, error);
+    }
+  }
+
+  /**
+   * Queue a delivery again
+   */
+  async redeliver(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const delivery = await customerWebhookService.redeliver(
+        req.user!.id,
+        req.params.deliveryId!
+      );
+
+      if (!delivery) {
+        this.notFound(res, 'Webhook delivery');
+        return;
+      }
+
+      this.success(res, delivery, 'Webhook delivery queued', 202);
+    } catch (error) {
+      this.error(res, 'Failed to redeliver webhook', 500, error);
+    }
+  }
+
+  private withoutSecret(endpoint: WebhookEndpoint): Omit<WebhookEndpoint, 'secret'> {
+    return Object.fromEntries(
+      Object.entries(endpoint).filter(([key]) => key !== 'secret')
+    ) as Omit<WebhookEndpoint, 'secret'>;
+  }
+}
@@ -0,0 +1,35 @@
+import { pgTable, uuid, text, boolean, integer, timestamp, pgEnum } from 'drizzle-orm/pg-core';
+import { user } from './auth';
+
+export const watermarkPositionEnum = pgEnum('watermark_position', [
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+  'center',
+]);
+
+// Per-user watermarks applied to every finished staged image
+export const brandingSettings = pgTable('branding_settings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id')
+    .notNull()
+    .references(() => user.id, { onDelete: 'cascade' })
+    .unique(),
+  // Text watermark, e.g. the "Virtually Staged" disclosure required by MLS boards
+  textEnabled: boolean('text_enabled').notNull().default(false),
+  text: text('text').notNull().default('Virtually Staged'),
+  textPosition: watermarkPositionEnum('text_position').notNull().default('bottom-right'),
+  textOpacity: integer('text_opacity').notNull().default(100), // percent
+  // Brokerage logo (PNG stored in S3)
+  logoEnabled: boolean('logo_enabled').notNull().default(false),
+  logoUrl: text('logo_url'),
+  logoPosition: watermarkPositionEnum('logo_position').notNull().default('bottom-left'),
+  logoOpacity: integer('logo_opacity').notNull().default(90), // percent
+  logoScale: integer('logo_scale').notNull().default(15), // logo width, percent of the image width
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at')
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
@@ -0,0 +1,57 @@
+import { sql } from 'drizzle-orm';
+import {
+  pgTable,
+  uuid,
+  text,
+  integer,
+  timestamp,
+  pgEnum,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { user } from './auth';
+import { uploads } from './uploads';
+
+// reserve: debit held while an upload is processing
+// capture: reservation consumed by a completed upload (no balance change)
+// refund: reservation returned after a failed or moderated upload
+// grant: credits added (purchase, subscription renewal, manual adjustment)
+export const creditLedgerTypeEnum = pgEnum('credit_ledger_type', [
+  'reserve',
+  'capture',
+  'refund',
+  'grant',
+]);
+
+// Only set on 'reserve' entries; moves exactly once from 'open' to a final state
+export const creditReservationStatusEnum = pgEnum('credit_reservation_status', [
+  'open',
+  'captured',
+  'refunded',
+]);
+
+export const creditLedger = pgTable(
+  'credit_ledger',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    uploadId: uuid('upload_id').references(() => uploads.id, { onDelete: 'set null' }),
+    type: creditLedgerTypeEnum('type').notNull(),
+    amount: integer('amount').notNull(), // signed delta applied to profiles.credits
+    balanceAfter: integer('balance_after').notNull(),
+    reservationStatus: creditReservationStatusEnum('reservation_status'),
+    reference: text('reference').unique(), // external idempotency key (e.g. Stripe invoice id)
+    description: text('description'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => [
+    index('credit_ledger_user_created_idx').on(table.userId, table.createdAt),
+    index('credit_ledger_upload_idx').on(table.uploadId),
+    // At most one open reservation per upload, so concurrent reserves cannot debit twice
+    uniqueIndex('credit_ledger_open_reservation_idx')
+      .on(table.uploadId)
+      .where(sql`${table.type} = 'reserve' AND ${table.reservationStatus} = 'open'`),
+  ]
+);
@@ -8,6 +8,15 @@ export * from './furniture-styles';
 export * from './loras';
 export * from './jobs';
 export * from './uploads';
+export * from './listings';
+export * from './stage-jobs';
+export * from './staging-catalog-versions';
+export * from './prompt-templates';
+export * from './branding-settings';
+
+// Customer webhook schemas
+export * from './webhook-endpoints';
+export * from './webhook-deliveries';
 
 // Billing schemas
 export * from './plans';
@@ -15,6 +24,8 @@ export * from './plan-features';
 export * from './plan-feature-relations';
 export * from './subscriptions';
 export * from './payments';
+export * from './credit-ledger';
+export * from './stripe-events';
 
 // Audit schema
 export * from './audit-logs';
\ No newline at end of file
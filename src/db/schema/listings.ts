@@ -0,0 +1,57 @@
+import { pgTable, uuid, text, integer, timestamp, jsonb, pgEnum, index } from 'drizzle-orm/pg-core';
+import { DesignPalette, StageSelectionConfig } from '../../interfaces/upload.interface';
+import { user } from './auth';
+
+// Property listing of an agent; groups the staging batches of its photos
+export const listings = pgTable(
+  'listings',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    title: text('title').notNull(),
+    address: text('address'),
+    externalReference: text('external_reference'), // Listing id in the customer's own system
+    designPalette: jsonb('design_palette').$type<DesignPalette>(), // Locked materials, colors, item picks and seed shared by every room
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  table => [index('listings_user_created_idx').on(table.userId, table.createdAt)]
+);
+
+// processing: photos still running; completed: every photo finished and at least one succeeded;
+// failed: every photo failed
+export const listingStagingStatusEnum = pgEnum('listing_staging_status', [
+  'processing',
+  'completed',
+  'failed',
+]);
+
+// Staging batch: many photos of the listing staged with one furniture style
+export const listingStagings = pgTable(
+  'listing_stagings',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    listingId: uuid('listing_id')
+      .notNull()
+      .references(() => listings.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    furnitureStyle: text('furniture_style').notNull(), // furniture_styles slug shared by every photo
+    stageSelection: jsonb('stage_selection').$type<StageSelectionConfig>().notNull(),
+    totalImages: integer('total_images').notNull(),
+    status: listingStagingStatusEnum('status').default('processing').notNull(),
+    completedAt: timestamp('completed_at'), // Every photo finished (completion event emitted)
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  table => [index('listing_stagings_listing_created_idx').on(table.listingId, table.createdAt)]
+);
@@ -6,7 +6,8 @@ export const paymentStatusEnum = pgEnum('payment_status', ['pending', 'succeeded
 export const payments = pgTable('payments', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => user.id),
-  stripePaymentIntentId: text('stripe_payment_intent_id').notNull().unique(),
+  stripePaymentIntentId: text('stripe_payment_intent_id').unique(),
+  stripeInvoiceId: text('stripe_invoice_id').unique(),
   amount: integer('amount').notNull(), // in cents
   currency: text('currency').notNull().default('usd'),
   status: paymentStatusEnum('status').notNull().default('pending'),
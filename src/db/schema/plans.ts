@@ -6,6 +6,8 @@ export const plans = pgTable('plans', {
   priceMonthly: integer('price_monthly').notNull(), // in cents
   priceYearly: integer('price_yearly').notNull(), // in cents
   photosPerMonth: integer('photos_per_month').notNull(),
+  stripeMonthlyPriceId: text('stripe_monthly_price_id').unique(), // Stripe price for monthly billing
+  stripeYearlyPriceId: text('stripe_yearly_price_id').unique(), // Stripe price for yearly billing
   isPopular: boolean('is_popular').notNull().default(false),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
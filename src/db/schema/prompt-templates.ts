@@ -0,0 +1,21 @@
+import { pgTable, uuid, text, integer, timestamp, uniqueIndex } from 'drizzle-orm/pg-core';
+import { user } from './auth';
+
+// Versões imutáveis dos templates de prompt (ex.: "stage.foundation", "single").
+// trafficPercent define a fatia do tráfego de cada versão no A/B; o restante
+// usa o template embutido (versão 0).
+export const promptTemplates = pgTable(
+  'prompt_templates',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    name: text('name').notNull(),
+    version: integer('version').notNull(), // Sequencial por nome, a partir de 1
+    body: text('body').notNull(), // Texto com variáveis {{nome}}
+    notes: text('notes'),
+    trafficPercent: integer('traffic_percent').notNull().default(0),
+    createdBy: uuid('created_by').references(() => user.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  table => [uniqueIndex('prompt_templates_name_version_idx').on(table.name, table.version)]
+);
@@ -1,10 +1,12 @@
-import { pgTable, uuid, text, boolean, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, boolean, jsonb, timestamp } from 'drizzle-orm/pg-core';
 
 export const roomTypes = pgTable('room_types', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: text('name').notNull().unique(), // slug like "living_room"
   label: text('label').notNull(), // display name like "Sala de Estar"
+  labels: jsonb('labels').$type<Record<string, string>>().notNull().default({}), // translated display names, e.g. { en: "Living Room" }
   premiumOnly: boolean('premium_only').notNull().default(false),
+  active: boolean('active').notNull().default(true), // inactive slugs are rejected by staging requests
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
\ No newline at end of file
@@ -0,0 +1,65 @@
+import {
+  pgTable,
+  uuid,
+  text,
+  integer,
+  timestamp,
+  pgEnum,
+  uniqueIndex,
+  index,
+} from 'drizzle-orm/pg-core';
+import { uploads, providerEnum, stagingStageEnum } from './uploads';
+
+// Enum para status de cada submissão de etapa ao provider
+export const stageJobStatusEnum = pgEnum('stage_job_status', [
+  'pending',
+  'submitted',
+  'completed',
+  'failed',
+]);
+
+// Cada linha representa uma tentativa de submissão de uma etapa ao provider.
+// É a fonte de verdade para correlacionar webhooks (providerJobId -> upload/etapa).
+export const stageJobs = pgTable(
+  'stage_jobs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    uploadId: uuid('upload_id')
+      .notNull()
+      .references(() => uploads.id, { onDelete: 'cascade' }),
+    stage: stagingStageEnum('stage').notNull(),
+    stageIndex: integer('stage_index').notNull(), // Posição da etapa no staging plan
+    attempt: integer('attempt').notNull().default(1),
+    // Tentativa dentro da execução atual da etapa; reinicia em retomadas e
+    // regenerações, enquanto attempt segue crescendo
+    runAttempt: integer('run_attempt').notNull().default(1),
+    // Retentativas da etapa antes desta tentativa (automáticas e pedidas pelo
+    // cliente); reinicia nas regenerações, que não contam como retentativa
+    retryCount: integer('retry_count').notNull().default(0),
+    instruction: text('instruction'), // Instrução do usuário na regeneração da etapa
+    provider: providerEnum('provider').notNull(),
+    providerJobId: text('provider_job_id').unique(), // ID do job retornado pelo provider
+    status: stageJobStatusEnum('status').default('pending').notNull(),
+    inputImageUrl: text('input_image_url').notNull(),
+    outputImageUrl: text('output_image_url'),
+    errorMessage: text('error_message'),
+    submittedAt: timestamp('submitted_at'),
+    completedAt: timestamp('completed_at'),
+    // Transição após o resultado (avançar, repetir ou falhar) concluída; sem ela,
+    // um novo processamento do mesmo resultado retoma a transição
+    transitionedAt: timestamp('transitioned_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  table => [
+    uniqueIndex('stage_jobs_upload_stage_attempt_idx').on(
+      table.uploadId,
+      table.stageIndex,
+      table.attempt
+    ),
+    index('stage_jobs_status_idx').on(table.status),
+  ]
+);
@@ -0,0 +1,16 @@
+import { pgTable, uuid, text, integer, boolean, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { user } from './auth';
+import { StagingCatalog } from '../../interfaces/staging-catalog.interface';
+
+// Versões imutáveis do catálogo de staging (planos por cômodo e orientação por estilo).
+// Apenas uma versão fica ativa; publicar outra (ou uma anterior) troca a ativa.
+export const stagingCatalogVersions = pgTable('staging_catalog_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  version: integer('version').notNull().unique(),
+  catalog: jsonb('catalog').$type<StagingCatalog>().notNull(),
+  notes: text('notes'),
+  createdBy: uuid('created_by').references(() => user.id, { onDelete: 'set null' }),
+  isActive: boolean('is_active').notNull().default(false),
+  activatedAt: timestamp('activated_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
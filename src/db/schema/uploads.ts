@@ -1,5 +1,9 @@
-import { pgTable, uuid, text, timestamp, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, integer, boolean, timestamp, pgEnum, jsonb } from 'drizzle-orm/pg-core';
+import { PromptTemplateVersions } from '../../interfaces/prompt-template.interface';
+import { ComparisonImageCache } from '../../interfaces/comparison.interface';
+import { UploadProcessingOptions } from '../../interfaces/upload.interface';
 import { user } from './auth';
+import { listingStagings } from './listings';
 
 // Enum para status do upload
 export const uploadStatusEnum = pgEnum('upload_status', [
@@ -9,34 +13,11 @@ export const uploadStatusEnum = pgEnum('upload_status', [
   'failed'
 ]);
 
-// Enum para tipos de ambiente
-export const roomTypeEnum = pgEnum('room_type', [
-  'bedroom',
-  'living_room',
-  'kitchen',
-  'bathroom',
-  'home_office',
-  'dining_room',
-  'kids_room',
-  'outdoor'
-]);
-
-// Enum para estilos de móveis
-export const furnitureStyleEnum = pgEnum('furniture_style', [
-  'standard',
-  'modern',
-  'scandinavian',
-  'industrial',
-  'midcentury',
-  'luxury',
-  'coastal',
-  'farmhouse'
-]);
-
 // Enum para providers de IA
 export const providerEnum = pgEnum('provider', [
   'black-forest',
-  'instant-deco'
+  'instant-deco',
+  'mock'
 ]);
 
 // Enum para etapas de staging
@@ -53,13 +34,20 @@ export const uploads = pgTable('uploads', {
   userId: uuid('user_id')
     .notNull()
     .references(() => user.id, { onDelete: 'cascade' }),
-  roomType: roomTypeEnum('room_type').notNull(),
-  furnitureStyle: furnitureStyleEnum('furniture_style').notNull(),
+  roomType: text('room_type').notNull(), // Slug de room_types
+  furnitureStyle: text('furniture_style').notNull(), // Slug de furniture_styles
   provider: providerEnum('provider').default('black-forest').notNull(),
+  providerRoute: text('provider_route'), // JSON com a ordem de providers (primário + failover)
+  outputProvider: providerEnum('output_provider'), // Provider que gerou a imagem final
   inputImageUrl: text('input_image_url').notNull(),
   outputImageUrl: text('output_image_url'),
   outputImageUrls: text('output_image_urls'), // JSON string array para múltiplas URLs
+  unbrandedOutputImageUrl: text('unbranded_output_image_url'), // Saída sem marca d'água (mantida só para planos pagos)
+  brandedAt: timestamp('branded_at'), // Quando a marca d'água/logo do usuário foi aplicada à saída
+  disclosureApplied: boolean('disclosure_applied').notNull().default(false), // Marca d'água aplicada contém o aviso "Virtually Staged"
+  comparisonImages: jsonb('comparison_images').$type<ComparisonImageCache>(), // Comparações antes/depois geradas (limpas quando a saída muda)
   maskUrl: text('mask_url'), // URL da máscara salva no S3
+  preserveArchitecture: boolean('preserve_architecture').default(false).notNull(), // Compor a saída sobre a original fora da máscara
   status: uploadStatusEnum('status').default('pending').notNull(),
   errorMessage: text('error_message'),
   blackForestJobId: text('black_forest_job_id'), // ID do job na API da Black Forest
@@ -69,6 +57,15 @@ export const uploads = pgTable('uploads', {
   stagingPlan: text('staging_plan'), // JSON com o plano de staging completo
   stageResults: text('stage_results'), // JSON com resultados de cada etapa
   stageJobIds: text('stage_job_ids'), // JSON com mapeamento de etapa -> jobId
+  creditsUsed: integer('credits_used').default(0).notNull(), // Créditos capturados ao concluir
+  promptTemplates: jsonb('prompt_templates').$type<PromptTemplateVersions>(), // Versão de cada template de prompt usado (A/B)
+  processingOptions: jsonb('processing_options').$type<UploadProcessingOptions>(), // Seed/alta resolução do upload simples (reaplicados no failover)
+  complainedAt: timestamp('complained_at'), // Reclamação do cliente sobre o resultado
+  complaintReason: text('complaint_reason'),
+  listingStagingId: uuid('listing_staging_id').references(() => listingStagings.id, {
+    onDelete: 'set null',
+  }), // Lote de staging do imóvel ao qual a foto pertence
+  dispatchedAt: timestamp('dispatched_at'), // Fotos de lote só entram na fila quando há vaga na concorrência do usuário
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at')
     .defaultNow()
@@ -0,0 +1,45 @@
+import { pgTable, uuid, text, integer, timestamp, jsonb, pgEnum, index } from 'drizzle-orm/pg-core';
+import { user } from './auth';
+import { uploads } from './uploads';
+import { webhookEndpoints } from './webhook-endpoints';
+
+// pending: queued or waiting for a retry; succeeded: endpoint answered 2xx;
+// failed: all attempts exhausted (can still be redelivered manually)
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', [
+  'pending',
+  'succeeded',
+  'failed',
+]);
+
+// Delivery log: one row per (event, endpoint), updated on every attempt
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    endpointId: uuid('endpoint_id')
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    uploadId: uuid('upload_id').references(() => uploads.id, { onDelete: 'set null' }),
+    eventId: text('event_id').notNull(), // evt_... shared by all endpoints of one event
+    eventType: text('event_type').notNull(),
+    payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+    status: webhookDeliveryStatusEnum('status').notNull().default('pending'),
+    attempts: integer('attempts').notNull().default(0),
+    responseStatus: integer('response_status'),
+    errorMessage: text('error_message'),
+    lastAttemptAt: timestamp('last_attempt_at'),
+    deliveredAt: timestamp('delivered_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  table => [
+    index('webhook_deliveries_endpoint_created_idx').on(table.endpointId, table.createdAt),
+    index('webhook_deliveries_event_idx').on(table.eventId),
+  ]
+);
@@ -0,0 +1,36 @@
+import { sql } from 'drizzle-orm';
+import { pgTable, uuid, text, boolean, timestamp, jsonb, uniqueIndex } from 'drizzle-orm/pg-core';
+import { user } from './auth';
+import { uploads } from './uploads';
+
+// Customer-registered URLs that receive signed upload lifecycle events
+export const webhookEndpoints = pgTable(
+  'webhook_endpoints',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    // Set for endpoints registered with a single upload (webhookUrl on POST /:uploadId/stages);
+    // they only receive that upload's events
+    uploadId: uuid('upload_id').references(() => uploads.id, { onDelete: 'cascade' }),
+    url: text('url').notNull(),
+    secret: text('secret').notNull(), // HMAC-SHA256 signing secret (whsec_...)
+    events: jsonb('events').$type<string[]>().notNull(), // subscribed event types
+    description: text('description'),
+    isActive: boolean('is_active').notNull().default(true),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  table => [
+    uniqueIndex('webhook_endpoints_user_url_idx')
+      .on(table.userId, table.url)
+      .where(sql`${table.uploadId} IS NULL`),
+    uniqueIndex('webhook_endpoints_upload_url_idx')
+      .on(table.uploadId, table.url)
+      .where(sql`${table.uploadId} IS NOT NULL`),
+  ]
+);
@@ -5,6 +5,7 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { errorHandler } from '@/middleware/error-handler';
 import { notFoundHandler } from '@/middleware/not-found-handler';
+import { RawBodyRequest } from '@/middleware/webhook-signature-middleware';
 import { logger } from '@/lib/logger';
 import authRoutes from '@/routes/auth';
 import uploadRoutes from '@/routes/upload.routes';
@@ -12,7 +13,11 @@ import stripeRoutes from '@/routes/stripe.routes';
 import userRoutes from '@/routes/user.routes';
 import virtualStagingRoutes from '@/routes/virtual-staging.routes';
 import webhookRoutes from '@/routes/webhook.routes';
+import adminRoutes from '@/routes/admin.routes';
+import catalogRoutes from '@/routes/catalog.routes';
+import listingRoutes from '@/routes/listing.routes';
 import { initializeWorkers, closeWorkers } from '@/workers';
+import { providerHealthService } from '@/services/provider-health.service';
 
 // Load environment variables
 dotenv.config();
@@ -42,6 +47,19 @@ app.use(
   })
 );
 
+// Stripe signs the raw payload, so its webhook must skip JSON parsing
+app.use('/api/v1/stripe/webhook', express.raw({ type: 'application/json' }));
+
+// Black Forest signs the webhook payload, so its raw body is kept for verification
+app.use(
+  '/api/v1/webhooks/black-forest',
+  express.json({
+    verify: (req, _res, buf) => {
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  })
+);
+
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -55,6 +73,28 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Provider health: circuit breaker state, recent error rate and p95 latency
+app.get('/health/providers', async (req, res) => {
+  try {
+    const providers = await providerHealthService.getHealthReport();
+    const degraded = providers.some(
+      provider => provider.configured && provider.state !== 'closed'
+    );
+
+    res.status(200).json({
+      status: degraded ? 'degraded' : 'ok',
+      timestamp: new Date().toISOString(),
+      providers,
+    });
+  } catch (error) {
+    logger.error('Failed to build provider health report:', error as Error);
+    res.status(500).json({
+      status: 'error',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
 // Authentication routes
 app.use('/api/auth', authRoutes);
 
@@ -64,6 +104,9 @@ app.use('/api/v1/virtual-staging', virtualStagingRoutes);
 app.use('/api/v1/stripe', stripeRoutes);
 app.use('/api/v1/user', userRoutes);
 app.use('/api/v1/webhooks', webhookRoutes);
+app.use('/api/v1/admin', adminRoutes);
+app.use('/api/v1/catalog', catalogRoutes);
+app.use('/api/v1/listings', listingRoutes);
 
 app.use('/api/v1', (req, res) => {
   res.status(200).json({ message: 'API v1 is running' });
@@ -0,0 +1,47 @@
+export const WATERMARK_POSITIONS = [
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+  'center',
+] as const;
+
+export type WatermarkPosition = (typeof WATERMARK_POSITIONS)[number];
+
+export const MAX_WATERMARK_TEXT_LENGTH = 60;
+export const MIN_LOGO_SCALE = 5;
+export const MAX_LOGO_SCALE = 50;
+export const MAX_LOGO_FILE_SIZE = 2 * 1024 * 1024;
+export const ALLOWED_LOGO_TYPES = ['image/png', 'image/webp', 'image/jpeg', 'image/svg+xml'];
+
+/**
+ * Changes accepted by PUT /user/branding (the logo is uploaded separately)
+ */
+export interface BrandingSettingsChanges {
+  textEnabled?: boolean;
+  text?: string;
+  textPosition?: WatermarkPosition;
+  textOpacity?: number;
+  logoEnabled?: boolean;
+  logoPosition?: WatermarkPosition;
+  logoOpacity?: number;
+  logoScale?: number;
+}
+
+/**
+ * Overlays drawn on a finished image
+ */
+export interface WatermarkOverlay {
+  text?: { content: string; position: WatermarkPosition; opacity: number }; // opacity 0-1
+  logo?: { image: Buffer; position: WatermarkPosition; opacity: number; scale: number }; // scale: percent of the image width
+}
+
+/**
+ * Final output of an upload after branding
+ */
+export interface BrandedOutput {
+  outputImageUrl: string;
+  brandedAt: Date | null; // null when no watermark applies
+  disclosureApplied: boolean; // the text watermark carries the "Virtually Staged" disclosure
+  unbrandedOutputImageUrl: string | null; // only kept for paid plans
+}
@@ -0,0 +1,63 @@
+import { Provider, StagingStage } from './upload.interface';
+
+/**
+ * Formato dos slugs de room_types e furniture_styles (ex.: "laundry_room", "japandi")
+ */
+export const CATALOG_SLUG_PATTERN = /^[a-z][a-z0-9_]{1,49}$/;
+
+/**
+ * Idiomas dos nomes exibidos no catálogo público
+ */
+export const SUPPORTED_CATALOG_LOCALES = ['pt-BR', 'en', 'es'] as const;
+
+export type CatalogLocale = (typeof SUPPORTED_CATALOG_LOCALES)[number];
+
+/**
+ * Slugs ativos aceitos nas requisições de staging
+ */
+export interface ActiveCatalogSlugs {
+  roomTypes: string[];
+  furnitureStyles: string[];
+}
+
+/**
+ * Cômodo ou estilo no catálogo público
+ */
+export interface PublicCatalogEntry {
+  slug: string;
+  label: string;
+  premiumOnly: boolean;
+  providers: Provider[]; // Providers que aceitam o slug
+}
+
+/**
+ * Etapa no catálogo público
+ */
+export interface PublicCatalogStage {
+  stage: StagingStage;
+  label: string;
+  order: number;
+  premiumOnly: boolean; // Exige o recurso extra_stages
+}
+
+/**
+ * Suporte de um provider: qualquer combinação roomTypes x furnitureStyles listada
+ */
+export interface PublicCatalogProvider {
+  provider: Provider;
+  isDefault: boolean;
+  supportsStages: boolean; // Staging em etapas pelo orquestrador
+  roomTypes: string[];
+  furnitureStyles: string[];
+}
+
+/**
+ * Catálogo público (GET /api/v1/catalog) com nomes no idioma pedido
+ */
+export interface PublicCatalog {
+  locale: CatalogLocale;
+  roomTypes: PublicCatalogEntry[];
+  furnitureStyles: PublicCatalogEntry[];
+  stages: PublicCatalogStage[];
+  providers: PublicCatalogProvider[];
+}
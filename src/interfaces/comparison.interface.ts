@@ -0,0 +1,32 @@
+export const COMPARISON_LAYOUTS = ['side-by-side', 'top-bottom', 'diagonal', 'wipe'] as const;
+
+export type ComparisonLayout = (typeof COMPARISON_LAYOUTS)[number];
+
+export type ComparisonFormat = 'jpeg' | 'webp' | 'gif';
+
+// Formatos aceitos por layout (o primeiro é o padrão); wipe é sempre animado
+export const COMPARISON_LAYOUT_FORMATS: Record<ComparisonLayout, ComparisonFormat[]> = {
+  'side-by-side': ['jpeg', 'webp'],
+  'top-bottom': ['jpeg', 'webp'],
+  diagonal: ['jpeg', 'webp'],
+  wipe: ['webp', 'gif'],
+};
+
+export interface ComparisonOptions {
+  layout: ComparisonLayout;
+  format: ComparisonFormat;
+  labels: boolean; // Rótulos "Before" / "After"
+}
+
+/**
+ * Comparação antes/depois já gerada e salva no S3
+ */
+export interface ComparisonImage extends ComparisonOptions {
+  url: string;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+// Comparações do upload, pela chave "layout:formato:labels|plain"
+export type ComparisonImageCache = Record<string, ComparisonImage>;
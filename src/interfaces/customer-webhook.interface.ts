@@ -0,0 +1,69 @@
+import { FurnitureStyle, Provider, RoomType, StagingStage, UploadStatus } from './upload.interface';
+import { ListingStagingProgress } from './listing.interface';
+
+// Upload and listing batch lifecycle events delivered to customer webhook endpoints
+export const CUSTOMER_WEBHOOK_EVENTS = [
+  'upload.processing',
+  'upload.stage_completed',
+  'upload.completed',
+  'upload.failed',
+  'listing_staging.completed',
+] as const;
+
+export type CustomerWebhookEventType = (typeof CUSTOMER_WEBHOOK_EVENTS)[number];
+
+export const CUSTOMER_WEBHOOK_JOB_NAME = 'deliver-webhook';
+
+/**
+ * Upload snapshot sent in every event
+ */
+export interface CustomerWebhookUploadData {
+  id: string;
+  status: UploadStatus;
+  roomType: RoomType;
+  furnitureStyle: FurnitureStyle;
+  provider: Provider;
+  outputProvider?: Provider;
+  inputImageUrl: string;
+  outputImageUrl?: string;
+  currentStage?: StagingStage;
+  errorMessage?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Listing batch snapshot sent once every photo of the batch finished
+ */
+export interface CustomerWebhookListingStagingData {
+  id: string;
+  listingId: string;
+  status: 'processing' | 'completed' | 'failed';
+  furnitureStyle: FurnitureStyle;
+  progress: ListingStagingProgress;
+  uploads: CustomerWebhookUploadData[];
+  createdAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Body POSTed to the endpoint. Signed with the endpoint secret in the
+ * Stagingfy-Signature header: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+export interface CustomerWebhookEvent {
+  id: string;
+  type: CustomerWebhookEventType;
+  createdAt: string;
+  data: {
+    upload?: CustomerWebhookUploadData; // upload.* events
+    listingStaging?: CustomerWebhookListingStagingData; // listing_staging.* events
+    stage?: {
+      stage: StagingStage;
+      imageUrl: string;
+    };
+  };
+}
+
+export interface CustomerWebhookJobData {
+  deliveryId: string;
+}
@@ -0,0 +1,27 @@
+import { StagingStage } from './upload.interface';
+
+/**
+ * Slugs de plan_features que liberam recursos premium
+ */
+export const ENTITLEMENT_FEATURES = {
+  PREMIUM_ROOM_TYPES: 'premium_room_types',
+  PREMIUM_STYLES: 'premium_styles',
+  REFERENCE_IMAGES: 'reference_images',
+  EXTRA_STAGES: 'extra_stages',
+  HIGH_RESOLUTION: 'high_resolution',
+} as const;
+
+export type EntitlementFeature =
+  (typeof ENTITLEMENT_FEATURES)[keyof typeof ENTITLEMENT_FEATURES];
+
+// Etapas disponíveis em qualquer plano; as demais exigem extra_stages
+export const BASE_STAGES: StagingStage[] = ['foundation', 'complement'];
+
+/**
+ * Recursos liberados para o usuário pela assinatura ativa
+ */
+export interface UserEntitlements {
+  planId: string | null;
+  planName: string | null;
+  features: string[];
+}
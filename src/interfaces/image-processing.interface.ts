@@ -0,0 +1,30 @@
+import { DesignPalette, StageSelectionConfig } from './upload.interface';
+
+// Nome do job de processamento de uploads na fila image-processing
+export const IMAGE_PROCESSING_JOB_NAME = 'process-upload';
+
+/**
+ * staged: staging em etapas via orquestrador (quando o provider suporta)
+ * single: uma única chamada ao provider
+ */
+export type UploadProcessingMode = 'staged' | 'single';
+
+/**
+ * Job de processamento de um upload já persistido
+ */
+export interface ImageProcessingJobData {
+  uploadId: string;
+  mode: UploadProcessingMode;
+  stageSelection?: StageSelectionConfig;
+  seed?: number;
+  highResolution?: boolean; // Saída em alta resolução (validada pelo entitlementMiddleware)
+  referenceImageUrls?: string[];
+  palette?: DesignPalette; // Paleta do imóvel (fotos de lote)
+}
+
+export interface ImageProcessingJobResult {
+  uploadId: string;
+  action: 'staging_started' | 'submitted' | 'skipped';
+  requestId?: string;
+  processingTime: number;
+}
@@ -0,0 +1,114 @@
+import { Listing, ListingStaging } from '../types/database';
+import { FurnitureStyle, Provider, RoomType, StageSelectionConfig, UploadStatus } from './upload.interface';
+
+// Photos accepted in one batch request
+export const LISTING_STAGING_MAX_IMAGES = 40;
+
+/**
+ * One photo of a staging batch, as received by POST /listings/:id/stagings
+ */
+export interface ListingStagingImageInput {
+  roomType: RoomType;
+  buffer: Buffer;
+  originalName: string;
+  mimeType: string;
+}
+
+export interface CreateListingStagingRequest {
+  furnitureStyle: FurnitureStyle;
+  stageSelection: StageSelectionConfig;
+  provider?: Provider; // Preferred provider; the routing policy picks one otherwise
+  preserveArchitecture?: boolean;
+  images: ListingStagingImageInput[];
+}
+
+/**
+ * Aggregate progress of a batch. queued photos wait for a free slot in the
+ * user's concurrency limit; pending photos are already in the processing queue.
+ */
+export interface ListingStagingProgress {
+  total: number;
+  queued: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+  finished: number; // completed + failed
+  percent: number; // 0-100, finished / total
+}
+
+export interface ListingStagingImage {
+  uploadId: string;
+  roomType: RoomType;
+  status: UploadStatus | 'queued';
+  inputImageUrl: string;
+  outputImageUrl?: string;
+  errorMessage?: string;
+}
+
+export interface ListingStagingSummary extends ListingStaging {
+  progress: ListingStagingProgress;
+}
+
+export interface ListingStagingDetails extends ListingStagingSummary {
+  images: ListingStagingImage[];
+}
+
+export interface ListingDetails extends Listing {
+  stagings: ListingStagingSummary[];
+}
+
+// Target long edge in pixels, or the staged image at full resolution
+export type ListingExportSize = number | 'original';
+
+export const LISTING_EXPORT_DEFAULT_SIZES: ListingExportSize[] = [1024, 2048, 'original'];
+export const LISTING_EXPORT_DEFAULT_QUALITY = 85;
+export const LISTING_EXPORT_MIN_QUALITY = 40;
+export const LISTING_EXPORT_MIN_SIZE = 320;
+export const LISTING_EXPORT_MAX_SIZE = 8192;
+export const LISTING_EXPORT_MAX_SIZES = 4;
+
+/**
+ * Options of GET /listings/:id/export
+ */
+export interface ListingExportOptions {
+  sizes: ListingExportSize[];
+  quality: number; // JPEG quality, 40-100
+  watermark: boolean; // "Virtually Staged" disclosure on the staged photos
+  stagingId?: string; // Only the photos of this batch
+}
+
+export interface ListingExportFile {
+  path: string;
+  size: ListingExportSize;
+  width: number;
+  height: number;
+  bytes: number;
+  watermarked: boolean;
+}
+
+/**
+ * One staged photo of the export: the original (before) and the staged (after)
+ * image in every requested size
+ */
+export interface ListingExportPhoto {
+  index: number;
+  uploadId: string;
+  listingStagingId: string;
+  roomType: RoomType;
+  furnitureStyle: FurnitureStyle;
+  before: ListingExportFile[];
+  after: ListingExportFile[];
+}
+
+/**
+ * manifest.json written as the last entry of the ZIP
+ */
+export interface ListingExportManifest {
+  listing: Pick<Listing, 'id' | 'title' | 'address' | 'externalReference'>;
+  exportedAt: string;
+  options: ListingExportOptions;
+  disclosure: string | null;
+  photos: ListingExportPhoto[];
+  skipped: Array<{ uploadId: string; reason: string }>;
+}
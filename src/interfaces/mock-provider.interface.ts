@@ -0,0 +1,33 @@
+/**
+ * Cenários simulados pelo provider mock (MOCK_PROVIDER_SCENARIO)
+ * success: gera a imagem normalmente
+ * error: o job termina com erro do provider
+ * moderated: o job é bloqueado pela moderação de conteúdo
+ * submit_error: a submissão é rejeitada imediatamente
+ */
+export type MockProviderScenario = 'success' | 'error' | 'moderated' | 'submit_error';
+
+export type MockJobStatus = 'completed' | 'failed' | 'moderated';
+
+/**
+ * Job simulado guardado no Redis até expirar
+ */
+export interface MockJobRecord {
+  id: string;
+  uploadId: string;
+  status: MockJobStatus;
+  readyAt: number; // epoch ms a partir do qual o resultado fica disponível
+  imageUrl?: string;
+  error?: string;
+  webhookUrl?: string;
+}
+
+/**
+ * Payload enviado ao webhook /api/v1/webhooks/mock
+ */
+export interface MockWebhookPayload {
+  id: string;
+  status: MockJobStatus;
+  imageUrl?: string;
+  error?: string;
+}
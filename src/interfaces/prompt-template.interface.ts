@@ -0,0 +1,79 @@
+import { PromptTemplate } from '../types/database';
+
+export const PROMPT_TEMPLATE_NAMES = [
+  'stage.foundation',
+  'stage.complement',
+  'stage.wall_decoration',
+  'stage.windows_decoration',
+  'stage.customization',
+  'stage.instruction',
+  'single',
+] as const;
+
+export type PromptTemplateName = (typeof PROMPT_TEMPLATE_NAMES)[number];
+
+// Versão dos templates embutidos no código
+export const BUILT_IN_PROMPT_TEMPLATE_VERSION = 0;
+
+/**
+ * Template embutido: corpo com variáveis {{nome}} e as variáveis aceitas
+ */
+export interface PromptTemplateDefinition {
+  description: string;
+  variables: string[];
+  body: string;
+}
+
+/**
+ * Versão de template usada por nome (0 = embutido), gravada em cada upload
+ */
+export type PromptTemplateVersions = Partial<Record<PromptTemplateName, number>>;
+
+/**
+ * Como escolher a versão de cada template:
+ * - versions: versões já atribuídas (ex.: gravadas no plano do upload)
+ * - assignmentKey: chave estável (uploadId) para o sorteio do A/B; sem ela o sorteio é aleatório
+ */
+export interface PromptTemplateSelection {
+  versions?: PromptTemplateVersions;
+  assignmentKey?: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  version: number;
+}
+
+/**
+ * Versões de um template que recebem tráfego (percentual de 0 a 100)
+ */
+export interface PromptTemplateAllocation {
+  version: number;
+  trafficPercent: number;
+  body: string;
+}
+
+/**
+ * Template com suas versões, para os endpoints de admin
+ */
+export interface PromptTemplateSummary {
+  name: PromptTemplateName;
+  description: string;
+  variables: string[];
+  builtInBody: string;
+  builtInTrafficPercent: number; // Tráfego não alocado às versões cadastradas
+  versions: PromptTemplate[];
+}
+
+/**
+ * Resultado dos uploads por versão de um template
+ */
+export interface PromptVariantStats {
+  version: number;
+  uploads: number;
+  completed: number;
+  failed: number;
+  complaints: number;
+  completionRate: number; // completed / (completed + failed)
+  complaintRate: number; // complaints / completed
+}
@@ -0,0 +1,37 @@
+import { Provider } from './upload.interface';
+
+/**
+ * Estado do circuit breaker de um provider
+ * closed: chamadas liberadas; open: chamadas bloqueadas até o fim do cooldown;
+ * half_open: uma chamada de teste decide se o circuito fecha ou reabre
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Limites do circuit breaker (iguais para todos os providers)
+ */
+export interface CircuitBreakerConfig {
+  // Fração de chamadas com erro ou lentas na janela que abre o circuito
+  failureRateThreshold: number;
+  // Mínimo de chamadas na janela antes de avaliar a taxa de falhas
+  minimumRequests: number;
+  windowMs: number;
+  // Tempo em open antes de liberar a chamada de teste
+  openDurationMs: number;
+  // Chamadas mais lentas que isto contam como falha para abrir o circuito
+  slowCallThresholdMs: number;
+}
+
+/**
+ * Saúde de um provider reportada por GET /health/providers
+ */
+export interface ProviderHealthReport {
+  provider: Provider;
+  configured: boolean;
+  state: CircuitState;
+  requests: number;
+  errorRate: number;
+  slowCallRate: number;
+  p95LatencyMs: number | null;
+  openedAt?: string;
+}
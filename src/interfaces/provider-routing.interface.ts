@@ -0,0 +1,32 @@
+import { FurnitureStyle, Provider, RoomType } from './upload.interface';
+
+/**
+ * Regra de roteamento: ambientes/estilos atendidos preferencialmente por uma
+ * lista ordenada de providers. Campos omitidos casam com qualquer valor.
+ */
+export interface ProviderRoutingRule {
+  roomTypes?: RoomType[];
+  furnitureStyles?: FurnitureStyle[];
+  providers: Provider[];
+}
+
+/**
+ * Política de roteamento e failover entre providers
+ */
+export interface ProviderRoutingPolicy {
+  rules: ProviderRoutingRule[];
+  // Divisão ponderada do tráfego quando nenhuma regra casa (ex.: 80/20)
+  weights: Partial<Record<Provider, number>>;
+  // Quando desabilitado, o upload usa apenas o provider primário
+  failover: boolean;
+}
+
+/**
+ * Critérios usados para montar a rota de providers de um upload
+ */
+export interface ProviderRouteCriteria {
+  roomType: RoomType;
+  furnitureStyle: FurnitureStyle;
+  // Provider pedido explicitamente pelo cliente; sempre é o primário
+  preferredProvider?: Provider;
+}
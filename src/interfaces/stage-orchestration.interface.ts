@@ -0,0 +1,89 @@
+import {
+  DesignPalette,
+  FurnitureStyle,
+  Provider,
+  RoomType,
+  StageSelectionConfig,
+  StagingStage,
+  Upload,
+} from './upload.interface';
+
+// Nomes dos jobs processados pela fila de orquestração de etapas
+export const STAGE_JOB_NAMES = {
+  SUBMIT_STAGE: 'submit-stage',
+  PROCESS_OUTCOME: 'process-outcome',
+} as const;
+
+/**
+ * Parâmetros para iniciar o staging em etapas de um upload
+ */
+export interface StartStagingParams {
+  uploadId: string;
+  roomType: RoomType;
+  furnitureStyle: FurnitureStyle;
+  inputImageUrl: string;
+  stageSelection?: StageSelectionConfig;
+  seed?: number;
+  highResolution?: boolean; // Saída em alta resolução (recurso de plano)
+  referenceImageUrls?: string[];
+  palette?: DesignPalette; // Paleta do imóvel; sem seed explícito, o seed dela vale para todas as etapas
+}
+
+/**
+ * Job de submissão de uma etapa ao provider
+ */
+export interface StageSubmissionJobData {
+  uploadId: string;
+  stageIndex: number;
+  attempt: number;
+  runAttempt?: number; // Tentativa na execução atual (padrão: 1)
+  retryCount?: number; // Retentativas da etapa antes desta tentativa (padrão: 0)
+  inputImageUrl: string;
+  provider?: Provider; // Provider desta tentativa (padrão: provider do upload)
+  instruction?: string; // Instrução do usuário anexada ao prompt (regeneração)
+}
+
+/**
+ * Resultado normalizado de um job do provider, vindo de webhook ou polling
+ */
+export interface StageOutcome {
+  provider: Provider;
+  providerJobId: string;
+  status: 'processing' | 'completed' | 'failed';
+  imageUrl?: string;
+  imageUrls?: string[]; // Variações da saída, quando o provider retorna várias (InstantDeco)
+  errorMessage?: string;
+  uploadId?: string; // Upload da URL de webhook assinada (ausente no polling)
+  receivedAt: string;
+}
+
+/**
+ * Ponto de retomada de um upload em etapas: a primeira etapa sem resultado
+ * bem-sucedido, a partir da imagem da última etapa concluída
+ */
+export interface StageResumePoint {
+  stageIndex: number;
+  stage: StagingStage;
+  attempt: number; // Próxima tentativa da etapa (continua a numeração anterior)
+  retryCount: number; // Retentativas já feitas na etapa
+  inputImageUrl: string;
+  provider?: Provider; // Provider da última etapa concluída
+}
+
+/**
+ * Resultado de um pedido de retomada de staging
+ */
+export type StagingRetryResult =
+  | { status: 'resumed'; upload: Upload; resumePoint: StageResumePoint }
+  | { status: 'not_retryable'; reason: string }
+  | { status: 'retry_limit_reached'; stage: StagingStage; retryCount: number }
+  | { status: 'insufficient_credits' };
+
+/**
+ * Resultado de um pedido de regeneração de etapa
+ */
+export type StageRegenerationResult =
+  | { status: 'regenerating'; upload: Upload; stageIndex: number; attempt: number }
+  | { status: 'not_regeneratable'; reason: string }
+  | { status: 'regeneration_limit_reached'; regenerationCount: number }
+  | { status: 'insufficient_credits' };
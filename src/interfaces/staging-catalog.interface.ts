@@ -0,0 +1,55 @@
+import { RoomType, FurnitureStyle } from './upload.interface';
+
+export type StagingRange = [number, number];
+
+/**
+ * Plano de itens de um cômodo: quantidades por grupo e itens permitidos
+ */
+export interface RoomCatalogEntry {
+  promptLabel: string; // Nome do cômodo usado nos prompts (ex.: "living room")
+
+  // Quantos itens adicionar (por grupo)
+  mainPiecesRange: StagingRange; // sofá/cama/mesa conforme o cômodo
+  wallDecorRange: StagingRange; // quadros, espelhos (apenas em parede livre)
+  complementaryRange: StagingRange; // plantas, luminárias, tapetes, almofadas
+  windowsDecorRange: StagingRange; // cortinas, persianas
+
+  // Itens permitidos por etapa (limites semânticos)
+  allowedMainItems: string[];
+  allowedWallDecor: string[];
+  allowedComplementary: string[];
+  allowedWindowsDecor: string[];
+}
+
+/**
+ * Orientação de um estilo de móveis
+ */
+export interface StyleCatalogEntry {
+  promptLabel: string; // Nome do estilo usado nos prompts (ex.: "mid-century modern")
+  emphasis: string[]; // Materiais/acabamentos (curtos, sem forçar estrutura)
+  guidance: string; // Texto de estilo aplicado à etapa de customização
+}
+
+/**
+ * Catálogo completo usado para gerar os planos de staging
+ */
+export interface StagingCatalog {
+  rooms: Record<RoomType, RoomCatalogEntry>;
+  styles: Record<FurnitureStyle, StyleCatalogEntry>;
+}
+
+/**
+ * Catálogo em uso e a versão publicada de onde veio (null = catálogo embutido)
+ */
+export interface ResolvedStagingCatalog {
+  version: number | null;
+  catalog: StagingCatalog;
+}
+
+/**
+ * Alterações parciais para criar uma nova versão a partir de outra
+ */
+export interface StagingCatalogChanges {
+  rooms?: Partial<Record<RoomType, Partial<RoomCatalogEntry>>>;
+  styles?: Partial<Record<FurnitureStyle, Partial<StyleCatalogEntry>>>;
+}
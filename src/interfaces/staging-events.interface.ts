@@ -0,0 +1,25 @@
+import { StagingProgressResult, StagingStage, UploadStatus } from './upload.interface';
+
+// Canal Redis pub/sub com os eventos de progresso de um upload
+export const STAGING_EVENTS_CHANNEL_PREFIX = 'staging-events:';
+
+export type StagingEventType =
+  | 'snapshot' // Estado atual, enviado ao abrir o stream
+  | 'processing'
+  | 'stage_started'
+  | 'stage_completed'
+  | 'completed'
+  | 'failed';
+
+/**
+ * Evento de progresso enviado aos clientes via SSE
+ */
+export interface StagingEvent {
+  type: StagingEventType;
+  uploadId: string;
+  status: UploadStatus;
+  progress: StagingProgressResult;
+  stage?: StagingStage; // Etapa iniciada ou concluída
+  imageUrl?: string; // Imagem intermediária da etapa ou imagem final
+  timestamp: string;
+}
@@ -1,26 +1,21 @@
+import { PromptTemplateVersions } from './prompt-template.interface';
+import { ComparisonImageCache } from './comparison.interface';
+
 export type UploadStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
-export type RoomType =
-  | 'bedroom'
-  | 'living_room'
-  | 'kitchen'
-  | 'bathroom'
-  | 'home_office'
-  | 'dining_room'
-  | 'kids_room'
-  | 'outdoor';
-
-export type FurnitureStyle =
-  | 'standard'
-  | 'modern'
-  | 'scandinavian'
-  | 'industrial'
-  | 'midcentury'
-  | 'luxury'
-  | 'coastal'
-  | 'farmhouse';
-
-export type Provider = 'black-forest' | 'instant-deco';
+// Slugs de cômodo e estilo vêm do catálogo (tabelas room_types e furniture_styles),
+// então novos valores podem ser cadastrados pelos admins sem alterar o código
+export type RoomType = string;
+
+export type FurnitureStyle = string;
+
+export type Provider = 'black-forest' | 'instant-deco' | 'mock';
+
+// Opções do job de upload simples, mantidas no upload para o failover de provider
+export interface UploadProcessingOptions {
+  seed?: number;
+  highResolution?: boolean;
+}
 
 export interface Upload {
   id: string;
@@ -28,10 +23,17 @@ export interface Upload {
   roomType: RoomType;
   furnitureStyle: FurnitureStyle;
   provider: Provider;
+  providerRoute?: Provider[]; // Ordem de providers usada no failover
+  outputProvider?: Provider; // Provider que gerou a imagem final
   inputImageUrl: string;
   outputImageUrl?: string;
   outputImageUrls?: string[]; // Suporte para múltiplas imagens de saída
+  unbrandedOutputImageUrl?: string; // Saída sem marca d'água (planos pagos)
+  brandedAt?: Date; // Marca d'água/logo do usuário aplicada à saída
+  disclosureApplied?: boolean; // Saída já traz o aviso "Virtually Staged"
+  comparisonImages?: ComparisonImageCache; // Comparações antes/depois já geradas
   maskUrl?: string;
+  preserveArchitecture: boolean; // Paredes, janelas e portas mantidas idênticas à foto original
   status: UploadStatus;
   errorMessage?: string;
   blackForestJobId?: string;
@@ -41,6 +43,13 @@ export interface Upload {
   stagingPlan?: StagingPlan;
   stageResults?: StagingStageResult[];
   stageJobIds?: Record<StagingStage, string>; // Mapeamento etapa -> jobId
+  creditsUsed: number; // Créditos capturados ao concluir
+  promptTemplates?: PromptTemplateVersions; // Versões dos templates de prompt usados
+  processingOptions?: UploadProcessingOptions; // Seed/alta resolução do upload simples
+  complainedAt?: Date; // Cliente reclamou do resultado
+  complaintReason?: string;
+  listingStagingId?: string; // Lote de staging do imóvel (POST /listings/:id/stagings)
+  dispatchedAt?: Date; // Quando a foto do lote entrou na fila de processamento
   createdAt: Date;
   updatedAt: Date;
 }
@@ -48,10 +57,10 @@ export interface Upload {
 export interface CreateUploadRequest {
   roomType: RoomType;
   furnitureStyle: FurnitureStyle;
-  provider?: Provider; // Default será 'black-forest' para compatibilidade
-  plan?: 'free' | 'premium';
+  provider?: Provider; // Sem provider explícito, a política de roteamento escolhe
   saveMask?: boolean;
   hasMask?: boolean; // Indica se o usuário está enviando uma máscara personalizada
+  preserveArchitecture?: boolean; // Restringe as alterações à área da máscara de estrutura
   stageSelection?: StageSelectionConfig; // Configuração de etapas a serem executadas
 }
 
@@ -123,6 +132,15 @@ export type StagingStage =
   | 'windows_decoration'
   | 'customization';
 
+// Etapas na ordem de execução
+export const STAGING_STAGES: StagingStage[] = [
+  'foundation',
+  'complement',
+  'wall_decoration',
+  'windows_decoration',
+  'customization',
+];
+
 export interface StagingStageConfig {
   stage: StagingStage;
   minItems: number;
@@ -132,11 +150,40 @@ export interface StagingStageConfig {
   prompt: string;
 }
 
+/**
+ * Itens preferidos da paleta, por grupo; cada cômodo usa os que o seu plano permite
+ */
+export interface DesignPaletteItemPicks {
+  complementary: string[];
+  wallDecor: string[];
+  windowsDecor: string[];
+}
+
+/**
+ * Paleta de design travada por imóvel: os mesmos materiais, cores, itens e seed
+ * em todos os cômodos, para que as fotos pareçam da mesma casa
+ */
+export interface DesignPalette {
+  furnitureStyle: FurnitureStyle; // Estilo para o qual a paleta foi montada
+  seed: number; // Seed do provider e do sorteio de itens
+  materials: string[];
+  colors: string[];
+  itemPicks: DesignPaletteItemPicks;
+  referenceUploadId?: string; // Cômodo já mobiliado do imóvel enviado como imagem de referência
+}
+
 export interface StagingPlan {
   roomType: RoomType;
   furnitureStyle: FurnitureStyle;
   stages: StagingStageConfig[];
   globalRules: string[];
+  catalogVersion?: number; // Versão do catálogo usada (ausente = catálogo embutido)
+  promptTemplates?: PromptTemplateVersions; // Versões dos templates usados nas etapas
+  seed?: number; // Seed informado pelo usuário (ou da paleta), aplicado em todas as etapas
+  highResolution?: boolean; // Saída em alta resolução em todas as etapas (recurso de plano)
+  referenceImageUrls?: string[]; // Imagens de referência enviadas junto com o upload
+  palette?: DesignPalette; // Paleta do imóvel (fotos de lote)
+  regenerationCount?: number; // Regenerações de etapa já pedidas pelo usuário
 }
 
 export interface StagingStageResult {
@@ -149,6 +196,9 @@ export interface StagingStageResult {
   validationErrors?: string[];
   retryCount: number;
   errorMessage?: string;
+  provider?: Provider;
+  instruction?: string; // Instrução do usuário usada na regeneração
+  superseded?: boolean; // Versão substituída por uma regeneração (mantida no histórico)
 }
 
 export interface StagingProgressResult {
@@ -171,6 +221,12 @@ export interface StagingValidationResult {
   stairsBlocked: boolean;
   colorDeviationDetected: boolean;
   errors: string[];
+  architectureSimilarity?: number; // SSIM nas regiões que não deveriam mudar (0-1)
+  architectureDrift?: number; // 1 - architectureSimilarity
+  architectureDriftExceeded?: boolean; // Drift acima do limite: a etapa deve ser refeita
+  wallColorDrift?: number; // Diferença de cor das paredes (0-1)
+  floorColorDrift?: number; // Diferença de cor do piso (0-1)
+  changeMap?: number[][]; // Mudança média por região da imagem (linhas x colunas, 0-1)
 }
 
 export interface StageSelectionConfig {
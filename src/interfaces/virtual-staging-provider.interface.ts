@@ -1,4 +1,13 @@
-import { RoomType, FurnitureStyle, Provider, StageSelectionConfig } from './upload.interface';
+import {
+  RoomType,
+  FurnitureStyle,
+  DesignPalette,
+  Provider,
+  StageSelectionConfig,
+  StagingStageConfig,
+} from './upload.interface';
+import { StageOutcome } from './stage-orchestration.interface';
+import { PromptTemplateVersions } from './prompt-template.interface';
 
 /**
  * Resultado do processamento de virtual staging
@@ -10,6 +19,7 @@ export interface VirtualStagingResult {
   outputImageUrls?: string[]; // Suporte para múltiplas imagens
   errorMessage?: string;
   metadata?: Record<string, any>;
+  promptTemplates?: PromptTemplateVersions; // Versões dos templates de prompt usados (providers baseados em prompt)
 }
 
 /**
@@ -48,6 +58,32 @@ export interface VirtualStagingParams {
   };
 }
 
+/**
+ * Opções de submissão de uma etapa do staging em etapas
+ */
+export interface StageExecutionOptions {
+  seed?: number;
+  highResolution?: boolean; // Saída em alta resolução (recurso de plano)
+  instruction?: string; // Instrução livre do usuário anexada ao prompt da etapa
+  promptTemplates?: PromptTemplateVersions; // Versões dos templates atribuídas ao upload
+  palette?: DesignPalette; // Paleta do imóvel (itens e materiais repetidos entre cômodos)
+  referenceImages?: {
+    image2?: string;
+    image3?: string;
+    image4?: string;
+  };
+}
+
+/**
+ * Resultado da submissão de uma etapa (o resultado final chega por webhook ou polling)
+ */
+export interface StageExecutionResult {
+  success: boolean;
+  jobId?: string;
+  imageUrl?: string;
+  errorMessage?: string;
+}
+
 /**
  * Interface base que todos os provedores de virtual staging devem implementar
  */
@@ -82,6 +118,25 @@ export interface IVirtualStagingProvider {
    */
   processVirtualStagingInStages?(params: VirtualStagingParams): Promise<VirtualStagingResult>;
 
+  /**
+   * Submete uma única etapa do staging em etapas (usado pelo orquestrador)
+   */
+  executeStage?(
+    uploadId: string,
+    imageBase64: string,
+    stageConfig: StagingStageConfig,
+    roomType: RoomType,
+    furnitureStyle: FurnitureStyle,
+    stageSelection?: StageSelectionConfig,
+    opts?: StageExecutionOptions
+  ): Promise<StageExecutionResult>;
+
+  /**
+   * Consulta um job de etapa e normaliza o resultado para o orquestrador.
+   * Retorna null quando a consulta falha de forma transitória.
+   */
+  pollStageOutcome?(jobId: string): Promise<StageOutcome | null>;
+
   /**
    * Verifica o status de um job (para provedores assíncronos)
    */
@@ -126,8 +181,9 @@ export interface IVirtualStagingProvider {
 export interface ProviderCapabilities {
   maxImageSize: number;
   supportedFormats: string[];
-  supportedRoomTypes: RoomType[];
-  supportedFurnitureStyles: FurnitureStyle[];
+  // Ausentes = provider baseado em prompt, aceita qualquer slug ativo do catálogo
+  supportedRoomTypes?: RoomType[];
+  supportedFurnitureStyles?: FurnitureStyle[];
   maxImagesPerRequest: number;
   supportsCustomPrompts: boolean;
   supportsHighResolution: boolean;
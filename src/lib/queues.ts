@@ -7,6 +7,9 @@ export const QUEUE_NAMES = {
   IMAGE_PROCESSING: 'image-processing',
   EMAIL_NOTIFICATIONS: 'email-notifications',
   WEBHOOK_PROCESSING: 'webhook-processing',
+  STAGE_ORCHESTRATION: 'stage-orchestration',
+  STAGE_POLLING: 'stage-polling',
+  CUSTOMER_WEBHOOKS: 'customer-webhooks',
 } as const;
 
 // Connection configuration for BullMQ - use the same Redis instance
@@ -54,10 +57,51 @@ export const webhookProcessingQueue = new Queue(QUEUE_NAMES.WEBHOOK_PROCESSING,
   },
 });
 
+// Stage Orchestration Queue
+// Retries also cover webhooks that arrive before the stage submission is persisted
+export const stageOrchestrationQueue = new Queue(QUEUE_NAMES.STAGE_ORCHESTRATION, {
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+    attempts: 5,
+    backoff: {
+      type: 'exponential',
+      delay: 3000,
+    },
+  },
+});
+
+// Stage Polling Queue (repeatable scan for jobs whose webhook never arrived)
+export const stagePollingQueue = new Queue(QUEUE_NAMES.STAGE_POLLING, {
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 10,
+    attempts: 1,
+  },
+});
+
+// Customer Webhooks Queue
+// Exponential backoff spreads the 8 attempts over roughly two hours
+export const customerWebhookQueue = new Queue(QUEUE_NAMES.CUSTOMER_WEBHOOKS, {
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 100,
+    attempts: 8,
+    backoff: {
+      type: 'exponential',
+      delay: 60000,
+    },
+  },
+});
+
 // Queue Events for monitoring
 export const imageProcessingQueueEvents = new QueueEvents(QUEUE_NAMES.IMAGE_PROCESSING, { connection });
 export const emailNotificationsQueueEvents = new QueueEvents(QUEUE_NAMES.EMAIL_NOTIFICATIONS, { connection });
 export const webhookProcessingQueueEvents = new QueueEvents(QUEUE_NAMES.WEBHOOK_PROCESSING, { connection });
+export const stageOrchestrationQueueEvents = new QueueEvents(QUEUE_NAMES.STAGE_ORCHESTRATION, { connection });
 
 // Event listeners for logging
 imageProcessingQueueEvents.on('completed', ({ jobId }) => {
@@ -84,11 +128,22 @@ webhookProcessingQueueEvents.on('failed', ({ jobId, failedReason }) => {
   logger.error(`Webhook processing job ${jobId} failed: ${failedReason}`);
 });
 
+stageOrchestrationQueueEvents.on('completed', ({ jobId }) => {
+  logger.info(`Stage orchestration job ${jobId} completed`);
+});
+
+stageOrchestrationQueueEvents.on('failed', ({ jobId, failedReason }) => {
+  logger.error(`Stage orchestration job ${jobId} failed: ${failedReason}`);
+});
+
 // Export all queues
 export const queues = {
   imageProcessing: imageProcessingQueue,
   emailNotifications: emailNotificationsQueue,
   webhookProcessing: webhookProcessingQueue,
+  stageOrchestration: stageOrchestrationQueue,
+  stagePolling: stagePollingQueue,
+  customerWebhooks: customerWebhookQueue,
 };
 
 export default queues;
\ No newline at end of file
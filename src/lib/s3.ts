@@ -113,6 +113,33 @@ export class S3Service {
     }
   }
 
+  /**
+   * Download a file from S3 into memory
+   */
+  async downloadFile(key: string): Promise<{ body: Buffer; contentType: string }> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      });
+
+      const response = await s3Client.send(command);
+      const bytes = await response.Body?.transformToByteArray();
+
+      if (!bytes) {
+        throw new Error('Empty response body');
+      }
+
+      return {
+        body: Buffer.from(bytes),
+        contentType: response.ContentType || 'image/jpeg',
+      };
+    } catch (error) {
+      logger.error(`Failed to download file from S3: ${key}`, error as Error);
+      throw new Error(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Delete a file from S3
    */
@@ -141,6 +168,21 @@ export class S3Service {
     return `${type}/${userId}/${timestamp}-${randomId}.${extension}`;
   }
 
+  /**
+   * Extract the object key from a URL pointing to this bucket (null for external URLs)
+   */
+  getKeyFromUrl(url: string): string | null {
+    try {
+      const { hostname, pathname } = new URL(url);
+      if (!hostname.startsWith(`${this.bucket}.s3.`) || !hostname.endsWith('.amazonaws.com')) {
+        return null;
+      }
+      return decodeURIComponent(pathname.replace(/^\//, ''));
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Get the public URL for a file
    */
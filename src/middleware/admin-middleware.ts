@@ -0,0 +1,52 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '@/middleware/auth-middleware';
+import { profilesRepository } from '@/repositories/profiles.repository';
+import { logger } from '@/lib/logger';
+
+/**
+ * Allows only users whose profile has the admin role.
+ * Must run after authMiddleware.
+ */
+export const adminMiddleware = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: {
+          message: 'Authentication required',
+          statusCode: 401,
+        },
+      });
+      return;
+    }
+
+    const profile = await profilesRepository.findByUserId(userId);
+    if (profile?.role !== 'admin') {
+      logger.warn('Rejected non-admin request to admin route', { userId, path: req.originalUrl });
+      res.status(403).json({
+        success: false,
+        error: {
+          message: 'Admin access required',
+          statusCode: 403,
+        },
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Admin middleware error:', error as Error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Failed to verify admin access',
+        statusCode: 500,
+      },
+    });
+  }
+};
@@ -0,0 +1,144 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '@/middleware/auth-middleware';
+import { entitlementService } from '@/services/entitlement.service';
+import { logger } from '@/lib/logger';
+import {
+  ENTITLEMENT_FEATURES,
+  EntitlementFeature,
+  UserEntitlements,
+} from '@/interfaces/entitlement.interface';
+import { StageSelectionConfig, STAGING_STAGES } from '@/interfaces/upload.interface';
+
+export interface EntitledRequest extends AuthenticatedRequest {
+  entitlements?: UserEntitlements;
+}
+
+const REFERENCE_IMAGE_FIELDS = ['referenceImage2', 'referenceImage3', 'referenceImage4'];
+
+const isTruthyField = (value: unknown): boolean => value === true || value === 'true';
+
+const rejectFeature = (
+  res: Response,
+  feature: EntitlementFeature,
+  message: string
+): void => {
+  res.status(403).json({
+    success: false,
+    message,
+    requiredFeature: feature,
+  });
+};
+
+/**
+ * Rejects staging requests that use features the caller's plan does not include.
+ * Must run after authMiddleware and after multer (it inspects the parsed body and files).
+ * When no stage is selected explicitly, users without extra_stages get the base stages.
+ * The requested resolution is normalized to a boolean body.highResolution.
+ */
+export const entitlementMiddleware = async (
+  req: EntitledRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Usuário não autenticado',
+      });
+      return;
+    }
+
+    const entitlements = await entitlementService.getEntitlements(userId);
+    const has = (feature: EntitlementFeature) =>
+      entitlementService.hasFeature(entitlements, feature);
+    const body = req.body ?? {};
+
+    if (
+      body.roomType &&
+      !has(ENTITLEMENT_FEATURES.PREMIUM_ROOM_TYPES) &&
+      (await entitlementService.isPremiumRoomType(body.roomType))
+    ) {
+      rejectFeature(
+        res,
+        ENTITLEMENT_FEATURES.PREMIUM_ROOM_TYPES,
+        `O tipo de ambiente "${body.roomType}" não está disponível no seu plano`
+      );
+      return;
+    }
+
+    if (
+      body.furnitureStyle &&
+      !has(ENTITLEMENT_FEATURES.PREMIUM_STYLES) &&
+      (await entitlementService.isPremiumFurnitureStyle(body.furnitureStyle))
+    ) {
+      rejectFeature(
+        res,
+        ENTITLEMENT_FEATURES.PREMIUM_STYLES,
+        `O estilo "${body.furnitureStyle}" não está disponível no seu plano`
+      );
+      return;
+    }
+
+    const files = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+    const hasReferenceImages =
+      !!files &&
+      !Array.isArray(files) &&
+      REFERENCE_IMAGE_FIELDS.some(field => (files[field]?.length ?? 0) > 0);
+    if (hasReferenceImages && !has(ENTITLEMENT_FEATURES.REFERENCE_IMAGES)) {
+      rejectFeature(
+        res,
+        ENTITLEMENT_FEATURES.REFERENCE_IMAGES,
+        'Imagens de referência não estão disponíveis no seu plano'
+      );
+      return;
+    }
+
+    if (!has(ENTITLEMENT_FEATURES.EXTRA_STAGES)) {
+      const hasAnyStageField = STAGING_STAGES.some(stage => body[stage] !== undefined);
+
+      if (hasAnyStageField) {
+        const requested = Object.fromEntries(
+          STAGING_STAGES.map(stage => [stage, isTruthyField(body[stage])])
+        ) as unknown as StageSelectionConfig;
+        const extraStages = entitlementService.getExtraStages(requested);
+
+        if (extraStages.length > 0) {
+          rejectFeature(
+            res,
+            ENTITLEMENT_FEATURES.EXTRA_STAGES,
+            `As etapas ${extraStages.join(', ')} não estão disponíveis no seu plano`
+          );
+          return;
+        }
+      } else {
+        // Sem seleção explícita: limitar o padrão às etapas do plano
+        Object.assign(body, entitlementService.getBaseStageSelection());
+        req.body = body;
+      }
+    }
+
+    const highResolution = body.resolution === 'high' || isTruthyField(body.highResolution);
+    if (highResolution && !has(ENTITLEMENT_FEATURES.HIGH_RESOLUTION)) {
+      rejectFeature(
+        res,
+        ENTITLEMENT_FEATURES.HIGH_RESOLUTION,
+        'Saída em alta resolução não está disponível no seu plano'
+      );
+      return;
+    }
+    // Normalizado para os controllers repassarem ao job de processamento
+    body.highResolution = highResolution;
+    req.body = body;
+
+    req.entitlements = entitlements;
+    next();
+  } catch (error) {
+    logger.error('Entitlement check failed:', error as Error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro ao verificar o plano do usuário',
+    });
+  }
+};
@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import { webhookSignatureService } from '@/services/webhook-signature.service';
+import { logger } from '@/lib/logger';
+import { Provider } from '@/interfaces/upload.interface';
+
+export interface ProviderWebhookOptions {
+  /** Header carrying the provider's HMAC of the raw body, when it signs payloads */
+  bodySignatureHeader?: string;
+}
+
+/**
+ * Raw JSON body kept by the webhook body parser for providers that sign payloads
+ */
+export type RawBodyRequest = Request & { rawBody?: Buffer };
+
+/**
+ * Verifies provider webhook callbacks: the signed URL (ts, nonce, ref, sig
+ * query params) must be valid and recent, each event id (job + status) is
+ * accepted only once per URL nonce and per upload and, for providers that
+ * sign payloads, the body signature must match. A provider may call the same
+ * URL once per status of a job (e.g. progress, then the final result).
+ * Rejections answer 401. When the handler fails with a
+ * 5xx the nonce and event id are released so the provider's retry can still
+ * be processed.
+ *
+ * The upload the URL was signed for is exposed as res.locals.webhookUploadId
+ * so the outcome can be checked against the correlated job.
+ *
+ * @param getEventId builds the event id from the payload (job id + status)
+ */
+export const verifyProviderWebhook =
+  (
+    provider: Provider,
+    getEventId: (body: Record<string, unknown>) => string | undefined,
+    options: ProviderWebhookOptions = {}
+  ) =>
+  async (req: RawBodyRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const failure =
+        webhookSignatureService.verify(provider, req.query) ??
+        (options.bodySignatureHeader
+          ? webhookSignatureService.verifyBody(
+              req.rawBody,
+              req.headers[options.bodySignatureHeader]
+            )
+          : null);
+      if (failure) {
+        logger.warn(`Rejected ${provider} webhook`, { reason: failure, ip: req.ip });
+        res.status(401).json({ error: 'Invalid webhook signature' });
+        return;
+      }
+
+      const body: unknown = req.body;
+      const jobEventId = getEventId(
+        typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {}
+      );
+      if (!jobEventId) {
+        res.status(400).json({ error: 'No job ID found' });
+        return;
+      }
+
+      // verify() guarantees nonce and ref are strings. The event id is scoped to
+      // the signed upload so a URL of another upload cannot claim it first.
+      const nonce = req.query.nonce as string;
+      const uploadId = req.query.ref as string;
+      const eventId = `${uploadId}:${jobEventId}`;
+      if (!(await webhookSignatureService.claimNonce(provider, nonce, jobEventId))) {
+        logger.warn(`Rejected reused ${provider} webhook URL`, { eventId });
+        res.status(401).json({ error: 'Webhook URL already used for this event' });
+        return;
+      }
+
+      if (!(await webhookSignatureService.claimEvent(provider, eventId))) {
+        logger.warn(`Rejected replayed ${provider} webhook`, { eventId });
+        res.status(401).json({ error: 'Webhook event already processed' });
+        return;
+      }
+
+      res.on('finish', () => {
+        if (res.statusCode >= 500) {
+          Promise.all([
+            webhookSignatureService.releaseNonce(provider, nonce, jobEventId),
+            webhookSignatureService.releaseEvent(provider, eventId),
+          ]).catch(error => {
+            logger.error(`Failed to release ${provider} webhook event ${eventId}:`, error);
+          });
+        }
+      });
+
+      res.locals.webhookUploadId = uploadId;
+      next();
+    } catch (error) {
+      logger.error(`Webhook verification failed for ${provider}:`, error as Error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
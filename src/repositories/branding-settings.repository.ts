@@ -0,0 +1,38 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { brandingSettings } from '@/db/schema/branding-settings';
+import { BrandingSettings, NewBrandingSettings } from '@/types/database';
+
+export type BrandingSettingsUpdate = Partial<
+  Omit<NewBrandingSettings, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+>;
+
+export class BrandingSettingsRepository {
+  async findByUserId(userId: string): Promise<BrandingSettings | null> {
+    const [settings] = await db
+      .select()
+      .from(brandingSettings)
+      .where(eq(brandingSettings.userId, userId))
+      .limit(1);
+
+    return settings ?? null;
+  }
+
+  /**
+   * Create the user's settings with the defaults, or update the existing row
+   */
+  async upsert(userId: string, changes: BrandingSettingsUpdate): Promise<BrandingSettings> {
+    const [settings] = await db
+      .insert(brandingSettings)
+      .values({ ...changes, userId })
+      .onConflictDoUpdate({
+        target: brandingSettings.userId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+
+    return settings!;
+  }
+}
+
+export const brandingSettingsRepository = new BrandingSettingsRepository();
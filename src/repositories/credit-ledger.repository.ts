@@ -0,0 +1,216 @@
+import { eq, and, desc, gte, count, sql } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { creditLedger } from '@/db/schema/credit-ledger';
+import { profiles } from '@/db/schema/profiles';
+import { CreditLedgerEntry, NewCreditLedgerEntry } from '@/types/database';
+
+export type CreditLedgerType = CreditLedgerEntry['type'];
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Postgres unique violation (drizzle wraps driver errors in DrizzleQueryError)
+ */
+function isUniqueViolation(error: unknown): boolean {
+  const cause = error instanceof Error ? error.cause : undefined;
+  return [error, cause].some(
+    candidate =>
+      typeof candidate === 'object' &&
+      candidate !== null &&
+      (candidate as { code?: unknown }).code === UNIQUE_VIOLATION
+  );
+}
+
+export class CreditLedgerRepository {
+  /**
+   * Atomically debit credits from a profile, only if the balance covers it
+   * @returns new balance, or null when the balance is insufficient
+   */
+  async debitBalance(userId: string, amount: number): Promise<number | null> {
+    const [profile] = await db
+      .update(profiles)
+      .set({
+        credits: sql`${profiles.credits} - ${amount}`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(profiles.userId, userId), gte(profiles.credits, amount)))
+      .returning({ credits: profiles.credits });
+
+    return profile?.credits ?? null;
+  }
+
+  /**
+   * Atomically credit a profile
+   * @returns new balance, or null when the profile does not exist
+   */
+  async creditBalance(userId: string, amount: number): Promise<number | null> {
+    const [profile] = await db
+      .update(profiles)
+      .set({
+        credits: sql`${profiles.credits} + ${amount}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(profiles.userId, userId))
+      .returning({ credits: profiles.credits });
+
+    return profile?.credits ?? null;
+  }
+
+  async getBalance(userId: string): Promise<number | null> {
+    const [profile] = await db
+      .select({ credits: profiles.credits })
+      .from(profiles)
+      .where(eq(profiles.userId, userId))
+      .limit(1);
+
+    return profile?.credits ?? null;
+  }
+
+  /**
+   * Insert a ledger entry; returns null when the reference was already recorded
+   */
+  async create(data: NewCreditLedgerEntry): Promise<CreditLedgerEntry | null> {
+    const [entry] = await db
+      .insert(creditLedger)
+      .values(data)
+      .onConflictDoNothing({ target: creditLedger.reference })
+      .returning();
+
+    return entry ?? null;
+  }
+
+  /**
+   * Debit the balance and insert the open reservation of an upload in a single
+   * statement (one transaction). The partial unique index on open reservations
+   * rolls the debit back when the upload already holds one.
+   * @returns the reservation, or null when the balance is insufficient or the
+   * upload already has an open reservation
+   */
+  async createReservation(data: {
+    userId: string;
+    uploadId: string;
+    amount: number;
+    description: string;
+  }): Promise<CreditLedgerEntry | null> {
+    try {
+      const result = await db.execute<{ id: string }>(sql`
+        WITH debited AS (
+          UPDATE profiles
+          SET credits = credits - ${data.amount}, updated_at = now()
+          WHERE user_id = ${data.userId} AND credits >= ${data.amount}
+          RETURNING credits
+        )
+        INSERT INTO credit_ledger
+          (user_id, upload_id, type, amount, balance_after, reservation_status, description)
+        SELECT ${data.userId}, ${data.uploadId}, 'reserve', ${-data.amount}, credits, 'open',
+          ${data.description}
+        FROM debited
+        RETURNING id
+      `);
+
+      const id = result.rows[0]?.id;
+      return id ? this.findById(id) : null;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<CreditLedgerEntry | null> {
+    const [entry] = await db
+      .select()
+      .from(creditLedger)
+      .where(eq(creditLedger.id, id))
+      .limit(1);
+
+    return entry ?? null;
+  }
+
+  async updateBalanceAfter(id: string, balanceAfter: number): Promise<void> {
+    await db
+      .update(creditLedger)
+      .set({ balanceAfter })
+      .where(eq(creditLedger.id, id));
+  }
+
+  async delete(id: string): Promise<void> {
+    await db.delete(creditLedger).where(eq(creditLedger.id, id));
+  }
+
+  async findOpenReservation(uploadId: string): Promise<CreditLedgerEntry | null> {
+    const [entry] = await db
+      .select()
+      .from(creditLedger)
+      .where(
+        and(
+          eq(creditLedger.uploadId, uploadId),
+          eq(creditLedger.type, 'reserve'),
+          eq(creditLedger.reservationStatus, 'open')
+        )
+      )
+      .limit(1);
+
+    return entry ?? null;
+  }
+
+  /**
+   * Close one reservation. The conditional update guarantees a reservation is
+   * captured or refunded at most once.
+   * @returns the settled reservation, or null when it was no longer open
+   */
+  async settleReservation(
+    reservationId: string,
+    status: 'captured' | 'refunded'
+  ): Promise<CreditLedgerEntry | null> {
+    const [entry] = await db
+      .update(creditLedger)
+      .set({ reservationStatus: status })
+      .where(
+        and(
+          eq(creditLedger.id, reservationId),
+          eq(creditLedger.type, 'reserve'),
+          eq(creditLedger.reservationStatus, 'open')
+        )
+      )
+      .returning();
+
+    return entry ?? null;
+  }
+
+  async findByUserId(
+    userId: string,
+    options: { limit: number; offset: number; type?: CreditLedgerType }
+  ): Promise<CreditLedgerEntry[]> {
+    return db
+      .select()
+      .from(creditLedger)
+      .where(
+        and(
+          eq(creditLedger.userId, userId),
+          options.type ? eq(creditLedger.type, options.type) : undefined
+        )
+      )
+      .orderBy(desc(creditLedger.createdAt))
+      .limit(options.limit)
+      .offset(options.offset);
+  }
+
+  async countByUserId(userId: string, type?: CreditLedgerType): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(creditLedger)
+      .where(
+        and(
+          eq(creditLedger.userId, userId),
+          type ? eq(creditLedger.type, type) : undefined
+        )
+      );
+
+    return result?.total ?? 0;
+  }
+}
+
+// Export singleton instance
+export const creditLedgerRepository = new CreditLedgerRepository();
@@ -0,0 +1,77 @@
+import { eq, asc, count } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { furnitureStyles, loras, jobs } from '@/db/schema';
+import { FurnitureStyle as FurnitureStyleRecord, NewFurnitureStyle } from '@/types/database';
+
+export class FurnitureStyleRepository {
+  async findAll(options: { activeOnly?: boolean } = {}): Promise<FurnitureStyleRecord[]> {
+    return db
+      .select()
+      .from(furnitureStyles)
+      .where(options.activeOnly ? eq(furnitureStyles.active, true) : undefined)
+      .orderBy(asc(furnitureStyles.name));
+  }
+
+  async findById(id: string): Promise<FurnitureStyleRecord | null> {
+    const [furnitureStyle] = await db
+      .select()
+      .from(furnitureStyles)
+      .where(eq(furnitureStyles.id, id))
+      .limit(1);
+
+    return furnitureStyle ?? null;
+  }
+
+  async count(): Promise<number> {
+    const [result] = await db.select({ total: count() }).from(furnitureStyles);
+    return result?.total ?? 0;
+  }
+
+  /**
+   * Insert a furniture style; returns null when the slug is already taken
+   */
+  async create(data: NewFurnitureStyle): Promise<FurnitureStyleRecord | null> {
+    const [furnitureStyle] = await db
+      .insert(furnitureStyles)
+      .values(data)
+      .onConflictDoNothing({ target: furnitureStyles.name })
+      .returning();
+
+    return furnitureStyle ?? null;
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Pick<FurnitureStyleRecord, 'label' | 'labels' | 'premiumOnly' | 'active'>>
+  ): Promise<FurnitureStyleRecord | null> {
+    const [furnitureStyle] = await db
+      .update(furnitureStyles)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(furnitureStyles.id, id))
+      .returning();
+
+    return furnitureStyle ?? null;
+  }
+
+  /**
+   * Whether LoRAs or jobs still point at the furniture style
+   */
+  async isReferenced(id: string): Promise<boolean> {
+    const [[loraRefs], [jobRefs]] = await Promise.all([
+      db.select({ total: count() }).from(loras).where(eq(loras.furnitureStyleId, id)),
+      db.select({ total: count() }).from(jobs).where(eq(jobs.furnitureStyleId, id)),
+    ]);
+    return (loraRefs?.total ?? 0) + (jobRefs?.total ?? 0) > 0;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(furnitureStyles)
+      .where(eq(furnitureStyles.id, id))
+      .returning({ id: furnitureStyles.id });
+
+    return deleted.length > 0;
+  }
+}
+
+export const furnitureStyleRepository = new FurnitureStyleRepository();
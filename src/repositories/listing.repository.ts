@@ -0,0 +1,225 @@
+import { eq, and, asc, desc, count, inArray, isNull, isNotNull, lt, sql } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { listings, listingStagings } from '@/db/schema/listings';
+import { uploads } from '@/db/schema/uploads';
+import { Listing, ListingStaging, NewListing, NewListingStaging } from '@/types/database';
+import { UploadStatus } from '@/interfaces/upload.interface';
+
+export class ListingRepository {
+  async create(data: NewListing): Promise<Listing> {
+    const [listing] = await db.insert(listings).values(data).returning();
+    return listing!;
+  }
+
+  async findById(id: string): Promise<Listing | null> {
+    const [listing] = await db.select().from(listings).where(eq(listings.id, id)).limit(1);
+    return listing ?? null;
+  }
+
+  async findByUserId(
+    userId: string,
+    params: { limit: number; offset: number }
+  ): Promise<Listing[]> {
+    return db
+      .select()
+      .from(listings)
+      .where(eq(listings.userId, userId))
+      .orderBy(desc(listings.createdAt))
+      .limit(params.limit)
+      .offset(params.offset);
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(listings)
+      .where(eq(listings.userId, userId));
+    return result?.count ?? 0;
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Pick<Listing, 'title' | 'address' | 'externalReference' | 'designPalette'>>
+  ): Promise<Listing | null> {
+    const [listing] = await db.update(listings).set(changes).where(eq(listings.id, id)).returning();
+    return listing ?? null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await db.delete(listings).where(eq(listings.id, id));
+    return result.rowCount > 0;
+  }
+
+  async createStaging(data: NewListingStaging): Promise<ListingStaging> {
+    const [staging] = await db.insert(listingStagings).values(data).returning();
+    return staging!;
+  }
+
+  async findStagingById(id: string): Promise<ListingStaging | null> {
+    const [staging] = await db
+      .select()
+      .from(listingStagings)
+      .where(eq(listingStagings.id, id))
+      .limit(1);
+    return staging ?? null;
+  }
+
+  async findStagingsByListingId(listingId: string): Promise<ListingStaging[]> {
+    return db
+      .select()
+      .from(listingStagings)
+      .where(eq(listingStagings.listingId, listingId))
+      .orderBy(desc(listingStagings.createdAt));
+  }
+
+  async hasProcessingStaging(listingId: string): Promise<boolean> {
+    const [staging] = await db
+      .select({ id: listingStagings.id })
+      .from(listingStagings)
+      .where(
+        and(eq(listingStagings.listingId, listingId), eq(listingStagings.status, 'processing'))
+      )
+      .limit(1);
+    return !!staging;
+  }
+
+  async deleteStaging(id: string): Promise<void> {
+    await db.delete(listingStagings).where(eq(listingStagings.id, id));
+  }
+
+  /**
+   * Close a batch; only the first caller gets the row back, so the completion
+   * event is emitted once even when the last photos finish concurrently
+   */
+  async completeStaging(
+    id: string,
+    status: 'completed' | 'failed'
+  ): Promise<ListingStaging | null> {
+    const [staging] = await db
+      .update(listingStagings)
+      .set({ status, completedAt: new Date() })
+      .where(and(eq(listingStagings.id, id), isNull(listingStagings.completedAt)))
+      .returning();
+    return staging ?? null;
+  }
+
+  /**
+   * Upload counts of the given batches, by status and by whether they entered the queue
+   */
+  async countUploadsByStatus(
+    stagingIds: string[]
+  ): Promise<
+    Array<{ listingStagingId: string; status: UploadStatus; dispatched: boolean; count: number }>
+  > {
+    if (stagingIds.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select({
+        listingStagingId: uploads.listingStagingId,
+        status: uploads.status,
+        dispatched: sql<boolean>`${uploads.dispatchedAt} is not null`,
+        count: count(),
+      })
+      .from(uploads)
+      .where(inArray(uploads.listingStagingId, stagingIds))
+      .groupBy(sql`1`, sql`2`, sql`3`);
+
+    return rows.map(row => ({ ...row, listingStagingId: row.listingStagingId! }));
+  }
+
+  /**
+   * Batch photos of the user currently holding a concurrency slot
+   */
+  async countActiveDispatched(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(uploads)
+      .where(
+        and(
+          eq(uploads.userId, userId),
+          isNotNull(uploads.listingStagingId),
+          isNotNull(uploads.dispatchedAt),
+          inArray(uploads.status, ['pending', 'processing'])
+        )
+      );
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Mark the user's oldest waiting batch photos as dispatched
+   * @returns ids of the photos claimed by this call (never claimed twice)
+   */
+  async claimQueuedUploads(userId: string, limit: number): Promise<string[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    const waiting = await db
+      .select({ id: uploads.id })
+      .from(uploads)
+      .where(
+        and(
+          eq(uploads.userId, userId),
+          isNotNull(uploads.listingStagingId),
+          isNull(uploads.dispatchedAt),
+          eq(uploads.status, 'pending')
+        )
+      )
+      .orderBy(asc(uploads.createdAt))
+      .limit(limit);
+
+    if (waiting.length === 0) {
+      return [];
+    }
+
+    const claimed = await db
+      .update(uploads)
+      .set({ dispatchedAt: new Date() })
+      .where(
+        and(
+          inArray(
+            uploads.id,
+            waiting.map(row => row.id)
+          ),
+          isNull(uploads.dispatchedAt)
+        )
+      )
+      .returning({ id: uploads.id });
+
+    return claimed.map(row => row.id);
+  }
+
+  /**
+   * Put a dispatched photo that never started back in the waiting line
+   */
+  async releaseDispatchedUpload(uploadId: string): Promise<void> {
+    await db
+      .update(uploads)
+      .set({ dispatchedAt: null })
+      .where(and(eq(uploads.id, uploadId), eq(uploads.status, 'pending')));
+  }
+
+  /**
+   * Put every photo dispatched before the cutoff and still pending back in the waiting line
+   * @returns owners of the released photos
+   */
+  async releaseStaleDispatched(dispatchedBefore: Date): Promise<string[]> {
+    const released = await db
+      .update(uploads)
+      .set({ dispatchedAt: null })
+      .where(
+        and(
+          isNotNull(uploads.listingStagingId),
+          lt(uploads.dispatchedAt, dispatchedBefore),
+          eq(uploads.status, 'pending')
+        )
+      )
+      .returning({ userId: uploads.userId });
+
+    return [...new Set(released.map(row => row.userId))];
+  }
+}
+
+export const listingRepository = new ListingRepository();
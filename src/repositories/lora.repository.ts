@@ -0,0 +1,75 @@
+import { eq, and, asc, count, SQL } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { loras, jobs } from '@/db/schema';
+import { Lora, NewLora } from '@/types/database';
+
+export interface LoraFilters {
+  roomTypeId?: string;
+  furnitureStyleId?: string;
+  active?: boolean;
+}
+
+export class LoraRepository {
+  async findAll(filters: LoraFilters = {}): Promise<Lora[]> {
+    const conditions: SQL[] = [];
+    if (filters.roomTypeId) {
+      conditions.push(eq(loras.roomTypeId, filters.roomTypeId));
+    }
+    if (filters.furnitureStyleId) {
+      conditions.push(eq(loras.furnitureStyleId, filters.furnitureStyleId));
+    }
+    if (filters.active !== undefined) {
+      conditions.push(eq(loras.active, filters.active));
+    }
+
+    return db
+      .select()
+      .from(loras)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(loras.name));
+  }
+
+  async findById(id: string): Promise<Lora | null> {
+    const [lora] = await db.select().from(loras).where(eq(loras.id, id)).limit(1);
+    return lora ?? null;
+  }
+
+  async create(data: NewLora): Promise<Lora> {
+    const [lora] = await db.insert(loras).values(data).returning();
+    return lora!;
+  }
+
+  async update(
+    id: string,
+    changes: Partial<
+      Pick<Lora, 'name' | 'fileUrl' | 'active' | 'roomTypeId' | 'furnitureStyleId'>
+    >
+  ): Promise<Lora | null> {
+    const [lora] = await db
+      .update(loras)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(loras.id, id))
+      .returning();
+
+    return lora ?? null;
+  }
+
+  /**
+   * Whether jobs still point at the LoRA
+   */
+  async isReferenced(id: string): Promise<boolean> {
+    const [result] = await db.select({ total: count() }).from(jobs).where(eq(jobs.loraId, id));
+    return (result?.total ?? 0) > 0;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(loras)
+      .where(eq(loras.id, id))
+      .returning({ id: loras.id });
+
+    return deleted.length > 0;
+  }
+}
+
+export const loraRepository = new LoraRepository();
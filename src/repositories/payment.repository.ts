@@ -0,0 +1,31 @@
+import { db } from '@/db/connection';
+import { payments } from '@/db/schema/payments';
+import { Payment, NewPayment } from '@/types/database';
+
+export class PaymentRepository {
+  /**
+   * Insert or update the payment of a Stripe invoice
+   */
+  async upsertByStripeInvoiceId(
+    data: Omit<NewPayment, 'id' | 'createdAt' | 'updatedAt'> & { stripeInvoiceId: string }
+  ): Promise<Payment> {
+    const { stripeInvoiceId, ...changes } = data;
+
+    const [payment] = await db
+      .insert(payments)
+      .values(data)
+      .onConflictDoUpdate({
+        target: payments.stripeInvoiceId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+
+    if (!payment) {
+      throw new Error(`Failed to upsert payment for invoice ${stripeInvoiceId}`);
+    }
+    return payment;
+  }
+}
+
+// Export singleton instance
+export const paymentRepository = new PaymentRepository();
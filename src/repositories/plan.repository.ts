@@ -0,0 +1,29 @@
+import { eq, or } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { plans } from '@/db/schema/plans';
+import { Plan } from '@/types/database';
+
+export class PlanRepository {
+  async findById(id: string): Promise<Plan | null> {
+    const [plan] = await db.select().from(plans).where(eq(plans.id, id)).limit(1);
+    return plan ?? null;
+  }
+
+  /**
+   * Find the plan billed by a Stripe price (monthly or yearly)
+   */
+  async findByStripePriceId(priceId: string): Promise<Plan | null> {
+    const [plan] = await db
+      .select()
+      .from(plans)
+      .where(
+        or(eq(plans.stripeMonthlyPriceId, priceId), eq(plans.stripeYearlyPriceId, priceId))
+      )
+      .limit(1);
+
+    return plan ?? null;
+  }
+}
+
+// Export singleton instance
+export const planRepository = new PlanRepository();
@@ -0,0 +1,138 @@
+import { eq, and, gt, gte, lt, asc, desc, max, count, notInArray, sql, SQL } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { promptTemplates } from '../db/schema/prompt-templates';
+import { uploads } from '../db/schema/uploads';
+import { PromptTemplate } from '../types/database';
+
+export class PromptTemplateRepository {
+  /**
+   * Versões que recebem tráfego no A/B
+   */
+  async findAllocated(): Promise<PromptTemplate[]> {
+    return db
+      .select()
+      .from(promptTemplates)
+      .where(gt(promptTemplates.trafficPercent, 0))
+      .orderBy(asc(promptTemplates.name), asc(promptTemplates.version));
+  }
+
+  async findByNameAndVersion(name: string, version: number): Promise<PromptTemplate | null> {
+    const [found] = await db
+      .select()
+      .from(promptTemplates)
+      .where(and(eq(promptTemplates.name, name), eq(promptTemplates.version, version)))
+      .limit(1);
+
+    return found ?? null;
+  }
+
+  /**
+   * Lista as versões (de um template ou de todos), da mais nova para a mais antiga
+   */
+  async list(name?: string): Promise<PromptTemplate[]> {
+    return db
+      .select()
+      .from(promptTemplates)
+      .where(name ? eq(promptTemplates.name, name) : undefined)
+      .orderBy(asc(promptTemplates.name), desc(promptTemplates.version));
+  }
+
+  /**
+   * Cria a próxima versão do template (número sequencial por nome)
+   * @returns null quando outra versão foi criada ao mesmo tempo com o mesmo número
+   */
+  async create(data: {
+    name: string;
+    body: string;
+    notes?: string;
+    createdBy?: string;
+  }): Promise<PromptTemplate | null> {
+    const [latest] = await db
+      .select({ version: max(promptTemplates.version) })
+      .from(promptTemplates)
+      .where(eq(promptTemplates.name, data.name));
+
+    const [created] = await db
+      .insert(promptTemplates)
+      .values({
+        name: data.name,
+        version: (latest?.version ?? 0) + 1,
+        body: data.body,
+        notes: data.notes ?? null,
+        createdBy: data.createdBy ?? null,
+      })
+      .onConflictDoNothing({ target: [promptTemplates.name, promptTemplates.version] })
+      .returning();
+
+    return created ?? null;
+  }
+
+  /**
+   * Define o tráfego das versões informadas; as demais versões do template saem do A/B
+   */
+  async setTraffic(
+    name: string,
+    allocations: Array<{ version: number; trafficPercent: number }>
+  ): Promise<PromptTemplate[]> {
+    const versions = allocations.map(allocation => allocation.version);
+
+    await db
+      .update(promptTemplates)
+      .set({ trafficPercent: 0, updatedAt: new Date() })
+      .where(
+        and(
+          eq(promptTemplates.name, name),
+          gt(promptTemplates.trafficPercent, 0),
+          versions.length > 0 ? notInArray(promptTemplates.version, versions) : undefined
+        )
+      );
+
+    for (const allocation of allocations) {
+      await db
+        .update(promptTemplates)
+        .set({ trafficPercent: allocation.trafficPercent, updatedAt: new Date() })
+        .where(
+          and(eq(promptTemplates.name, name), eq(promptTemplates.version, allocation.version))
+        );
+    }
+
+    return this.list(name);
+  }
+
+  /**
+   * Contagem de uploads por versão do template (conclusões, falhas e reclamações)
+   */
+  async variantStats(
+    name: string,
+    period: { from?: Date; to?: Date } = {}
+  ): Promise<
+    Array<{ version: number; uploads: number; completed: number; failed: number; complaints: number }>
+  > {
+    const version = sql<number>`(${uploads.promptTemplates} ->> ${name})::int`.mapWith(Number);
+    const conditions: SQL[] = [sql`${uploads.promptTemplates} ->> ${name} is not null`];
+    if (period.from) {
+      conditions.push(gte(uploads.createdAt, period.from));
+    }
+    if (period.to) {
+      conditions.push(lt(uploads.createdAt, period.to));
+    }
+
+    return db
+      .select({
+        version,
+        uploads: count(),
+        completed: sql<number>`count(*) filter (where ${uploads.status} = 'completed')`.mapWith(
+          Number
+        ),
+        failed: sql<number>`count(*) filter (where ${uploads.status} = 'failed')`.mapWith(Number),
+        complaints: count(uploads.complainedAt),
+      })
+      .from(uploads)
+      .where(and(...conditions))
+      // Por posição: a expressão com parâmetro não seria reconhecida como a mesma do select
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+  }
+}
+
+export const promptTemplateRepository = new PromptTemplateRepository();
@@ -0,0 +1,77 @@
+import { eq, asc, count } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { roomTypes, loras, jobs } from '@/db/schema';
+import { RoomType as RoomTypeRecord, NewRoomType } from '@/types/database';
+
+export class RoomTypeRepository {
+  async findAll(options: { activeOnly?: boolean } = {}): Promise<RoomTypeRecord[]> {
+    return db
+      .select()
+      .from(roomTypes)
+      .where(options.activeOnly ? eq(roomTypes.active, true) : undefined)
+      .orderBy(asc(roomTypes.name));
+  }
+
+  async findById(id: string): Promise<RoomTypeRecord | null> {
+    const [roomType] = await db
+      .select()
+      .from(roomTypes)
+      .where(eq(roomTypes.id, id))
+      .limit(1);
+
+    return roomType ?? null;
+  }
+
+  async count(): Promise<number> {
+    const [result] = await db.select({ total: count() }).from(roomTypes);
+    return result?.total ?? 0;
+  }
+
+  /**
+   * Insert a room type; returns null when the slug is already taken
+   */
+  async create(data: NewRoomType): Promise<RoomTypeRecord | null> {
+    const [roomType] = await db
+      .insert(roomTypes)
+      .values(data)
+      .onConflictDoNothing({ target: roomTypes.name })
+      .returning();
+
+    return roomType ?? null;
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Pick<RoomTypeRecord, 'label' | 'labels' | 'premiumOnly' | 'active'>>
+  ): Promise<RoomTypeRecord | null> {
+    const [roomType] = await db
+      .update(roomTypes)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(roomTypes.id, id))
+      .returning();
+
+    return roomType ?? null;
+  }
+
+  /**
+   * Whether LoRAs or jobs still point at the room type
+   */
+  async isReferenced(id: string): Promise<boolean> {
+    const [[loraRefs], [jobRefs]] = await Promise.all([
+      db.select({ total: count() }).from(loras).where(eq(loras.roomTypeId, id)),
+      db.select({ total: count() }).from(jobs).where(eq(jobs.roomTypeId, id)),
+    ]);
+    return (loraRefs?.total ?? 0) + (jobRefs?.total ?? 0) > 0;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(roomTypes)
+      .where(eq(roomTypes.id, id))
+      .returning({ id: roomTypes.id });
+
+    return deleted.length > 0;
+  }
+}
+
+export const roomTypeRepository = new RoomTypeRepository();
@@ -0,0 +1,215 @@
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { stageJobs } from '../db/schema/stage-jobs';
+import { StageJob } from '../types/database';
+import { Provider, StagingStage } from '../interfaces/upload.interface';
+
+export class StageJobRepository {
+  /**
+   * Cria o registro de uma tentativa de submissão de etapa
+   */
+  async create(data: {
+    uploadId: string;
+    stage: StagingStage;
+    stageIndex: number;
+    attempt: number;
+    runAttempt?: number;
+    retryCount?: number;
+    provider: Provider;
+    inputImageUrl: string;
+    instruction?: string;
+  }): Promise<StageJob> {
+    const [stageJob] = await db
+      .insert(stageJobs)
+      .values({
+        uploadId: data.uploadId,
+        stage: data.stage,
+        stageIndex: data.stageIndex,
+        attempt: data.attempt,
+        runAttempt: data.runAttempt ?? 1,
+        retryCount: data.retryCount ?? 0,
+        provider: data.provider,
+        inputImageUrl: data.inputImageUrl,
+        instruction: data.instruction ?? null,
+        status: 'pending',
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (stageJob) {
+      return stageJob;
+    }
+
+    // Já existia (submissão reprocessada pelo BullMQ) - retornar o existente
+    const existing = await this.findAttempt(
+      data.uploadId,
+      data.stageIndex,
+      data.attempt
+    );
+    if (!existing) {
+      throw new Error(
+        `Stage job not found after conflict for upload ${data.uploadId}`
+      );
+    }
+    return existing;
+  }
+
+  /**
+   * Busca uma tentativa específica de uma etapa
+   */
+  async findAttempt(
+    uploadId: string,
+    stageIndex: number,
+    attempt: number
+  ): Promise<StageJob | null> {
+    const [stageJob] = await db
+      .select()
+      .from(stageJobs)
+      .where(
+        and(
+          eq(stageJobs.uploadId, uploadId),
+          eq(stageJobs.stageIndex, stageIndex),
+          eq(stageJobs.attempt, attempt)
+        )
+      )
+      .limit(1);
+
+    return stageJob ?? null;
+  }
+
+  /**
+   * Última tentativa registrada de uma etapa
+   */
+  async findLatestAttempt(
+    uploadId: string,
+    stageIndex: number
+  ): Promise<StageJob | null> {
+    const [stageJob] = await db
+      .select()
+      .from(stageJobs)
+      .where(
+        and(
+          eq(stageJobs.uploadId, uploadId),
+          eq(stageJobs.stageIndex, stageIndex)
+        )
+      )
+      .orderBy(desc(stageJobs.attempt))
+      .limit(1);
+
+    return stageJob ?? null;
+  }
+
+  /**
+   * Busca a tentativa pelo job ID retornado pelo provider
+   */
+  async findByProviderJobId(providerJobId: string): Promise<StageJob | null> {
+    const [stageJob] = await db
+      .select()
+      .from(stageJobs)
+      .where(eq(stageJobs.providerJobId, providerJobId))
+      .limit(1);
+
+    return stageJob ?? null;
+  }
+
+  /**
+   * Lista todas as tentativas de um upload (mais recentes primeiro)
+   */
+  async findByUploadId(uploadId: string): Promise<StageJob[]> {
+    return db
+      .select()
+      .from(stageJobs)
+      .where(eq(stageJobs.uploadId, uploadId))
+      .orderBy(desc(stageJobs.stageIndex), desc(stageJobs.attempt));
+  }
+
+  /**
+   * Registra o job ID do provider após a submissão
+   */
+  async markSubmitted(
+    id: string,
+    providerJobId: string
+  ): Promise<StageJob | null> {
+    const [stageJob] = await db
+      .update(stageJobs)
+      .set({
+        providerJobId,
+        status: 'submitted',
+        submittedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(stageJobs.id, id), eq(stageJobs.status, 'pending')))
+      .returning();
+
+    return stageJob ?? null;
+  }
+
+  /**
+   * Finaliza a tentativa. A transição só acontece a partir de estados não
+   * terminais, então webhooks duplicados não avançam a etapa duas vezes.
+   */
+  async markFinished(
+    id: string,
+    result: { status: 'completed' | 'failed'; outputImageUrl?: string; errorMessage?: string }
+  ): Promise<StageJob | null> {
+    const [stageJob] = await db
+      .update(stageJobs)
+      .set({
+        status: result.status,
+        outputImageUrl: result.outputImageUrl ?? null,
+        errorMessage: result.errorMessage ?? null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(stageJobs.id, id),
+          inArray(stageJobs.status, ['pending', 'submitted'])
+        )
+      )
+      .returning();
+
+    return stageJob ?? null;
+  }
+
+  /**
+   * Registra que a transição após o resultado da tentativa foi concluída
+   */
+  async markTransitioned(id: string): Promise<void> {
+    await db
+      .update(stageJobs)
+      .set({ transitionedAt: new Date(), updatedAt: new Date() })
+      .where(eq(stageJobs.id, id));
+  }
+
+  /**
+   * Encerra todas as tentativas em aberto de um upload (ex.: prazo excedido).
+   * Quem encerra também trata o upload, então a transição já fica concluída.
+   */
+  async failOutstandingByUploadId(
+    uploadId: string,
+    errorMessage: string
+  ): Promise<number> {
+    const now = new Date();
+    const failed = await db
+      .update(stageJobs)
+      .set({
+        status: 'failed',
+        errorMessage,
+        completedAt: now,
+        transitionedAt: now,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(stageJobs.uploadId, uploadId),
+          inArray(stageJobs.status, ['pending', 'submitted'])
+        )
+      )
+      .returning({ id: stageJobs.id });
+
+    return failed.length;
+  }
+}
+
+export const stageJobRepository = new StageJobRepository();
@@ -0,0 +1,104 @@
+import { eq, and, ne, desc, max, count } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { stagingCatalogVersions } from '../db/schema/staging-catalog-versions';
+import { StagingCatalogVersion } from '../types/database';
+import { StagingCatalog } from '../interfaces/staging-catalog.interface';
+
+export class StagingCatalogRepository {
+  /**
+   * Versão ativa (a publicada mais recentemente, se houver mais de uma)
+   */
+  async findActive(): Promise<StagingCatalogVersion | null> {
+    const [active] = await db
+      .select()
+      .from(stagingCatalogVersions)
+      .where(eq(stagingCatalogVersions.isActive, true))
+      .orderBy(desc(stagingCatalogVersions.activatedAt))
+      .limit(1);
+
+    return active ?? null;
+  }
+
+  async findByVersion(version: number): Promise<StagingCatalogVersion | null> {
+    const [found] = await db
+      .select()
+      .from(stagingCatalogVersions)
+      .where(eq(stagingCatalogVersions.version, version))
+      .limit(1);
+
+    return found ?? null;
+  }
+
+  /**
+   * Lista as versões, da mais nova para a mais antiga
+   */
+  async list(limit: number, offset: number): Promise<StagingCatalogVersion[]> {
+    return db
+      .select()
+      .from(stagingCatalogVersions)
+      .orderBy(desc(stagingCatalogVersions.version))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async count(): Promise<number> {
+    const [result] = await db.select({ total: count() }).from(stagingCatalogVersions);
+    return result?.total ?? 0;
+  }
+
+  /**
+   * Cria a próxima versão (número sequencial)
+   * @returns null quando outra versão foi criada ao mesmo tempo com o mesmo número
+   */
+  async create(data: {
+    catalog: StagingCatalog;
+    notes?: string;
+    createdBy?: string;
+  }): Promise<StagingCatalogVersion | null> {
+    const [latest] = await db
+      .select({ version: max(stagingCatalogVersions.version) })
+      .from(stagingCatalogVersions);
+
+    const [created] = await db
+      .insert(stagingCatalogVersions)
+      .values({
+        version: (latest?.version ?? 0) + 1,
+        catalog: data.catalog,
+        notes: data.notes ?? null,
+        createdBy: data.createdBy ?? null,
+      })
+      .onConflictDoNothing({ target: stagingCatalogVersions.version })
+      .returning();
+
+    return created ?? null;
+  }
+
+  /**
+   * Torna a versão ativa e desativa as demais
+   */
+  async activate(version: number): Promise<StagingCatalogVersion | null> {
+    const [activated] = await db
+      .update(stagingCatalogVersions)
+      .set({ isActive: true, activatedAt: new Date() })
+      .where(eq(stagingCatalogVersions.version, version))
+      .returning();
+
+    if (!activated) {
+      return null;
+    }
+
+    await db
+      .update(stagingCatalogVersions)
+      .set({ isActive: false })
+      .where(
+        and(
+          eq(stagingCatalogVersions.isActive, true),
+          ne(stagingCatalogVersions.version, version)
+        )
+      );
+
+    return activated;
+  }
+}
+
+export const stagingCatalogRepository = new StagingCatalogRepository();
@@ -0,0 +1,22 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { stripeEvents } from '@/db/schema/stripe-events';
+
+export class StripeEventRepository {
+  async isProcessed(eventId: string): Promise<boolean> {
+    const [event] = await db
+      .select({ id: stripeEvents.id })
+      .from(stripeEvents)
+      .where(eq(stripeEvents.id, eventId))
+      .limit(1);
+
+    return !!event;
+  }
+
+  async markProcessed(eventId: string, type: string): Promise<void> {
+    await db.insert(stripeEvents).values({ id: eventId, type }).onConflictDoNothing();
+  }
+}
+
+// Export singleton instance
+export const stripeEventRepository = new StripeEventRepository();
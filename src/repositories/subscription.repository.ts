@@ -0,0 +1,42 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { subscriptions } from '@/db/schema/subscriptions';
+import { Subscription, NewSubscription } from '@/types/database';
+
+export class SubscriptionRepository {
+  async findByStripeSubscriptionId(stripeSubscriptionId: string): Promise<Subscription | null> {
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.stripeSubscriptionId, stripeSubscriptionId))
+      .limit(1);
+
+    return subscription ?? null;
+  }
+
+  /**
+   * Insert or update a subscription by its Stripe subscription id
+   */
+  async upsertByStripeSubscriptionId(
+    data: Omit<NewSubscription, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<Subscription> {
+    const { stripeSubscriptionId, ...changes } = data;
+
+    const [subscription] = await db
+      .insert(subscriptions)
+      .values(data)
+      .onConflictDoUpdate({
+        target: subscriptions.stripeSubscriptionId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+
+    if (!subscription) {
+      throw new Error(`Failed to upsert subscription ${stripeSubscriptionId}`);
+    }
+    return subscription;
+  }
+}
+
+// Export singleton instance
+export const subscriptionRepository = new SubscriptionRepository();
@@ -1,4 +1,4 @@
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { eq, and, desc, isNull, sql } from 'drizzle-orm';
 import { db } from '../db/connection';
 import { uploads } from '../db/schema/uploads';
 import { 
@@ -10,8 +10,12 @@ import {
   Provider,
   StagingStage,
   StagingPlan,
-  StagingStageResult
+  StagingStageResult,
+  UploadProcessingOptions
 } from '../interfaces/upload.interface';
+import { PromptTemplateVersions } from '../interfaces/prompt-template.interface';
+import { BrandedOutput } from '../interfaces/branding.interface';
+import { ComparisonImage } from '../interfaces/comparison.interface';
 
 export class UploadRepository {
   /**
@@ -23,7 +27,18 @@ export class UploadRepository {
       outputImageUrls: dbUpload.outputImageUrls ? JSON.parse(dbUpload.outputImageUrls) : undefined,
       stagingPlan: dbUpload.stagingPlan ? JSON.parse(dbUpload.stagingPlan) : undefined,
       stageResults: dbUpload.stageResults ? JSON.parse(dbUpload.stageResults) : undefined,
-      stageJobIds: dbUpload.stageJobIds ? JSON.parse(dbUpload.stageJobIds) : undefined
+      stageJobIds: dbUpload.stageJobIds ? JSON.parse(dbUpload.stageJobIds) : undefined,
+      providerRoute: dbUpload.providerRoute ? JSON.parse(dbUpload.providerRoute) : undefined,
+      outputProvider: dbUpload.outputProvider ?? undefined,
+      promptTemplates: dbUpload.promptTemplates ?? undefined,
+      processingOptions: dbUpload.processingOptions ?? undefined,
+      complainedAt: dbUpload.complainedAt ?? undefined,
+      complaintReason: dbUpload.complaintReason ?? undefined,
+      listingStagingId: dbUpload.listingStagingId ?? undefined,
+      dispatchedAt: dbUpload.dispatchedAt ?? undefined,
+      unbrandedOutputImageUrl: dbUpload.unbrandedOutputImageUrl ?? undefined,
+      brandedAt: dbUpload.brandedAt ?? undefined,
+      comparisonImages: dbUpload.comparisonImages ?? undefined
     };
   }
 
@@ -35,7 +50,10 @@ export class UploadRepository {
     roomType: RoomType;
     furnitureStyle: FurnitureStyle;
     provider: Provider;
+    providerRoute?: Provider[];
     inputImageUrl: string;
+    preserveArchitecture?: boolean;
+    listingStagingId?: string;
   }): Promise<Upload> {
     const [upload] = await db
       .insert(uploads)
@@ -44,7 +62,10 @@ export class UploadRepository {
         roomType: data.roomType,
         furnitureStyle: data.furnitureStyle,
         provider: data.provider,
+        providerRoute: data.providerRoute ? JSON.stringify(data.providerRoute) : null,
         inputImageUrl: data.inputImageUrl,
+        preserveArchitecture: data.preserveArchitecture ?? false,
+        listingStagingId: data.listingStagingId ?? null,
         status: 'pending'
       })
       .returning();
@@ -173,13 +194,28 @@ export class UploadRepository {
     id: string, 
     outputImageUrl: string,
     outputImageUrls?: string[],
-    markAsCompleted: boolean = true
+    markAsCompleted: boolean = true,
+    outputProvider?: Provider,
+    branding?: Omit<BrandedOutput, 'outputImageUrl'>
   ): Promise<Upload | null> {
     const updateData: any = { 
       outputImageUrl,
       updatedAt: new Date()
     };
 
+    // Comparações antes/depois geradas com a saída anterior deixam de valer
+    updateData.comparisonImages = null;
+
+    if (branding) {
+      updateData.brandedAt = branding.brandedAt;
+      updateData.disclosureApplied = branding.disclosureApplied;
+      updateData.unbrandedOutputImageUrl = branding.unbrandedOutputImageUrl;
+    }
+
+    if (outputProvider) {
+      updateData.outputProvider = outputProvider;
+    }
+
     // Só marcar como completed se explicitamente solicitado
     if (markAsCompleted) {
       updateData.status = 'completed';
@@ -218,6 +254,93 @@ export class UploadRepository {
     return updatedUpload ? this.convertToUpload(updatedUpload) : null;
   }
 
+  /**
+   * Registra as versões dos templates de prompt usadas no upload
+   */
+  async updatePromptTemplates(
+    id: string,
+    promptTemplates: PromptTemplateVersions
+  ): Promise<void> {
+    await db
+      .update(uploads)
+      .set({
+        promptTemplates,
+        updatedAt: new Date()
+      })
+      .where(eq(uploads.id, id));
+  }
+
+  /**
+   * Guarda as opções do job de um upload simples para reenfileirá-lo no failover
+   */
+  async updateProcessingOptions(
+    id: string,
+    processingOptions: UploadProcessingOptions
+  ): Promise<void> {
+    await db
+      .update(uploads)
+      .set({
+        processingOptions,
+        updatedAt: new Date()
+      })
+      .where(eq(uploads.id, id));
+  }
+
+  /**
+   * Guarda uma comparação antes/depois no cache do upload, desde que a saída
+   * usada para gerá-la ainda seja a atual
+   */
+  async saveComparisonImage(
+    id: string,
+    key: string,
+    image: ComparisonImage,
+    outputImageUrl: string
+  ): Promise<Upload | null> {
+    const [updatedUpload] = await db
+      .update(uploads)
+      .set({
+        comparisonImages: sql`coalesce(${uploads.comparisonImages}, '{}'::jsonb) || ${JSON.stringify({ [key]: image })}::jsonb`,
+        updatedAt: new Date()
+      })
+      .where(and(eq(uploads.id, id), eq(uploads.outputImageUrl, outputImageUrl)))
+      .returning();
+
+    return updatedUpload ? this.convertToUpload(updatedUpload) : null;
+  }
+
+  /**
+   * Registra a reclamação do cliente sobre o resultado (apenas a primeira vale)
+   */
+  async recordComplaint(
+    id: string,
+    reason?: string
+  ): Promise<Upload | null> {
+    const [updatedUpload] = await db
+      .update(uploads)
+      .set({
+        complainedAt: new Date(),
+        complaintReason: reason ?? null,
+        updatedAt: new Date()
+      })
+      .where(and(eq(uploads.id, id), isNull(uploads.complainedAt)))
+      .returning();
+
+    return updatedUpload ? this.convertToUpload(updatedUpload) : null;
+  }
+
+  /**
+   * Busca as fotos de um lote de staging do imóvel, na ordem em que foram enviadas
+   */
+  async findByListingStagingId(listingStagingId: string): Promise<Upload[]> {
+    const batchUploads = await db
+      .select()
+      .from(uploads)
+      .where(eq(uploads.listingStagingId, listingStagingId))
+      .orderBy(uploads.createdAt);
+
+    return batchUploads.map(upload => this.convertToUpload(upload));
+  }
+
   /**
    * Busca uploads pendentes de processamento
    */
@@ -296,31 +419,27 @@ export class UploadRepository {
   }
 
   /**
-   * Inicializa o staging em etapas
+   * Inicializa o staging em etapas. As etapas são submetidas pelo orquestrador.
    */
   async initializeStaging(
     uploadId: string,
-    stagingPlan: StagingPlan,
-    firstStageJobId: string
+    stagingPlan: StagingPlan
   ): Promise<Upload | null> {
-    if (!stagingPlan.stages || stagingPlan.stages.length === 0) {
-      return null;
-    }
-    
     const firstStage = stagingPlan.stages[0];
     if (!firstStage) {
       return null;
     }
-    
-    const stageJobIds = { [firstStage.stage]: firstStageJobId };
-    
+
     const [updatedUpload] = await db
       .update(uploads)
       .set({
+        status: 'processing',
+        errorMessage: null,
         currentStage: firstStage.stage,
         stagingPlan: JSON.stringify(stagingPlan),
         stageResults: JSON.stringify([]),
-        stageJobIds: JSON.stringify(stageJobIds),
+        stageJobIds: JSON.stringify({}),
+        promptTemplates: stagingPlan.promptTemplates ?? null,
         updatedAt: new Date()
       })
       .where(eq(uploads.id, uploadId))
@@ -330,58 +449,89 @@ export class UploadRepository {
   }
 
   /**
-   * Atualiza resultado de uma etapa e avança para a próxima
+   * Retoma o staging em etapas de um upload finalizado, mantendo os resultados
+   * anteriores (ou os informados, ex.: versões marcadas como substituídas).
+   * Só afeta o upload se ele ainda estiver no status esperado.
    */
-  async updateStageResult(
+  async resumeStaging(
     uploadId: string,
-    stageResult: StagingStageResult,
-    nextStageJobId?: string
+    expectedStatus: UploadStatus,
+    stagingPlan: StagingPlan,
+    currentStage: StagingStage,
+    stageResults?: StagingStageResult[]
+  ): Promise<Upload | null> {
+    const [updatedUpload] = await db
+      .update(uploads)
+      .set({
+        status: 'processing',
+        errorMessage: null,
+        currentStage,
+        stagingPlan: JSON.stringify(stagingPlan),
+        ...(stageResults && { stageResults: JSON.stringify(stageResults) }),
+        updatedAt: new Date()
+      })
+      .where(
+        and(
+          eq(uploads.id, uploadId),
+          eq(uploads.status, expectedStatus)
+        )
+      )
+      .returning();
+
+    return updatedUpload ? this.convertToUpload(updatedUpload) : null;
+  }
+
+  /**
+   * Registra a submissão de uma etapa: define a etapa atual e o jobId dela
+   */
+  async updateStageSubmission(
+    uploadId: string,
+    stage: StagingStage,
+    jobId: string
   ): Promise<Upload | null> {
     const upload = await this.findById(uploadId);
-    if (!upload || !upload.stagingPlan || !upload.stageResults || !upload.stageJobIds) {
+    if (!upload) {
       return null;
     }
 
-    // Atualizar resultados da etapa
-    const updatedStageResults = [...upload.stageResults, stageResult];
-    
-    // Encontrar próxima etapa
-    const currentStageIndex = upload.stagingPlan.stages.findIndex(
-      s => s.stage === upload.currentStage
-    );
-    const nextStage = upload.stagingPlan.stages[currentStageIndex + 1];
-    
-    let updateData: any = {
-      stageResults: JSON.stringify(updatedStageResults),
-      updatedAt: new Date()
+    const stageJobIds = {
+      ...(upload.stageJobIds || {}),
+      [stage]: jobId
     };
 
-    if (nextStage && nextStageJobId) {
-      // Há próxima etapa
-      const updatedStageJobIds = {
-        ...upload.stageJobIds,
-        [nextStage.stage]: nextStageJobId
-      };
-      
-      updateData.currentStage = nextStage.stage;
-      updateData.stageJobIds = JSON.stringify(updatedStageJobIds);
-    } else {
-      // Última etapa concluída
-      updateData.currentStage = null;
-      updateData.status = stageResult.success ? 'completed' : 'failed';
-      
-      if (stageResult.success && stageResult.imageUrl) {
-        updateData.outputImageUrl = stageResult.imageUrl;
-      }
-      
-      if (!stageResult.success && stageResult.errorMessage) {
-        updateData.errorMessage = stageResult.errorMessage;
-      }
+    const [updatedUpload] = await db
+      .update(uploads)
+      .set({
+        currentStage: stage,
+        stageJobIds: JSON.stringify(stageJobIds),
+        updatedAt: new Date()
+      })
+      .where(eq(uploads.id, uploadId))
+      .returning();
+
+    return updatedUpload ? this.convertToUpload(updatedUpload) : null;
+  }
+
+  /**
+   * Adiciona o resultado de uma etapa ao histórico do upload
+   */
+  async appendStageResult(
+    uploadId: string,
+    stageResult: StagingStageResult
+  ): Promise<Upload | null> {
+    const upload = await this.findById(uploadId);
+    if (!upload) {
+      return null;
     }
 
+    const updatedStageResults = [...(upload.stageResults || []), stageResult];
+
     const [updatedUpload] = await db
       .update(uploads)
-      .set(updateData)
+      .set({
+        stageResults: JSON.stringify(updatedStageResults),
+        updatedAt: new Date()
+      })
       .where(eq(uploads.id, uploadId))
       .returning();
 
@@ -389,23 +539,88 @@ export class UploadRepository {
   }
 
   /**
-   * Busca upload por jobId de qualquer etapa
+   * Finaliza o staging em etapas com a imagem final
    */
-  async findByStageJobId(jobId: string): Promise<Upload | null> {
-    // Usar LIKE para buscar o jobId no JSON string de forma mais eficiente
-    const [upload] = await db
-      .select()
-      .from(uploads)
+  async completeStaging(
+    uploadId: string,
+    outputImageUrl: string,
+    outputProvider: Provider,
+    branding?: Omit<BrandedOutput, 'outputImageUrl'>,
+    outputImageUrls?: string[]
+  ): Promise<Upload | null> {
+    const [updatedUpload] = await db
+      .update(uploads)
+      .set({
+        status: 'completed',
+        currentStage: null,
+        outputImageUrl,
+        outputProvider,
+        ...(outputImageUrls?.length && { outputImageUrls: JSON.stringify(outputImageUrls) }),
+        brandedAt: branding?.brandedAt ?? null,
+        disclosureApplied: branding?.disclosureApplied ?? false,
+        unbrandedOutputImageUrl: branding?.unbrandedOutputImageUrl ?? null,
+        comparisonImages: null,
+        updatedAt: new Date()
+      })
+      .where(eq(uploads.id, uploadId))
+      .returning();
+
+    return updatedUpload ? this.convertToUpload(updatedUpload) : null;
+  }
+
+  /**
+   * Troca o provider que está processando o upload (failover na submissão)
+   */
+  async updateProvider(uploadId: string, provider: Provider): Promise<void> {
+    await db.update(uploads)
+      .set({
+        provider,
+        updatedAt: new Date()
+      })
+      .where(eq(uploads.id, uploadId));
+  }
+
+  /**
+   * Devolve o upload para a fila com outro provider após falha do job anterior.
+   * Só afeta uploads ainda em processamento com o provider que falhou.
+   */
+  async reassignForFailover(
+    uploadId: string,
+    failedProvider: Provider,
+    provider: Provider
+  ): Promise<Upload | null> {
+    const [updatedUpload] = await db
+      .update(uploads)
+      .set({
+        provider,
+        status: 'pending',
+        errorMessage: null,
+        blackForestJobId: null,
+        instantDecoRequestId: null,
+        updatedAt: new Date()
+      })
       .where(
         and(
-          eq(uploads.status, 'processing'),
-          // Buscar o jobId dentro do JSON string
-          sql`${uploads.stageJobIds} LIKE ${`%"${jobId}"%`}`
+          eq(uploads.id, uploadId),
+          eq(uploads.provider, failedProvider),
+          eq(uploads.status, 'processing')
         )
       )
-      .limit(1);
+      .returning();
 
-    return upload ? this.convertToUpload(upload) : null;
+    return updatedUpload ? this.convertToUpload(updatedUpload) : null;
+  }
+
+  /**
+   * Registra os créditos consumidos pelo upload
+   */
+  async updateCreditsUsed(uploadId: string, creditsUsed: number): Promise<void> {
+    await db.update(uploads)
+      .set({
+        creditsUsed,
+        updatedAt: new Date()
+      })
+      .where(eq(uploads.id, uploadId));
   }
 
   /**
@@ -0,0 +1,92 @@
+import { eq, and, desc, count } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { webhookDeliveries } from '@/db/schema/webhook-deliveries';
+import { WebhookDelivery, NewWebhookDelivery } from '@/types/database';
+
+export type WebhookDeliveryStatus = WebhookDelivery['status'];
+
+export class WebhookDeliveryRepository {
+  async createMany(data: NewWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (data.length === 0) {
+      return [];
+    }
+
+    return db.insert(webhookDeliveries).values(data).returning();
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | null> {
+    const [delivery] = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.id, id))
+      .limit(1);
+
+    return delivery ?? null;
+  }
+
+  /**
+   * Record the outcome of one delivery attempt
+   */
+  async recordAttempt(
+    id: string,
+    result: {
+      status: WebhookDeliveryStatus;
+      attempts: number;
+      responseStatus: number | null;
+      errorMessage: string | null;
+    }
+  ): Promise<void> {
+    const now = new Date();
+    await db
+      .update(webhookDeliveries)
+      .set({
+        ...result,
+        lastAttemptAt: now,
+        ...(result.status === 'succeeded' && { deliveredAt: now }),
+        updatedAt: now,
+      })
+      .where(eq(webhookDeliveries.id, id));
+  }
+
+  async updateStatus(id: string, status: WebhookDeliveryStatus): Promise<void> {
+    await db
+      .update(webhookDeliveries)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(webhookDeliveries.id, id));
+  }
+
+  async findByEndpointId(
+    endpointId: string,
+    options: { limit: number; offset: number; status?: WebhookDeliveryStatus }
+  ): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.endpointId, endpointId),
+          options.status ? eq(webhookDeliveries.status, options.status) : undefined
+        )
+      )
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(options.limit)
+      .offset(options.offset);
+  }
+
+  async countByEndpointId(endpointId: string, status?: WebhookDeliveryStatus): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.endpointId, endpointId),
+          status ? eq(webhookDeliveries.status, status) : undefined
+        )
+      );
+
+    return result?.total ?? 0;
+  }
+}
+
+// Export singleton instance
+export const webhookDeliveryRepository = new WebhookDeliveryRepository();
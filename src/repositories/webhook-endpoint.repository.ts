@@ -0,0 +1,109 @@
+import { eq, and, or, desc, isNull } from 'drizzle-orm';
+import { db } from '@/db/connection';
+import { webhookEndpoints } from '@/db/schema/webhook-endpoints';
+import { WebhookEndpoint, NewWebhookEndpoint } from '@/types/database';
+
+export class WebhookEndpointRepository {
+  /**
+   * Insert an endpoint; returns null when the URL is already registered for the
+   * account (or, for upload endpoints, for the upload)
+   */
+  async create(data: NewWebhookEndpoint): Promise<WebhookEndpoint | null> {
+    const [endpoint] = await db
+      .insert(webhookEndpoints)
+      .values(data)
+      .onConflictDoNothing()
+      .returning();
+
+    return endpoint ?? null;
+  }
+
+  async findById(id: string): Promise<WebhookEndpoint | null> {
+    const [endpoint] = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.id, id))
+      .limit(1);
+
+    return endpoint ?? null;
+  }
+
+  /**
+   * Account-wide endpoint of the user for a URL
+   */
+  async findByUserAndUrl(userId: string, url: string): Promise<WebhookEndpoint | null> {
+    const [endpoint] = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(
+        and(
+          eq(webhookEndpoints.userId, userId),
+          eq(webhookEndpoints.url, url),
+          isNull(webhookEndpoints.uploadId)
+        )
+      )
+      .limit(1);
+
+    return endpoint ?? null;
+  }
+
+  async findByUploadAndUrl(uploadId: string, url: string): Promise<WebhookEndpoint | null> {
+    const [endpoint] = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.uploadId, uploadId), eq(webhookEndpoints.url, url)))
+      .limit(1);
+
+    return endpoint ?? null;
+  }
+
+  async findByUserId(userId: string): Promise<WebhookEndpoint[]> {
+    return db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.userId, userId))
+      .orderBy(desc(webhookEndpoints.createdAt));
+  }
+
+  /**
+   * Active endpoints that receive an event: the account-wide ones plus, for
+   * upload events, the ones registered with that upload
+   */
+  async findActiveByUserId(userId: string, uploadId?: string): Promise<WebhookEndpoint[]> {
+    const scope = uploadId
+      ? or(isNull(webhookEndpoints.uploadId), eq(webhookEndpoints.uploadId, uploadId))
+      : isNull(webhookEndpoints.uploadId);
+
+    return db
+      .select()
+      .from(webhookEndpoints)
+      .where(
+        and(eq(webhookEndpoints.userId, userId), eq(webhookEndpoints.isActive, true), scope)
+      );
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Pick<WebhookEndpoint, 'url' | 'events' | 'description' | 'isActive'>>
+  ): Promise<WebhookEndpoint | null> {
+    const [endpoint] = await db
+      .update(webhookEndpoints)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(webhookEndpoints.id, id))
+      .returning();
+
+    return endpoint ?? null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(webhookEndpoints)
+      .where(eq(webhookEndpoints.id, id))
+      .returning({ id: webhookEndpoints.id });
+
+    return deleted.length > 0;
+  }
+}
+
+// Export singleton instance
+export const webhookEndpointRepository = new WebhookEndpointRepository();
@@ -0,0 +1,192 @@
+import { Router } from 'express';
+import { StagingCatalogController } from '@/controllers/staging-catalog.controller';
+import { CatalogAdminController } from '@/controllers/catalog-admin.controller';
+import { PromptTemplateController } from '@/controllers/prompt-template.controller';
+import { authMiddleware } from '@/middleware/auth-middleware';
+import { adminMiddleware } from '@/middleware/admin-middleware';
+
+const router = Router();
+const stagingCatalogController = new StagingCatalogController();
+const catalogAdminController = new CatalogAdminController();
+const promptTemplateController = new PromptTemplateController();
+
+// All admin routes require an authenticated user with the admin role
+router.use(authMiddleware, adminMiddleware);
+
+/**
+ * GET /admin/staging-catalog
+ * Get the catalog currently used to generate staging plans ({ version, catalog })
+ */
+router.get('/staging-catalog', stagingCatalogController.getActive.bind(stagingCatalogController));
+
+/**
+ * GET /admin/staging-catalog/versions
+ * List catalog versions, newest first
+ */
+router.get(
+  '/staging-catalog/versions',
+  stagingCatalogController.listVersions.bind(stagingCatalogController)
+);
+
+/**
+ * POST /admin/staging-catalog/versions
+ * Create a version from a full catalog ({ catalog }) or from changes
+ * ({ rooms?, styles?, baseVersion? }); accepts { notes?, activate? }
+ */
+router.post(
+  '/staging-catalog/versions',
+  stagingCatalogController.createVersion.bind(stagingCatalogController)
+);
+
+/**
+ * GET /admin/staging-catalog/versions/:version
+ * Get a catalog version
+ */
+router.get(
+  '/staging-catalog/versions/:version',
+  stagingCatalogController.getVersion.bind(stagingCatalogController)
+);
+
+/**
+ * POST /admin/staging-catalog/versions/:version/activate
+ * Make a version the active catalog (also used to roll back)
+ */
+router.post(
+  '/staging-catalog/versions/:version/activate',
+  stagingCatalogController.activateVersion.bind(stagingCatalogController)
+);
+
+/**
+ * GET /admin/room-types
+ * List room types (?active=true for active only)
+ */
+router.get('/room-types', catalogAdminController.listRoomTypes.bind(catalogAdminController));
+
+/**
+ * POST /admin/room-types
+ * Create a room type ({ name, label, labels?, premiumOnly?, active? }); name is an immutable slug
+ */
+router.post('/room-types', catalogAdminController.createRoomType.bind(catalogAdminController));
+
+/**
+ * GET /admin/room-types/:id
+ * Get a room type
+ */
+router.get('/room-types/:id', catalogAdminController.getRoomType.bind(catalogAdminController));
+
+/**
+ * PATCH /admin/room-types/:id
+ * Update label, labels, premiumOnly or active; deactivated entries are rejected by staging requests
+ */
+router.patch('/room-types/:id', catalogAdminController.updateRoomType.bind(catalogAdminController));
+
+/**
+ * DELETE /admin/room-types/:id
+ * Delete a room type that is not referenced by LoRAs or jobs (409 otherwise)
+ */
+router.delete('/room-types/:id', catalogAdminController.deleteRoomType.bind(catalogAdminController));
+
+/**
+ * GET /admin/furniture-styles
+ * List furniture styles (?active=true for active only)
+ */
+router.get('/furniture-styles', catalogAdminController.listFurnitureStyles.bind(catalogAdminController));
+
+/**
+ * POST /admin/furniture-styles
+ * Create a furniture style ({ name, label, labels?, premiumOnly?, active? }); name is an immutable slug
+ */
+router.post('/furniture-styles', catalogAdminController.createFurnitureStyle.bind(catalogAdminController));
+
+/**
+ * GET /admin/furniture-styles/:id
+ * Get a furniture style
+ */
+router.get('/furniture-styles/:id', catalogAdminController.getFurnitureStyle.bind(catalogAdminController));
+
+/**
+ * PATCH /admin/furniture-styles/:id
+ * Update label, labels, premiumOnly or active; deactivated entries are rejected by staging requests
+ */
+router.patch('/furniture-styles/:id', catalogAdminController.updateFurnitureStyle.bind(catalogAdminController));
+
+/**
+ * DELETE /admin/furniture-styles/:id
+ * Delete a furniture style that is not referenced by LoRAs or jobs (409 otherwise)
+ */
+router.delete('/furniture-styles/:id', catalogAdminController.deleteFurnitureStyle.bind(catalogAdminController));
+
+/**
+ * GET /admin/loras
+ * List LoRAs (?roomTypeId=&furnitureStyleId=&active=true|false)
+ */
+router.get('/loras', catalogAdminController.listLoras.bind(catalogAdminController));
+
+/**
+ * POST /admin/loras
+ * Create a LoRA ({ name, fileUrl, roomTypeId, furnitureStyleId, active? })
+ */
+router.post('/loras', catalogAdminController.createLora.bind(catalogAdminController));
+
+/**
+ * GET /admin/loras/:id
+ * Get a LoRA
+ */
+router.get('/loras/:id', catalogAdminController.getLora.bind(catalogAdminController));
+
+/**
+ * PATCH /admin/loras/:id
+ * Update name, fileUrl, roomTypeId, furnitureStyleId or active
+ */
+router.patch('/loras/:id', catalogAdminController.updateLora.bind(catalogAdminController));
+
+/**
+ * DELETE /admin/loras/:id
+ * Delete a LoRA that is not referenced by jobs (409 otherwise)
+ */
+router.delete('/loras/:id', catalogAdminController.deleteLora.bind(catalogAdminController));
+
+/**
+ * GET /admin/prompt-templates
+ * List prompt templates (built-in body, variables, versions and traffic split)
+ */
+router.get('/prompt-templates', promptTemplateController.listTemplates.bind(promptTemplateController));
+
+/**
+ * POST /admin/prompt-templates/:name/versions
+ * Create a template version ({ body, notes? }); variables use {{name}}
+ */
+router.post(
+  '/prompt-templates/:name/versions',
+  promptTemplateController.createVersion.bind(promptTemplateController)
+);
+
+/**
+ * GET /admin/prompt-templates/:name/versions/:version
+ * Get a template version
+ */
+router.get(
+  '/prompt-templates/:name/versions/:version',
+  promptTemplateController.getVersion.bind(promptTemplateController)
+);
+
+/**
+ * PUT /admin/prompt-templates/:name/traffic
+ * Replace the A/B traffic split ({ traffic: { "<version>": percent } }, at most 100 in total);
+ * the remainder uses the built-in template
+ */
+router.put(
+  '/prompt-templates/:name/traffic',
+  promptTemplateController.setTraffic.bind(promptTemplateController)
+);
+
+/**
+ * GET /admin/prompt-templates/:name/stats
+ * Completion and complaint rates per template version (?from=&to=)
+ */
+router.get(
+  '/prompt-templates/:name/stats',
+  promptTemplateController.getStats.bind(promptTemplateController)
+);
+
+export default router;
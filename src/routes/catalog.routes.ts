@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { CatalogController } from '@/controllers/catalog.controller';
+
+const router = Router();
+const catalogController = new CatalogController();
+
+/**
+ * GET /catalog
+ * Public catalog: active room types and furniture styles (label, premiumOnly,
+ * providers), stages and the combinations each provider supports.
+ * Labels follow ?locale=pt-BR|en|es, then Accept-Language (default pt-BR).
+ */
+router.get('/', catalogController.getCatalog.bind(catalogController));
+
+export default router;
@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { ListingController } from '@/controllers/listing.controller';
+import { authMiddleware } from '@/middleware/auth-middleware';
+import { entitlementMiddleware } from '@/middleware/entitlement-middleware';
+
+const router = Router();
+const listingController = new ListingController();
+
+// Apply authentication middleware to all routes
+router.use(authMiddleware);
+
+/**
+ * POST /listings
+ * Create a listing ({ title, address?, externalReference? })
+ */
+router.post('/', listingController.createListing.bind(listingController));
+
+/**
+ * GET /listings
+ * List the user's listings (?page=&limit=)
+ */
+router.get('/', listingController.listListings.bind(listingController));
+
+/**
+ * GET /listings/:id
+ * Get a listing with the aggregate progress of each staging batch
+ */
+router.get('/:id', listingController.getListing.bind(listingController));
+
+/**
+ * GET /listings/:id/export
+ * ZIP of every completed photo as before/after JPEG pairs, one folder per size,
+ * plus manifest.json. Query: sizes (comma list of pixel sizes or "original",
+ * default 1024,2048,original), quality (40-100, default 85), watermark
+ * ("Virtually Staged" disclosure on staged photos, default true), stagingId?
+ */
+router.get('/:id/export', listingController.exportListing.bind(listingController));
+
+/**
+ * POST /listings/:id/palette
+ * Draw a new design palette ({ furnitureStyle, seed? }) shared by every room of the listing.
+ * The first batch draws one automatically; 409 while a batch is processing.
+ */
+router.post('/:id/palette', listingController.generatePalette.bind(listingController));
+
+/**
+ * PATCH /listings/:id/palette
+ * Adjust the palette ({ seed?, materials?, colors?, itemPicks?, referenceUploadId? });
+ * referenceUploadId (a completed photo of the listing) is sent as reference image
+ */
+router.patch('/:id/palette', listingController.updatePalette.bind(listingController));
+
+/**
+ * DELETE /listings/:id/palette
+ * Remove the palette; the next batch draws a new one
+ */
+router.delete('/:id/palette', listingController.deletePalette.bind(listingController));
+
+/**
+ * POST /listings/:id/stagings
+ * Stage up to 40 photos (multipart "images") with one furniture style.
+ * Body: roomTypes (one per photo, JSON array or comma-separated), furnitureStyle,
+ * provider?, preserveArchitecture?, stage fields (foundation, complement, ...).
+ * Credits for every photo are reserved up front (402 when the balance is short).
+ * Photos reuse the listing palette; 409 when furnitureStyle differs from it.
+ * Photos run with at most LISTING_MAX_CONCURRENT_UPLOADS in flight per user;
+ * a listing_staging.completed webhook is sent once every photo finished.
+ */
+router.post(
+  '/:id/stagings',
+  listingController.uploadImagesMiddleware,
+  entitlementMiddleware,
+  listingController.createStaging.bind(listingController)
+);
+
+/**
+ * GET /listings/:id/stagings/:stagingId
+ * Aggregate progress (queued, pending, processing, completed, failed, percent)
+ * and the status of each photo of a batch
+ */
+router.get('/:id/stagings/:stagingId', listingController.getStaging.bind(listingController));
+
+export default router;
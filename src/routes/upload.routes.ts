@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { uploadController } from '../controllers/upload.controller';
 import { authMiddleware } from '../middleware/auth-middleware';
+import { entitlementMiddleware } from '../middleware/entitlement-middleware';
 
 const router = Router();
 
@@ -11,12 +12,13 @@ router.use(authMiddleware);
  * @route POST /api/v1/upload
  * @desc Upload de imagem para processamento com IA
  * @access Private
- * @body { roomType: string, furnitureStyle: string, plan?: string }
+ * @body { roomType: string, furnitureStyle: string, resolution?: 'standard' | 'high', preserveArchitecture?: boolean }
  * @file image (multipart/form-data)
  */
 router.post(
   '/',
   uploadController.uploadMiddleware,
+  entitlementMiddleware,
   uploadController.uploadImage.bind(uploadController)
 );
 
@@ -1,9 +1,15 @@
 import { Router } from 'express';
 import { AuthController } from '@/controllers/auth.controller';
+import { BrandingController } from '@/controllers/branding.controller';
+import { CreditController } from '@/controllers/credit.controller';
+import { WebhookEndpointController } from '@/controllers/webhook-endpoint.controller';
 import { authMiddleware } from '@/middleware/auth-middleware';
 
 const router = Router();
 const authController = new AuthController();
+const brandingController = new BrandingController();
+const creditController = new CreditController();
+const webhookEndpointController = new WebhookEndpointController();
 
 // Apply authentication middleware to all routes
 router.use(authMiddleware);
@@ -32,4 +38,89 @@ router.delete('/profile', authController.deleteAccount.bind(authController));
  */
 router.get('/stats', authController.getStats.bind(authController));
 
+/**
+ * GET /user/credits/history
+ * Get credit balance and ledger entries (reserve, capture, refund, grant)
+ */
+router.get('/credits/history', creditController.getHistory.bind(creditController));
+
+/**
+ * GET /user/branding
+ * Get the watermark and logo applied to finished images (null when never configured)
+ */
+router.get('/branding', brandingController.getSettings.bind(brandingController));
+
+/**
+ * PUT /user/branding
+ * Update the watermarks ({ textEnabled?, text?, textPosition?, textOpacity?, logoEnabled?,
+ * logoPosition?, logoOpacity?, logoScale? }); positions: top-left, top-right, bottom-left,
+ * bottom-right, center; opacities in percent; logoScale in percent of the image width.
+ * Paid plans also keep the unwatermarked image as unbrandedOutputImageUrl.
+ */
+router.put('/branding', brandingController.updateSettings.bind(brandingController));
+
+/**
+ * POST /user/branding/logo
+ * Upload the brokerage logo (multipart "logo", up to 2MB); replaces and enables it
+ */
+router.post(
+  '/branding/logo',
+  brandingController.uploadLogoMiddleware,
+  brandingController.uploadLogo.bind(brandingController)
+);
+
+/**
+ * DELETE /user/branding/logo
+ * Remove the logo
+ */
+router.delete('/branding/logo', brandingController.deleteLogo.bind(brandingController));
+
+/**
+ * GET /user/webhooks
+ * List webhook endpoints
+ */
+router.get('/webhooks', webhookEndpointController.listEndpoints.bind(webhookEndpointController));
+
+/**
+ * POST /user/webhooks
+ * Register a webhook endpoint ({ url, events?, description? }); returns the signing secret
+ */
+router.post('/webhooks', webhookEndpointController.createEndpoint.bind(webhookEndpointController));
+
+/**
+ * POST /user/webhooks/deliveries/:deliveryId/redeliver
+ * Queue a webhook delivery again
+ */
+router.post(
+  '/webhooks/deliveries/:deliveryId/redeliver',
+  webhookEndpointController.redeliver.bind(webhookEndpointController)
+);
+
+/**
+ * GET /user/webhooks/:endpointId
+ * Get a webhook endpoint
+ */
+router.get('/webhooks/:endpointId', webhookEndpointController.getEndpoint.bind(webhookEndpointController));
+
+/**
+ * PATCH /user/webhooks/:endpointId
+ * Update a webhook endpoint ({ url?, events?, description?, isActive? })
+ */
+router.patch('/webhooks/:endpointId', webhookEndpointController.updateEndpoint.bind(webhookEndpointController));
+
+/**
+ * DELETE /user/webhooks/:endpointId
+ * Delete a webhook endpoint
+ */
+router.delete('/webhooks/:endpointId', webhookEndpointController.deleteEndpoint.bind(webhookEndpointController));
+
+/**
+ * GET /user/webhooks/:endpointId/deliveries
+ * Get the delivery log of a webhook endpoint (?status=pending|succeeded|failed)
+ */
+router.get(
+  '/webhooks/:endpointId/deliveries',
+  webhookEndpointController.getDeliveries.bind(webhookEndpointController)
+);
+
 export default router;
\ No newline at end of file
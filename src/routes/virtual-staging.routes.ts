@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { virtualStagingController } from '../controllers/virtual-staging.controller';
 import { authMiddleware } from '../middleware/auth-middleware';
+import { entitlementMiddleware } from '../middleware/entitlement-middleware';
 
 const router = Router();
 
@@ -11,15 +12,19 @@ router.use(authMiddleware);
  * @route POST /api/v1/virtual-staging
  * @desc Processa virtual staging em 4 etapas usando Black Forest provider
  * @access Private
- * @body { roomType: string, furnitureStyle: string, plan?: string }
+ * @body { roomType: string, furnitureStyle: string, resolution?: 'standard' | 'high', preserveArchitecture?: boolean }
  * @file image (multipart/form-data)
  * @description Pipeline em 4 etapas: foundation → complement → windows_decoration → wall_decoration
  * @note Processamento assíncrono com logs detalhados de cada etapa
+ * @note Tipos de ambiente/estilos premium, etapas extras e alta resolução dependem do plano do usuário
+ * @note resolution=high gera a saída com até 1536px no maior lado (padrão: 1024px)
+ * @note preserveArchitecture mantém paredes, teto, janelas e portas idênticos à foto (fora da máscara)
  */
 router.post(
   '/',
   virtualStagingController.debugMiddleware,
   virtualStagingController.uploadMiddleware,
+  entitlementMiddleware,
   virtualStagingController.processVirtualStaging.bind(virtualStagingController)
 );
 
@@ -27,15 +32,17 @@ router.post(
  * @route POST /api/v1/virtual-staging/with-references
  * @desc Processa virtual staging com até 4 imagens (1 principal + 3 de referência)
  * @access Private
- * @body { roomType: string, furnitureStyle: string, plan?: string, seed?: number, customPrompt?: string }
+ * @body { roomType: string, furnitureStyle: string, resolution?: 'standard' | 'high', seed?: number, customPrompt?: string, preserveArchitecture?: boolean }
  * @files image (obrigatória), referenceImage2, referenceImage3, referenceImage4 (opcionais)
  * @description Aceita imagem principal obrigatória e até 3 imagens de referência opcionais
  * @note Processamento assíncrono com suporte a imagens de referência para Black Forest provider
+ * @note Imagens de referência exigem um plano com o recurso reference_images
  */
 router.post(
   '/with-references',
   virtualStagingController.debugMiddleware,
   virtualStagingController.uploadMultipleMiddleware,
+  entitlementMiddleware,
   virtualStagingController.processVirtualStagingWithReferences.bind(
     virtualStagingController
   )
@@ -54,6 +61,85 @@ router.get(
   )
 );
 
+/**
+ * @route GET /api/v1/virtual-staging/:uploadId/events
+ * @desc Stream SSE com o progresso do upload em tempo real
+ * @access Private
+ * @params uploadId: string
+ * @events snapshot, processing, stage_started, stage_completed, completed, failed
+ * @note O stream é encerrado quando o upload termina (completed ou failed)
+ */
+router.get(
+  '/:uploadId/events',
+  virtualStagingController.streamStagingEvents.bind(virtualStagingController)
+);
+
+/**
+ * @route POST /api/v1/virtual-staging/:uploadId/retry
+ * @desc Retoma um upload em etapas que falhou, reenviando só a etapa com falha e as seguintes
+ * @access Private
+ * @params uploadId: string
+ * @body { seed?: number }
+ * @note Parte da imagem da última etapa concluída; limitado por STAGE_MAX_RETRIES por etapa
+ */
+router.post(
+  '/:uploadId/retry',
+  virtualStagingController.retryVirtualStaging.bind(virtualStagingController)
+);
+
+/**
+ * @route POST /api/v1/virtual-staging/:uploadId/stages/:stage/regenerate
+ * @desc Refaz uma etapa sobre a imagem da etapa anterior e reexecuta as etapas seguintes
+ * @access Private
+ * @params uploadId: string, stage: StagingStage
+ * @body { instruction?: string (até 500 caracteres, anexada ao prompt), seed?: number }
+ * @note As versões anteriores ficam em stageResults marcadas como superseded; limitado por
+ * STAGE_MAX_REGENERATIONS por upload
+ */
+router.post(
+  '/:uploadId/stages/:stage/regenerate',
+  virtualStagingController.regenerateStage.bind(virtualStagingController)
+);
+
+/**
+ * @route POST /api/v1/virtual-staging/:uploadId/complaint
+ * @desc Registra a reclamação do usuário sobre o resultado de um upload concluído
+ * @access Private
+ * @params uploadId: string
+ * @body { reason?: string (até 1000 caracteres) }
+ * @note Uma reclamação por upload; entra na taxa de reclamação das variantes de prompt
+ */
+router.post(
+  '/:uploadId/complaint',
+  virtualStagingController.reportComplaint.bind(virtualStagingController)
+);
+
+/**
+ * @route POST /api/v1/virtual-staging/:uploadId/comparison
+ * @desc Gera a comparação antes/depois de um upload concluído e a salva no S3
+ * @access Private
+ * @params uploadId: string
+ * @body { layout?: 'side-by-side' | 'top-bottom' | 'diagonal' | 'wipe' (default: side-by-side), format?: jpeg | webp (estáticos, default jpeg) ou webp | gif (wipe animado, default webp), labels?: boolean (rótulos Before/After, default: true) }
+ * @note 201 quando gerada; 200 com a já salva no cache do upload (válida até a saída mudar)
+ */
+router.post(
+  '/:uploadId/comparison',
+  virtualStagingController.createComparison.bind(virtualStagingController)
+);
+
+/**
+ * @route GET /api/v1/virtual-staging/:uploadId/comparison
+ * @desc Comparação antes/depois já gerada pelo POST
+ * @access Private
+ * @params uploadId: string
+ * @query layout?, format?, labels? (mesmos valores do POST)
+ * @note 404 quando ainda não foi gerada com estas opções
+ */
+router.get(
+  '/:uploadId/comparison',
+  virtualStagingController.getComparison.bind(virtualStagingController)
+);
+
 /**
  * @route GET /api/v1/virtual-staging/user
  * @desc Lista todos os processamentos de virtual staging do usuário autenticado
@@ -71,6 +157,10 @@ router.get(
  * @access Private
  * @params uploadId: string
  * @body { webhookUrl?: string, enableProgress?: boolean }
+ * Apenas o dono de um upload ainda pendente (403/409 nos demais casos).
+ * webhookUrl é registrado como endpoint deste upload (só recebe os eventos dele);
+ * a resposta traz o segredo da assinatura em data.webhook. Endpoints para todos
+ * os uploads são cadastrados em /users/webhooks.
  */
 router.post(
   '/:uploadId/stages',
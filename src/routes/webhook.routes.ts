@@ -1,28 +1,67 @@
 import { Router } from 'express';
 import { webhookController } from '../controllers/webhook.controller';
+import { verifyProviderWebhook } from '../middleware/webhook-signature-middleware';
+import { BLACK_FOREST_SIGNATURE_HEADER } from '../services/providers/black-forest.provider';
 
 const router = Router();
 
 /**
  * @route POST /api/v1/webhooks/instant-deco
  * @desc Handle InstantDeco webhook responses
- * @access Public (webhook)
+ * @access Public (signed webhook URL: ts, nonce, ref, sig)
  * @body InstantDecoWebhookResponse
  */
 router.post(
   '/instant-deco',
+  verifyProviderWebhook('instant-deco', body =>
+    typeof body.request_id === 'string'
+      ? `${body.request_id}:${String(body.status)}`
+      : undefined
+  ),
   webhookController.handleInstantDecoWebhook.bind(webhookController)
 );
 
 /**
  * @route POST /api/v1/webhooks/black-forest
  * @desc Handle Black Forest webhook responses
- * @access Public (webhook)
+ * @access Public (signed webhook URL: ts, nonce, ref, sig; body signed with webhook_secret)
  * @body BlackForestWebhookResponse
  */
 router.post(
   '/black-forest',
+  verifyProviderWebhook(
+    'black-forest',
+    body => {
+      const jobId = body.task_id || body.id;
+      return typeof jobId === 'string' ? `${jobId}:${String(body.status)}` : undefined;
+    },
+    { bodySignatureHeader: BLACK_FOREST_SIGNATURE_HEADER }
+  ),
   webhookController.handleBlackForestWebhook.bind(webhookController)
 );
 
+/**
+ * @route POST /api/v1/webhooks/mock
+ * @desc Handle mock provider webhook responses (MOCK_PROVIDER_ENABLED only)
+ * @access Public (signed webhook URL: ts, nonce, ref, sig)
+ * @body MockWebhookPayload
+ */
+router.post(
+  '/mock',
+  verifyProviderWebhook('mock', body =>
+    typeof body.id === 'string' ? `${body.id}:${String(body.status)}` : undefined
+  ),
+  webhookController.handleMockWebhook.bind(webhookController)
+);
+
+/**
+ * @route GET /api/v1/webhooks/mock/images/:jobId
+ * @desc Serve images generated by the mock provider
+ * @access Public
+ */
+router.get(
+  '/mock/images/:jobId',
+  webhookController.getMockImage.bind(webhookController)
+);
+
 export default router;
\ No newline at end of file
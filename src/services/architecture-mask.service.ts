@@ -0,0 +1,99 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { BaseService } from './base.service';
+import { uploadRepository } from '../repositories/upload.repository';
+import { s3Service } from '../lib/s3';
+import { loadImage } from '../utils/image-source.util';
+import {
+  compositeWithMask,
+  generateStructureMask,
+  getOrientedSize,
+  normalizeMask,
+} from '../utils/image-mask.util';
+import { Upload, StagingStage } from '../interfaces/upload.interface';
+
+// Etapas que alteram paredes e janelas de propósito (quadros, cortinas)
+const MASK_EXEMPT_STAGES: StagingStage[] = ['wall_decoration', 'windows_decoration'];
+
+/**
+ * Preservação da arquitetura.
+ *
+ * Para uploads com preserveArchitecture, a saída do provider é composta sobre
+ * a foto original usando uma máscara de estrutura: dentro da máscara (piso e
+ * faixa dos móveis) fica a imagem gerada; fora dela, paredes, teto, janelas e
+ * portas mantêm exatamente os pixels da foto enviada.
+ *
+ * A máscara é a enviada pelo usuário ou, na falta dela, derivada da foto e
+ * salva no S3 para as etapas seguintes.
+ */
+export class ArchitectureMaskService extends BaseService {
+  /**
+   * Aplica a máscara de estrutura à imagem gerada
+   * @returns URL da imagem composta, ou a própria outputImageUrl quando a
+   * preservação não se aplica ou falha
+   */
+  async applyToOutput(
+    upload: Upload,
+    outputImageUrl: string,
+    stage?: StagingStage
+  ): Promise<string> {
+    if (!upload.preserveArchitecture || (stage && MASK_EXEMPT_STAGES.includes(stage))) {
+      return outputImageUrl;
+    }
+
+    try {
+      const [original, processed] = await Promise.all([
+        loadImage(upload.inputImageUrl),
+        loadImage(outputImageUrl),
+      ]);
+      const mask = await this.getMask(upload, original.buffer);
+      const composited = await compositeWithMask(original.buffer, processed.buffer, mask);
+
+      const key = s3Service.generateFileKey(upload.userId, 'output', 'jpg');
+      const compositedUrl = await s3Service.uploadFile(key, composited, 'image/jpeg', {
+        uploadId: upload.id,
+        ...(stage && { stage }),
+        preserveArchitecture: 'true',
+      });
+
+      this.logOperation('applyToOutput', { uploadId: upload.id, stage, compositedUrl });
+      return compositedUrl;
+    } catch (error) {
+      this.logger.warn(`Architecture mask skipped for upload ${upload.id}`, {
+        stage,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return outputImageUrl;
+    }
+  }
+
+  /**
+   * Máscara do upload: a salva (enviada pelo usuário ou derivada antes) ou uma
+   * nova derivada da foto original. Máscaras totalmente brancas (geradas com
+   * saveMask) não preservam nada e também são substituídas pela derivada.
+   */
+  private async getMask(upload: Upload, originalBuffer: Buffer): Promise<Buffer> {
+    const { width, height } = await getOrientedSize(originalBuffer);
+
+    if (upload.maskUrl) {
+      const stored = await normalizeMask((await loadImage(upload.maskUrl)).buffer, width, height);
+      const { channels } = await sharp(stored).stats();
+      if (channels[0] && channels[0].min < 255) {
+        return stored;
+      }
+    }
+
+    const derived = await generateStructureMask(originalBuffer);
+    if (!upload.maskUrl) {
+      const maskUrl = await s3Service.uploadFile(
+        `masks/${upload.userId}/${randomUUID()}.png`,
+        derived,
+        'image/png'
+      );
+      await uploadRepository.updateMaskUrl(upload.id, maskUrl);
+    }
+    return derived;
+  }
+}
+
+export const architectureMaskService = new ArchitectureMaskService();
@@ -0,0 +1,239 @@
+import { v4 as uuidv4 } from 'uuid';
+import sharp from 'sharp';
+import { BaseService } from './base.service';
+import { s3Service } from '@/lib/s3';
+import { entitlementService } from '@/services/entitlement.service';
+import { brandingSettingsRepository } from '@/repositories/branding-settings.repository';
+import { loadImage } from '@/utils/image-source.util';
+import { applyWatermarks, DEFAULT_DISCLOSURE_TEXT } from '@/utils/image-watermark.util';
+import { BrandingSettings } from '@/types/database';
+import { Upload } from '@/interfaces/upload.interface';
+import {
+  BrandedOutput,
+  BrandingSettingsChanges,
+  MAX_LOGO_SCALE,
+  MAX_WATERMARK_TEXT_LENGTH,
+  MIN_LOGO_SCALE,
+  WATERMARK_POSITIONS,
+  WatermarkOverlay,
+  WatermarkPosition,
+} from '@/interfaces/branding.interface';
+
+// Logos are normalized to a PNG no larger than this on either side
+const LOGO_MAX_DIMENSION = 1024;
+
+/**
+ * Watermarks and branding applied to finished staged images.
+ *
+ * After the final stage is saved, the user's text watermark (e.g. the
+ * "Virtually Staged" disclosure) and logo are drawn on the output, which
+ * becomes the upload's outputImageUrl. Users on a paid plan also keep the
+ * clean image as unbrandedOutputImageUrl; on the free tier it is discarded.
+ */
+export class BrandingService extends BaseService {
+  async getSettings(userId: string): Promise<BrandingSettings | null> {
+    return brandingSettingsRepository.findByUserId(userId);
+  }
+
+  /**
+   * Validate a settings change
+   * @returns errors by field (empty when valid)
+   */
+  validateChanges(changes: Record<string, unknown>): Record<string, string> {
+    const errors: Record<string, string> = {};
+
+    for (const field of ['textEnabled', 'logoEnabled'] as const) {
+      if (changes[field] !== undefined && typeof changes[field] !== 'boolean') {
+        errors[field] = `${field} must be a boolean`;
+      }
+    }
+    const { text } = changes;
+    if (
+      text !== undefined &&
+      (typeof text !== 'string' || !text.trim() || text.length > MAX_WATERMARK_TEXT_LENGTH)
+    ) {
+      errors.text = `text must be a non-empty string of at most ${MAX_WATERMARK_TEXT_LENGTH} characters`;
+    }
+    for (const field of ['textPosition', 'logoPosition'] as const) {
+      if (
+        changes[field] !== undefined &&
+        !WATERMARK_POSITIONS.includes(changes[field] as WatermarkPosition)
+      ) {
+        errors[field] = `${field} must be one of: ${WATERMARK_POSITIONS.join(', ')}`;
+      }
+    }
+    for (const field of ['textOpacity', 'logoOpacity'] as const) {
+      const value = changes[field];
+      if (value !== undefined && (!Number.isInteger(value) || (value as number) < 10 || (value as number) > 100)) {
+        errors[field] = `${field} must be an integer percentage between 10 and 100`;
+      }
+    }
+    const { logoScale } = changes;
+    if (
+      logoScale !== undefined &&
+      (!Number.isInteger(logoScale) ||
+        (logoScale as number) < MIN_LOGO_SCALE ||
+        (logoScale as number) > MAX_LOGO_SCALE)
+    ) {
+      errors.logoScale = `logoScale must be an integer percentage between ${MIN_LOGO_SCALE} and ${MAX_LOGO_SCALE}`;
+    }
+
+    return errors;
+  }
+
+  async updateSettings(userId: string, changes: BrandingSettingsChanges): Promise<BrandingSettings> {
+    const settings = await brandingSettingsRepository.upsert(userId, {
+      ...changes,
+      ...(changes.text !== undefined && { text: changes.text.trim() }),
+    });
+
+    this.logOperation('updateBrandingSettings', { userId, changes: Object.keys(changes) });
+    return settings;
+  }
+
+  /**
+   * Store a new logo (normalized to PNG) and enable it, replacing the previous one
+   */
+  async uploadLogo(userId: string, image: Buffer): Promise<BrandingSettings> {
+    const logo = await sharp(image)
+      .resize(LOGO_MAX_DIMENSION, LOGO_MAX_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+      .png()
+      .toBuffer();
+
+    const previous = await brandingSettingsRepository.findByUserId(userId);
+    const logoUrl = await s3Service.uploadFile(
+      `branding/${userId}/logo-${uuidv4()}.png`,
+      logo,
+      'image/png',
+      { userId }
+    );
+    const settings = await brandingSettingsRepository.upsert(userId, {
+      logoUrl,
+      logoEnabled: true,
+    });
+
+    if (previous?.logoUrl) {
+      await this.deleteStoredImage(previous.logoUrl);
+    }
+
+    this.logOperation('uploadBrandingLogo', { userId, logoUrl });
+    return settings;
+  }
+
+  /**
+   * Remove the logo; returns null when the user has no settings
+   */
+  async removeLogo(userId: string): Promise<BrandingSettings | null> {
+    const previous = await brandingSettingsRepository.findByUserId(userId);
+    if (!previous) {
+      return null;
+    }
+
+    const settings = await brandingSettingsRepository.upsert(userId, {
+      logoUrl: null,
+      logoEnabled: false,
+    });
+    if (previous.logoUrl) {
+      await this.deleteStoredImage(previous.logoUrl);
+    }
+
+    this.logOperation('removeBrandingLogo', { userId });
+    return settings;
+  }
+
+  /**
+   * Draw the user's watermarks on the final image of an upload.
+   * Never throws: on failure the image is kept as it is.
+   */
+  async applyToOutput(upload: Upload, imageUrl: string): Promise<BrandedOutput> {
+    const unbranded: BrandedOutput = {
+      outputImageUrl: imageUrl,
+      brandedAt: null,
+      disclosureApplied: false,
+      unbrandedOutputImageUrl: null,
+    };
+
+    try {
+      const settings = await brandingSettingsRepository.findByUserId(upload.userId);
+      const overlay = settings && (await this.buildOverlay(settings));
+      if (!overlay) {
+        return unbranded;
+      }
+
+      const { buffer } = await loadImage(imageUrl);
+      const branded = await applyWatermarks(buffer, overlay);
+      const outputImageUrl = await s3Service.uploadFile(
+        s3Service.generateFileKey(upload.userId, 'output', 'jpg'),
+        branded,
+        'image/jpeg',
+        { uploadId: upload.id, userId: upload.userId, branded: 'true' }
+      );
+
+      const entitlements = await entitlementService.getEntitlements(upload.userId);
+      const keepOriginal = entitlements.planId !== null;
+      if (!keepOriginal) {
+        await this.deleteStoredImage(imageUrl);
+      }
+
+      this.logOperation('applyBranding', {
+        uploadId: upload.id,
+        text: !!overlay.text,
+        logo: !!overlay.logo,
+        keepOriginal,
+      });
+      return {
+        outputImageUrl,
+        brandedAt: new Date(),
+        disclosureApplied: !!overlay.text?.content
+          .toLowerCase()
+          .includes(DEFAULT_DISCLOSURE_TEXT.toLowerCase()),
+        unbrandedOutputImageUrl: keepOriginal ? imageUrl : null,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to apply branding to upload ${upload.id}:`, error as Error);
+      return unbranded;
+    }
+  }
+
+  /**
+   * Overlays enabled in the settings, or null when there is nothing to draw
+   */
+  private async buildOverlay(settings: BrandingSettings): Promise<WatermarkOverlay | null> {
+    const overlay: WatermarkOverlay = {};
+
+    if (settings.textEnabled && settings.text.trim()) {
+      overlay.text = {
+        content: settings.text,
+        position: settings.textPosition,
+        opacity: settings.textOpacity / 100,
+      };
+    }
+    if (settings.logoEnabled && settings.logoUrl) {
+      overlay.logo = {
+        image: (await loadImage(settings.logoUrl)).buffer,
+        position: settings.logoPosition,
+        opacity: settings.logoOpacity / 100,
+        scale: settings.logoScale,
+      };
+    }
+
+    return overlay.text || overlay.logo ? overlay : null;
+  }
+
+  /**
+   * Best-effort removal of an image stored in our bucket (external URLs are ignored)
+   */
+  private async deleteStoredImage(url: string): Promise<void> {
+    const key = s3Service.getKeyFromUrl(url);
+    if (!key) {
+      return;
+    }
+    try {
+      await s3Service.deleteFile(key);
+    } catch (error) {
+      this.logger.warn(`Failed to delete ${key}`, { error: (error as Error).message });
+    }
+  }
+}
+
+export const brandingService = new BrandingService();
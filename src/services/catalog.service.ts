@@ -0,0 +1,432 @@
+import { BaseService } from './base.service';
+import { cacheService } from './cache.service';
+import { roomTypeRepository } from '@/repositories/room-type.repository';
+import { furnitureStyleRepository } from '@/repositories/furniture-style.repository';
+import { loraRepository, LoraFilters } from '@/repositories/lora.repository';
+import {
+  RoomType as RoomTypeRecord,
+  FurnitureStyle as FurnitureStyleRecord,
+  Lora,
+} from '@/types/database';
+import { virtualStagingService } from './virtual-staging.service';
+import {
+  BUILT_IN_FURNITURE_STYLES,
+  BUILT_IN_ROOM_TYPES,
+  promptLabelFromSlug,
+} from '@/config/staging-catalog';
+import { BUILT_IN_CATALOG_LABELS, DEFAULT_CATALOG_LOCALE } from '@/config/catalog-labels';
+import {
+  ActiveCatalogSlugs,
+  CATALOG_SLUG_PATTERN,
+  CatalogLocale,
+  PublicCatalog,
+  PublicCatalogEntry,
+  PublicCatalogProvider,
+  SUPPORTED_CATALOG_LOCALES,
+} from '@/interfaces/catalog.interface';
+import { STAGING_STAGES } from '@/interfaces/upload.interface';
+import { BASE_STAGES } from '@/interfaces/entitlement.interface';
+
+const CATALOG_CACHE_NAMESPACE = 'catalog';
+const ACTIVE_SLUGS_CACHE_KEY = 'active-slugs';
+const PUBLIC_CATALOG_CACHE_KEY = 'public';
+const CATALOG_CACHE_TTL = 60; // seconds
+
+export type CatalogDeleteResult = 'deleted' | 'not_found' | 'in_use';
+
+type CatalogEntryChanges = Partial<
+  Pick<RoomTypeRecord, 'label' | 'labels' | 'premiumOnly' | 'active'>
+>;
+
+// Fields of room_types / furniture_styles rows used by the public catalog
+type CatalogEntrySource = Pick<RoomTypeRecord, 'name' | 'label' | 'labels' | 'premiumOnly'>;
+
+interface ActiveCatalogEntries {
+  roomTypes: CatalogEntrySource[];
+  furnitureStyles: CatalogEntrySource[];
+}
+type LoraChanges = Partial<
+  Pick<Lora, 'name' | 'fileUrl' | 'active' | 'roomTypeId' | 'furnitureStyleId'>
+>;
+
+/**
+ * Room types, furniture styles and LoRAs managed by admins.
+ *
+ * Staging requests accept any active slug. Until a table has been seeded, the
+ * slugs of the built-in staging catalog are accepted for it. Slugs are
+ * immutable once created because uploads and the staging catalog reference them.
+ * Display labels are stored in the default locale (label) plus per-locale
+ * translations (labels); built-in translations fill the gaps.
+ */
+export class CatalogService extends BaseService {
+  /**
+   * Validate a room type / furniture style slug
+   * @returns error message, or null when valid
+   */
+  validateSlug(slug: unknown): string | null {
+    if (typeof slug !== 'string' || !CATALOG_SLUG_PATTERN.test(slug)) {
+      return 'name must be a lowercase slug (letters, digits, underscores; 2-50 chars)';
+    }
+    return null;
+  }
+
+  /**
+   * Active slugs accepted by staging requests
+   */
+  async getActiveSlugs(): Promise<ActiveCatalogSlugs> {
+    const cached = await cacheService.get<ActiveCatalogSlugs>(
+      ACTIVE_SLUGS_CACHE_KEY,
+      CATALOG_CACHE_NAMESPACE
+    );
+    if (cached.data) {
+      return cached.data;
+    }
+
+    const entries = await this.loadActiveEntries();
+    const slugs: ActiveCatalogSlugs = {
+      roomTypes: entries.roomTypes.map(roomType => roomType.name),
+      furnitureStyles: entries.furnitureStyles.map(style => style.name),
+    };
+
+    await cacheService.set(ACTIVE_SLUGS_CACHE_KEY, slugs, {
+      ttl: CATALOG_CACHE_TTL,
+      namespace: CATALOG_CACHE_NAMESPACE,
+    });
+    return slugs;
+  }
+
+  async isActiveRoomType(slug: unknown): Promise<boolean> {
+    return typeof slug === 'string' && (await this.getActiveSlugs()).roomTypes.includes(slug);
+  }
+
+  async isActiveFurnitureStyle(slug: unknown): Promise<boolean> {
+    return (
+      typeof slug === 'string' && (await this.getActiveSlugs()).furnitureStyles.includes(slug)
+    );
+  }
+
+  // ---------- public catalog ----------
+
+  /**
+   * Pick the catalog locale from an explicit ?locale= value, then the
+   * Accept-Language header ("en-US" matches "en", "pt" matches "pt-BR")
+   */
+  resolveLocale(requested: unknown, acceptLanguage?: string): CatalogLocale {
+    const candidates =
+      typeof requested === 'string' && requested
+        ? [requested]
+        : (acceptLanguage ?? '')
+            .split(',')
+            .map(part => part.split(';')[0]!.trim())
+            .filter(Boolean);
+
+    for (const candidate of candidates) {
+      const lower = candidate.toLowerCase();
+      const primary = lower.split('-')[0];
+      const match =
+        SUPPORTED_CATALOG_LOCALES.find(locale => locale.toLowerCase() === lower) ??
+        SUPPORTED_CATALOG_LOCALES.find(locale => locale.toLowerCase().split('-')[0] === primary);
+      if (match) {
+        return match;
+      }
+    }
+    return DEFAULT_CATALOG_LOCALE;
+  }
+
+  /**
+   * Room types, furniture styles, stages and provider support for the frontend,
+   * with labels in the given locale
+   */
+  async getPublicCatalog(locale: CatalogLocale): Promise<PublicCatalog> {
+    const cacheKey = `${PUBLIC_CATALOG_CACHE_KEY}:${locale}`;
+    const cached = await cacheService.get<PublicCatalog>(cacheKey, CATALOG_CACHE_NAMESPACE);
+    if (cached.data) {
+      return cached.data;
+    }
+
+    const entries = await this.loadActiveEntries();
+    const builtInLabels = BUILT_IN_CATALOG_LABELS[locale];
+    const roomTypeSlugs = entries.roomTypes.map(roomType => roomType.name);
+    const furnitureStyleSlugs = entries.furnitureStyles.map(style => style.name);
+
+    const defaultProvider = virtualStagingService.getDefaultProvider();
+    const providers: PublicCatalogProvider[] = virtualStagingService
+      .getAvailableProviders()
+      .map(provider => {
+        const capabilities = virtualStagingService.getProviderCapabilities(provider);
+        return {
+          provider,
+          isDefault: provider === defaultProvider,
+          supportsStages: virtualStagingService.supportsStagedProcessing(provider),
+          // Capabilities without lists accept any active slug
+          roomTypes: capabilities.supportedRoomTypes
+            ? roomTypeSlugs.filter(slug => capabilities.supportedRoomTypes!.includes(slug))
+            : roomTypeSlugs,
+          furnitureStyles: capabilities.supportedFurnitureStyles
+            ? furnitureStyleSlugs.filter(slug =>
+                capabilities.supportedFurnitureStyles!.includes(slug)
+              )
+            : furnitureStyleSlugs,
+        };
+      });
+
+    const toPublicEntry = (
+      entry: CatalogEntrySource,
+      builtIn: Record<string, string>,
+      supportedBy: (provider: PublicCatalogProvider) => string[]
+    ): PublicCatalogEntry => ({
+      slug: entry.name,
+      label:
+        entry.labels[locale] ??
+        (locale === DEFAULT_CATALOG_LOCALE ? entry.label : builtIn[entry.name]) ??
+        entry.label,
+      premiumOnly: entry.premiumOnly,
+      providers: providers
+        .filter(provider => supportedBy(provider).includes(entry.name))
+        .map(provider => provider.provider),
+    });
+
+    const catalog: PublicCatalog = {
+      locale,
+      roomTypes: entries.roomTypes.map(roomType =>
+        toPublicEntry(roomType, builtInLabels.roomTypes, provider => provider.roomTypes)
+      ),
+      furnitureStyles: entries.furnitureStyles.map(style =>
+        toPublicEntry(style, builtInLabels.furnitureStyles, provider => provider.furnitureStyles)
+      ),
+      stages: STAGING_STAGES.map((stage, index) => ({
+        stage,
+        label: builtInLabels.stages[stage],
+        order: index + 1,
+        premiumOnly: !BASE_STAGES.includes(stage),
+      })),
+      providers,
+    };
+
+    await cacheService.set(cacheKey, catalog, {
+      ttl: CATALOG_CACHE_TTL,
+      namespace: CATALOG_CACHE_NAMESPACE,
+    });
+    return catalog;
+  }
+
+  // ---------- room types ----------
+
+  async listRoomTypes(options: { activeOnly?: boolean } = {}): Promise<RoomTypeRecord[]> {
+    return roomTypeRepository.findAll(options);
+  }
+
+  async getRoomType(id: string): Promise<RoomTypeRecord | null> {
+    return roomTypeRepository.findById(id);
+  }
+
+  /**
+   * @returns the room type, or null when the slug is already taken
+   */
+  async createRoomType(data: {
+    name: string;
+    label: string;
+    labels?: Record<string, string>;
+    premiumOnly?: boolean;
+    active?: boolean;
+  }): Promise<RoomTypeRecord | null> {
+    const roomType = await roomTypeRepository.create(data);
+    if (roomType) {
+      await this.invalidate();
+      this.logOperation('createRoomType', { name: roomType.name });
+    }
+    return roomType;
+  }
+
+  async updateRoomType(id: string, changes: CatalogEntryChanges): Promise<RoomTypeRecord | null> {
+    const roomType = await roomTypeRepository.update(id, changes);
+    if (roomType) {
+      await this.invalidate();
+      this.logOperation('updateRoomType', { name: roomType.name, changes });
+    }
+    return roomType;
+  }
+
+  /**
+   * Delete a room type that no LoRA or job references (deactivate it otherwise)
+   */
+  async deleteRoomType(id: string): Promise<CatalogDeleteResult> {
+    if (!(await roomTypeRepository.findById(id))) {
+      return 'not_found';
+    }
+    if (await roomTypeRepository.isReferenced(id)) {
+      return 'in_use';
+    }
+
+    await roomTypeRepository.delete(id);
+    await this.invalidate();
+    this.logOperation('deleteRoomType', { id });
+    return 'deleted';
+  }
+
+  // ---------- furniture styles ----------
+
+  async listFurnitureStyles(options: { activeOnly?: boolean } = {}): Promise<FurnitureStyleRecord[]> {
+    return furnitureStyleRepository.findAll(options);
+  }
+
+  async getFurnitureStyle(id: string): Promise<FurnitureStyleRecord | null> {
+    return furnitureStyleRepository.findById(id);
+  }
+
+  /**
+   * @returns the furniture style, or null when the slug is already taken
+   */
+  async createFurnitureStyle(data: {
+    name: string;
+    label: string;
+    labels?: Record<string, string>;
+    premiumOnly?: boolean;
+    active?: boolean;
+  }): Promise<FurnitureStyleRecord | null> {
+    const furnitureStyle = await furnitureStyleRepository.create(data);
+    if (furnitureStyle) {
+      await this.invalidate();
+      this.logOperation('createFurnitureStyle', { name: furnitureStyle.name });
+    }
+    return furnitureStyle;
+  }
+
+  async updateFurnitureStyle(
+    id: string,
+    changes: CatalogEntryChanges
+  ): Promise<FurnitureStyleRecord | null> {
+    const furnitureStyle = await furnitureStyleRepository.update(id, changes);
+    if (furnitureStyle) {
+      await this.invalidate();
+      this.logOperation('updateFurnitureStyle', { name: furnitureStyle.name, changes });
+    }
+    return furnitureStyle;
+  }
+
+  /**
+   * Delete a furniture style that no LoRA or job references (deactivate it otherwise)
+   */
+  async deleteFurnitureStyle(id: string): Promise<CatalogDeleteResult> {
+    if (!(await furnitureStyleRepository.findById(id))) {
+      return 'not_found';
+    }
+    if (await furnitureStyleRepository.isReferenced(id)) {
+      return 'in_use';
+    }
+
+    await furnitureStyleRepository.delete(id);
+    await this.invalidate();
+    this.logOperation('deleteFurnitureStyle', { id });
+    return 'deleted';
+  }
+
+  // ---------- LoRAs ----------
+
+  async listLoras(filters: LoraFilters = {}): Promise<Lora[]> {
+    return loraRepository.findAll(filters);
+  }
+
+  async getLora(id: string): Promise<Lora | null> {
+    return loraRepository.findById(id);
+  }
+
+  /**
+   * Check that the referenced room type / furniture style exist
+   * @returns field errors (empty when valid)
+   */
+  async validateLoraReferences(refs: {
+    roomTypeId?: string;
+    furnitureStyleId?: string;
+  }): Promise<Record<string, string>> {
+    const errors: Record<string, string> = {};
+    const [roomType, furnitureStyle] = await Promise.all([
+      refs.roomTypeId ? roomTypeRepository.findById(refs.roomTypeId) : null,
+      refs.furnitureStyleId ? furnitureStyleRepository.findById(refs.furnitureStyleId) : null,
+    ]);
+
+    if (refs.roomTypeId && !roomType) {
+      errors.roomTypeId = 'room type not found';
+    }
+    if (refs.furnitureStyleId && !furnitureStyle) {
+      errors.furnitureStyleId = 'furniture style not found';
+    }
+    return errors;
+  }
+
+  async createLora(data: {
+    name: string;
+    fileUrl: string;
+    roomTypeId: string;
+    furnitureStyleId: string;
+    active?: boolean;
+  }): Promise<Lora> {
+    const lora = await loraRepository.create(data);
+    this.logOperation('createLora', { id: lora.id, name: lora.name });
+    return lora;
+  }
+
+  async updateLora(id: string, changes: LoraChanges): Promise<Lora | null> {
+    const lora = await loraRepository.update(id, changes);
+    if (lora) {
+      this.logOperation('updateLora', { id, changes });
+    }
+    return lora;
+  }
+
+  /**
+   * Delete a LoRA that no job references (deactivate it otherwise)
+   */
+  async deleteLora(id: string): Promise<CatalogDeleteResult> {
+    if (!(await loraRepository.findById(id))) {
+      return 'not_found';
+    }
+    if (await loraRepository.isReferenced(id)) {
+      return 'in_use';
+    }
+
+    await loraRepository.delete(id);
+    this.logOperation('deleteLora', { id });
+    return 'deleted';
+  }
+
+  /**
+   * Active room types and furniture styles. Until a table has been seeded, the
+   * built-in slugs stand in for it.
+   */
+  private async loadActiveEntries(): Promise<ActiveCatalogEntries> {
+    const [roomTypes, furnitureStyles, roomTypeCount, furnitureStyleCount] = await Promise.all([
+      roomTypeRepository.findAll({ activeOnly: true }),
+      furnitureStyleRepository.findAll({ activeOnly: true }),
+      roomTypeRepository.count(),
+      furnitureStyleRepository.count(),
+    ]);
+
+    const builtInLabels = BUILT_IN_CATALOG_LABELS[DEFAULT_CATALOG_LOCALE];
+    const builtIn = (slugs: readonly string[], labels: Record<string, string>) =>
+      slugs.map(slug => ({
+        name: slug,
+        label: labels[slug] ?? promptLabelFromSlug(slug),
+        labels: {},
+        premiumOnly: false,
+      }));
+
+    return {
+      roomTypes:
+        roomTypeCount > 0 ? roomTypes : builtIn(BUILT_IN_ROOM_TYPES, builtInLabels.roomTypes),
+      furnitureStyles:
+        furnitureStyleCount > 0
+          ? furnitureStyles
+          : builtIn(BUILT_IN_FURNITURE_STYLES, builtInLabels.furnitureStyles),
+    };
+  }
+
+  /**
+   * Drop cached slugs and public catalogs after a room type / furniture style change
+   */
+  private async invalidate(): Promise<void> {
+    await cacheService.invalidateByNamespace(CATALOG_CACHE_NAMESPACE);
+  }
+}
+
+export const catalogService = new CatalogService();
@@ -0,0 +1,81 @@
+import { BaseService } from './base.service';
+import { uploadRepository } from '../repositories/upload.repository';
+import { s3Service } from '../lib/s3';
+import { loadImage } from '../utils/image-source.util';
+import { renderComparison } from '../utils/image-comparison.util';
+import { Upload } from '../interfaces/upload.interface';
+import { ComparisonImage, ComparisonOptions } from '../interfaces/comparison.interface';
+
+const FILE_EXTENSIONS = { jpeg: 'jpg', webp: 'webp', gif: 'gif' } as const;
+
+/**
+ * Comparações antes/depois de uploads concluídos.
+ *
+ * Compara a foto enviada (inputImageUrl) com a imagem final (outputImageUrl,
+ * já com a marca d'água do usuário, quando houver). Cada combinação de layout,
+ * formato e rótulos é gerada uma vez, salva no S3 e guardada em
+ * comparisonImages; o cache é limpo quando a saída do upload muda.
+ */
+export class ComparisonImageService extends BaseService {
+  /**
+   * Comparação já gerada com estas opções, ou null
+   */
+  findComparison(upload: Upload, options: ComparisonOptions): ComparisonImage | null {
+    return upload.comparisonImages?.[this.cacheKey(options)] ?? null;
+  }
+
+  /**
+   * Comparação do upload (do cache ou gerada agora)
+   * @param upload Upload concluído, com outputImageUrl
+   */
+  async getComparison(
+    upload: Upload,
+    options: ComparisonOptions
+  ): Promise<{ image: ComparisonImage; cached: boolean }> {
+    const key = this.cacheKey(options);
+    const cached = upload.comparisonImages?.[key];
+    if (cached) {
+      return { image: cached, cached: true };
+    }
+
+    const outputImageUrl = upload.outputImageUrl;
+    if (!outputImageUrl) {
+      throw new Error(`Upload ${upload.id} não possui imagem final`);
+    }
+
+    const [before, after] = await Promise.all([
+      loadImage(upload.inputImageUrl),
+      loadImage(outputImageUrl),
+    ]);
+    const rendered = await renderComparison(before.buffer, after.buffer, options);
+
+    const objectKey = `comparisons/${upload.userId}/${upload.id}/${options.layout}-${Date.now()}.${FILE_EXTENSIONS[options.format]}`;
+    const url = await s3Service.uploadFile(objectKey, rendered.buffer, rendered.contentType, {
+      uploadId: upload.id,
+      layout: options.layout,
+    });
+
+    const image: ComparisonImage = {
+      ...options,
+      url,
+      width: rendered.width,
+      height: rendered.height,
+      createdAt: new Date().toISOString(),
+    };
+    // Se a saída mudou durante a geração, a comparação é devolvida mas não fica no cache
+    await uploadRepository.saveComparisonImage(upload.id, key, image, outputImageUrl);
+
+    this.logOperation('renderComparison', {
+      uploadId: upload.id,
+      ...options,
+      bytes: rendered.buffer.length,
+    });
+    return { image, cached: false };
+  }
+
+  private cacheKey(options: ComparisonOptions): string {
+    return `${options.layout}:${options.format}:${options.labels ? 'labels' : 'plain'}`;
+  }
+}
+
+export const comparisonImageService = new ComparisonImageService();
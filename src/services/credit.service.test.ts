@@ -0,0 +1,179 @@
+import { CreditService } from './credit.service';
+import { creditLedgerRepository } from '@/repositories/credit-ledger.repository';
+import { uploadRepository } from '@/repositories/upload.repository';
+import { CreditLedgerEntry, NewCreditLedgerEntry } from '@/types/database';
+
+// In-memory ledger with the same conditional semantics as the SQL repository
+jest.mock('@/repositories/credit-ledger.repository', () => {
+  const state = {
+    balances: new Map<string, number>(),
+    entries: [] as CreditLedgerEntry[],
+  };
+
+  return {
+    creditLedgerRepository: {
+      state,
+      reset(balances: Record<string, number>) {
+        state.balances = new Map(Object.entries(balances));
+        state.entries = [];
+      },
+      async getBalance(userId: string) {
+        return state.balances.get(userId) ?? null;
+      },
+      async creditBalance(userId: string, amount: number) {
+        const balance = state.balances.get(userId);
+        if (balance === undefined) {
+          return null;
+        }
+        state.balances.set(userId, balance + amount);
+        return balance + amount;
+      },
+      async create(data: NewCreditLedgerEntry) {
+        if (data.reference && state.entries.some(entry => entry.reference === data.reference)) {
+          return null;
+        }
+        const entry = {
+          id: `entry-${state.entries.length + 1}`,
+          uploadId: null,
+          reservationStatus: null,
+          reference: null,
+          description: null,
+          createdAt: new Date(),
+          ...data,
+        } as CreditLedgerEntry;
+        state.entries.push(entry);
+        return entry;
+      },
+      // Debit + insert in one step; the open reservation index rejects a second one
+      async createReservation(data: {
+        userId: string;
+        uploadId: string;
+        amount: number;
+        description: string;
+      }) {
+        const balance = state.balances.get(data.userId);
+        const open = state.entries.some(
+          entry => entry.uploadId === data.uploadId && entry.reservationStatus === 'open'
+        );
+        if (balance === undefined || balance < data.amount || open) {
+          return null;
+        }
+        state.balances.set(data.userId, balance - data.amount);
+        const entry = {
+          id: `entry-${state.entries.length + 1}`,
+          userId: data.userId,
+          uploadId: data.uploadId,
+          type: 'reserve',
+          amount: -data.amount,
+          balanceAfter: balance - data.amount,
+          reservationStatus: 'open',
+          reference: null,
+          description: data.description,
+          createdAt: new Date(),
+        } as CreditLedgerEntry;
+        state.entries.push(entry);
+        return entry;
+      },
+      async findOpenReservation(uploadId: string) {
+        return (
+          state.entries.find(
+            entry => entry.uploadId === uploadId && entry.reservationStatus === 'open'
+          ) ?? null
+        );
+      },
+      async settleReservation(reservationId: string, status: 'captured' | 'refunded') {
+        const reservation = state.entries.find(
+          entry => entry.id === reservationId && entry.reservationStatus === 'open'
+        );
+        if (!reservation) {
+          return null;
+        }
+        reservation.reservationStatus = status;
+        return reservation;
+      },
+    },
+  };
+});
+jest.mock('@/repositories/upload.repository', () => ({
+  uploadRepository: { updateCreditsUsed: jest.fn() },
+}));
+jest.mock('@/lib/logger');
+
+type FakeLedger = typeof creditLedgerRepository & {
+  state: { balances: Map<string, number>; entries: CreditLedgerEntry[] };
+  reset(balances: Record<string, number>): void;
+};
+
+const ledger = creditLedgerRepository as FakeLedger;
+
+describe('CreditService upload lifecycle', () => {
+  const service = new CreditService();
+
+  beforeEach(() => {
+    ledger.reset({ 'user-1': 5 });
+  });
+
+  const entriesOfType = (type: CreditLedgerEntry['type']) =>
+    ledger.state.entries.filter(entry => entry.type === type);
+
+  it('reserves once per upload', async () => {
+    const first = await service.reserveForUpload('user-1', 'upload-1');
+    const second = await service.reserveForUpload('user-1', 'upload-1');
+
+    expect(first?.created).toBe(true);
+    expect(second).toEqual({ entry: first?.entry, created: false });
+    expect(ledger.state.balances.get('user-1')).toBe(4);
+    expect(entriesOfType('reserve')).toHaveLength(1);
+  });
+
+  it('debits once when two reserves for the same upload race', async () => {
+    const [first, second] = await Promise.all([
+      service.reserveForUpload('user-1', 'upload-1'),
+      service.reserveForUpload('user-1', 'upload-1'),
+    ]);
+
+    expect([first?.created, second?.created].sort()).toEqual([false, true]);
+    expect(first?.entry.id).toBe(second?.entry.id);
+    expect(ledger.state.balances.get('user-1')).toBe(4);
+    expect(entriesOfType('reserve')).toHaveLength(1);
+  });
+
+  it('does not reserve without enough credits', async () => {
+    ledger.reset({ 'user-1': 0 });
+
+    await expect(service.reserveForUpload('user-1', 'upload-1')).resolves.toBeNull();
+    expect(ledger.state.entries).toHaveLength(0);
+  });
+
+  it('captures a reservation at most once', async () => {
+    await service.reserveForUpload('user-1', 'upload-1');
+
+    expect(await service.captureForUpload('upload-1')).not.toBeNull();
+    expect(await service.captureForUpload('upload-1')).toBeNull();
+    expect(entriesOfType('capture')).toHaveLength(1);
+    expect(ledger.state.balances.get('user-1')).toBe(4);
+    expect(uploadRepository.updateCreditsUsed).toHaveBeenCalledTimes(1);
+    expect(uploadRepository.updateCreditsUsed).toHaveBeenCalledWith('upload-1', 1);
+  });
+
+  it('refunds a reservation at most once', async () => {
+    await service.reserveForUpload('user-1', 'upload-1');
+
+    expect(await service.refundForUpload('upload-1', 'provider failed')).not.toBeNull();
+    expect(await service.refundForUpload('upload-1', 'provider failed')).toBeNull();
+    expect(entriesOfType('refund')).toHaveLength(1);
+    expect(ledger.state.balances.get('user-1')).toBe(5);
+  });
+
+  it('never refunds a captured reservation or captures a refunded one', async () => {
+    await service.reserveForUpload('user-1', 'upload-1');
+    await service.reserveForUpload('user-1', 'upload-2');
+
+    await service.captureForUpload('upload-1');
+    await service.refundForUpload('upload-2', 'moderated');
+
+    await expect(service.refundForUpload('upload-1', 'late failure')).resolves.toBeNull();
+    await expect(service.captureForUpload('upload-2')).resolves.toBeNull();
+    expect(ledger.state.balances.get('user-1')).toBe(4);
+  });
+});
@@ -0,0 +1,225 @@
+import { BaseService, PaginatedResponse } from './base.service';
+import {
+  creditLedgerRepository,
+  CreditLedgerType,
+} from '@/repositories/credit-ledger.repository';
+import { uploadRepository } from '@/repositories/upload.repository';
+import { CreditLedgerEntry } from '@/types/database';
+
+export interface UploadReservation {
+  entry: CreditLedgerEntry;
+  created: boolean; // false when the upload already held an open reservation
+}
+
+/**
+ * Credit ledger service.
+ *
+ * Every balance change on profiles.credits is recorded as a ledger entry.
+ * Uploads follow a reserve -> capture | refund lifecycle: credits are held
+ * when the upload is accepted, consumed when it completes and returned when
+ * it fails or is moderated.
+ */
+export class CreditService extends BaseService {
+  readonly uploadCost = parseInt(process.env.CREDITS_PER_UPLOAD || '1', 10);
+
+  async getBalance(userId: string): Promise<number> {
+    return (await creditLedgerRepository.getBalance(userId)) ?? 0;
+  }
+
+  async hasSufficientCredits(
+    userId: string,
+    amount: number = this.uploadCost
+  ): Promise<boolean> {
+    return (await this.getBalance(userId)) >= amount;
+  }
+
+  /**
+   * Hold the upload cost. Idempotent per upload: an already open reservation
+   * is returned with created: false, and only the caller that created a
+   * reservation may release it with refundReservation.
+   * @returns the reservation, or null when the balance is insufficient
+   */
+  async reserveForUpload(
+    userId: string,
+    uploadId: string,
+    amount: number = this.uploadCost
+  ): Promise<UploadReservation | null> {
+    const existing = await creditLedgerRepository.findOpenReservation(uploadId);
+    if (existing) {
+      return { entry: existing, created: false };
+    }
+
+    const entry = await creditLedgerRepository.createReservation({
+      userId,
+      uploadId,
+      amount,
+      description: `Reserved ${amount} credit(s) for upload ${uploadId}`,
+    });
+    if (!entry) {
+      // Either a concurrent request reserved first or the balance does not cover it
+      const concurrent = await creditLedgerRepository.findOpenReservation(uploadId);
+      if (concurrent) {
+        return { entry: concurrent, created: false };
+      }
+
+      this.logger.warn(`Insufficient credits for upload ${uploadId}`, {
+        userId,
+        amount,
+      });
+      return null;
+    }
+
+    this.logOperation('reserveCredits', {
+      userId,
+      uploadId,
+      amount,
+      balanceAfter: entry.balanceAfter,
+    });
+    return { entry, created: true };
+  }
+
+  /**
+   * Consume the open reservation of a completed upload
+   */
+  async captureForUpload(uploadId: string): Promise<CreditLedgerEntry | null> {
+    const open = await creditLedgerRepository.findOpenReservation(uploadId);
+    const reservation = open
+      ? await creditLedgerRepository.settleReservation(open.id, 'captured')
+      : null;
+    if (!reservation) {
+      return null;
+    }
+
+    const amount = -reservation.amount;
+    const balance = await this.getBalance(reservation.userId);
+
+    const entry = await creditLedgerRepository.create({
+      userId: reservation.userId,
+      uploadId,
+      type: 'capture',
+      amount: 0,
+      balanceAfter: balance,
+      description: `Captured ${amount} credit(s) for completed upload ${uploadId}`,
+    });
+    await uploadRepository.updateCreditsUsed(uploadId, amount);
+
+    this.logOperation('captureCredits', { uploadId, amount });
+    return entry;
+  }
+
+  /**
+   * Return the open reservation of a failed or moderated upload
+   */
+  async refundForUpload(
+    uploadId: string,
+    reason: string
+  ): Promise<CreditLedgerEntry | null> {
+    const open = await creditLedgerRepository.findOpenReservation(uploadId);
+    return open ? this.refundReservation(open, reason) : null;
+  }
+
+  /**
+   * Return one reservation, if it is still open
+   */
+  async refundReservation(
+    reservation: CreditLedgerEntry,
+    reason: string
+  ): Promise<CreditLedgerEntry | null> {
+    const settled = await creditLedgerRepository.settleReservation(
+      reservation.id,
+      'refunded'
+    );
+    if (!settled) {
+      return null;
+    }
+
+    const uploadId = settled.uploadId;
+    const amount = -settled.amount;
+    const balanceAfter =
+      (await creditLedgerRepository.creditBalance(settled.userId, amount)) ?? 0;
+
+    const entry = await creditLedgerRepository.create({
+      userId: settled.userId,
+      uploadId,
+      type: 'refund',
+      amount,
+      balanceAfter,
+      description: `Refunded ${amount} credit(s) for upload ${uploadId}: ${reason}`,
+    });
+
+    this.logOperation('refundCredits', { uploadId, amount, balanceAfter });
+    return entry;
+  }
+
+  /**
+   * Add credits to a user. When a reference is given the grant is applied at
+   * most once for it (e.g. one grant per paid invoice).
+   * @returns the grant entry, or null when the reference was already granted
+   */
+  async grantCredits(
+    userId: string,
+    amount: number,
+    options: { description?: string; reference?: string } = {}
+  ): Promise<CreditLedgerEntry | null> {
+    // Claim the reference first so concurrent deliveries cannot double-credit
+    const entry = await creditLedgerRepository.create({
+      userId,
+      type: 'grant',
+      amount,
+      balanceAfter: 0,
+      reference: options.reference ?? null,
+      description: options.description ?? `Granted ${amount} credit(s)`,
+    });
+    if (!entry) {
+      this.logger.info(`Credit grant already applied`, {
+        userId,
+        reference: options.reference,
+      });
+      return null;
+    }
+
+    const balanceAfter = await creditLedgerRepository.creditBalance(userId, amount);
+    if (balanceAfter === null) {
+      // Release the reference so the grant can be applied once the profile exists
+      await creditLedgerRepository.delete(entry.id);
+      return this.handleError(
+        new Error(`Profile not found for user ${userId}`),
+        'Failed to grant credits'
+      );
+    }
+    await creditLedgerRepository.updateBalanceAfter(entry.id, balanceAfter);
+
+    this.logOperation('grantCredits', { userId, amount, balanceAfter });
+    return { ...entry, balanceAfter };
+  }
+
+  async getHistory(
+    userId: string,
+    params: { page: number; limit: number; offset: number; type?: CreditLedgerType }
+  ): Promise<PaginatedResponse<CreditLedgerEntry>> {
+    const [entries, total] = await Promise.all([
+      creditLedgerRepository.findByUserId(userId, {
+        limit: params.limit,
+        offset: params.offset,
+        ...(params.type && { type: params.type }),
+      }),
+      creditLedgerRepository.countByUserId(userId, params.type),
+    ]);
+
+    const totalPages = Math.ceil(total / params.limit);
+
+    return {
+      data: entries,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        totalPages,
+        hasNext: params.page < totalPages,
+        hasPrev: params.page > 1,
+      },
+    };
+  }
+}
+
+export const creditService = new CreditService();
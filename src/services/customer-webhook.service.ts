@@ -0,0 +1,440 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { BaseService, PaginatedResponse } from './base.service';
+import { customerWebhookQueue } from '@/lib/queues';
+import { webhookEndpointRepository } from '@/repositories/webhook-endpoint.repository';
+import {
+  webhookDeliveryRepository,
+  WebhookDeliveryStatus,
+} from '@/repositories/webhook-delivery.repository';
+import { ListingStaging, WebhookDelivery, WebhookEndpoint } from '@/types/database';
+import { Upload, StagingStage } from '@/interfaces/upload.interface';
+import { ListingStagingProgress } from '@/interfaces/listing.interface';
+import {
+  CUSTOMER_WEBHOOK_EVENTS,
+  CUSTOMER_WEBHOOK_JOB_NAME,
+  CustomerWebhookEvent,
+  CustomerWebhookEventType,
+  CustomerWebhookUploadData,
+} from '@/interfaces/customer-webhook.interface';
+import { assertPublicHost, isPrivateHostname } from '@/utils/network-address.util';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+/**
+ * Outbound webhooks for upload and listing batch lifecycle events.
+ *
+ * Customers register endpoints (URL + subscribed events) for the account or
+ * for a single upload. Each event creates one delivery row per subscribed
+ * endpoint and a job on the customer-webhooks queue, which POSTs the signed
+ * payload and retries with exponential backoff.
+ * Every attempt is recorded on the delivery, which can be redelivered manually.
+ *
+ * Endpoints must be public: the host is resolved before every attempt and
+ * private, loopback, link-local and metadata addresses are refused, redirects
+ * are not followed and only the response status is kept.
+ */
+export class CustomerWebhookService extends BaseService {
+  // Local development can point endpoints at localhost or the private network
+  private readonly allowPrivateUrls = process.env.CUSTOMER_WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+  /**
+   * Validate an endpoint URL (https required outside development, public hosts only)
+   * @returns error message, or null when valid
+   */
+  validateUrl(url: unknown): string | null {
+    if (typeof url !== 'string' || !url) {
+      return 'url is required';
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'url must be a valid URL';
+    }
+
+    const allowHttp = process.env.NODE_ENV !== 'production';
+    if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+      return 'url must use https';
+    }
+
+    if (!this.allowPrivateUrls && isPrivateHostname(parsed.hostname)) {
+      return 'url must point to a public host';
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a list of event types
+   * @returns error message, or null when valid
+   */
+  validateEvents(events: unknown): string | null {
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      !events.every(event => CUSTOMER_WEBHOOK_EVENTS.includes(event))
+    ) {
+      return `events must be a non-empty list of: ${CUSTOMER_WEBHOOK_EVENTS.join(', ')}`;
+    }
+    return null;
+  }
+
+  /**
+   * Register an endpoint
+   * @returns the endpoint (including its signing secret), or null if the URL is already registered
+   */
+  async createEndpoint(
+    userId: string,
+    data: { url: string; events?: CustomerWebhookEventType[]; description?: string }
+  ): Promise<WebhookEndpoint | null> {
+    const endpoint = await webhookEndpointRepository.create({
+      userId,
+      url: data.url,
+      secret: this.generateSecret(),
+      events: data.events ?? [...CUSTOMER_WEBHOOK_EVENTS],
+      description: data.description ?? null,
+    });
+
+    if (endpoint) {
+      this.logOperation('createEndpoint', { userId, endpointId: endpoint.id });
+    }
+    return endpoint;
+  }
+
+  /**
+   * Return the upload's endpoint for a URL, registering it if needed. Upload
+   * endpoints receive only that upload's events; account-wide endpoints are
+   * managed through /users/webhooks.
+   */
+  async ensureUploadEndpoint(upload: Upload, url: string): Promise<WebhookEndpoint> {
+    const existing = await webhookEndpointRepository.findByUploadAndUrl(upload.id, url);
+    if (existing) {
+      return existing;
+    }
+
+    const created = await webhookEndpointRepository.create({
+      userId: upload.userId,
+      uploadId: upload.id,
+      url,
+      secret: this.generateSecret(),
+      events: CUSTOMER_WEBHOOK_EVENTS.filter(event => event.startsWith('upload.')),
+      description: `Upload ${upload.id}`,
+    });
+    const endpoint = created ?? (await webhookEndpointRepository.findByUploadAndUrl(upload.id, url));
+    if (!endpoint) {
+      throw new Error(`Failed to register webhook endpoint ${url}`);
+    }
+
+    if (created) {
+      this.logOperation('ensureUploadEndpoint', { uploadId: upload.id, endpointId: created.id });
+    }
+    return endpoint;
+  }
+
+  async listEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    return webhookEndpointRepository.findByUserId(userId);
+  }
+
+  /**
+   * Get an endpoint owned by the user
+   */
+  async getEndpoint(userId: string, endpointId: string): Promise<WebhookEndpoint | null> {
+    const endpoint = await webhookEndpointRepository.findById(endpointId);
+    return endpoint && endpoint.userId === userId ? endpoint : null;
+  }
+
+  async updateEndpoint(
+    userId: string,
+    endpointId: string,
+    changes: Partial<Pick<WebhookEndpoint, 'url' | 'events' | 'description' | 'isActive'>>
+  ): Promise<WebhookEndpoint | null> {
+    if (!(await this.getEndpoint(userId, endpointId))) {
+      return null;
+    }
+    return webhookEndpointRepository.update(endpointId, changes);
+  }
+
+  async deleteEndpoint(userId: string, endpointId: string): Promise<boolean> {
+    if (!(await this.getEndpoint(userId, endpointId))) {
+      return false;
+    }
+    return webhookEndpointRepository.delete(endpointId);
+  }
+
+  /**
+   * Delivery log of an endpoint owned by the user
+   * @returns null when the endpoint does not exist or belongs to another user
+   */
+  async getDeliveries(
+    userId: string,
+    endpointId: string,
+    params: { page: number; limit: number; offset: number; status?: WebhookDeliveryStatus }
+  ): Promise<PaginatedResponse<WebhookDelivery> | null> {
+    if (!(await this.getEndpoint(userId, endpointId))) {
+      return null;
+    }
+
+    const [deliveries, total] = await Promise.all([
+      webhookDeliveryRepository.findByEndpointId(endpointId, {
+        limit: params.limit,
+        offset: params.offset,
+        ...(params.status && { status: params.status }),
+      }),
+      webhookDeliveryRepository.countByEndpointId(endpointId, params.status),
+    ]);
+
+    const totalPages = Math.ceil(total / params.limit);
+
+    return {
+      data: deliveries,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        totalPages,
+        hasNext: params.page < totalPages,
+        hasPrev: params.page > 1,
+      },
+    };
+  }
+
+  /**
+   * Queue a delivery again, with a fresh retry budget
+   * @returns null when the delivery does not exist or belongs to another user
+   */
+  async redeliver(userId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const delivery = await webhookDeliveryRepository.findById(deliveryId);
+    if (!delivery || delivery.userId !== userId) {
+      return null;
+    }
+
+    await webhookDeliveryRepository.updateStatus(delivery.id, 'pending');
+    await customerWebhookQueue.add(
+      CUSTOMER_WEBHOOK_JOB_NAME,
+      { deliveryId: delivery.id },
+      { jobId: `delivery-${delivery.id}-${Date.now()}` }
+    );
+
+    this.logOperation('redeliver', { userId, deliveryId });
+    return { ...delivery, status: 'pending' };
+  }
+
+  /**
+   * Emit an upload lifecycle event to the owner's subscribed endpoints.
+   * Never throws: webhook failures must not affect upload processing.
+   */
+  async emit(
+    type: CustomerWebhookEventType,
+    upload: Upload,
+    stage?: { stage: StagingStage; imageUrl: string }
+  ): Promise<void> {
+    try {
+      await this.publish(
+        upload.userId,
+        type,
+        {
+          upload: this.toUploadData(upload),
+          ...(stage && { stage }),
+        },
+        upload.id
+      );
+    } catch (error) {
+      this.logger.error(`Failed to emit ${type} webhook for upload ${upload.id}:`, error as Error);
+    }
+  }
+
+  /**
+   * Emit the single completion event of a listing staging batch, with the final
+   * state of every photo. Never throws.
+   */
+  async emitListingStagingCompleted(
+    staging: ListingStaging,
+    progress: ListingStagingProgress,
+    uploads: Upload[]
+  ): Promise<void> {
+    const type: CustomerWebhookEventType = 'listing_staging.completed';
+    try {
+      await this.publish(staging.userId, type, {
+        listingStaging: {
+          id: staging.id,
+          listingId: staging.listingId,
+          status: staging.status,
+          furnitureStyle: staging.furnitureStyle,
+          progress,
+          uploads: uploads.map(upload => this.toUploadData(upload)),
+          createdAt: new Date(staging.createdAt).toISOString(),
+          ...(staging.completedAt && {
+            completedAt: new Date(staging.completedAt).toISOString(),
+          }),
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to emit ${type} webhook for listing staging ${staging.id}:`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Perform one delivery attempt (called by the customer-webhooks worker)
+   * @throws when the attempt failed, so BullMQ schedules the next retry
+   */
+  async deliver(deliveryId: string, isFinalAttempt: boolean): Promise<void> {
+    const delivery = await webhookDeliveryRepository.findById(deliveryId);
+    if (!delivery) {
+      this.logger.warn(`Webhook delivery ${deliveryId} not found`);
+      return;
+    }
+
+    const endpoint = await webhookEndpointRepository.findById(delivery.endpointId);
+    if (!endpoint || !endpoint.isActive) {
+      await webhookDeliveryRepository.recordAttempt(delivery.id, {
+        status: 'failed',
+        attempts: delivery.attempts,
+        responseStatus: null,
+        errorMessage: 'Endpoint disabled or deleted',
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      // Checked on every attempt: the DNS record may change after registration
+      if (!this.allowPrivateUrls) {
+        await this.assertPublicEndpoint(endpoint.url);
+      }
+
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Stagingfy-Webhooks/1.0',
+          'Stagingfy-Event': delivery.eventType,
+          'Stagingfy-Delivery': delivery.id,
+          'Stagingfy-Signature': this.buildSignatureHeader(endpoint.secret, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      await response.body?.cancel();
+      if (response.status >= 300 && response.status < 400) {
+        errorMessage = `Endpoint redirected with HTTP ${response.status}; redirects are not followed`;
+      } else if (!response.ok) {
+        errorMessage = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const succeeded = errorMessage === null;
+    await webhookDeliveryRepository.recordAttempt(delivery.id, {
+      status: succeeded ? 'succeeded' : isFinalAttempt ? 'failed' : 'pending',
+      attempts,
+      responseStatus,
+      errorMessage,
+    });
+
+    if (!succeeded) {
+      throw new Error(`Webhook delivery ${delivery.id} failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Stagingfy-Signature header: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+   */
+  buildSignatureHeader(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  /**
+   * Reject endpoints whose host resolves to a private, loopback or link-local address
+   * @throws with a customer-facing message
+   */
+  private async assertPublicEndpoint(url: string): Promise<void> {
+    const { hostname } = new URL(url);
+    try {
+      await assertPublicHost(hostname);
+    } catch (error) {
+      this.logger.warn(`Refused webhook delivery to ${hostname}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error('Endpoint host does not resolve to a public address');
+    }
+  }
+
+  private generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * Create one delivery per subscribed endpoint of the user and queue them
+   */
+  private async publish(
+    userId: string,
+    type: CustomerWebhookEventType,
+    data: CustomerWebhookEvent['data'],
+    uploadId?: string
+  ): Promise<void> {
+    const endpoints = (
+      await webhookEndpointRepository.findActiveByUserId(userId, uploadId)
+    ).filter(endpoint => endpoint.events.includes(type));
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const event: CustomerWebhookEvent = {
+      id: `evt_${randomUUID().replace(/-/g, '')}`,
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    const deliveries = await webhookDeliveryRepository.createMany(
+      endpoints.map(endpoint => ({
+        endpointId: endpoint.id,
+        userId,
+        uploadId: uploadId ?? null,
+        eventId: event.id,
+        eventType: type,
+        payload: event as unknown as Record<string, unknown>,
+      }))
+    );
+
+    await customerWebhookQueue.addBulk(
+      deliveries.map(delivery => ({
+        name: CUSTOMER_WEBHOOK_JOB_NAME,
+        data: { deliveryId: delivery.id },
+        opts: { jobId: `delivery-${delivery.id}` },
+      }))
+    );
+  }
+
+  private toUploadData(upload: Upload): CustomerWebhookUploadData {
+    return {
+      id: upload.id,
+      status: upload.status,
+      roomType: upload.roomType,
+      furnitureStyle: upload.furnitureStyle,
+      provider: upload.provider,
+      ...(upload.outputProvider && { outputProvider: upload.outputProvider }),
+      inputImageUrl: upload.inputImageUrl,
+      ...(upload.outputImageUrl && { outputImageUrl: upload.outputImageUrl }),
+      ...(upload.currentStage && { currentStage: upload.currentStage }),
+      ...(upload.errorMessage && { errorMessage: upload.errorMessage }),
+      createdAt: new Date(upload.createdAt).toISOString(),
+      updatedAt: new Date(upload.updatedAt).toISOString(),
+    };
+  }
+}
+
+export const customerWebhookService = new CustomerWebhookService();
@@ -0,0 +1,174 @@
+import { randomInt } from 'crypto';
+import { BaseService } from './base.service';
+import { stagingCatalogService } from './staging-catalog.service';
+import { stagingPlanService } from './staging-plan.service';
+import { createSeededRandom } from '../utils/seeded-random.util';
+import {
+  BUILT_IN_PALETTE_OPTIONS,
+  MAX_PALETTE_SEED,
+  MAX_PALETTE_VALUES,
+  MAX_PALETTE_VALUE_LENGTH,
+  PALETTE_SIZES,
+} from '../config/design-palettes';
+import { buildGenericStyleEntry } from '../config/staging-catalog';
+import {
+  DesignPalette,
+  DesignPaletteItemPicks,
+  FurnitureStyle,
+} from '../interfaces/upload.interface';
+
+const ITEM_PICK_GROUPS = ['complementary', 'wallDecor', 'windowsDecor'] as const;
+
+/**
+ * Alterações aceitas numa paleta já gerada
+ */
+export interface DesignPaletteChanges {
+  seed?: number;
+  materials?: string[];
+  colors?: string[];
+  itemPicks?: Partial<DesignPaletteItemPicks>;
+}
+
+/**
+ * Paletas de design por imóvel.
+ *
+ * A paleta é sorteada uma vez a partir do estilo (materiais, cores e itens
+ * preferidos de todos os cômodos do catálogo) e depois reaproveitada por
+ * todos os uploads do imóvel: o gerador de planos prioriza os itens da paleta,
+ * sorteia o restante com o seed dela e inclui materiais e cores no prompt.
+ */
+export class DesignPaletteService extends BaseService {
+  /**
+   * Sorteia uma paleta para o estilo (reprodutível quando o seed é informado)
+   */
+  async generatePalette(furnitureStyle: FurnitureStyle, seed?: number): Promise<DesignPalette> {
+    const paletteSeed = seed ?? randomInt(MAX_PALETTE_SEED);
+    const random = createSeededRandom(`${paletteSeed}:${furnitureStyle}`);
+    const { catalog } = await stagingCatalogService.getCatalog();
+
+    const options = BUILT_IN_PALETTE_OPTIONS[furnitureStyle] ?? {
+      // Estilos sem opções próprias usam a ênfase do catálogo como materiais
+      materials: (catalog.styles[furnitureStyle] ?? buildGenericStyleEntry(furnitureStyle)).emphasis,
+      colors: [],
+    };
+
+    // Itens permitidos em mais de um cômodo (os que se repetem entre as fotos);
+    // cada cômodo aproveita os que o seu plano permite
+    const rooms = Object.values(catalog.rooms);
+    const sharedItems = (
+      field: 'allowedComplementary' | 'allowedWallDecor' | 'allowedWindowsDecor'
+    ): string[] => {
+      const occurrences = new Map<string, number>();
+      for (const item of rooms.flatMap(room => [...new Set(room[field])])) {
+        occurrences.set(item, (occurrences.get(item) ?? 0) + 1);
+      }
+      const shared = [...occurrences.keys()].filter(item => occurrences.get(item)! > 1);
+      return shared.length > 0 ? shared : [...occurrences.keys()];
+    };
+
+    return {
+      furnitureStyle,
+      seed: paletteSeed,
+      materials: stagingPlanService.sampleArray(options.materials, PALETTE_SIZES.materials, random),
+      colors: stagingPlanService.sampleArray(options.colors, PALETTE_SIZES.colors, random),
+      itemPicks: {
+        complementary: stagingPlanService.sampleArray(
+          sharedItems('allowedComplementary'),
+          PALETTE_SIZES.complementary,
+          random
+        ),
+        wallDecor: stagingPlanService.sampleArray(
+          sharedItems('allowedWallDecor'),
+          PALETTE_SIZES.wallDecor,
+          random
+        ),
+        windowsDecor: stagingPlanService.sampleArray(
+          sharedItems('allowedWindowsDecor'),
+          PALETTE_SIZES.windowsDecor,
+          random
+        ),
+      },
+    };
+  }
+
+  /**
+   * Valida as alterações de uma paleta (seed, materials, colors, itemPicks)
+   * @returns erros por campo (vazio quando válido)
+   */
+  validateChanges(changes: Record<string, unknown>): Record<string, string> {
+    const errors: Record<string, string> = {};
+
+    if (
+      changes.seed !== undefined &&
+      (!Number.isInteger(changes.seed) ||
+        (changes.seed as number) < 0 ||
+        (changes.seed as number) > MAX_PALETTE_SEED)
+    ) {
+      errors.seed = `seed must be an integer between 0 and ${MAX_PALETTE_SEED}`;
+    }
+
+    for (const field of ['materials', 'colors'] as const) {
+      if (changes[field] !== undefined && !this.isValueList(changes[field])) {
+        errors[field] = this.valueListMessage(field);
+      }
+    }
+
+    if (changes.itemPicks !== undefined) {
+      const itemPicks = changes.itemPicks;
+      if (typeof itemPicks !== 'object' || itemPicks === null || Array.isArray(itemPicks)) {
+        errors.itemPicks = `itemPicks must be an object with ${ITEM_PICK_GROUPS.join(', ')}`;
+      } else {
+        for (const [group, items] of Object.entries(itemPicks)) {
+          if (!ITEM_PICK_GROUPS.includes(group as (typeof ITEM_PICK_GROUPS)[number])) {
+            errors[`itemPicks.${group}`] = `unknown group (use ${ITEM_PICK_GROUPS.join(', ')})`;
+          } else if (!this.isValueList(items)) {
+            errors[`itemPicks.${group}`] = this.valueListMessage(group);
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Aplica alterações (já validadas) sobre a paleta
+   */
+  applyChanges(palette: DesignPalette, changes: DesignPaletteChanges): DesignPalette {
+    return {
+      ...palette,
+      ...(changes.seed !== undefined && { seed: changes.seed }),
+      ...(changes.materials && { materials: this.normalize(changes.materials) }),
+      ...(changes.colors && { colors: this.normalize(changes.colors) }),
+      itemPicks: {
+        complementary: this.normalize(
+          changes.itemPicks?.complementary ?? palette.itemPicks.complementary
+        ),
+        wallDecor: this.normalize(changes.itemPicks?.wallDecor ?? palette.itemPicks.wallDecor),
+        windowsDecor: this.normalize(
+          changes.itemPicks?.windowsDecor ?? palette.itemPicks.windowsDecor
+        ),
+      },
+    };
+  }
+
+  private isValueList(value: unknown): value is string[] {
+    return (
+      Array.isArray(value) &&
+      value.length <= MAX_PALETTE_VALUES &&
+      value.every(
+        item => typeof item === 'string' && item.trim() && item.length <= MAX_PALETTE_VALUE_LENGTH
+      )
+    );
+  }
+
+  private valueListMessage(field: string): string {
+    return `${field} must be a list of at most ${MAX_PALETTE_VALUES} non-empty strings (up to ${MAX_PALETTE_VALUE_LENGTH} characters)`;
+  }
+
+  private normalize(values: string[]): string[] {
+    return [...new Set(values.map(value => value.trim()))];
+  }
+}
+
+export const designPaletteService = new DesignPaletteService();
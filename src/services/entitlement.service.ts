@@ -0,0 +1,124 @@
+import { and, eq, gt } from 'drizzle-orm';
+import { BaseService } from './base.service';
+import { cacheService } from './cache.service';
+import { db } from '@/db/connection';
+import {
+  subscriptions,
+  plans,
+  planFeatures,
+  planFeatureRelations,
+  roomTypes,
+  furnitureStyles,
+} from '@/db/schema';
+import {
+  BASE_STAGES,
+  EntitlementFeature,
+  UserEntitlements,
+} from '@/interfaces/entitlement.interface';
+import { StageSelectionConfig, StagingStage } from '@/interfaces/upload.interface';
+
+const ENTITLEMENT_CACHE_NAMESPACE = 'entitlements';
+const ENTITLEMENT_CACHE_TTL = 60; // seconds
+
+/**
+ * Resolves what a user may do from their active subscription's plan features
+ */
+export class EntitlementService extends BaseService {
+  /**
+   * Features of the user's active subscription (no subscription = free tier, no features)
+   */
+  async getEntitlements(userId: string): Promise<UserEntitlements> {
+    const cached = await cacheService.get<UserEntitlements>(userId, ENTITLEMENT_CACHE_NAMESPACE);
+    if (cached.data) {
+      return cached.data;
+    }
+
+    const [subscription] = await db
+      .select({ planId: plans.id, planName: plans.name })
+      .from(subscriptions)
+      .innerJoin(plans, eq(subscriptions.planId, plans.id))
+      .where(
+        and(
+          eq(subscriptions.userId, userId),
+          eq(subscriptions.status, 'active'),
+          gt(subscriptions.currentPeriodEnd, new Date())
+        )
+      )
+      .limit(1);
+
+    const features = subscription
+      ? await db
+          .select({ name: planFeatures.name })
+          .from(planFeatureRelations)
+          .innerJoin(planFeatures, eq(planFeatureRelations.featureId, planFeatures.id))
+          .where(eq(planFeatureRelations.planId, subscription.planId))
+      : [];
+
+    const entitlements: UserEntitlements = {
+      planId: subscription?.planId ?? null,
+      planName: subscription?.planName ?? null,
+      features: features.map(feature => feature.name),
+    };
+
+    await cacheService.set(userId, entitlements, {
+      ttl: ENTITLEMENT_CACHE_TTL,
+      namespace: ENTITLEMENT_CACHE_NAMESPACE,
+    });
+    return entitlements;
+  }
+
+  /**
+   * Drop cached entitlements after a subscription change
+   */
+  async invalidate(userId: string): Promise<void> {
+    await cacheService.delete(userId, ENTITLEMENT_CACHE_NAMESPACE);
+  }
+
+  hasFeature(entitlements: UserEntitlements, feature: EntitlementFeature): boolean {
+    return entitlements.features.includes(feature);
+  }
+
+  async isPremiumRoomType(slug: string): Promise<boolean> {
+    const [roomType] = await db
+      .select({ premiumOnly: roomTypes.premiumOnly })
+      .from(roomTypes)
+      .where(eq(roomTypes.name, slug))
+      .limit(1);
+
+    return roomType?.premiumOnly ?? false;
+  }
+
+  async isPremiumFurnitureStyle(slug: string): Promise<boolean> {
+    const [style] = await db
+      .select({ premiumOnly: furnitureStyles.premiumOnly })
+      .from(furnitureStyles)
+      .where(eq(furnitureStyles.name, slug))
+      .limit(1);
+
+    return style?.premiumOnly ?? false;
+  }
+
+  /**
+   * Stages of a selection that are outside the base tier
+   */
+  getExtraStages(stageSelection: StageSelectionConfig): StagingStage[] {
+    return (Object.keys(stageSelection) as StagingStage[]).filter(
+      stage => stageSelection[stage] && !BASE_STAGES.includes(stage)
+    );
+  }
+
+  /**
+   * Stage selection limited to the base tier
+   */
+  getBaseStageSelection(): StageSelectionConfig {
+    return {
+      foundation: BASE_STAGES.includes('foundation'),
+      complement: BASE_STAGES.includes('complement'),
+      wall_decoration: BASE_STAGES.includes('wall_decoration'),
+      windows_decoration: BASE_STAGES.includes('windows_decoration'),
+      customization: BASE_STAGES.includes('customization'),
+    };
+  }
+}
+
+export const entitlementService = new EntitlementService();
@@ -1,6 +1,5 @@
 import { s3Service } from '@/lib/s3';
 import { logger } from '@/lib/logger';
-import { imageProcessingQueue } from '@/lib/queues';
 
 export interface UploadImageOptions {
   userId: string;
@@ -38,11 +37,6 @@ export class ImageUploadService {
         ...metadata,
       });
 
-      // If it's an input image, queue for processing
-      if (type === 'input') {
-        await this.queueImageProcessing(key, userId);
-      }
-
       logger.info(`Image uploaded successfully: ${key}`, { userId, type });
 
       return {
@@ -121,34 +115,6 @@ export class ImageUploadService {
     }
   }
 
-  /**
-   * Queue image for processing
-   */
-  private async queueImageProcessing(key: string, userId: string): Promise<void> {
-    try {
-      await imageProcessingQueue.add(
-        'process-image',
-        {
-          imageKey: key,
-          userId,
-          timestamp: Date.now(),
-        },
-        {
-          attempts: 3,
-          backoff: {
-            type: 'exponential',
-            delay: 2000,
-          },
-        }
-      );
-
-      logger.info(`Image queued for processing: ${key}`, { userId });
-    } catch (error) {
-      logger.error(`Failed to queue image for processing: ${key} for user ${userId}`, error as Error);
-      // Don't throw here as the upload was successful
-    }
-  }
-
   /**
    * Get file extension from content type
    */
@@ -0,0 +1,174 @@
+import { Writable } from 'stream';
+import sharp from 'sharp';
+import { BaseService } from './base.service';
+import { listingRepository } from '@/repositories/listing.repository';
+import { uploadRepository } from '@/repositories/upload.repository';
+import { loadImage } from '@/utils/image-source.util';
+import { ZipWriter } from '@/utils/zip-writer.util';
+import { createTextWatermarkSvg, DEFAULT_DISCLOSURE_TEXT } from '@/utils/image-watermark.util';
+import { Listing } from '@/types/database';
+import { Upload } from '@/interfaces/upload.interface';
+import {
+  ListingExportFile,
+  ListingExportManifest,
+  ListingExportOptions,
+  ListingExportPhoto,
+  ListingExportSize,
+} from '@/interfaces/listing.interface';
+
+/**
+ * ZIP export of the staged photos of a listing.
+ *
+ * Every completed photo is written as a before/after pair in each requested
+ * size, grouped by size folder ("1024px/", "original/") so agents can upload a
+ * whole folder to the MLS. Photos are rendered one at a time and streamed
+ * straight to the response; manifest.json goes last and lists every file and
+ * the photos that could not be exported.
+ */
+export class ListingExportService extends BaseService {
+  /**
+   * Completed photos of the listing (or of one of its batches), oldest batch first
+   */
+  async findExportableUploads(listing: Listing, stagingId?: string): Promise<Upload[]> {
+    const stagings = (await listingRepository.findStagingsByListingId(listing.id))
+      .filter(staging => !stagingId || staging.id === stagingId)
+      .reverse();
+
+    const uploads: Upload[] = [];
+    for (const staging of stagings) {
+      const batchUploads = await uploadRepository.findByListingStagingId(staging.id);
+      uploads.push(
+        ...batchUploads.filter(upload => upload.status === 'completed' && upload.outputImageUrl)
+      );
+    }
+    return uploads;
+  }
+
+  /**
+   * Stream the ZIP of the given photos to the output and end it.
+   * Photos whose images cannot be loaded are skipped and listed in the manifest.
+   */
+  async writeExport(
+    listing: Listing,
+    uploads: Upload[],
+    options: ListingExportOptions,
+    output: Writable
+  ): Promise<ListingExportManifest> {
+    const zip = new ZipWriter(output);
+    const manifest: ListingExportManifest = {
+      listing: {
+        id: listing.id,
+        title: listing.title,
+        address: listing.address,
+        externalReference: listing.externalReference,
+      },
+      exportedAt: new Date().toISOString(),
+      options,
+      disclosure: options.watermark ? DEFAULT_DISCLOSURE_TEXT : null,
+      photos: [],
+      skipped: [],
+    };
+
+    for (const upload of uploads) {
+      const index = manifest.photos.length + 1;
+      const baseName = `${String(index).padStart(2, '0')}-${upload.roomType.replace(/_/g, '-')}`;
+
+      // Start from the clean output when one was kept. Otherwise the branded
+      // output is used and only skips the disclosure when its text watermark
+      // already carries it (a logo or custom text alone does not count)
+      const alreadyDisclosed = !upload.unbrandedOutputImageUrl && !!upload.disclosureApplied;
+      const afterImageUrl = upload.unbrandedOutputImageUrl ?? upload.outputImageUrl!;
+
+      let before: Buffer;
+      let after: Buffer;
+      try {
+        [before, after] = await Promise.all([
+          loadImage(upload.inputImageUrl).then(image => image.buffer),
+          loadImage(afterImageUrl).then(image => image.buffer),
+        ]);
+      } catch (error) {
+        this.logger.warn(`Listing export skipped upload ${upload.id}`, {
+          listingId: listing.id,
+          error: (error as Error).message,
+        });
+        manifest.skipped.push({ uploadId: upload.id, reason: 'Images could not be loaded' });
+        continue;
+      }
+
+      const photo: ListingExportPhoto = {
+        index,
+        uploadId: upload.id,
+        listingStagingId: upload.listingStagingId!,
+        roomType: upload.roomType,
+        furnitureStyle: upload.furnitureStyle,
+        before: [],
+        after: [],
+      };
+
+      for (const size of options.sizes) {
+        const folder = size === 'original' ? 'original' : `${size}px`;
+        photo.before.push(
+          await this.addVariant(zip, `${folder}/${baseName}-before.jpg`, before, size, options, false)
+        );
+        const afterFile = await this.addVariant(
+          zip,
+          `${folder}/${baseName}-after.jpg`,
+          after,
+          size,
+          options,
+          options.watermark && !alreadyDisclosed
+        );
+        photo.after.push({ ...afterFile, watermarked: afterFile.watermarked || alreadyDisclosed });
+      }
+
+      manifest.photos.push(photo);
+    }
+
+    await zip.addFile('manifest.json', Buffer.from(JSON.stringify(manifest, null, 2)));
+    await zip.finish();
+
+    this.logOperation('exportListing', {
+      listingId: listing.id,
+      photos: manifest.photos.length,
+      skipped: manifest.skipped.length,
+      sizes: options.sizes,
+    });
+    return manifest;
+  }
+
+  /**
+   * Render one JPEG variant (long edge limited to size, never enlarged) and add it to the ZIP
+   */
+  private async addVariant(
+    zip: ZipWriter,
+    path: string,
+    source: Buffer,
+    size: ListingExportSize,
+    options: ListingExportOptions,
+    watermark: boolean
+  ): Promise<ListingExportFile> {
+    let pipeline = sharp(source).rotate().flatten({ background: '#ffffff' });
+    if (size !== 'original') {
+      pipeline = pipeline.resize(size, size, { fit: 'inside', withoutEnlargement: true });
+    }
+
+    if (watermark) {
+      // The overlay is sized to the final dimensions, so resize first
+      const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+      pipeline = sharp(data, {
+        raw: { width: info.width, height: info.height, channels: info.channels },
+      }).composite([
+        { input: createTextWatermarkSvg(info.width, info.height, DEFAULT_DISCLOSURE_TEXT), top: 0, left: 0 },
+      ]);
+    }
+
+    const { data, info } = await pipeline
+      .jpeg({ quality: options.quality, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+
+    await zip.addFile(path, data);
+    return { path, size, width: info.width, height: info.height, bytes: data.length, watermarked: watermark };
+  }
+}
+
+export const listingExportService = new ListingExportService();
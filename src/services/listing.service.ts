@@ -0,0 +1,476 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseService, PaginatedResponse } from './base.service';
+import { s3Service } from '@/lib/s3';
+import { listingRepository } from '@/repositories/listing.repository';
+import { uploadRepository } from '@/repositories/upload.repository';
+import { creditService } from '@/services/credit.service';
+import { customerWebhookService } from '@/services/customer-webhook.service';
+import { designPaletteService, DesignPaletteChanges } from '@/services/design-palette.service';
+import { virtualStagingService } from '@/services/virtual-staging.service';
+import { Listing, ListingStaging } from '@/types/database';
+import {
+  DesignPalette,
+  FurnitureStyle,
+  Upload,
+  UploadStatus,
+} from '@/interfaces/upload.interface';
+import {
+  CreateListingStagingRequest,
+  ListingDetails,
+  ListingStagingDetails,
+  ListingStagingImage,
+  ListingStagingProgress,
+  ListingStagingSummary,
+} from '@/interfaces/listing.interface';
+
+type StatusCount = { status: UploadStatus; dispatched: boolean; count: number };
+
+/**
+ * Property listings and their batch stagings.
+ *
+ * A batch creates one upload per photo (same furniture style, per-photo room
+ * type) and reserves its credits up front. Photos only enter the processing
+ * queue while the user has fewer than LISTING_MAX_CONCURRENT_UPLOADS batch
+ * photos in flight; each finished photo frees a slot for the next one. When
+ * the last photo of a batch finishes, the batch is closed and a single
+ * listing_staging.completed webhook is emitted.
+ *
+ * The first batch locks a design palette on the listing (materials, colors,
+ * item picks and seed) that every later photo of the listing reuses, so all
+ * rooms look like the same property. It can only change while no batch runs.
+ */
+export class ListingService extends BaseService {
+  readonly maxConcurrentUploads = Math.max(
+    1,
+    parseInt(process.env.LISTING_MAX_CONCURRENT_UPLOADS || '3', 10)
+  );
+
+  // Dispatched photos still pending after this long lost their queue job
+  private readonly staleDispatchMs = parseInt(
+    process.env.LISTING_STALE_DISPATCH_MS || '900000',
+    10
+  );
+
+  async createListing(
+    userId: string,
+    data: { title: string; address?: string; externalReference?: string }
+  ): Promise<Listing> {
+    const listing = await listingRepository.create({
+      userId,
+      title: data.title,
+      address: data.address ?? null,
+      externalReference: data.externalReference ?? null,
+    });
+
+    this.logOperation('createListing', { userId, listingId: listing.id });
+    return listing;
+  }
+
+  async listListings(
+    userId: string,
+    params: { page: number; limit: number; offset: number }
+  ): Promise<PaginatedResponse<Listing>> {
+    const [data, total] = await Promise.all([
+      listingRepository.findByUserId(userId, { limit: params.limit, offset: params.offset }),
+      listingRepository.countByUserId(userId),
+    ]);
+
+    const totalPages = Math.ceil(total / params.limit);
+
+    return {
+      data,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        totalPages,
+        hasNext: params.page < totalPages,
+        hasPrev: params.page > 1,
+      },
+    };
+  }
+
+  /**
+   * Get a listing owned by the user
+   */
+  async getListing(userId: string, listingId: string): Promise<Listing | null> {
+    const listing = await listingRepository.findById(listingId);
+    return listing && listing.userId === userId ? listing : null;
+  }
+
+  /**
+   * Listing with the progress of each of its batches
+   */
+  async getListingDetails(userId: string, listingId: string): Promise<ListingDetails | null> {
+    const listing = await this.getListing(userId, listingId);
+    if (!listing) {
+      return null;
+    }
+
+    const stagings = await listingRepository.findStagingsByListingId(listing.id);
+    const counts = await listingRepository.countUploadsByStatus(stagings.map(staging => staging.id));
+
+    return {
+      ...listing,
+      stagings: stagings.map(staging =>
+        this.toSummary(
+          staging,
+          counts.filter(row => row.listingStagingId === staging.id)
+        )
+      ),
+    };
+  }
+
+  /**
+   * Create a batch for the listing: store every photo, create its upload,
+   * reserve its credits and start dispatching within the concurrency limit.
+   * Nothing is kept when any reservation fails.
+   * @returns the batch, or null when the balance does not cover every photo
+   */
+  async createStaging(
+    userId: string,
+    listing: Listing,
+    request: CreateListingStagingRequest
+  ): Promise<ListingStagingDetails | null> {
+    const totalImages = request.images.length;
+    if (!(await creditService.hasSufficientCredits(userId, creditService.uploadCost * totalImages))) {
+      return null;
+    }
+
+    // The first batch locks the palette that every photo of the listing reuses
+    const designPalette =
+      listing.designPalette ?? (await designPaletteService.generatePalette(request.furnitureStyle));
+
+    const staging = await listingRepository.createStaging({
+      listingId: listing.id,
+      userId,
+      furnitureStyle: request.furnitureStyle,
+      stageSelection: request.stageSelection,
+      totalImages,
+    });
+
+    const created: Upload[] = [];
+    const reserved: string[] = [];
+    try {
+      for (const image of request.images) {
+        const key = `virtual-staging/input/${userId}/${uuidv4()}${path.extname(image.originalName)}`;
+        const inputImageUrl = await s3Service.uploadFile(key, image.buffer, image.mimeType);
+
+        const providerRoute = await virtualStagingService.resolveProviderRoute({
+          roomType: image.roomType,
+          furnitureStyle: request.furnitureStyle,
+          ...(request.provider && { preferredProvider: request.provider }),
+        });
+
+        const upload = await uploadRepository.create({
+          userId,
+          roomType: image.roomType,
+          furnitureStyle: request.furnitureStyle,
+          provider: providerRoute[0]!,
+          providerRoute,
+          inputImageUrl,
+          preserveArchitecture: request.preserveArchitecture ?? false,
+          listingStagingId: staging.id,
+        });
+        created.push(upload);
+
+        if (!(await creditService.reserveForUpload(userId, upload.id))) {
+          await this.discardStaging(staging, created, reserved);
+          return null;
+        }
+        reserved.push(upload.id);
+      }
+    } catch (error) {
+      await this.discardStaging(staging, created, reserved);
+      throw error;
+    }
+
+    if (!listing.designPalette) {
+      await listingRepository.update(listing.id, { designPalette });
+    }
+
+    this.logOperation('createStaging', {
+      userId,
+      listingId: listing.id,
+      listingStagingId: staging.id,
+      totalImages,
+    });
+
+    await this.dispatch(userId);
+    return this.getStagingDetails(staging);
+  }
+
+  /**
+   * Get a batch of a listing owned by the user, with per-photo status
+   */
+  async getStaging(
+    userId: string,
+    listingId: string,
+    stagingId: string
+  ): Promise<ListingStagingDetails | null> {
+    const staging = await listingRepository.findStagingById(stagingId);
+    if (!staging || staging.userId !== userId || staging.listingId !== listingId) {
+      return null;
+    }
+    return this.getStagingDetails(staging);
+  }
+
+  /**
+   * Queue the user's waiting batch photos while there are free concurrency slots.
+   * A photo that cannot be queued goes back to the waiting line. Never throws:
+   * waiting photos are picked up again on the next finished photo or by
+   * releaseStaleDispatches.
+   */
+  async dispatch(userId: string): Promise<void> {
+    try {
+      const active = await listingRepository.countActiveDispatched(userId);
+      const claimed = await listingRepository.claimQueuedUploads(
+        userId,
+        this.maxConcurrentUploads - active
+      );
+
+      for (const uploadId of claimed) {
+        const upload = await uploadRepository.findById(uploadId);
+        const staging = upload?.listingStagingId
+          ? await listingRepository.findStagingById(upload.listingStagingId)
+          : null;
+        if (!staging) {
+          continue;
+        }
+
+        try {
+          const palette = (await listingRepository.findById(staging.listingId))?.designPalette;
+          const referenceImageUrl = palette && (await this.getReferenceImageUrl(palette));
+
+          await virtualStagingService.enqueueUploadProcessing({
+            uploadId,
+            mode: 'staged',
+            stageSelection: staging.stageSelection,
+            ...(palette && { palette }),
+            ...(referenceImageUrl && { referenceImageUrls: [referenceImageUrl] }),
+          });
+        } catch (error) {
+          this.logger.error(`Failed to queue listing photo ${uploadId}:`, error as Error);
+          await listingRepository.releaseDispatchedUpload(uploadId);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to dispatch listing photos for user ${userId}:`, error as Error);
+    }
+  }
+
+  /**
+   * Return dispatched photos that never started (lost queue job, crash between
+   * claim and enqueue) to the waiting line and dispatch their owners again.
+   * Queue job ids are per upload, so a photo whose job still exists is not queued twice.
+   * @returns number of users dispatched again
+   */
+  async releaseStaleDispatches(): Promise<number> {
+    const userIds = await listingRepository.releaseStaleDispatched(
+      new Date(Date.now() - this.staleDispatchMs)
+    );
+
+    for (const userId of userIds) {
+      await this.dispatch(userId);
+    }
+    if (userIds.length > 0) {
+      this.logOperation('releaseStaleDispatches', { users: userIds.length });
+    }
+    return userIds.length;
+  }
+
+  /**
+   * Whether the palette of the listing is in use by a running batch
+   */
+  async isPaletteLocked(listing: Listing): Promise<boolean> {
+    return listingRepository.hasProcessingStaging(listing.id);
+  }
+
+  /**
+   * Draw a new palette for the listing, replacing the current one
+   */
+  async generatePalette(
+    listing: Listing,
+    furnitureStyle: FurnitureStyle,
+    seed?: number
+  ): Promise<Listing> {
+    const designPalette = await designPaletteService.generatePalette(furnitureStyle, seed);
+    const updated = await listingRepository.update(listing.id, { designPalette });
+
+    this.logOperation('generatePalette', { listingId: listing.id, furnitureStyle });
+    return updated!;
+  }
+
+  /**
+   * Adjust the palette (validated changes). referenceUploadId null removes the reference.
+   */
+  async updatePalette(
+    listing: Listing,
+    palette: DesignPalette,
+    changes: DesignPaletteChanges & { referenceUploadId?: string | null }
+  ): Promise<Listing> {
+    const { referenceUploadId, ...paletteChanges } = changes;
+    const designPalette = designPaletteService.applyChanges(palette, paletteChanges);
+    if (referenceUploadId === null) {
+      delete designPalette.referenceUploadId;
+    } else if (referenceUploadId !== undefined) {
+      designPalette.referenceUploadId = referenceUploadId;
+    }
+
+    const updated = await listingRepository.update(listing.id, { designPalette });
+
+    this.logOperation('updatePalette', { listingId: listing.id });
+    return updated!;
+  }
+
+  /**
+   * Remove the palette; the next batch draws a new one
+   */
+  async resetPalette(listing: Listing): Promise<Listing> {
+    const updated = await listingRepository.update(listing.id, { designPalette: null });
+
+    this.logOperation('resetPalette', { listingId: listing.id });
+    return updated!;
+  }
+
+  /**
+   * A completed photo of one of the listing's batches can be the palette reference
+   */
+  async isValidReferenceUpload(listing: Listing, uploadId: string): Promise<boolean> {
+    const upload = await uploadRepository.findById(uploadId);
+    if (!upload?.listingStagingId || upload.status !== 'completed' || !upload.outputImageUrl) {
+      return false;
+    }
+
+    const staging = await listingRepository.findStagingById(upload.listingStagingId);
+    return staging?.listingId === listing.id;
+  }
+
+  /**
+   * Called when an upload completes or fails: frees its concurrency slot and
+   * closes its batch once every photo finished. Never throws.
+   */
+  async handleUploadFinished(upload: Upload): Promise<void> {
+    if (!upload.listingStagingId) {
+      return;
+    }
+
+    await this.dispatch(upload.userId);
+
+    try {
+      const counts = await listingRepository.countUploadsByStatus([upload.listingStagingId]);
+      const progress = this.buildProgress(counts);
+      if (progress.total === 0 || progress.finished < progress.total) {
+        return;
+      }
+
+      const closed = await listingRepository.completeStaging(
+        upload.listingStagingId,
+        progress.completed > 0 ? 'completed' : 'failed'
+      );
+      if (!closed) {
+        return;
+      }
+
+      this.logOperation('completeStaging', {
+        listingStagingId: closed.id,
+        status: closed.status,
+        completed: progress.completed,
+        failed: progress.failed,
+      });
+
+      const uploads = await uploadRepository.findByListingStagingId(closed.id);
+      await customerWebhookService.emitListingStagingCompleted(closed, progress, uploads);
+    } catch (error) {
+      this.logger.error(
+        `Failed to update listing staging ${upload.listingStagingId}:`,
+        error as Error
+      );
+    }
+  }
+
+  private async getReferenceImageUrl(palette: DesignPalette): Promise<string | undefined> {
+    if (!palette.referenceUploadId) {
+      return undefined;
+    }
+    const reference = await uploadRepository.findById(palette.referenceUploadId);
+    return reference?.status === 'completed' ? reference.outputImageUrl : undefined;
+  }
+
+  private async getStagingDetails(staging: ListingStaging): Promise<ListingStagingDetails> {
+    const uploads = await uploadRepository.findByListingStagingId(staging.id);
+    const counts = await listingRepository.countUploadsByStatus([staging.id]);
+
+    return {
+      ...this.toSummary(staging, counts),
+      images: uploads.map(upload => this.toImage(upload)),
+    };
+  }
+
+  /**
+   * Undo a batch whose photos could not all be accepted
+   */
+  private async discardStaging(
+    staging: ListingStaging,
+    uploads: Upload[],
+    reserved: string[]
+  ): Promise<void> {
+    for (const uploadId of reserved) {
+      await creditService.refundForUpload(uploadId, 'Listing staging not started');
+    }
+    for (const upload of uploads) {
+      await uploadRepository.delete(upload.id);
+    }
+    await listingRepository.deleteStaging(staging.id);
+
+    this.logger.warn(`Listing staging ${staging.id} discarded`, {
+      userId: staging.userId,
+      createdUploads: uploads.length,
+    });
+  }
+
+  private toSummary(staging: ListingStaging, counts: StatusCount[]): ListingStagingSummary {
+    return { ...staging, progress: this.buildProgress(counts) };
+  }
+
+  private buildProgress(counts: StatusCount[]): ListingStagingProgress {
+    const progress = {
+      total: 0,
+      queued: 0,
+      pending: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+    };
+
+    for (const row of counts) {
+      progress.total += row.count;
+      if (row.status === 'pending') {
+        progress[row.dispatched ? 'pending' : 'queued'] += row.count;
+      } else {
+        progress[row.status] += row.count;
+      }
+    }
+
+    const finished = progress.completed + progress.failed;
+    return {
+      ...progress,
+      finished,
+      percent: progress.total > 0 ? Math.round((finished / progress.total) * 100) : 0,
+    };
+  }
+
+  private toImage(upload: Upload): ListingStagingImage {
+    return {
+      uploadId: upload.id,
+      roomType: upload.roomType,
+      status: upload.status === 'pending' && !upload.dispatchedAt ? 'queued' : upload.status,
+      inputImageUrl: upload.inputImageUrl,
+      ...(upload.outputImageUrl && { outputImageUrl: upload.outputImageUrl }),
+      ...(upload.errorMessage && { errorMessage: upload.errorMessage }),
+    };
+  }
+}
+
+export const listingService = new ListingService();
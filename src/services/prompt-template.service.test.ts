@@ -0,0 +1,91 @@
+import { PromptTemplateService } from './prompt-template.service';
+import { promptTemplateRepository } from '../repositories/prompt-template.repository';
+import { PromptTemplate } from '../types/database';
+
+jest.mock('../repositories/prompt-template.repository', () => ({
+  promptTemplateRepository: { findAllocated: jest.fn(), findByNameAndVersion: jest.fn() },
+}));
+jest.mock('../lib/logger');
+
+const findAllocated = jest.mocked(promptTemplateRepository.findAllocated);
+
+function allocated(version: number, trafficPercent: number, body = `v${version}`): PromptTemplate {
+  return { name: 'stage.foundation', version, trafficPercent, body } as PromptTemplate;
+}
+
+describe('PromptTemplateService', () => {
+  const service = new PromptTemplateService();
+
+  beforeEach(async () => {
+    await service.invalidate();
+  });
+
+  describe('resolveVersions', () => {
+    it('usa o template embutido quando nenhuma versão tem tráfego', async () => {
+      findAllocated.mockResolvedValue([]);
+
+      await expect(
+        service.resolveVersions(['stage.foundation'], { assignmentKey: 'upload-1' })
+      ).resolves.toEqual({ 'stage.foundation': 0 });
+    });
+
+    it('sorteia sempre a mesma versão para o mesmo upload', async () => {
+      findAllocated.mockResolvedValue([allocated(1, 50)]);
+
+      const first = await service.resolveVersions(['stage.foundation'], {
+        assignmentKey: 'upload-1',
+      });
+      for (let i = 0; i < 5; i++) {
+        await expect(
+          service.resolveVersions(['stage.foundation'], { assignmentKey: 'upload-1' })
+        ).resolves.toEqual(first);
+      }
+    });
+
+    it('divide os uploads conforme o percentual de tráfego', async () => {
+      findAllocated.mockResolvedValue([allocated(1, 30), allocated(2, 20)]);
+
+      const counts: Record<number, number> = { 0: 0, 1: 0, 2: 0 };
+      for (let i = 0; i < 2000; i++) {
+        const versions = await service.resolveVersions(['stage.foundation'], {
+          assignmentKey: `upload-${i}`,
+        });
+        counts[versions['stage.foundation']!]!++;
+      }
+
+      expect(counts[1]! / 2000).toBeCloseTo(0.3, 1);
+      expect(counts[2]! / 2000).toBeCloseTo(0.2, 1);
+      expect(counts[0]! / 2000).toBeCloseTo(0.5, 1);
+    });
+
+    it('mantém as versões já atribuídas ao upload', async () => {
+      findAllocated.mockResolvedValue([allocated(1, 100)]);
+
+      await expect(
+        service.resolveVersions(['stage.foundation'], { versions: { 'stage.foundation': 0 } })
+      ).resolves.toEqual({ 'stage.foundation': 0 });
+    });
+
+    it('usa os templates embutidos quando o banco falha', async () => {
+      findAllocated.mockRejectedValue(new Error('connection refused'));
+
+      await expect(
+        service.resolveVersions(['stage.foundation'], { assignmentKey: 'upload-1' })
+      ).resolves.toEqual({ 'stage.foundation': 0 });
+    });
+  });
+
+  describe('render', () => {
+    it('substitui as variáveis e deixa vazias as não informadas', async () => {
+      findAllocated.mockResolvedValue([
+        allocated(3, 100, 'Stage a {{room}} with {{ maxItems }} items{{unknown}}.'),
+      ]);
+
+      await expect(
+        service.render('stage.foundation', { room: 'living room', maxItems: 3 }, {
+          assignmentKey: 'upload-1',
+        })
+      ).resolves.toEqual({ text: 'Stage a living room with 3 items.', version: 3 });
+    });
+  });
+});
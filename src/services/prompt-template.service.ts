@@ -0,0 +1,325 @@
+import { createHash } from 'crypto';
+import { BaseService } from './base.service';
+import { cacheService } from './cache.service';
+import { promptTemplateRepository } from '../repositories/prompt-template.repository';
+import { BUILT_IN_PROMPT_TEMPLATES } from '../config/prompt-templates';
+import { PromptTemplate } from '../types/database';
+import {
+  BUILT_IN_PROMPT_TEMPLATE_VERSION,
+  PROMPT_TEMPLATE_NAMES,
+  PromptTemplateAllocation,
+  PromptTemplateName,
+  PromptTemplateSelection,
+  PromptTemplateSummary,
+  PromptTemplateVersions,
+  PromptVariantStats,
+  RenderedPrompt,
+} from '../interfaces/prompt-template.interface';
+
+const TEMPLATE_CACHE_NAMESPACE = 'prompt-templates';
+const ALLOCATIONS_CACHE_KEY = 'allocations';
+const CREATE_VERSION_ATTEMPTS = 3;
+const MAX_TEMPLATE_LENGTH = 10000;
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+type TemplateVariables = Record<string, string | number>;
+
+/**
+ * Templates de prompt versionados com A/B.
+ *
+ * Cada template (ex.: "stage.foundation") tem a versão embutida (0) e versões
+ * cadastradas pelos admins. As versões com trafficPercent > 0 dividem o tráfego;
+ * o restante fica com a embutida. O sorteio usa o uploadId, então o mesmo upload
+ * recebe sempre a mesma variante, e as versões usadas são gravadas no upload
+ * para comparar conclusões e reclamações entre variantes.
+ */
+export class PromptTemplateService extends BaseService {
+  private readonly cacheTtl = parseInt(process.env.PROMPT_TEMPLATE_CACHE_TTL || '60'); // segundos
+
+  isTemplateName(name: unknown): name is PromptTemplateName {
+    return PROMPT_TEMPLATE_NAMES.includes(name as PromptTemplateName);
+  }
+
+  /**
+   * Renderiza um template na versão atribuída (ou sorteada) para a seleção
+   */
+  async render(
+    name: PromptTemplateName,
+    variables: TemplateVariables,
+    selection: PromptTemplateSelection = {}
+  ): Promise<RenderedPrompt> {
+    const versions = await this.resolveVersions([name], selection);
+    const version = versions[name] ?? BUILT_IN_PROMPT_TEMPLATE_VERSION;
+    const body = await this.getBody(name, version);
+    return { text: this.interpolate(body, variables), version };
+  }
+
+  /**
+   * Versão de cada template: mantém as já atribuídas e sorteia as demais
+   */
+  async resolveVersions(
+    names: PromptTemplateName[],
+    selection: PromptTemplateSelection = {}
+  ): Promise<PromptTemplateVersions> {
+    const allocations = await this.getAllocations();
+    const versions: PromptTemplateVersions = {};
+
+    for (const name of names) {
+      versions[name] =
+        selection.versions?.[name] ??
+        this.pickVersion(name, allocations[name] ?? [], selection.assignmentKey);
+    }
+    return versions;
+  }
+
+  /**
+   * Valida o corpo de uma nova versão: apenas variáveis aceitas pelo template
+   * @returns erros por campo (vazio quando válido)
+   */
+  validateBody(name: PromptTemplateName, body: unknown): Record<string, string> {
+    if (typeof body !== 'string' || !body.trim()) {
+      return { body: 'body must be a non-empty string' };
+    }
+    if (body.length > MAX_TEMPLATE_LENGTH) {
+      return { body: `body must have at most ${MAX_TEMPLATE_LENGTH} characters` };
+    }
+
+    const allowed = BUILT_IN_PROMPT_TEMPLATES[name].variables;
+    const unknown = [...new Set([...body.matchAll(VARIABLE_PATTERN)].map(match => match[1]!))].filter(
+      variable => !allowed.includes(variable)
+    );
+    if (unknown.length > 0) {
+      return {
+        body: `unknown variables: ${unknown.join(', ')} (allowed: ${allowed.join(', ')})`,
+      };
+    }
+    return {};
+  }
+
+  /**
+   * Templates com o corpo embutido e as versões cadastradas
+   */
+  async listTemplates(): Promise<PromptTemplateSummary[]> {
+    const versions = await promptTemplateRepository.list();
+
+    return PROMPT_TEMPLATE_NAMES.map(name => {
+      const definition = BUILT_IN_PROMPT_TEMPLATES[name];
+      const templateVersions = versions.filter(version => version.name === name);
+      const allocated = templateVersions.reduce((sum, version) => sum + version.trafficPercent, 0);
+
+      return {
+        name,
+        description: definition.description,
+        variables: definition.variables,
+        builtInBody: definition.body,
+        builtInTrafficPercent: Math.max(0, 100 - allocated),
+        versions: templateVersions,
+      };
+    });
+  }
+
+  async getVersion(name: PromptTemplateName, version: number): Promise<PromptTemplate | null> {
+    return promptTemplateRepository.findByNameAndVersion(name, version);
+  }
+
+  /**
+   * Salva um corpo (já validado) como nova versão do template, sem tráfego
+   */
+  async createVersion(
+    name: PromptTemplateName,
+    body: string,
+    options: { notes?: string; createdBy?: string } = {}
+  ): Promise<PromptTemplate> {
+    let created: PromptTemplate | null = null;
+    for (let attempt = 0; attempt < CREATE_VERSION_ATTEMPTS && !created; attempt++) {
+      created = await promptTemplateRepository.create({
+        name,
+        body,
+        ...(options.notes !== undefined && { notes: options.notes }),
+        ...(options.createdBy !== undefined && { createdBy: options.createdBy }),
+      });
+    }
+
+    if (!created) {
+      throw new Error(`Failed to allocate a version number for prompt template ${name}`);
+    }
+
+    this.logOperation('createVersion', { name, version: created.version, createdBy: options.createdBy });
+    return created;
+  }
+
+  /**
+   * Valida a divisão de tráfego (versão -> percentual). A soma não passa de 100;
+   * o que sobra vai para o template embutido.
+   * @returns erros por campo (vazio quando válido)
+   */
+  async validateTraffic(
+    name: PromptTemplateName,
+    traffic: Record<string, unknown>
+  ): Promise<Record<string, string>> {
+    const errors: Record<string, string> = {};
+    const existing = new Set((await promptTemplateRepository.list(name)).map(row => row.version));
+    let total = 0;
+
+    for (const [key, percent] of Object.entries(traffic)) {
+      const version = Number(key);
+      if (!Number.isInteger(version) || !existing.has(version)) {
+        errors[`traffic.${key}`] = `version ${key} does not exist for ${name}`;
+        continue;
+      }
+      if (!Number.isInteger(percent) || (percent as number) < 0 || (percent as number) > 100) {
+        errors[`traffic.${key}`] = 'percent must be an integer between 0 and 100';
+        continue;
+      }
+      total += percent as number;
+    }
+
+    if (total > 100) {
+      errors.traffic = 'traffic percentages must add up to at most 100';
+    }
+    return errors;
+  }
+
+  /**
+   * Aplica a divisão de tráfego (já validada); versões fora dela deixam o A/B
+   */
+  async setTraffic(
+    name: PromptTemplateName,
+    traffic: Record<string, number>
+  ): Promise<PromptTemplate[]> {
+    const allocations = Object.entries(traffic)
+      .filter(([, trafficPercent]) => trafficPercent > 0)
+      .map(([version, trafficPercent]) => ({ version: Number(version), trafficPercent }));
+
+    const versions = await promptTemplateRepository.setTraffic(name, allocations);
+    await this.invalidate();
+    this.logOperation('setTraffic', { name, allocations });
+    return versions;
+  }
+
+  /**
+   * Conclusões e reclamações dos uploads por versão do template
+   */
+  async getVariantStats(
+    name: PromptTemplateName,
+    period: { from?: Date; to?: Date } = {}
+  ): Promise<PromptVariantStats[]> {
+    const rows = await promptTemplateRepository.variantStats(name, period);
+
+    return rows.map(row => {
+      const finished = row.completed + row.failed;
+      return {
+        ...row,
+        completionRate: finished > 0 ? this.round(row.completed / finished) : 0,
+        complaintRate: row.completed > 0 ? this.round(row.complaints / row.completed) : 0,
+      };
+    });
+  }
+
+  /**
+   * Descarta a divisão de tráfego em cache desta instância
+   */
+  async invalidate(): Promise<void> {
+    await cacheService.delete(ALLOCATIONS_CACHE_KEY, TEMPLATE_CACHE_NAMESPACE);
+  }
+
+  /**
+   * Versões com tráfego, agrupadas por template
+   */
+  private async getAllocations(): Promise<Record<string, PromptTemplateAllocation[]>> {
+    const cached = await cacheService.get<Record<string, PromptTemplateAllocation[]>>(
+      ALLOCATIONS_CACHE_KEY,
+      TEMPLATE_CACHE_NAMESPACE
+    );
+    if (cached.data) {
+      return cached.data;
+    }
+
+    let rows: PromptTemplate[];
+    try {
+      rows = await promptTemplateRepository.findAllocated();
+    } catch (error) {
+      // Banco indisponível não pode travar o staging: usa os embutidos sem cachear
+      this.logger.warn('Failed to load prompt template allocations, using built-in templates', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return {};
+    }
+
+    const allocations: Record<string, PromptTemplateAllocation[]> = {};
+    for (const row of rows) {
+      (allocations[row.name] ??= []).push({
+        version: row.version,
+        trafficPercent: row.trafficPercent,
+        body: row.body,
+      });
+    }
+
+    await cacheService.set(ALLOCATIONS_CACHE_KEY, allocations, {
+      ttl: this.cacheTtl,
+      namespace: TEMPLATE_CACHE_NAMESPACE,
+    });
+    return allocations;
+  }
+
+  private pickVersion(
+    name: PromptTemplateName,
+    allocations: PromptTemplateAllocation[],
+    assignmentKey?: string
+  ): number {
+    if (allocations.length === 0) {
+      return BUILT_IN_PROMPT_TEMPLATE_VERSION;
+    }
+
+    // Faixa 0-99 estável por upload e template
+    const bucket = assignmentKey
+      ? createHash('sha256').update(`${assignmentKey}:${name}`).digest().readUInt32BE(0) % 100
+      : Math.floor(Math.random() * 100);
+
+    let cumulative = 0;
+    for (const allocation of allocations) {
+      cumulative += allocation.trafficPercent;
+      if (bucket < cumulative) {
+        return allocation.version;
+      }
+    }
+    return BUILT_IN_PROMPT_TEMPLATE_VERSION;
+  }
+
+  private async getBody(name: PromptTemplateName, version: number): Promise<string> {
+    if (version !== BUILT_IN_PROMPT_TEMPLATE_VERSION) {
+      const allocated = (await this.getAllocations())[name]?.find(
+        allocation => allocation.version === version
+      );
+      if (allocated) {
+        return allocated.body;
+      }
+
+      try {
+        const found = await promptTemplateRepository.findByNameAndVersion(name, version);
+        if (found) {
+          return found.body;
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to load prompt template ${name} v${version}`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      this.logger.warn(`Prompt template ${name} v${version} unavailable, using built-in`);
+    }
+
+    return BUILT_IN_PROMPT_TEMPLATES[name].body;
+  }
+
+  private interpolate(body: string, variables: TemplateVariables): string {
+    return body.replace(VARIABLE_PATTERN, (_match, variable: string) =>
+      variables[variable] !== undefined ? String(variables[variable]) : ''
+    );
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
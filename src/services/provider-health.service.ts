@@ -0,0 +1,297 @@
+import { randomUUID } from 'crypto';
+import { BaseService } from './base.service';
+import { providerConfigManager } from '../config/provider.config';
+import { redis } from '../lib/redis';
+import { Provider } from '../interfaces/upload.interface';
+import {
+  CircuitBreakerConfig,
+  CircuitState,
+  ProviderHealthReport,
+} from '../interfaces/provider-health.interface';
+
+const KEY_PREFIX = 'provider-circuit:';
+// Amostras mantidas por provider, independentemente da janela
+const MAX_SAMPLES = 500;
+// Tempo máximo da chamada de teste em half_open antes de liberar outra
+const TRIAL_LOCK_MS = 120000;
+
+// Marca da latência nas amostras de resultado de job, que não medem tempo de chamada
+const NO_LATENCY = '-';
+
+interface CallSample {
+  timestamp: number;
+  success: boolean;
+  latencyMs: number | null; // null nos resultados de job (webhook, polling, timeout)
+}
+
+/**
+ * Erro lançado quando o circuito do provider está aberto
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly provider: Provider) {
+    super(`Circuit breaker open for provider ${provider}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Circuit breaker por provider, compartilhado entre instâncias via Redis. É a
+ * única fonte de saúde dos providers: o roteamento manda para o fim da rota os
+ * providers com o circuito aberto.
+ *
+ * Cada chamada à API do provider é registrada (sucesso e latência) numa janela
+ * deslizante, assim como o resultado dos jobs (webhook, polling ou timeout).
+ * Quando a fração de erros e chamadas lentas passa do limite, o circuito abre
+ * e as chamadas falham imediatamente, o que aciona o failover da rota do
+ * upload. Após o cooldown, uma única chamada de teste fecha ou reabre o
+ * circuito. Se o Redis estiver indisponível, as chamadas seguem liberadas.
+ */
+export class ProviderHealthService extends BaseService {
+  /**
+   * Executa uma chamada ao provider protegida pelo circuit breaker
+   */
+  async execute<T>(provider: Provider, call: () => Promise<T>): Promise<T> {
+    const state = await this.getState(provider);
+
+    if (state === 'open') {
+      throw new CircuitOpenError(provider);
+    }
+
+    const isTrial = state === 'half_open';
+    if (isTrial && !(await this.acquireTrial(provider))) {
+      throw new CircuitOpenError(provider);
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await call();
+      await this.recordCall(provider, true, Date.now() - startedAt, isTrial);
+      return result;
+    } catch (error) {
+      await this.recordCall(provider, false, Date.now() - startedAt, isTrial);
+      throw error;
+    }
+  }
+
+  /**
+   * Registra o resultado de um job do provider na mesma janela das chamadas,
+   * sem latência (fica fora do p95 e das chamadas lentas). Não conta como
+   * chamada de teste do half_open.
+   */
+  async recordOutcome(provider: Provider, success: boolean): Promise<void> {
+    await this.recordCall(provider, success, null, false);
+  }
+
+  /**
+   * Estado atual do circuito do provider
+   */
+  async getState(provider: Provider): Promise<CircuitState> {
+    try {
+      const [open, tripped] = await redis.mget(
+        this.key(provider, 'open'),
+        this.key(provider, 'tripped')
+      );
+
+      if (open) {
+        return 'open';
+      }
+      return tripped ? 'half_open' : 'closed';
+    } catch (error) {
+      this.logger.warn(`Failed to read circuit state for provider ${provider}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return 'closed';
+    }
+  }
+
+  /**
+   * Provider aceita chamadas (circuito fechado ou aguardando a chamada de teste)
+   */
+  async isAvailable(provider: Provider): Promise<boolean> {
+    return (await this.getState(provider)) !== 'open';
+  }
+
+  /**
+   * Saúde de todos os providers configurados no ProviderConfigManager
+   */
+  async getHealthReport(): Promise<ProviderHealthReport[]> {
+    const providers = Array.from(providerConfigManager.getAllConfigs().keys()) as Provider[];
+    return Promise.all(providers.map(provider => this.getProviderHealth(provider)));
+  }
+
+  async getProviderHealth(provider: Provider): Promise<ProviderHealthReport> {
+    const config = this.getConfig();
+    const [state, samples, trippedAt] = await Promise.all([
+      this.getState(provider),
+      this.getSamples(provider, config),
+      redis.get(this.key(provider, 'tripped')).catch(() => null),
+    ]);
+    const stats = this.computeStats(samples, config);
+
+    return {
+      provider,
+      configured: providerConfigManager.isProviderEnabled(provider),
+      state,
+      requests: samples.length,
+      errorRate: stats.errorRate,
+      slowCallRate: stats.slowCallRate,
+      p95LatencyMs: stats.p95LatencyMs,
+      ...(trippedAt && { openedAt: new Date(parseInt(trippedAt, 10)).toISOString() }),
+    };
+  }
+
+  private async recordCall(
+    provider: Provider,
+    success: boolean,
+    latencyMs: number | null,
+    isTrial: boolean
+  ): Promise<void> {
+    const config = this.getConfig();
+    const now = Date.now();
+    const callsKey = this.key(provider, 'calls');
+    const sample = `${now}:${success ? 1 : 0}:${latencyMs ?? NO_LATENCY}:${randomUUID()}`;
+
+    try {
+      await redis
+        .multi()
+        .zadd(callsKey, now, sample)
+        .zremrangebyscore(callsKey, 0, now - config.windowMs)
+        .zremrangebyrank(callsKey, 0, -(MAX_SAMPLES + 1))
+        .pexpire(callsKey, config.windowMs * 2)
+        .exec();
+
+      const isSlow = latencyMs !== null && latencyMs > config.slowCallThresholdMs;
+
+      if (isTrial) {
+        if (success && !isSlow) {
+          await this.close(provider);
+        } else {
+          await this.open(provider, config);
+        }
+        return;
+      }
+
+      if (success && !isSlow) {
+        return;
+      }
+
+      const samples = await this.getSamples(provider, config);
+      const stats = this.computeStats(samples, config);
+      if (
+        samples.length >= config.minimumRequests &&
+        stats.failureRate >= config.failureRateThreshold
+      ) {
+        await this.open(provider, config);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to record call for provider ${provider}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private async open(provider: Provider, config: CircuitBreakerConfig): Promise<void> {
+    await redis
+      .multi()
+      .set(this.key(provider, 'open'), '1', 'PX', config.openDurationMs)
+      .set(this.key(provider, 'tripped'), Date.now().toString(), 'NX')
+      .del(this.key(provider, 'trial'))
+      .exec();
+
+    this.logger.warn(`Circuit breaker opened for provider ${provider}`, {
+      openDurationMs: config.openDurationMs,
+    });
+  }
+
+  private async close(provider: Provider): Promise<void> {
+    // Recomeça a janela para que as falhas antigas não reabram o circuito
+    await redis.del(
+      this.key(provider, 'open'),
+      this.key(provider, 'tripped'),
+      this.key(provider, 'trial'),
+      this.key(provider, 'calls')
+    );
+
+    this.logger.info(`Circuit breaker closed for provider ${provider}`);
+  }
+
+  private async acquireTrial(provider: Provider): Promise<boolean> {
+    try {
+      const acquired = await redis.set(
+        this.key(provider, 'trial'),
+        '1',
+        'PX',
+        TRIAL_LOCK_MS,
+        'NX'
+      );
+      return acquired === 'OK';
+    } catch {
+      return true;
+    }
+  }
+
+  private async getSamples(
+    provider: Provider,
+    config: CircuitBreakerConfig
+  ): Promise<CallSample[]> {
+    try {
+      const members = await redis.zrangebyscore(
+        this.key(provider, 'calls'),
+        Date.now() - config.windowMs,
+        '+inf'
+      );
+
+      return members.map(member => {
+        const [timestamp, success, latencyMs] = member.split(':');
+        return {
+          timestamp: parseInt(timestamp || '0', 10),
+          success: success === '1',
+          latencyMs:
+            latencyMs === undefined || latencyMs === NO_LATENCY ? null : parseInt(latencyMs, 10),
+        };
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  private computeStats(samples: CallSample[], config: CircuitBreakerConfig) {
+    if (samples.length === 0) {
+      return { errorRate: 0, slowCallRate: 0, failureRate: 0, p95LatencyMs: null };
+    }
+
+    const errors = samples.filter(sample => !sample.success).length;
+    // Latência e chamadas lentas só das chamadas à API (os resultados de job não têm tempo)
+    const latencies = samples
+      .flatMap(sample => (sample.latencyMs === null ? [] : [sample.latencyMs]))
+      .sort((a, b) => a - b);
+    const slow = samples.filter(
+      sample =>
+        sample.success &&
+        sample.latencyMs !== null &&
+        sample.latencyMs > config.slowCallThresholdMs
+    ).length;
+    const p95Index = Math.min(latencies.length - 1, Math.ceil(latencies.length * 0.95) - 1);
+
+    return {
+      errorRate: this.round(errors / samples.length),
+      slowCallRate: latencies.length > 0 ? this.round(slow / latencies.length) : 0,
+      failureRate: (errors + slow) / samples.length,
+      p95LatencyMs: latencies[p95Index] ?? null,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+
+  private getConfig(): CircuitBreakerConfig {
+    return providerConfigManager.getCircuitBreakerConfig();
+  }
+
+  private key(provider: Provider, suffix: string): string {
+    return `${KEY_PREFIX}${provider}:${suffix}`;
+  }
+}
+
+export const providerHealthService = new ProviderHealthService();
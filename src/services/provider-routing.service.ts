@@ -0,0 +1,165 @@
+import { BaseService } from './base.service';
+import { providerHealthService } from './provider-health.service';
+import { providerConfigManager } from '../config/provider.config';
+import { IVirtualStagingProvider } from '../interfaces/virtual-staging-provider.interface';
+import { Provider } from '../interfaces/upload.interface';
+import {
+  ProviderRouteCriteria,
+  ProviderRoutingPolicy,
+  ProviderRoutingRule,
+} from '../interfaces/provider-routing.interface';
+
+/**
+ * Roteamento de uploads entre providers.
+ *
+ * A rota de um upload é uma lista ordenada: o primeiro é o provider primário e
+ * os demais são usados, em ordem, no failover. O primário vem do provider
+ * pedido pelo cliente, de uma regra por ambiente/estilo, da divisão ponderada
+ * ou do provider padrão; providers com o circuito aberto (ProviderHealthService)
+ * vão para o fim da rota.
+ */
+export class ProviderRoutingService extends BaseService {
+  /**
+   * Monta a rota de providers para os critérios informados
+   * @param candidates providers inicializados e aptos a receber o upload
+   * @param defaultProvider primário quando nenhuma regra ou peso se aplica
+   */
+  async resolveRoute(
+    criteria: ProviderRouteCriteria,
+    candidates: IVirtualStagingProvider[],
+    defaultProvider: Provider
+  ): Promise<Provider[]> {
+    const policy = this.getPolicy();
+    const supported = candidates
+      .filter(provider => this.supportsCriteria(provider, criteria))
+      .map(provider => provider.name);
+
+    if (supported.length === 0) {
+      throw new Error(
+        `Nenhum provider disponível para ${criteria.roomType}/${criteria.furnitureStyle}`
+      );
+    }
+
+    const unhealthy = await this.getUnhealthyProviders(supported);
+    const rule = this.findRule(policy.rules, criteria);
+
+    // Ordem de preferência: pedido explícito > regra > peso > padrão > demais
+    const preferred: Provider[] = [];
+    if (criteria.preferredProvider) {
+      preferred.push(criteria.preferredProvider);
+    }
+    if (rule) {
+      preferred.push(...rule.providers);
+    }
+    const weighted = this.pickWeighted(policy.weights, supported, unhealthy);
+    if (weighted) {
+      preferred.push(weighted);
+    }
+    preferred.push(defaultProvider, ...supported);
+
+    const ordered = [...new Set(preferred)].filter(name => supported.includes(name));
+
+    // Providers degradados vão para o fim, exceto quando pedidos explicitamente
+    const route = [
+      ...ordered.filter(
+        name => name === criteria.preferredProvider || !unhealthy.has(name)
+      ),
+      ...ordered.filter(
+        name => name !== criteria.preferredProvider && unhealthy.has(name)
+      ),
+    ];
+
+    return policy.failover ? route : route.slice(0, 1);
+  }
+
+  /**
+   * Próximo provider da rota após o que falhou
+   * @param accepts filtro opcional (ex.: apenas providers com staging em etapas)
+   */
+  getNextProvider(
+    route: Provider[] | undefined,
+    failedProvider: Provider,
+    accepts: (provider: Provider) => boolean = () => true
+  ): Provider | null {
+    if (!route || !this.getPolicy().failover) {
+      return null;
+    }
+
+    const index = route.indexOf(failedProvider);
+    return (
+      route
+        .slice(index + 1)
+        .find(provider => provider !== failedProvider && accepts(provider)) ?? null
+    );
+  }
+
+  /**
+   * Providers com o circuito aberto
+   */
+  async getUnhealthyProviders(providers: Provider[]): Promise<Set<Provider>> {
+    const available = await Promise.all(
+      providers.map(provider => providerHealthService.isAvailable(provider))
+    );
+    return new Set(providers.filter((_, i) => !available[i]));
+  }
+
+  private getPolicy(): ProviderRoutingPolicy {
+    return providerConfigManager.getRoutingPolicy();
+  }
+
+  private supportsCriteria(
+    provider: IVirtualStagingProvider,
+    criteria: ProviderRouteCriteria
+  ): boolean {
+    const capabilities = provider.getCapabilities();
+    return (
+      (!capabilities.supportedRoomTypes ||
+        capabilities.supportedRoomTypes.includes(criteria.roomType)) &&
+      (!capabilities.supportedFurnitureStyles ||
+        capabilities.supportedFurnitureStyles.includes(criteria.furnitureStyle))
+    );
+  }
+
+  private findRule(
+    rules: ProviderRoutingRule[],
+    criteria: ProviderRouteCriteria
+  ): ProviderRoutingRule | undefined {
+    return rules.find(
+      rule =>
+        (!rule.roomTypes?.length || rule.roomTypes.includes(criteria.roomType)) &&
+        (!rule.furnitureStyles?.length ||
+          rule.furnitureStyles.includes(criteria.furnitureStyle))
+    );
+  }
+
+  /**
+   * Sorteia o primário conforme os pesos configurados, ignorando providers degradados
+   */
+  private pickWeighted(
+    weights: Partial<Record<Provider, number>>,
+    supported: Provider[],
+    unhealthy: Set<Provider>
+  ): Provider | null {
+    const entries = supported
+      .filter(provider => !unhealthy.has(provider))
+      .map(provider => [provider, weights[provider] ?? 0] as const)
+      .filter(([, weight]) => weight > 0);
+
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    if (total === 0) {
+      return null;
+    }
+
+    let roll = Math.random() * total;
+    for (const [provider, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) {
+        return provider;
+      }
+    }
+
+    return entries[entries.length - 1]?.[0] ?? null;
+  }
+}
+
+export const providerRoutingService = new ProviderRoutingService();
@@ -4,8 +4,12 @@ import {
   VirtualStagingResult,
   ProviderConfig,
   ProviderCapabilities,
+  StageExecutionOptions,
+  StageExecutionResult,
 } from '../../interfaces/virtual-staging-provider.interface';
 import { BaseService } from '../base.service';
+import { providerHealthService } from '../provider-health.service';
+import { webhookSignatureService } from '../webhook-signature.service';
 import {
   Provider,
   RoomType,
@@ -16,7 +20,11 @@ import {
   StagingPlan,
   StageSelectionConfig,
 } from '../../interfaces/upload.interface';
+import { StageOutcome } from '../../interfaces/stage-orchestration.interface';
+import { RenderedPrompt } from '../../interfaces/prompt-template.interface';
 import { stagingPlanService } from '../staging-plan.service';
+import { promptTemplateService } from '../prompt-template.service';
+import { promptLabelFromSlug } from '../../config/staging-catalog';
 import sharp from 'sharp';
 
 type KontextRequest = {
@@ -37,6 +45,13 @@ type KontextRequest = {
   webhook_secret?: string; // segredo para validação do webhook
 };
 
+// Header com o HMAC-SHA256 do corpo do webhook, assinado com o webhook_secret enviado
+export const BLACK_FOREST_SIGNATURE_HEADER = 'x-webhook-signature';
+
+// Maior lado da saída: alta resolução depende do plano do usuário
+const STANDARD_MAX_SIDE = 1024;
+const HIGH_RESOLUTION_MAX_SIDE = 1536;
+
 /**
  * Adapter para o Black Forest que implementa a interface comum
  */
@@ -50,12 +65,6 @@ export class BlackForestProvider
   readonly supportsWebhooks = true;
   readonly config: ProviderConfig;
 
-  // Cache temporário para jobIds recém-criados (para lidar com race conditions)
-  private static jobIdCache = new Map<
-    string,
-    { uploadId: string; stage: string; timestamp: number }
-  >();
-
   private readonly loraConfig: LoraConfig = {
     roomType: {
       bedroom: 'bedroom_lora',
@@ -96,54 +105,23 @@ export class BlackForestProvider
     this.config = config;
   }
 
-  // Métodos para gerenciar cache de jobIds
-  private static addToCache(
-    jobId: string,
-    uploadId: string,
-    stage: string
-  ): void {
-    console.log(
-      `[CACHE] Adding jobId ${jobId} to cache for upload ${uploadId}, stage: ${stage}`
-    );
-    BlackForestProvider.jobIdCache.set(jobId, {
-      uploadId,
-      stage,
-      timestamp: Date.now(),
-    });
-
-    // Limpar cache após 2 minutos para lidar com webhooks mais lentos
-    setTimeout(() => {
-      console.log(`[CACHE] Removing expired jobId ${jobId} from cache`);
-      BlackForestProvider.jobIdCache.delete(jobId);
-    }, 120000);
-  }
-
-  static getFromCache(
-    jobId: string
-  ): { uploadId: string; stage: string } | null {
-    console.log(
-      `[CACHE] Looking for jobId ${jobId} in cache. Cache size: ${BlackForestProvider.jobIdCache.size}`
-    );
-    const cached = BlackForestProvider.jobIdCache.get(jobId);
-    if (cached) {
-      const age = Date.now() - cached.timestamp;
-      console.log(`[CACHE] Found jobId ${jobId} in cache, age: ${age}ms`);
-      // Verificar se não expirou (máximo 2 minutos)
-      if (age < 120000) {
-        console.log(
-          `[CACHE] Cache hit for jobId ${jobId}, returning upload ${cached.uploadId}`
-        );
-        return { uploadId: cached.uploadId, stage: cached.stage };
-      } else {
-        console.log(
-          `[CACHE] Cache expired for jobId ${jobId}, removing from cache`
-        );
-        BlackForestProvider.jobIdCache.delete(jobId);
-      }
-    } else {
-      console.log(`[CACHE] Cache miss for jobId ${jobId}`);
+  /**
+   * Normaliza os status do Black Forest (webhook ou get_result) para o orquestrador
+   */
+  static toOutcomeStatus(status: string | undefined): StageOutcome['status'] {
+    switch (status) {
+      case 'SUCCESS':
+      case 'Ready':
+        return 'completed';
+      case 'FAILED':
+      case 'Error':
+      case 'Content Moderated':
+      case 'Request Moderated':
+      case 'Task not found':
+        return 'failed';
+      default:
+        return 'processing';
     }
-    return null;
   }
 
   // ------------ helpers de tamanho ------------
@@ -194,12 +172,20 @@ export class BlackForestProvider
   }
 
   // ------------ seed baseado no tipo de ambiente ------------
-  private getRoomTypeSeed(roomType: RoomType): number {
+  // Cômodos cadastrados depois (sem seed fixo) usam seed aleatório
+  private getRoomTypeSeed(roomType: RoomType): number | undefined {
     return this.roomTypeSeedConfig[roomType];
   }
 
   // ------------ prompt básico (você pode manter/ajustar depois) ------------
-  private generatePrompt(roomType: RoomType, furnitureStyle: FurnitureStyle) {
+  /**
+   * Prompt da chamada única, a partir do template "single" (A/B por upload)
+   */
+  private async generatePrompt(
+    roomType: RoomType,
+    furnitureStyle: FurnitureStyle,
+    uploadId: string
+  ): Promise<RenderedPrompt> {
     const roomTypeMap: Record<RoomType, string> = {
       bedroom: 'bedroom',
       living_room: 'living room',
@@ -221,18 +207,47 @@ export class BlackForestProvider
       farmhouse: 'farmhouse',
     };
 
-    return `Virtual staging of an empty ${roomTypeMap[roomType]} in ${styleMap[furnitureStyle]} style. Add only furniture and decor; do not change walls, floors, ceilings, doors, windows, lighting or architecture. Keep existing geometry and perspective intact. Photorealistic interior photography.`;
+    const roomLabel = roomTypeMap[roomType] ?? promptLabelFromSlug(roomType);
+    const styleLabel = styleMap[furnitureStyle] ?? promptLabelFromSlug(furnitureStyle);
+
+    return promptTemplateService.render(
+      'single',
+      { room: roomLabel, style: styleLabel },
+      { ...(uploadId && { assignmentKey: uploadId }) }
+    );
   }
 
   /**
    * Virtual staging com FLUX.1 Kontext Pro,
    * preservando a dimensão da foto original.
+   * A chamada passa pelo circuit breaker do provider.
    */
   async generateVirtualStaging(
     imageBase64: string,
-    prompt?: string,
-    opts?: {
+    prompt: string | undefined,
+    opts: {
+      uploadId: string; // Upload ao qual a URL de webhook assinada fica vinculada
       seed?: number;
+      highResolution?: boolean; // Saída até HIGH_RESOLUTION_MAX_SIDE (recurso de plano)
+      referenceImages?: {
+        image2?: string;
+        image3?: string;
+        image4?: string;
+      };
+    }
+  ): Promise<BlackForestApiResponse> {
+    return providerHealthService.execute(this.name, () =>
+      this.requestVirtualStaging(imageBase64, prompt, opts)
+    );
+  }
+
+  private async requestVirtualStaging(
+    imageBase64: string,
+    prompt: string | undefined,
+    opts: {
+      uploadId: string; // Upload ao qual a URL de webhook assinada fica vinculada
+      seed?: number;
+      highResolution?: boolean; // Saída até HIGH_RESOLUTION_MAX_SIDE (recurso de plano)
       referenceImages?: {
         image2?: string;
         image3?: string;
@@ -246,11 +261,17 @@ export class BlackForestProvider
         await this.getImageDimsFromBase64(imageBase64);
 
       // 2) Limita a faixa suportada e arredonda a múltiplos de 32
-      const { width: cw, height: ch } = this.clampToLimits(ow, oh, 512, 1536);
+      const { width: cw, height: ch } = this.clampToLimits(
+        ow,
+        oh,
+        512,
+        opts.highResolution ? HIGH_RESOLUTION_MAX_SIDE : STANDARD_MAX_SIDE
+      );
       const width = this.roundToMultiple(cw, 32);
       const height = this.roundToMultiple(ch, 32);
 
       // 3) Monta request body com W/H + aspect_ratio
+      const webhookSecret = webhookSignatureService.getSecret();
       const body: KontextRequest = {
         prompt: prompt ?? 'Add modern furniture only; do not change structure.',
         input_image: imageBase64,
@@ -261,16 +282,23 @@ export class BlackForestProvider
         output_format: 'png',
         safety_tolerance: 2,
         guidance: 3.5, // use somente se o provedor expõe este parâmetro para Kontext
-        ...(opts?.seed !== undefined && { seed: opts.seed }),
-        ...(this.config.webhookUrl && { webhook_url: this.config.webhookUrl }),
+        ...(opts.seed !== undefined && { seed: opts.seed }),
+        ...(this.config.webhookUrl && {
+          webhook_url: webhookSignatureService.signUrl(
+            this.config.webhookUrl,
+            this.name,
+            opts.uploadId
+          ),
+        }),
+        ...(webhookSecret && { webhook_secret: webhookSecret }),
         // Adicionar imagens de referência opcionais
-        ...(opts?.referenceImages?.image2 && {
+        ...(opts.referenceImages?.image2 && {
           input_image_2: opts.referenceImages.image2,
         }),
-        ...(opts?.referenceImages?.image3 && {
+        ...(opts.referenceImages?.image3 && {
           input_image_3: opts.referenceImages.image3,
         }),
-        ...(opts?.referenceImages?.image4 && {
+        ...(opts.referenceImages?.image4 && {
           input_image_4: opts.referenceImages.image4,
         }),
       };
@@ -397,9 +425,10 @@ export class BlackForestProvider
       });
 
       // Usar o método correto do flux-kontext-pro
-      const prompt = this.generatePrompt(
+      const { text: prompt, version: promptVersion } = await this.generatePrompt(
         params.roomType,
-        params.furnitureStyle
+        params.furnitureStyle,
+        params.uploadId
       );
 
       // Preparar imagens de referência se fornecidas
@@ -413,9 +442,11 @@ export class BlackForestProvider
         params.imageBase64 || '',
         prompt,
         {
+          uploadId: params.uploadId,
           ...(params.options?.seed !== undefined && {
             seed: params.options.seed,
           }),
+          ...(params.options?.highResolution && { highResolution: true }),
           ...(Object.keys(referenceImages).length > 0 && { referenceImages }),
         }
       );
@@ -437,6 +468,7 @@ export class BlackForestProvider
             polling_url: response.polling_url,
             progress: response.progress,
           },
+          promptTemplates: { single: promptVersion },
         };
       }
 
@@ -452,6 +484,44 @@ export class BlackForestProvider
     }
   }
 
+  /**
+   * Consulta o job no Black Forest e normaliza o resultado para o orquestrador
+   */
+  async pollStageOutcome(jobId: string): Promise<StageOutcome | null> {
+    try {
+      const response = await this.checkJobStatusInternal(jobId);
+
+      // Erros HTTP na consulta são transitórios; tentar novamente na próxima varredura
+      if (response.status === 'Error' && response.error?.startsWith('HTTP ')) {
+        this.logger.warn(`Black Forest polling error for job ${jobId}`, {
+          error: response.error,
+        });
+        return null;
+      }
+
+      const status = BlackForestProvider.toOutcomeStatus(response.status);
+      const imageUrl = response.result?.sample?.trim();
+      const errorMessage =
+        status === 'failed'
+          ? response.error || `Black Forest job ${response.status}`
+          : undefined;
+
+      return {
+        provider: this.name,
+        providerJobId: jobId,
+        status,
+        ...(imageUrl && { imageUrl }),
+        ...(errorMessage && { errorMessage }),
+        receivedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.warn(`Failed to poll Black Forest job ${jobId}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
   /**
    * Verifica status de job
    */
@@ -523,17 +593,6 @@ export class BlackForestProvider
       throw new Error('uploadId is required');
     }
 
-    const capabilities = this.getCapabilities();
-
-    if (!capabilities.supportedRoomTypes.includes(params.roomType)) {
-      throw new Error(`Unsupported room type: ${params.roomType}`);
-    }
-
-    if (
-      !capabilities.supportedFurnitureStyles.includes(params.furnitureStyle)
-    ) {
-      throw new Error(`Unsupported furniture style: ${params.furnitureStyle}`);
-    }
   }
 
   /**
@@ -543,26 +602,6 @@ export class BlackForestProvider
     return {
       maxImageSize: 10 * 1024 * 1024, // 10MB
       supportedFormats: ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'],
-      supportedRoomTypes: [
-        'bedroom',
-        'living_room',
-        'kitchen',
-        'bathroom',
-        'home_office',
-        'dining_room',
-        'kids_room',
-        'outdoor',
-      ] as RoomType[],
-      supportedFurnitureStyles: [
-        'standard',
-        'modern',
-        'scandinavian',
-        'industrial',
-        'midcentury',
-        'luxury',
-        'coastal',
-        'farmhouse',
-      ] as FurnitureStyle[],
       maxImagesPerRequest: 1,
       supportsCustomPrompts: true,
       supportsHighResolution: true,
@@ -726,28 +765,34 @@ export class BlackForestProvider
     stageConfig: any,
     roomType: RoomType,
     furnitureStyle: FurnitureStyle,
-    stageSelection?: StageSelectionConfig
-  ): Promise<{
-    success: boolean;
-    jobId?: string;
-    imageUrl?: string;
-    errorMessage?: string;
-  }> {
+    stageSelection?: StageSelectionConfig,
+    opts?: StageExecutionOptions
+  ): Promise<StageExecutionResult> {
     try {
       // Gerar prompt específico para a etapa
-      const prompt = stagingPlanService.generateStageSpecificPrompt(
+      const prompt = await stagingPlanService.generateStageSpecificPrompt(
         stageConfig.stage,
         roomType,
         furnitureStyle,
         0, // stageIndex não é usado no generateStageSpecificPrompt
-        stageSelection
+        stageSelection,
+        opts?.instruction,
+        { ...(opts?.promptTemplates && { versions: opts.promptTemplates }) },
+        opts?.palette
       );
 
       // Executar staging para esta etapa
-      // Usar seed específico do room type apenas para etapas após foundation
+      // Seed do upload (do usuário ou da paleta do imóvel) tem prioridade; caso contrário, usar seed
+      // específico do room type apenas para etapas após foundation
       const shouldUseSeed = stageConfig.stage !== 'foundation';
+      const seed =
+        opts?.seed ??
+        (shouldUseSeed ? this.getRoomTypeSeed(roomType) : undefined);
       const response = await this.generateVirtualStaging(imageBase64, prompt, {
-        ...(shouldUseSeed && { seed: this.getRoomTypeSeed(roomType) }),
+        uploadId,
+        ...(seed !== undefined && { seed }),
+        ...(opts?.highResolution && { highResolution: true }),
+        ...(opts?.referenceImages && { referenceImages: opts.referenceImages }),
       });
 
       if (response.error) {
@@ -762,47 +807,10 @@ export class BlackForestProvider
       }
 
       if (response.id) {
-        // IMPORTANTE: Adicionar ao cache IMEDIATAMENTE para webhooks rápidos
-        BlackForestProvider.addToCache(
-          response.id,
-          uploadId,
-          stageConfig.stage
-        );
-
-        // Salvar jobId no banco para persistência
-        try {
-          const { uploadRepository } = await import(
-            '../../repositories/upload.repository'
-          );
-          const upload = await uploadRepository.findById(uploadId);
-
-          if (upload) {
-            const updatedStageJobIds = {
-              ...(upload.stageJobIds || {}),
-              [stageConfig.stage]: response.id,
-            };
-
-            await uploadRepository.updateStageJobIds(
-              uploadId,
-              updatedStageJobIds
-            );
-            this.logger.info(
-              `Stage job created and saved for upload ${uploadId}`,
-              { jobId: response.id, stage: stageConfig.stage }
-            );
-          } else {
-            this.logger.warn(
-              `Upload not found when saving jobId for upload ${uploadId}`,
-              { jobId: response.id, stage: stageConfig.stage }
-            );
-          }
-        } catch (saveError) {
-          this.logger.error(
-            `Failed to save jobId immediately for upload ${uploadId}:`,
-            saveError as Error
-          );
-          // Continuar mesmo se falhar ao salvar, pois o cache e processNextStage lidarão com isso
-        }
+        this.logger.info(`Stage job created for upload ${uploadId}`, {
+          jobId: response.id,
+          stage: stageConfig.stage,
+        });
 
         return {
           success: true,
@@ -6,6 +6,8 @@ import {
   ProviderCapabilities,
 } from '../../interfaces/virtual-staging-provider.interface';
 import { BaseService } from '../base.service';
+import { providerHealthService } from '../provider-health.service';
+import { webhookSignatureService } from '../webhook-signature.service';
 import {
   Provider,
   RoomType,
@@ -21,6 +23,7 @@ import {
   InstantDecoTransformationType,
   InstantDecoBlockElement,
 } from '../../interfaces/instant-deco.interface';
+import { StageOutcome } from '../../interfaces/stage-orchestration.interface';
 
 /**
  * Adapter para o InstantDeco que implementa a interface comum
@@ -41,6 +44,28 @@ export class InstantDecoProvider
     this.config = config;
   }
 
+  /**
+   * Converte o payload do webhook para o resultado do orquestrador. A primeira
+   * imagem é a saída principal; todas seguem em imageUrls como variações.
+   */
+  static toStageOutcome(payload: InstantDecoWebhookResponse): StageOutcome {
+    const imageUrls = (Array.isArray(payload.output) ? payload.output : [payload.output])
+      .filter((url): url is string => typeof url === 'string' && url.length > 0);
+    const imageUrl = imageUrls[0];
+    const completed = payload.status === 'succeeded' && !!imageUrl;
+
+    return {
+      provider: 'instant-deco',
+      providerJobId: payload.request_id,
+      status: completed ? 'completed' : 'failed',
+      ...(completed && { imageUrl, imageUrls }),
+      ...(!completed && {
+        errorMessage: `InstantDeco processing failed with status: ${payload.status}`,
+      }),
+      receivedAt: new Date().toISOString(),
+    };
+  }
+
   /**
    * Mapeia RoomType interno para InstantDecoRoomType
    */
@@ -56,7 +81,8 @@ export class InstantDecoProvider
       outdoor: 'terrace', // Assumindo que outdoor é mais próximo de terrace
     };
 
-    return roomTypeMapping[roomType];
+    // Cômodos sem equivalente na InstantDeco usam o tipo mais genérico
+    return roomTypeMapping[roomType] ?? 'living_room';
   }
 
   /**
@@ -74,7 +100,7 @@ export class InstantDecoProvider
       farmhouse: 'rustic', // Farmhouse é próximo de rustic
     };
 
-    return styleMapping[furnitureStyle];
+    return styleMapping[furnitureStyle] ?? 'modern';
   }
 
   /**
@@ -128,12 +154,32 @@ export class InstantDecoProvider
 
   /**
    * Gera prompt para virtual staging usando InstantDeco
+   * (a chamada passa pelo circuit breaker do provider)
    */
   async generateVirtualStagingInternal(
     roomType: RoomType,
     furnitureStyle: FurnitureStyle,
     imageUrl: string,
     webhookUrl: string,
+    uploadId: string,
+    options?: {
+      transformationType?: InstantDecoTransformationType;
+      blockElements?: InstantDecoBlockElement[];
+      highDetailsResolution?: boolean;
+      numImages?: number;
+    }
+  ): Promise<InstantDecoInitialResponse> {
+    return providerHealthService.execute(this.name, () =>
+      this.requestVirtualStaging(roomType, furnitureStyle, imageUrl, webhookUrl, uploadId, options)
+    );
+  }
+
+  private async requestVirtualStaging(
+    roomType: RoomType,
+    furnitureStyle: FurnitureStyle,
+    imageUrl: string,
+    webhookUrl: string,
+    uploadId: string,
     options?: {
       transformationType?: InstantDecoTransformationType;
       blockElements?: InstantDecoBlockElement[];
@@ -155,9 +201,9 @@ export class InstantDecoProvider
         room_type: mappedRoomType,
         transformation_type: transformationType,
         block_element: blockElements.join(','),
-        high_details_resolution: true,
+        high_details_resolution: options?.highDetailsResolution ?? false,
         img_url: imageUrl,
-        webhook_url: webhookUrl,
+        webhook_url: webhookSignatureService.signUrl(webhookUrl, this.name, uploadId),
         num_images: Math.min(options?.numImages || 1, 4), // Max 4 images
       };
 
@@ -361,8 +407,9 @@ export class InstantDecoProvider
         params.furnitureStyle,
         imageUrl,
         params.webhookUrl,
+        params.uploadId,
         {
-          highDetailsResolution: params.options?.highResolution ?? true,
+          highDetailsResolution: params.options?.highResolution ?? false,
           numImages: params.options?.numImages ?? 3, // Padrão de 3 imagens
         }
       );
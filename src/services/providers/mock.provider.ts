@@ -0,0 +1,422 @@
+import { createHash, randomUUID } from 'crypto';
+import sharp from 'sharp';
+import {
+  IVirtualStagingProvider,
+  VirtualStagingParams,
+  VirtualStagingResult,
+  ProviderConfig,
+  ProviderCapabilities,
+  StageExecutionOptions,
+  StageExecutionResult,
+} from '../../interfaces/virtual-staging-provider.interface';
+import { BaseService } from '../base.service';
+import {
+  Provider,
+  RoomType,
+  FurnitureStyle,
+  StageSelectionConfig,
+  StagingStageConfig,
+} from '../../interfaces/upload.interface';
+import { StageOutcome } from '../../interfaces/stage-orchestration.interface';
+import {
+  MockJobRecord,
+  MockJobStatus,
+  MockProviderScenario,
+  MockWebhookPayload,
+} from '../../interfaces/mock-provider.interface';
+import { stagingPlanService } from '../staging-plan.service';
+import { webhookSignatureService } from '../webhook-signature.service';
+import { redis } from '../../lib/redis';
+
+const JOB_KEY_PREFIX = 'mock-provider:job:';
+const IMAGE_KEY_PREFIX = 'mock-provider:image:';
+const JOB_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Provider local e determinístico para desenvolvimento e CI.
+ *
+ * Não chama nenhuma API externa: a imagem de saída é derivada da entrada com
+ * sharp (mesma entrada + etapa + seed = mesma saída) e guardada no Redis,
+ * servida por GET /api/v1/webhooks/mock/images/:jobId. O resultado fica
+ * disponível após o atraso configurado e é entregue por webhook e/ou polling,
+ * exatamente como nos providers reais.
+ *
+ * Configuração (ver provider.config.ts): delayMs, scenario, failStage e
+ * webhooksEnabled, lidos de MOCK_PROVIDER_*.
+ */
+export class MockProvider
+  extends BaseService
+  implements IVirtualStagingProvider
+{
+  readonly name: Provider = 'mock';
+  readonly version = '1.0.0';
+  readonly isAsync = true;
+  readonly supportsWebhooks = true;
+  readonly config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    super();
+    this.config = config;
+  }
+
+  /**
+   * Converte o payload do webhook mock para o resultado de etapa do orquestrador
+   */
+  static toStageOutcome(payload: MockWebhookPayload): StageOutcome {
+    const errorMessage =
+      payload.status === 'moderated'
+        ? payload.error || 'Content moderated by provider'
+        : payload.error;
+
+    return {
+      provider: 'mock',
+      providerJobId: payload.id,
+      status: payload.status === 'completed' ? 'completed' : 'failed',
+      ...(payload.imageUrl && { imageUrl: payload.imageUrl }),
+      ...(payload.status !== 'completed' && errorMessage && { errorMessage }),
+      receivedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Imagem gerada por um job (servida pela rota de imagens do mock)
+   */
+  static async loadImage(jobId: string): Promise<Buffer | null> {
+    return redis.getBuffer(`${IMAGE_KEY_PREFIX}${jobId}`);
+  }
+
+  async processVirtualStaging(params: VirtualStagingParams): Promise<VirtualStagingResult> {
+    this.validateParams(params);
+
+    const imageBase64 = params.imageBase64;
+    if (!imageBase64) {
+      return { success: false, errorMessage: 'imageBase64 é obrigatório para o provider mock' };
+    }
+
+    const result = await this.submitJob({
+      uploadId: params.uploadId,
+      imageBase64,
+      label: `${params.roomType} / ${params.furnitureStyle}`,
+      stage: undefined,
+      seed: params.options?.seed,
+      webhookUrl: params.webhookUrl,
+    });
+
+    return result.success
+      ? { success: true, requestId: result.jobId!, metadata: { status: 'processing' } }
+      : { success: false, errorMessage: result.errorMessage! };
+  }
+
+  /**
+   * Gera o plano e submete apenas a primeira etapa, como o Black Forest
+   */
+  async processVirtualStagingInStages(params: VirtualStagingParams): Promise<VirtualStagingResult> {
+    if (!params.imageBase64) {
+      return {
+        success: false,
+        errorMessage: 'imageBase64 é obrigatório para processamento em etapas',
+      };
+    }
+
+    const plan = await stagingPlanService.generateStagingPlan(
+      params.roomType,
+      params.furnitureStyle,
+      params.stageSelection
+    );
+    const firstStage = plan.stages[0];
+    if (!firstStage) {
+      return {
+        success: false,
+        errorMessage: 'Plano de staging inválido - nenhuma etapa encontrada',
+      };
+    }
+
+    const result = await this.executeStage(
+      params.uploadId,
+      params.imageBase64,
+      firstStage,
+      params.roomType,
+      params.furnitureStyle,
+      params.stageSelection,
+      { ...(params.options?.seed !== undefined && { seed: params.options.seed }) }
+    );
+
+    return result.success
+      ? {
+          success: true,
+          requestId: result.jobId!,
+          metadata: { status: 'processing', stage: firstStage.stage, totalStages: plan.stages.length },
+        }
+      : { success: false, errorMessage: result.errorMessage! };
+  }
+
+  async executeStage(
+    uploadId: string,
+    imageBase64: string,
+    stageConfig: StagingStageConfig,
+    roomType: RoomType,
+    furnitureStyle: FurnitureStyle,
+    _stageSelection?: StageSelectionConfig,
+    opts?: StageExecutionOptions
+  ): Promise<StageExecutionResult> {
+    return this.submitJob({
+      uploadId,
+      imageBase64,
+      label: `${stageConfig.stage} - ${roomType} / ${furnitureStyle}`,
+      stage: stageConfig.stage,
+      seed: opts?.seed,
+      webhookUrl: this.config.webhookUrl,
+    });
+  }
+
+  async checkJobStatus(jobId: string): Promise<VirtualStagingResult> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return { success: false, requestId: jobId, errorMessage: 'Task not found' };
+    }
+
+    if (Date.now() < job.readyAt) {
+      return { success: true, requestId: jobId, metadata: { status: 'processing' } };
+    }
+
+    return job.status === 'completed'
+      ? {
+          success: true,
+          requestId: jobId,
+          outputImageUrl: job.imageUrl!,
+          metadata: { status: 'completed', provider: this.name },
+        }
+      : { success: false, requestId: jobId, errorMessage: this.getJobError(job) };
+  }
+
+  async pollStageOutcome(jobId: string): Promise<StageOutcome | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return {
+        provider: this.name,
+        providerJobId: jobId,
+        status: 'failed',
+        errorMessage: 'Mock job not found',
+        receivedAt: new Date().toISOString(),
+      };
+    }
+
+    if (Date.now() < job.readyAt) {
+      return {
+        provider: this.name,
+        providerJobId: jobId,
+        status: 'processing',
+        receivedAt: new Date().toISOString(),
+      };
+    }
+
+    return MockProvider.toStageOutcome(this.toWebhookPayload(job));
+  }
+
+  async processWebhookResponse(webhookData: MockWebhookPayload): Promise<VirtualStagingResult> {
+
+    if (webhookData.status === 'completed' && webhookData.imageUrl) {
+      return {
+        success: true,
+        requestId: webhookData.id,
+        outputImageUrl: webhookData.imageUrl,
+        metadata: { status: 'completed', provider: this.name },
+      };
+    }
+
+    return {
+      success: false,
+      requestId: webhookData.id,
+      errorMessage: webhookData.error || `Processing failed with status: ${webhookData.status}`,
+    };
+  }
+
+  validateConfiguration(): boolean {
+    if (!this.config.baseUrl) {
+      this.logger.error('Mock provider missing required config: baseUrl');
+      return false;
+    }
+    return true;
+  }
+
+  validateParams(params: VirtualStagingParams): void {
+    if (!params.imageBase64 && !params.imageUrl) {
+      throw new Error('Either imageBase64 or imageUrl is required');
+    }
+
+    if (!params.roomType) {
+      throw new Error('roomType is required');
+    }
+
+    if (!params.furnitureStyle) {
+      throw new Error('furnitureStyle is required');
+    }
+
+    if (!params.uploadId) {
+      throw new Error('uploadId is required');
+    }
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      maxImageSize: 10 * 1024 * 1024, // 10MB
+      supportedFormats: ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'],
+      maxImagesPerRequest: 1,
+      supportsCustomPrompts: false,
+      supportsHighResolution: false,
+      estimatedProcessingTime: Math.ceil(this.getDelayMs() / 1000),
+    };
+  }
+
+  getProviderInfo() {
+    return {
+      name: this.name,
+      version: this.version,
+      capabilities: this.getCapabilities(),
+      supportsWebhooks: true,
+      supportsPolling: true,
+      asyncOnly: true,
+    };
+  }
+
+  /**
+   * Gera a saída, registra o job no Redis e agenda o webhook
+   */
+  private async submitJob(params: {
+    uploadId: string;
+    imageBase64: string;
+    label: string;
+    stage: string | undefined;
+    seed: number | undefined;
+    webhookUrl: string | undefined;
+  }): Promise<StageExecutionResult> {
+    const scenario = this.getScenarioFor(params.stage);
+
+    if (scenario === 'submit_error') {
+      this.logger.warn(`Mock provider rejecting submission for upload ${params.uploadId}`);
+      return { success: false, errorMessage: 'Mock provider rejected the request (submit_error)' };
+    }
+
+    const jobId = `mock-${randomUUID()}`;
+    const status: MockJobStatus =
+      scenario === 'error' ? 'failed' : scenario === 'moderated' ? 'moderated' : 'completed';
+
+    let imageUrl: string | undefined;
+    if (status === 'completed') {
+      const output = await this.renderOutput(params.imageBase64, params.label, params.seed);
+      await redis.set(`${IMAGE_KEY_PREFIX}${jobId}`, output, 'EX', JOB_TTL_SECONDS);
+      imageUrl = `${this.config.baseUrl}/api/v1/webhooks/mock/images/${jobId}`;
+    }
+
+    const job: MockJobRecord = {
+      id: jobId,
+      uploadId: params.uploadId,
+      status,
+      readyAt: Date.now() + this.getDelayMs(),
+      ...(imageUrl && { imageUrl }),
+      ...(status === 'failed' && { error: 'Simulated provider error' }),
+      ...(params.webhookUrl && {
+        webhookUrl: webhookSignatureService.signUrl(
+          params.webhookUrl,
+          this.name,
+          params.uploadId
+        ),
+      }),
+    };
+    await redis.set(`${JOB_KEY_PREFIX}${jobId}`, JSON.stringify(job), 'EX', JOB_TTL_SECONDS);
+
+    if (job.webhookUrl && this.config.webhooksEnabled !== false) {
+      setTimeout(() => void this.deliverWebhook(job), this.getDelayMs()).unref();
+    }
+
+    this.logger.info(`Mock job ${jobId} submitted for upload ${params.uploadId}`, {
+      stage: params.stage,
+      scenario,
+    });
+    return { success: true, jobId };
+  }
+
+  /**
+   * Deriva a saída da entrada de forma determinística: leve rotação de matiz
+   * definida pelo seed/rótulo e uma faixa identificando a etapa
+   */
+  private async renderOutput(imageBase64: string, label: string, seed?: number): Promise<Buffer> {
+    const input = Buffer.from(imageBase64.replace(/^data:[^;]+;base64,/, ''), 'base64');
+    const { data, info } = await sharp(input).rotate().toBuffer({ resolveWithObject: true });
+
+    const hash = createHash('sha256').update(`${label}:${seed ?? ''}`).digest();
+    const hue = (hash[0] ?? 0) % 30;
+    const bandHeight = Math.max(24, Math.round(info.height * 0.06));
+    const text = `MOCK ${label}`.replace(/[<>&"']/g, '');
+    const overlay = Buffer.from(
+      `<svg width="${info.width}" height="${bandHeight}">` +
+        `<rect width="100%" height="100%" fill="black" fill-opacity="0.55"/>` +
+        `<text x="12" y="${Math.round(bandHeight * 0.7)}" font-family="sans-serif" ` +
+        `font-size="${Math.round(bandHeight * 0.5)}" fill="white">${text}</text>` +
+        `</svg>`
+    );
+
+    return sharp(data)
+      .modulate({ hue })
+      .composite([{ input: overlay, left: 0, top: info.height - bandHeight }])
+      .jpeg({ quality: 85 })
+      .toBuffer();
+  }
+
+  private async deliverWebhook(job: MockJobRecord): Promise<void> {
+    try {
+      const response = await fetch(job.webhookUrl!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(this.toWebhookPayload(job)),
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (!response.ok) {
+        this.logger.warn(`Mock webhook for job ${job.id} returned HTTP ${response.status}`);
+      }
+    } catch (error) {
+      // O polling entrega o resultado se o webhook falhar
+      this.logger.warn(`Mock webhook delivery failed for job ${job.id}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private async getJob(jobId: string): Promise<MockJobRecord | null> {
+    const raw = await redis.get(`${JOB_KEY_PREFIX}${jobId}`);
+    return raw ? (JSON.parse(raw) as MockJobRecord) : null;
+  }
+
+  private toWebhookPayload(job: MockJobRecord): MockWebhookPayload {
+    return {
+      id: job.id,
+      status: job.status,
+      ...(job.imageUrl && { imageUrl: job.imageUrl }),
+      ...(job.status !== 'completed' && { error: this.getJobError(job) }),
+    };
+  }
+
+  private getJobError(job: MockJobRecord): string {
+    return job.status === 'moderated'
+      ? 'Content moderated by provider'
+      : job.error || 'Simulated provider error';
+  }
+
+  /**
+   * Cenário aplicado a uma etapa: com failStage definido, as demais etapas seguem em sucesso
+   */
+  private getScenarioFor(stage: string | undefined): MockProviderScenario {
+    const scenario = (this.config.scenario as MockProviderScenario | undefined) ?? 'success';
+    const failStage = this.config.failStage as string | undefined;
+
+    if (failStage && stage !== failStage) {
+      return 'success';
+    }
+    return scenario;
+  }
+
+  private getDelayMs(): number {
+    return (this.config.delayMs as number | undefined) ?? 3000;
+  }
+}
@@ -2,6 +2,8 @@ import { IVirtualStagingProvider, ProviderConfig } from '../../interfaces/virtua
 import { Provider } from '../../interfaces/upload.interface';
 import { BlackForestProvider } from './black-forest.provider';
 import { InstantDecoProvider } from './instant-deco.provider';
+import { MockProvider } from './mock.provider';
+import { providerConfigManager } from '../../config/provider.config';
 
 /**
  * Factory para criar instâncias de providers de virtual staging
@@ -10,6 +12,7 @@ export class VirtualStagingProviderFactory {
   private static providers = new Map<Provider, new (config: ProviderConfig) => IVirtualStagingProvider>([
     ['black-forest', BlackForestProvider],
     ['instant-deco', InstantDecoProvider],
+    ['mock', MockProvider],
   ]);
 
   /**
@@ -32,6 +35,18 @@ export class VirtualStagingProviderFactory {
     return provider;
   }
 
+  /**
+   * Cria o provider com a configuração carregada das variáveis de ambiente
+   */
+  static createConfiguredProvider(providerName: Provider): IVirtualStagingProvider {
+    const config = providerConfigManager.getConfig(providerName);
+    if (!config) {
+      throw new Error(`Provider '${providerName}' is not configured`);
+    }
+
+    return this.createProvider(providerName, config);
+  }
+
   /**
    * Lista todos os providers disponíveis
    */
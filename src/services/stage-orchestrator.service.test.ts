@@ -0,0 +1,436 @@
+import sharp from 'sharp';
+import { StageOrchestratorService } from './stage-orchestrator.service';
+import { MockProvider } from './providers/mock.provider';
+import { VirtualStagingProviderFactory } from './providers/provider.factory';
+import { creditService } from './credit.service';
+import { brandingService } from './branding.service';
+import { stagingEventsService } from './staging-events.service';
+import { customerWebhookService } from './customer-webhook.service';
+import { providerHealthService } from './provider-health.service';
+import { providerRoutingService } from './provider-routing.service';
+import { uploadRepository } from '../repositories/upload.repository';
+import { stageJobRepository } from '../repositories/stage-job.repository';
+import { imageProcessingQueue, stageOrchestrationQueue } from '../lib/queues';
+import { loadImage, loadImageAsDataUrl } from '../utils/image-source.util';
+import { StageJob } from '../types/database';
+import { ProviderConfig } from '../interfaces/virtual-staging-provider.interface';
+import {
+  Provider,
+  StagingStage,
+  StagingStageConfig,
+  StagingStageResult,
+  Upload,
+} from '../interfaces/upload.interface';
+import { IMAGE_PROCESSING_JOB_NAME } from '../interfaces/image-processing.interface';
+import {
+  STAGE_JOB_NAMES,
+  StageSubmissionJobData,
+} from '../interfaces/stage-orchestration.interface';
+
+// Provider mock real (imagens geradas com sharp), com o Redis em memória e sem webhooks
+jest.mock('./providers/provider.factory', () => {
+  const { MockProvider } = jest.requireActual('./providers/mock.provider');
+  const config = { apiKey: 'mock', baseUrl: 'http://mock.test', delayMs: 0, scenario: 'success' };
+  return {
+    VirtualStagingProviderFactory: {
+      config,
+      createConfiguredProvider: () => new MockProvider(config),
+    },
+  };
+});
+jest.mock('../lib/redis', () => {
+  const store = new Map<string, string | Buffer>();
+  return {
+    redis: {
+      set: async (key: string, value: string | Buffer) => store.set(key, value) && 'OK',
+      get: async (key: string) => store.get(key)?.toString() ?? null,
+      getBuffer: async (key: string) => {
+        const value = store.get(key);
+        return value === undefined ? null : Buffer.from(value);
+      },
+    },
+  };
+});
+
+// Tabela stage_jobs em memória com as mesmas transições condicionais do repositório
+jest.mock('../repositories/stage-job.repository', () => {
+  const state = { jobs: [] as StageJob[] };
+  const findAttempt = async (uploadId: string, stageIndex: number, attempt: number) =>
+    state.jobs.find(
+      job => job.uploadId === uploadId && job.stageIndex === stageIndex && job.attempt === attempt
+    ) ?? null;
+
+  return {
+    stageJobRepository: {
+      state,
+      findAttempt,
+      async create(
+        data: Pick<StageJob, 'uploadId' | 'stageIndex' | 'attempt'> & Partial<StageJob>
+      ) {
+        const existing = await findAttempt(data.uploadId, data.stageIndex, data.attempt);
+        if (existing) {
+          return existing;
+        }
+        const job = {
+          id: `stage-job-${state.jobs.length + 1}`,
+          runAttempt: 1,
+          retryCount: 0,
+          instruction: null,
+          providerJobId: null,
+          status: 'pending',
+          outputImageUrl: null,
+          errorMessage: null,
+          submittedAt: null,
+          completedAt: null,
+          transitionedAt: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          ...data,
+        } as StageJob;
+        state.jobs.push(job);
+        return job;
+      },
+      async findLatestAttempt(uploadId: string, stageIndex: number) {
+        const attempts = state.jobs
+          .filter(job => job.uploadId === uploadId && job.stageIndex === stageIndex)
+          .sort((a, b) => b.attempt - a.attempt);
+        return attempts[0] ?? null;
+      },
+      async findByProviderJobId(providerJobId: string) {
+        return state.jobs.find(job => job.providerJobId === providerJobId) ?? null;
+      },
+      async markSubmitted(id: string, providerJobId: string) {
+        const job = state.jobs.find(item => item.id === id && item.status === 'pending');
+        return job
+          ? Object.assign(job, { providerJobId, status: 'submitted', submittedAt: new Date() })
+          : null;
+      },
+      async markFinished(
+        id: string,
+        result: { status: 'completed' | 'failed'; outputImageUrl?: string; errorMessage?: string }
+      ) {
+        const job = state.jobs.find(
+          item => item.id === id && (item.status === 'pending' || item.status === 'submitted')
+        );
+        return job
+          ? Object.assign(job, {
+              status: result.status,
+              outputImageUrl: result.outputImageUrl ?? null,
+              errorMessage: result.errorMessage ?? null,
+              completedAt: new Date(),
+            })
+          : null;
+      },
+      async markTransitioned(id: string) {
+        const job = state.jobs.find(item => item.id === id);
+        if (job) {
+          job.transitionedAt = new Date();
+        }
+      },
+    },
+  };
+});
+jest.mock('../repositories/upload.repository', () => {
+  const state = { upload: null as Upload | null };
+  const current = async () => (state.upload ? { ...state.upload } : null);
+
+  return {
+    uploadRepository: {
+      state,
+      findById: current,
+      findByInstantDecoRequestId: async () => null,
+      findByBlackForestJobId: async () => null,
+      updateStageSubmission: async (_id: string, currentStage: StagingStage) => {
+        Object.assign(state.upload!, { currentStage });
+        return current();
+      },
+      appendStageResult: async (_id: string, result: StagingStageResult) => {
+        state.upload!.stageResults = [...(state.upload!.stageResults ?? []), result];
+        return current();
+      },
+      completeStaging: async (_id: string, outputImageUrl: string) => {
+        Object.assign(state.upload!, { status: 'completed', outputImageUrl });
+        return current();
+      },
+      updateStatus: async (_id: string, status: Upload['status'], errorMessage?: string) => {
+        Object.assign(state.upload!, { status, errorMessage });
+        return current();
+      },
+      reassignForFailover: async (_id: string, _failed: Provider, provider: Provider) => {
+        Object.assign(state.upload!, { provider });
+        return current();
+      },
+    },
+  };
+});
+jest.mock('../lib/queues', () => ({
+  stageOrchestrationQueue: { add: jest.fn() },
+  imageProcessingQueue: { add: jest.fn() },
+}));
+jest.mock('../lib/s3', () => ({
+  s3Service: {
+    generateFileKey: () => 'outputs/user-1/output.jpg',
+    uploadFile: async (key: string) => `https://s3.test/${key}`,
+  },
+}));
+jest.mock('../utils/image-source.util', () => ({
+  loadImage: jest.fn(),
+  loadImageAsDataUrl: jest.fn(),
+}));
+jest.mock('./staging-plan.service', () => ({ stagingPlanService: {} }));
+jest.mock('./staging-validation.service', () => ({
+  stagingValidationService: {
+    validateStage: async () => ({
+      passed: true,
+      itemCount: 2,
+      hasWallDecor: false,
+      hasWindowTreatments: false,
+      doorsBlocked: false,
+      stairsBlocked: false,
+      colorDeviationDetected: false,
+      architectureDriftExceeded: false,
+      errors: [],
+    }),
+  },
+}));
+jest.mock('./architecture-mask.service', () => ({
+  architectureMaskService: { applyToOutput: async (_upload: unknown, url: string) => url },
+}));
+jest.mock('./branding.service', () => ({
+  brandingService: {
+    applyToOutput: jest.fn(async (_upload: unknown, url: string) => ({
+      outputImageUrl: url,
+      brandedAt: null,
+      disclosureApplied: false,
+      unbrandedOutputImageUrl: null,
+    })),
+  },
+}));
+jest.mock('./credit.service', () => ({
+  creditService: { captureForUpload: jest.fn(), refundForUpload: jest.fn() },
+}));
+jest.mock('./provider-routing.service', () => ({
+  providerRoutingService: { getNextProvider: jest.fn(() => null) },
+}));
+jest.mock('./provider-health.service', () => ({
+  providerHealthService: { recordOutcome: jest.fn() },
+}));
+jest.mock('./customer-webhook.service', () => ({ customerWebhookService: { emit: jest.fn() } }));
+jest.mock('./staging-events.service', () => ({ stagingEventsService: { publish: jest.fn() } }));
+jest.mock('./listing.service', () => ({
+  listingService: { handleUploadFinished: jest.fn() },
+}));
+jest.mock('../lib/logger');
+
+const stageJobs = (stageJobRepository as unknown as { state: { jobs: StageJob[] } }).state;
+const uploads = (uploadRepository as unknown as { state: { upload: Upload | null } }).state;
+const mockConfig = (VirtualStagingProviderFactory as unknown as { config: ProviderConfig }).config;
+const queueAdd = jest.mocked(stageOrchestrationQueue.add);
+
+const stage = (name: StagingStage): StagingStageConfig => ({
+  stage: name,
+  minItems: 1,
+  maxItems: 3,
+  allowedCategories: [],
+  validationRules: [],
+  prompt: `${name} prompt`,
+});
+
+describe('StageOrchestratorService com o provider mock', () => {
+  const service = new StageOrchestratorService();
+  const provider = VirtualStagingProviderFactory.createConfiguredProvider(
+    'mock'
+  ) as MockProvider;
+  const inputImageUrl = 'https://s3.test/inputs/room.jpg';
+
+  beforeAll(async () => {
+    const room = await sharp({
+      create: { width: 64, height: 48, channels: 3, background: { r: 200, g: 180, b: 160 } },
+    })
+      .jpeg()
+      .toBuffer();
+    jest
+      .mocked(loadImageAsDataUrl)
+      .mockResolvedValue(`data:image/jpeg;base64,${room.toString('base64')}`);
+    jest.mocked(loadImage).mockResolvedValue({ buffer: room, contentType: 'image/jpeg' });
+  });
+
+  beforeEach(() => {
+    Object.assign(mockConfig, { scenario: 'success', failStage: undefined });
+    stageJobs.jobs = [];
+    uploads.upload = {
+      id: 'upload-1',
+      userId: 'user-1',
+      status: 'processing',
+      provider: 'mock',
+      roomType: 'living_room',
+      furnitureStyle: 'modern',
+      inputImageUrl,
+      stageResults: [],
+      stagingPlan: {
+        roomType: 'living_room',
+        furnitureStyle: 'modern',
+        stages: [stage('foundation'), stage('complement')],
+        globalRules: [],
+      },
+    } as unknown as Upload;
+  });
+
+  /**
+   * Submete a tentativa e busca o resultado no provider, como o polling faria
+   */
+  async function runAttempt(data: StageSubmissionJobData) {
+    await service.submitStage(data);
+    const job = stageJobs.jobs.find(
+      item => item.stageIndex === data.stageIndex && item.attempt === data.attempt
+    );
+    const outcome = await provider.pollStageOutcome(job!.providerJobId!);
+    return outcome!;
+  }
+
+  const submissions = () =>
+    queueAdd.mock.calls
+      .filter(([name]) => name === STAGE_JOB_NAMES.SUBMIT_STAGE)
+      .map(([, data]) => data as StageSubmissionJobData);
+
+  const stageResults = (): StagingStageResult[] => uploads.upload!.stageResults ?? [];
+
+  const firstAttempt = (): StageSubmissionJobData => ({
+    uploadId: 'upload-1',
+    stageIndex: 0,
+    attempt: 1,
+    inputImageUrl,
+  });
+
+  it('processa o resultado duplicado (polling + webhook) uma única vez', async () => {
+    const outcome = await runAttempt(firstAttempt());
+    expect(outcome.status).toBe('completed');
+
+    await service.processOutcome(outcome);
+    await service.processOutcome(
+      MockProvider.toStageOutcome({
+        id: outcome.providerJobId,
+        status: 'completed',
+        imageUrl: outcome.imageUrl!,
+      })
+    );
+
+    expect(stageResults()).toHaveLength(1);
+    expect(stageResults()[0]).toMatchObject({
+      stage: 'foundation',
+      success: true,
+      provider: 'mock',
+    });
+    expect(submissions()).toEqual([
+      expect.objectContaining({
+        stageIndex: 1,
+        attempt: 1,
+        inputImageUrl: outcome.imageUrl,
+        provider: 'mock',
+      }),
+    ]);
+    expect(providerHealthService.recordOutcome).toHaveBeenCalledTimes(1);
+  });
+
+  it('repete a etapa e falha o upload quando as tentativas se esgotam', async () => {
+    mockConfig.scenario = 'error';
+
+    const first = await runAttempt(firstAttempt());
+    await service.processOutcome(first);
+
+    const [retry] = submissions();
+    expect(retry).toMatchObject({
+      stageIndex: 0,
+      attempt: 2,
+      runAttempt: 2,
+      retryCount: 1,
+      inputImageUrl,
+    });
+
+    const second = await runAttempt(retry!);
+    await service.processOutcome(second);
+    // Resultado repetido depois da falha não reabre a etapa
+    await service.processOutcome(second);
+
+    expect(submissions()).toHaveLength(1);
+    expect(stageResults()).toEqual([
+      expect.objectContaining({ stage: 'foundation', success: false, retryCount: 1 }),
+    ]);
+    expect(uploads.upload!.status).toBe('failed');
+    expect(creditService.refundForUpload).toHaveBeenCalledTimes(1);
+    expect(creditService.captureForUpload).not.toHaveBeenCalled();
+  });
+
+  it('não conta as tentativas de regenerações anteriores como retentativas', async () => {
+    // Terceira tentativa da etapa, primeira depois de uma regeneração
+    await service.processOutcome(await runAttempt({ ...firstAttempt(), attempt: 3 }));
+
+    expect(stageResults()).toEqual([
+      expect.objectContaining({ stage: 'foundation', success: true, retryCount: 0 }),
+    ]);
+    expect(submissions()).toEqual([expect.objectContaining({ stageIndex: 1, attempt: 1 })]);
+  });
+
+  it('conclui com a última etapa concluída quando a seguinte esgota as tentativas', async () => {
+    Object.assign(mockConfig, { scenario: 'error', failStage: 'complement' });
+
+    const foundation = await runAttempt(firstAttempt());
+    await service.processOutcome(foundation);
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const next = submissions().at(-1)!;
+      expect(next).toMatchObject({ stageIndex: 1, attempt: attempt + 1 });
+      await service.processOutcome(await runAttempt(next));
+    }
+
+    expect(submissions()).toHaveLength(2);
+    expect(uploads.upload!.status).toBe('completed');
+    expect(creditService.captureForUpload).toHaveBeenCalledWith('upload-1');
+    expect(creditService.refundForUpload).not.toHaveBeenCalled();
+  });
+
+  it('publica só a imagem com marca na última etapa sem o original no plano', async () => {
+    const brandedUrl = 'https://s3.test/outputs/user-1/branded.jpg';
+    jest.mocked(brandingService.applyToOutput).mockResolvedValueOnce({
+      outputImageUrl: brandedUrl,
+      brandedAt: new Date(),
+      disclosureApplied: true,
+      unbrandedOutputImageUrl: null,
+    });
+
+    await service.processOutcome(await runAttempt(firstAttempt()));
+    const complement = await runAttempt(submissions()[0]!);
+    await service.processOutcome(complement);
+
+    expect(uploads.upload!.status).toBe('completed');
+    expect(stageResults().map(result => result.imageUrl)).toEqual([
+      expect.any(String),
+      brandedUrl,
+    ]);
+    const published = [
+      ...jest.mocked(stagingEventsService.publish).mock.calls.map(([, , data]) => data),
+      ...jest.mocked(customerWebhookService.emit).mock.calls.map(([, , data]) => data),
+    ];
+    expect(published).not.toContainEqual(
+      expect.objectContaining({ imageUrl: complement.imageUrl })
+    );
+    expect(published).toContainEqual({ stage: 'complement', imageUrl: brandedUrl });
+  });
+
+  it('reenfileira o upload simples no próximo provider com seed e alta resolução', async () => {
+    jest.mocked(providerRoutingService.getNextProvider).mockReturnValueOnce('instant-deco');
+    Object.assign(uploads.upload!, {
+      stagingPlan: undefined,
+      processingOptions: { seed: 42, highResolution: true },
+    });
+
+    await service.handleSimpleUploadFailure(uploads.upload!, 'mock', 'Falha no provider');
+
+    expect(uploads.upload!.provider).toBe('instant-deco');
+    expect(imageProcessingQueue.add).toHaveBeenCalledWith(
+      IMAGE_PROCESSING_JOB_NAME,
+      { uploadId: 'upload-1', mode: 'single', seed: 42, highResolution: true },
+      { jobId: 'upload-upload-1-instant-deco' }
+    );
+  });
+});
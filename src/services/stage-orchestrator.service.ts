@@ -0,0 +1,1210 @@
+import { BaseService } from './base.service';
+import { stagingPlanService } from './staging-plan.service';
+import { stagingValidationService } from './staging-validation.service';
+import { creditService } from './credit.service';
+import { providerRoutingService } from './provider-routing.service';
+import { providerHealthService } from './provider-health.service';
+import { customerWebhookService } from './customer-webhook.service';
+import { stagingEventsService } from './staging-events.service';
+import { listingService } from './listing.service';
+import { architectureMaskService } from './architecture-mask.service';
+import { brandingService } from './branding.service';
+import { VirtualStagingProviderFactory } from './providers/provider.factory';
+import { uploadRepository } from '../repositories/upload.repository';
+import { stageJobRepository } from '../repositories/stage-job.repository';
+import { stageOrchestrationQueue, imageProcessingQueue } from '../lib/queues';
+import { s3Service } from '../lib/s3';
+import { loadImage, loadImageAsDataUrl } from '../utils/image-source.util';
+import { StageJob } from '../types/database';
+import { IVirtualStagingProvider } from '../interfaces/virtual-staging-provider.interface';
+import { IMAGE_PROCESSING_JOB_NAME } from '../interfaces/image-processing.interface';
+import {
+  Provider,
+  Upload,
+  StagingPlan,
+  StagingStage,
+  StagingStageResult,
+  StagingValidationResult,
+  StageSelectionConfig,
+} from '../interfaces/upload.interface';
+import {
+  STAGE_JOB_NAMES,
+  StartStagingParams,
+  StageSubmissionJobData,
+  StageOutcome,
+  StageResumePoint,
+  StagingRetryResult,
+  StageRegenerationResult,
+} from '../interfaces/stage-orchestration.interface';
+import { BrandedOutput } from '../interfaces/branding.interface';
+
+// Saída final com a marca do usuário; exposeOriginal indica se a imagem sem
+// marca (e as variações do provider) podem ser publicadas
+interface FinalOutput {
+  branding: BrandedOutput;
+  exposeOriginal: boolean;
+}
+
+/**
+ * Orquestrador durável do staging em etapas.
+ *
+ * Cada submissão de etapa é registrada na tabela stage_jobs e as transições
+ * (submeter etapa, processar resultado, avançar, repetir, finalizar) rodam como
+ * jobs BullMQ. Assim o encadeamento sobrevive a reinícios, múltiplas instâncias
+ * e webhooks que chegam antes da submissão ser persistida.
+ */
+export class StageOrchestratorService extends BaseService {
+  private readonly maxStageAttempts = parseInt(
+    process.env.STAGE_MAX_ATTEMPTS || '2',
+    10
+  );
+
+  // Limite de retentativas por etapa (StagingStageResult.retryCount), somando
+  // as automáticas e as pedidas pelo cliente
+  private readonly maxStageRetries = parseInt(
+    process.env.STAGE_MAX_RETRIES || '3',
+    10
+  );
+
+  // Limite de regenerações por upload. Uploads concluídos não reservam créditos
+  // de novo ao regenerar, então o limite evita gerações ilimitadas
+  private readonly maxStageRegenerations = parseInt(
+    process.env.STAGE_MAX_REGENERATIONS || '3',
+    10
+  );
+
+  // Validação automática de cada etapa concluída (comparação com a imagem de entrada)
+  private readonly stageValidationEnabled =
+    process.env.STAGE_VALIDATION_ENABLED !== 'false';
+
+  /**
+   * Gera o plano, inicializa o upload e agenda a primeira etapa
+   */
+  async startStaging(params: StartStagingParams): Promise<Upload> {
+    const { uploadId, roomType, furnitureStyle, stageSelection } = params;
+
+    const plan = await stagingPlanService.generateStagingPlan(
+      roomType,
+      furnitureStyle,
+      stageSelection,
+      { assignmentKey: uploadId },
+      params.palette
+    );
+    const seed = params.seed ?? params.palette?.seed;
+    const stagingPlan: StagingPlan = {
+      ...plan,
+      ...(seed !== undefined && { seed }),
+      ...(params.highResolution && { highResolution: true }),
+      ...(params.referenceImageUrls?.length && {
+        referenceImageUrls: params.referenceImageUrls,
+      }),
+    };
+
+    const upload = await uploadRepository.initializeStaging(
+      uploadId,
+      stagingPlan
+    );
+    if (!upload) {
+      throw new Error(
+        `Não foi possível inicializar o staging do upload ${uploadId}`
+      );
+    }
+
+    await this.enqueueStageSubmission({
+      uploadId,
+      stageIndex: 0,
+      attempt: 1,
+      inputImageUrl: params.inputImageUrl,
+    });
+
+    this.logOperation('Staging in stages started', {
+      uploadId,
+      totalStages: stagingPlan.stages.length,
+    });
+    await stagingEventsService.publish('processing', upload);
+    await customerWebhookService.emit('upload.processing', upload);
+
+    return upload;
+  }
+
+  /**
+   * Agenda a submissão de uma etapa. O jobId determinístico evita submissões
+   * duplicadas da mesma tentativa.
+   */
+  async enqueueStageSubmission(data: StageSubmissionJobData): Promise<void> {
+    await stageOrchestrationQueue.add(STAGE_JOB_NAMES.SUBMIT_STAGE, data, {
+      jobId: `submit-${data.uploadId}-${data.stageIndex}-${data.attempt}`,
+    });
+  }
+
+  /**
+   * Agenda o processamento de um resultado vindo do provider
+   */
+  async enqueueOutcome(outcome: StageOutcome): Promise<void> {
+    const providerJobId = outcome.providerJobId.replace(/:/g, '_');
+    // Webhooks com o upload de outra URL não ocupam o jobId do resultado legítimo
+    const source = outcome.uploadId ? `-${outcome.uploadId}` : '';
+    await stageOrchestrationQueue.add(STAGE_JOB_NAMES.PROCESS_OUTCOME, outcome, {
+      jobId: `outcome-${outcome.provider}-${providerJobId}-${outcome.status}${source}`,
+    });
+  }
+
+  /**
+   * Submete uma etapa ao provider e registra o job retornado
+   */
+  async submitStage(data: StageSubmissionJobData): Promise<void> {
+    const upload = await uploadRepository.findById(data.uploadId);
+    if (!upload || !upload.stagingPlan) {
+      this.logger.warn('Upload without staging plan, skipping stage submission', {
+        ...data,
+      });
+      return;
+    }
+
+    if (this.isTerminal(upload)) {
+      this.logger.info(
+        `Upload ${upload.id} already ${upload.status}, skipping stage submission`
+      );
+      return;
+    }
+
+    const stageConfig = upload.stagingPlan.stages[data.stageIndex];
+    if (!stageConfig) {
+      throw new Error(
+        `Etapa ${data.stageIndex} não existe no plano do upload ${upload.id}`
+      );
+    }
+
+    const provider = this.getStageProvider(data.provider ?? upload.provider);
+    const stageJob = await stageJobRepository.create({
+      uploadId: upload.id,
+      stage: stageConfig.stage,
+      stageIndex: data.stageIndex,
+      attempt: data.attempt,
+      runAttempt: data.runAttempt ?? 1,
+      retryCount: data.retryCount ?? 0,
+      provider: provider.name,
+      inputImageUrl: data.inputImageUrl,
+      ...(data.instruction && { instruction: data.instruction }),
+    });
+
+    if (stageJob.status !== 'pending') {
+      this.logger.info(
+        `Stage ${stageConfig.stage} attempt ${data.attempt} already submitted for upload ${upload.id}`
+      );
+      return;
+    }
+
+    const imageBase64 = await loadImageAsDataUrl(data.inputImageUrl);
+    const referenceImages = await this.loadReferenceImages(
+      upload.stagingPlan.referenceImageUrls
+    );
+
+    const result = await provider.executeStage(
+      upload.id,
+      imageBase64,
+      stageConfig,
+      upload.roomType,
+      upload.furnitureStyle,
+      this.getStageSelection(upload.stagingPlan),
+      {
+        ...(upload.stagingPlan.seed !== undefined && {
+          seed: upload.stagingPlan.seed,
+        }),
+        ...(upload.stagingPlan.highResolution && { highResolution: true }),
+        ...(referenceImages && { referenceImages }),
+        ...(stageJob.instruction && { instruction: stageJob.instruction }),
+        ...(upload.stagingPlan.promptTemplates && {
+          promptTemplates: upload.stagingPlan.promptTemplates,
+        }),
+        ...(upload.stagingPlan.palette && { palette: upload.stagingPlan.palette }),
+      }
+    );
+
+    if (!result.success || !result.jobId) {
+      throw new Error(
+        result.errorMessage || `Falha ao enviar etapa ${stageConfig.stage}`
+      );
+    }
+
+    await stageJobRepository.markSubmitted(stageJob.id, result.jobId);
+    const submitted = await uploadRepository.updateStageSubmission(
+      upload.id,
+      stageConfig.stage,
+      result.jobId
+    );
+    if (submitted) {
+      await stagingEventsService.publish('stage_started', submitted, {
+        stage: stageConfig.stage,
+      });
+    }
+
+    this.logger.info(
+      `Stage ${stageConfig.stage} submitted for upload ${upload.id}`,
+      {
+        jobId: result.jobId,
+        stageIndex: data.stageIndex,
+        attempt: data.attempt,
+      }
+    );
+  }
+
+  /**
+   * Chamado quando todas as tentativas de submissão de uma etapa falharam
+   */
+  async handleSubmissionFailure(
+    data: StageSubmissionJobData,
+    errorMessage: string
+  ): Promise<void> {
+    const stageJob = await stageJobRepository.findAttempt(
+      data.uploadId,
+      data.stageIndex,
+      data.attempt
+    );
+
+    if (stageJob) {
+      const failed = await stageJobRepository.markFinished(stageJob.id, {
+        status: 'failed',
+        errorMessage,
+      });
+      if (failed) {
+        await this.appendFailedStageResult(failed, errorMessage);
+        if (!(await this.failoverStage(failed, errorMessage))) {
+          await this.handleStageFailure(data.uploadId, errorMessage);
+        }
+        await stageJobRepository.markTransitioned(failed.id);
+        return;
+      }
+    }
+
+    await this.handleStageFailure(data.uploadId, errorMessage);
+  }
+
+  /**
+   * Processa o resultado de um job do provider (webhook ou polling)
+   */
+  async processOutcome(outcome: StageOutcome): Promise<void> {
+    if (outcome.status === 'processing') {
+      this.logger.debug(`Provider job ${outcome.providerJobId} still processing`);
+      return;
+    }
+
+    const stageJob = await stageJobRepository.findByProviderJobId(
+      outcome.providerJobId
+    );
+
+    if (!stageJob) {
+      const handled = await this.processSimpleUploadOutcome(outcome);
+      if (!handled) {
+        // A submissão pode ainda não ter sido persistida; o BullMQ tentará de novo
+        throw new Error(
+          `Stage job not found for provider job ${outcome.providerJobId}`
+        );
+      }
+      return;
+    }
+
+    if (!this.matchesWebhookUpload(outcome, stageJob.uploadId)) {
+      return;
+    }
+
+    const succeeded = outcome.status === 'completed' && !!outcome.imageUrl;
+    const errorMessage = succeeded
+      ? undefined
+      : outcome.errorMessage ||
+        (outcome.status === 'completed'
+          ? 'Nenhuma imagem retornada pelo provider'
+          : 'Falha no processamento da etapa');
+
+    const finished =
+      (await stageJobRepository.markFinished(stageJob.id, {
+        status: succeeded ? 'completed' : 'failed',
+        ...(outcome.imageUrl && { outputImageUrl: outcome.imageUrl }),
+        ...(errorMessage && { errorMessage }),
+      })) ?? this.getInterruptedTransition(stageJob, succeeded);
+
+    if (!finished) {
+      this.logger.debug(
+        `Duplicate outcome ignored for provider job ${outcome.providerJobId}`
+      );
+      return;
+    }
+
+    await this.transitionAfterOutcome(finished, outcome, succeeded, errorMessage);
+    await stageJobRepository.markTransitioned(finished.id);
+  }
+
+  /**
+   * Tentativa já finalizada cuja transição não terminou (o processamento
+   * anterior falhou depois de markFinished). O BullMQ reprocessa o resultado e
+   * a transição é retomada; os passos dela são idempotentes.
+   */
+  private getInterruptedTransition(
+    stageJob: StageJob,
+    succeeded: boolean
+  ): StageJob | null {
+    const status = succeeded ? 'completed' : 'failed';
+    if (stageJob.status !== status || stageJob.transitionedAt) {
+      return null;
+    }
+
+    this.logger.info(
+      `Resuming interrupted transition for provider job ${stageJob.providerJobId}`,
+      { uploadId: stageJob.uploadId, stage: stageJob.stage }
+    );
+    return stageJob;
+  }
+
+  /**
+   * Avança, repete ou falha a etapa conforme o resultado da tentativa
+   */
+  private async transitionAfterOutcome(
+    finished: StageJob,
+    outcome: StageOutcome,
+    succeeded: boolean,
+    errorMessage: string | undefined
+  ): Promise<void> {
+    if (succeeded) {
+      await providerHealthService.recordOutcome(finished.provider, true);
+
+      // Com preserveArchitecture, a saída é recomposta sobre a foto fora da máscara
+      const upload = await uploadRepository.findById(finished.uploadId);
+      const imageUrl = upload
+        ? await architectureMaskService.applyToOutput(upload, outcome.imageUrl!, finished.stage)
+        : outcome.imageUrl!;
+      const validation = await this.validateStageOutput(finished, imageUrl);
+
+      // Etapa que alterou a arquitetura é refeita no mesmo provider antes de avançar
+      if (
+        validation?.architectureDriftExceeded &&
+        finished.runAttempt < this.maxStageAttempts
+      ) {
+        await this.retryDriftedStage(finished, imageUrl, validation);
+        return;
+      }
+
+      await this.advanceAfterStage(finished, imageUrl, validation);
+    } else {
+      await providerHealthService.recordOutcome(finished.provider, false);
+      await this.retryOrFailStage(finished, errorMessage!);
+    }
+  }
+
+  /**
+   * Registra a etapa concluída e agenda a próxima ou finaliza o upload
+   */
+  private async advanceAfterStage(
+    stageJob: StageJob,
+    imageUrl: string,
+    validation: StagingValidationResult | null = null
+  ): Promise<void> {
+    const current = await uploadRepository.findById(stageJob.uploadId);
+    if (!current || !current.stagingPlan || this.isTerminal(current)) {
+      return;
+    }
+
+    // A imagem da última etapa é a saída final: recebe a marca do usuário antes de
+    // ser publicada e, sem o original liberado pelo plano, o histórico e os eventos
+    // da etapa só recebem a versão com a marca
+    const isLastStage = stageJob.stageIndex + 1 >= current.stagingPlan.stages.length;
+    const finalOutput = isLastStage ? await this.prepareFinalOutput(current, imageUrl) : null;
+    const stageImageUrl =
+      finalOutput && !finalOutput.exposeOriginal
+        ? finalOutput.branding.outputImageUrl
+        : imageUrl;
+
+    const upload = await this.appendStageResultOnce(
+      stageJob,
+      this.buildStageResult(stageJob, {
+        success: true,
+        imageUrl: stageImageUrl,
+        itemsAdded: validation?.itemCount ?? 0,
+        validationPassed: validation?.passed ?? true,
+        ...(validation && validation.errors.length > 0 && {
+          validationErrors: validation.errors,
+        }),
+      })
+    );
+
+    if (!upload || !upload.stagingPlan || this.isTerminal(upload)) {
+      return;
+    }
+
+    this.logger.info(`Stage ${stageJob.stage} completed for upload ${upload.id}`);
+    await stagingEventsService.publish('stage_completed', upload, {
+      stage: stageJob.stage,
+      imageUrl: stageImageUrl,
+    });
+    await customerWebhookService.emit('upload.stage_completed', upload, {
+      stage: stageJob.stage,
+      imageUrl: stageImageUrl,
+    });
+
+    if (finalOutput) {
+      this.logger.info(`All stages completed for upload ${upload.id}`);
+      await this.finishUpload(upload, finalOutput, stageJob.provider);
+      return;
+    }
+
+    // As próximas etapas continuam no provider que produziu esta imagem.
+    // Após uma regeneração, a numeração continua a das execuções anteriores.
+    const nextStageIndex = stageJob.stageIndex + 1;
+    const previousAttempt = await stageJobRepository.findLatestAttempt(
+      upload.id,
+      nextStageIndex
+    );
+    // Transição retomada: a próxima etapa já foi submetida a partir deste resultado
+    if (
+      previousAttempt &&
+      stageJob.completedAt &&
+      previousAttempt.createdAt >= stageJob.completedAt
+    ) {
+      return;
+    }
+    await this.enqueueStageSubmission({
+      uploadId: upload.id,
+      stageIndex: nextStageIndex,
+      attempt: (previousAttempt?.attempt ?? 0) + 1,
+      inputImageUrl: imageUrl,
+      provider: stageJob.provider,
+    });
+  }
+
+  /**
+   * Compara a imagem gerada com a entrada da etapa
+   * @returns null quando a validação está desativada ou não pôde ser feita
+   */
+  private async validateStageOutput(
+    stageJob: StageJob,
+    imageUrl: string
+  ): Promise<StagingValidationResult | null> {
+    if (!this.stageValidationEnabled) {
+      return null;
+    }
+
+    try {
+      const upload = await uploadRepository.findById(stageJob.uploadId);
+      const stageConfig = upload?.stagingPlan?.stages[stageJob.stageIndex];
+      if (!upload || !stageConfig) {
+        return null;
+      }
+
+      const [original, processed] = await Promise.all([
+        loadImage(stageJob.inputImageUrl),
+        loadImage(imageUrl),
+      ]);
+      const validation = await stagingValidationService.validateStage(
+        original.buffer,
+        processed.buffer,
+        stageJob.stage,
+        upload.roomType,
+        stageConfig.minItems
+      );
+
+      this.logger.info(`Stage ${stageJob.stage} validated for upload ${upload.id}`, {
+        passed: validation.passed,
+        architectureDrift: validation.architectureDrift,
+        wallColorDrift: validation.wallColorDrift,
+        floorColorDrift: validation.floorColorDrift,
+        itemCount: validation.itemCount,
+      });
+      return validation;
+    } catch (error) {
+      this.logger.warn(`Stage validation skipped for upload ${stageJob.uploadId}`, {
+        stage: stageJob.stage,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Registra a versão rejeitada no histórico e reenvia a etapa com a mesma entrada
+   */
+  private async retryDriftedStage(
+    stageJob: StageJob,
+    imageUrl: string,
+    validation: StagingValidationResult
+  ): Promise<void> {
+    const errorMessage = `Architecture drift ${validation.architectureDrift} above threshold`;
+    await this.appendStageResultOnce(
+      stageJob,
+      this.buildStageResult(stageJob, {
+        success: false,
+        imageUrl,
+        itemsAdded: validation.itemCount,
+        validationPassed: false,
+        validationErrors: validation.errors,
+        errorMessage,
+      })
+    );
+
+    this.logger.warn(
+      `Stage ${stageJob.stage} rejected by validation for upload ${stageJob.uploadId}, retrying`,
+      { attempt: stageJob.attempt, architectureDrift: validation.architectureDrift }
+    );
+    await this.enqueueStageSubmission(this.nextAttempt(stageJob, stageJob.provider));
+  }
+
+  /**
+   * Passa a etapa para o próximo provider da rota; depois repete enquanto
+   * houver tentativas e, por fim, aplica o fallback
+   */
+  private async retryOrFailStage(
+    stageJob: StageJob,
+    errorMessage: string
+  ): Promise<void> {
+    if (await this.failoverStage(stageJob, errorMessage)) {
+      return;
+    }
+
+    if (stageJob.runAttempt < this.maxStageAttempts) {
+      this.logger.warn(
+        `Stage ${stageJob.stage} failed for upload ${stageJob.uploadId}, retrying`,
+        { attempt: stageJob.attempt, errorMessage }
+      );
+      await this.enqueueStageSubmission(this.nextAttempt(stageJob, stageJob.provider));
+      return;
+    }
+
+    await this.appendFailedStageResult(stageJob, errorMessage);
+    await this.handleStageFailure(stageJob.uploadId, errorMessage);
+  }
+
+  /**
+   * Reenvia a etapa ao próximo provider da rota do upload (erro, timeout ou moderação)
+   * @returns true quando a etapa foi reagendada em outro provider
+   */
+  private async failoverStage(
+    stageJob: StageJob,
+    errorMessage: string
+  ): Promise<boolean> {
+    const upload = await uploadRepository.findById(stageJob.uploadId);
+    if (!upload || this.isTerminal(upload)) {
+      return false;
+    }
+
+    const nextProvider = providerRoutingService.getNextProvider(
+      upload.providerRoute,
+      stageJob.provider,
+      provider => this.supportsStages(provider)
+    );
+    if (!nextProvider) {
+      return false;
+    }
+
+    this.logger.warn(
+      `Stage ${stageJob.stage} failed on ${stageJob.provider} for upload ${upload.id}, failing over to ${nextProvider}`,
+      { attempt: stageJob.attempt, errorMessage }
+    );
+    await this.enqueueStageSubmission(this.nextAttempt(stageJob, nextProvider));
+    return true;
+  }
+
+  /**
+   * Próxima tentativa da mesma etapa, mantendo a entrada e a instrução do usuário
+   */
+  private nextAttempt(stageJob: StageJob, provider: Provider): StageSubmissionJobData {
+    return {
+      uploadId: stageJob.uploadId,
+      stageIndex: stageJob.stageIndex,
+      attempt: stageJob.attempt + 1,
+      runAttempt: stageJob.runAttempt + 1,
+      retryCount: stageJob.retryCount + 1,
+      inputImageUrl: stageJob.inputImageUrl,
+      provider,
+      ...(stageJob.instruction && { instruction: stageJob.instruction }),
+    };
+  }
+
+  private async appendFailedStageResult(
+    stageJob: StageJob,
+    errorMessage: string
+  ): Promise<void> {
+    await this.appendStageResultOnce(
+      stageJob,
+      this.buildStageResult(stageJob, {
+        success: false,
+        itemsAdded: 0,
+        validationPassed: false,
+        errorMessage,
+      })
+    );
+  }
+
+  /**
+   * Resultado de uma tentativa da etapa para o histórico do upload
+   */
+  private buildStageResult(
+    stageJob: StageJob,
+    result: Pick<StagingStageResult, 'success' | 'itemsAdded' | 'validationPassed'> &
+      Partial<Pick<StagingStageResult, 'imageUrl' | 'validationErrors' | 'errorMessage'>>
+  ): StagingStageResult {
+    return {
+      stage: stageJob.stage,
+      ...result,
+      ...(stageJob.providerJobId && { jobId: stageJob.providerJobId }),
+      retryCount: stageJob.retryCount,
+      provider: stageJob.provider,
+      ...(stageJob.instruction && { instruction: stageJob.instruction }),
+    };
+  }
+
+  /**
+   * Adiciona o resultado da tentativa ao histórico, uma única vez por job do
+   * provider (transições retomadas não duplicam o registro)
+   */
+  private async appendStageResultOnce(
+    stageJob: StageJob,
+    result: StagingStageResult
+  ): Promise<Upload | null> {
+    if (result.jobId) {
+      const upload = await uploadRepository.findById(stageJob.uploadId);
+      const recorded = upload?.stageResults?.some(
+        existing => existing.jobId === result.jobId && existing.success === result.success
+      );
+      if (recorded) {
+        return upload;
+      }
+    }
+    return uploadRepository.appendStageResult(stageJob.uploadId, result);
+  }
+
+  /**
+   * Trata falhas em etapas - usa o resultado da última etapa bem-sucedida ou falha o upload
+   */
+  async handleStageFailure(uploadId: string, errorMessage: string): Promise<void> {
+    const upload = await uploadRepository.findById(uploadId);
+    if (!upload || this.isTerminal(upload)) {
+      return;
+    }
+
+    const lastSuccessful = this.findLastSuccessfulStage(upload);
+    if (lastSuccessful?.imageUrl) {
+      this.logger.info(
+        `Using result from last successful stage ${lastSuccessful.stage} for upload ${upload.id}`
+      );
+      await this.completeUpload(
+        upload,
+        lastSuccessful.imageUrl,
+        lastSuccessful.provider ?? upload.provider
+      );
+      return;
+    }
+
+    this.logger.error(
+      `No successful stages found for upload ${upload.id}, marking as failed`,
+      { errorMessage }
+    );
+    await this.failUpload(
+      upload.id,
+      `Processing failed with no successful stages: ${errorMessage}`
+    );
+  }
+
+  /**
+   * Retoma um upload em etapas finalizado sem todas as etapas: reenvia apenas a
+   * etapa que falhou e as seguintes, a partir da imagem da última etapa concluída.
+   * Uploads falhos reservam os créditos novamente; uploads concluídos com o
+   * resultado parcial já tiveram os créditos capturados.
+   */
+  async retryStaging(
+    upload: Upload,
+    options: { seed?: number } = {}
+  ): Promise<StagingRetryResult> {
+    if (!upload.stagingPlan) {
+      return { status: 'not_retryable', reason: 'Upload was not processed in stages' };
+    }
+    if (!this.isTerminal(upload)) {
+      return { status: 'not_retryable', reason: 'Upload is still being processed' };
+    }
+
+    const resumePoint = await this.getResumePoint(upload);
+    if (!resumePoint) {
+      return { status: 'not_retryable', reason: 'All stages already completed' };
+    }
+    if (resumePoint.retryCount >= this.maxStageRetries) {
+      return {
+        status: 'retry_limit_reached',
+        stage: resumePoint.stage,
+        retryCount: resumePoint.retryCount,
+      };
+    }
+
+    // Uploads falhos reservam os créditos de novo; só a reserva criada aqui é devolvida
+    const reservation =
+      upload.status === 'failed'
+        ? await creditService.reserveForUpload(upload.userId, upload.id)
+        : undefined;
+    if (reservation === null) {
+      return { status: 'insufficient_credits' };
+    }
+
+    const stagingPlan: StagingPlan = {
+      ...upload.stagingPlan,
+      ...(options.seed !== undefined && { seed: options.seed }),
+    };
+    const resumed = await uploadRepository.resumeStaging(
+      upload.id,
+      upload.status,
+      stagingPlan,
+      resumePoint.stage
+    );
+    if (!resumed) {
+      if (reservation?.created) {
+        await creditService.refundReservation(reservation.entry, 'Staging retry not started');
+      }
+      return { status: 'not_retryable', reason: 'Upload status changed, try again' };
+    }
+
+    await this.enqueueStageSubmission({
+      uploadId: upload.id,
+      stageIndex: resumePoint.stageIndex,
+      attempt: resumePoint.attempt,
+      // Retomar uma etapa que já foi tentada conta como mais uma retentativa
+      retryCount: resumePoint.attempt > 1 ? resumePoint.retryCount + 1 : 0,
+      inputImageUrl: resumePoint.inputImageUrl,
+      ...(resumePoint.provider && { provider: resumePoint.provider }),
+    });
+
+    this.logOperation('Staging retry started', {
+      uploadId: upload.id,
+      stage: resumePoint.stage,
+      attempt: resumePoint.attempt,
+    });
+    await stagingEventsService.publish('processing', resumed);
+    await customerWebhookService.emit('upload.processing', resumed);
+
+    return { status: 'resumed', upload: resumed, resumePoint };
+  }
+
+  /**
+   * Refaz uma etapa sobre a imagem da etapa anterior, com uma instrução opcional
+   * do usuário, e depois reexecuta as etapas seguintes. As versões anteriores da
+   * etapa e das seguintes ficam no histórico marcadas como substituídas.
+   * Limitado a STAGE_MAX_REGENERATIONS por upload; uploads falhos reservam os
+   * créditos novamente.
+   */
+  async regenerateStage(
+    upload: Upload,
+    stage: StagingStage,
+    options: { instruction?: string; seed?: number } = {}
+  ): Promise<StageRegenerationResult> {
+    if (!upload.stagingPlan) {
+      return { status: 'not_regeneratable', reason: 'Upload was not processed in stages' };
+    }
+    if (!this.isTerminal(upload)) {
+      return { status: 'not_regeneratable', reason: 'Upload is still being processed' };
+    }
+
+    const stages = upload.stagingPlan.stages;
+    const stageIndex = stages.findIndex(config => config.stage === stage);
+    if (stageIndex === -1) {
+      return {
+        status: 'not_regeneratable',
+        reason: `Stage ${stage} is not part of this upload's staging plan`,
+      };
+    }
+
+    // Entrada: versão atual da etapa anterior (ou a imagem original na primeira etapa)
+    const previousStage = stages[stageIndex - 1]?.stage;
+    const previousResult = previousStage
+      ? this.findCurrentStageResult(upload, previousStage)
+      : null;
+    if (previousStage && !previousResult?.imageUrl) {
+      return {
+        status: 'not_regeneratable',
+        reason: `Previous stage ${previousStage} has no successful result`,
+      };
+    }
+
+    const regenerationCount = upload.stagingPlan.regenerationCount ?? 0;
+    if (regenerationCount >= this.maxStageRegenerations) {
+      return { status: 'regeneration_limit_reached', regenerationCount };
+    }
+
+    // Uploads falhos reservam os créditos de novo; só a reserva criada aqui é devolvida
+    const reservation =
+      upload.status === 'failed'
+        ? await creditService.reserveForUpload(upload.userId, upload.id)
+        : undefined;
+    if (reservation === null) {
+      return { status: 'insufficient_credits' };
+    }
+
+    const replacedStages = new Set(stages.slice(stageIndex).map(config => config.stage));
+    const stageResults = (upload.stageResults || []).map(result =>
+      replacedStages.has(result.stage) ? { ...result, superseded: true } : result
+    );
+    const stagingPlan: StagingPlan = {
+      ...upload.stagingPlan,
+      ...(options.seed !== undefined && { seed: options.seed }),
+      regenerationCount: regenerationCount + 1,
+    };
+
+    const regenerating = await uploadRepository.resumeStaging(
+      upload.id,
+      upload.status,
+      stagingPlan,
+      stage,
+      stageResults
+    );
+    if (!regenerating) {
+      if (reservation?.created) {
+        await creditService.refundReservation(
+          reservation.entry,
+          'Stage regeneration not started'
+        );
+      }
+      return { status: 'not_regeneratable', reason: 'Upload status changed, try again' };
+    }
+
+    const previousAttempt = await stageJobRepository.findLatestAttempt(upload.id, stageIndex);
+    const attempt = (previousAttempt?.attempt ?? 0) + 1;
+    const provider = previousResult?.provider ?? upload.outputProvider ?? upload.provider;
+
+    await this.enqueueStageSubmission({
+      uploadId: upload.id,
+      stageIndex,
+      attempt,
+      inputImageUrl: previousResult?.imageUrl ?? upload.inputImageUrl,
+      provider,
+      ...(options.instruction && { instruction: options.instruction }),
+    });
+
+    this.logOperation('Stage regeneration started', {
+      uploadId: upload.id,
+      stage,
+      attempt,
+      hasInstruction: !!options.instruction,
+    });
+    await stagingEventsService.publish('processing', regenerating);
+    await customerWebhookService.emit('upload.processing', regenerating);
+
+    return { status: 'regenerating', upload: regenerating, stageIndex, attempt };
+  }
+
+  /**
+   * Primeira etapa do plano depois da última bem-sucedida
+   * @returns null quando todas as etapas do plano foram concluídas
+   */
+  async getResumePoint(upload: Upload): Promise<StageResumePoint | null> {
+    const stages = upload.stagingPlan?.stages || [];
+    const lastSuccessful = this.findLastSuccessfulStage(upload);
+    const stageIndex = lastSuccessful
+      ? stages.findIndex(config => config.stage === lastSuccessful.stage) + 1
+      : 0;
+
+    const stageConfig = stages[stageIndex];
+    if (!stageConfig) {
+      return null;
+    }
+
+    const latestAttempt = await stageJobRepository.findLatestAttempt(
+      upload.id,
+      stageIndex
+    );
+    // Só retentativas contam: a numeração de attempt continua nas regenerações,
+    // e as versões substituídas são de execuções anteriores da etapa
+    const latestResult = (upload.stageResults || [])
+      .filter(result => result.stage === stageConfig.stage && !result.superseded)
+      .pop();
+    const retryCount = Math.max(latestResult?.retryCount ?? 0, latestAttempt?.retryCount ?? 0);
+
+    return {
+      stageIndex,
+      stage: stageConfig.stage,
+      attempt: (latestAttempt?.attempt ?? 0) + 1,
+      retryCount,
+      inputImageUrl: lastSuccessful?.imageUrl ?? upload.inputImageUrl,
+      ...(lastSuccessful?.provider && { provider: lastSuccessful.provider }),
+    };
+  }
+
+  /**
+   * Salva a imagem final no S3, aplica a marca d'água/logo do usuário, captura os créditos
+   * reservados, marca o upload como concluído e libera a vaga do lote do imóvel, quando houver.
+   * O status só muda depois dos passos que podem falhar, então um reprocessamento refaz a
+   * finalização; a captura é idempotente e as notificações não lançam erros.
+   * @param variationUrls Outras saídas do provider; só ficam disponíveis quando a imagem
+   * principal não recebeu a marca do usuário ou a original foi mantida
+   */
+  async completeUpload(
+    upload: Upload,
+    imageUrl: string,
+    outputProvider: Provider,
+    variationUrls?: string[]
+  ): Promise<void> {
+    const finalOutput = await this.prepareFinalOutput(upload, imageUrl);
+    await this.finishUpload(upload, finalOutput, outputProvider, variationUrls);
+  }
+
+  /**
+   * Salva a imagem final no S3 e aplica a marca do usuário. A imagem sem marca só
+   * pode ser exposta quando nenhuma marca foi aplicada ou o plano mantém a original.
+   */
+  private async prepareFinalOutput(upload: Upload, imageUrl: string): Promise<FinalOutput> {
+    const savedImageUrl = await this.saveImageToS3(
+      upload.id,
+      imageUrl,
+      upload.userId
+    );
+    const branding = await brandingService.applyToOutput(upload, savedImageUrl);
+    return {
+      branding,
+      exposeOriginal: !branding.brandedAt || !!branding.unbrandedOutputImageUrl,
+    };
+  }
+
+  private async finishUpload(
+    upload: Upload,
+    { branding, exposeOriginal }: FinalOutput,
+    outputProvider: Provider,
+    variationUrls?: string[]
+  ): Promise<void> {
+    const finalImageUrl = branding.outputImageUrl;
+    await creditService.captureForUpload(upload.id);
+    const completed = await uploadRepository.completeStaging(
+      upload.id,
+      finalImageUrl,
+      outputProvider,
+      branding,
+      exposeOriginal ? variationUrls : undefined
+    );
+    this.logger.info(`Upload ${upload.id} completed`, { finalImageUrl, outputProvider });
+    if (completed) {
+      await stagingEventsService.publish('completed', completed, {
+        imageUrl: finalImageUrl,
+      });
+      await customerWebhookService.emit('upload.completed', completed);
+      await listingService.handleUploadFinished(completed);
+    }
+  }
+
+  /**
+   * Devolve os créditos reservados, marca o upload como falho e libera a vaga do lote do
+   * imóvel. Como em completeUpload, o status muda por último.
+   */
+  async failUpload(uploadId: string, errorMessage: string): Promise<void> {
+    await creditService.refundForUpload(uploadId, errorMessage);
+    const upload = await uploadRepository.updateStatus(uploadId, 'failed', errorMessage);
+    this.logger.error(`Upload ${uploadId} failed`, { errorMessage });
+    if (upload) {
+      await stagingEventsService.publish('failed', upload);
+      await customerWebhookService.emit('upload.failed', upload);
+      await listingService.handleUploadFinished(upload);
+    }
+  }
+
+  /**
+   * Uploads simples (sem etapas) são correlacionados pelo request_id do
+   * InstantDeco ou pelo blackForestJobId
+   */
+  private async processSimpleUploadOutcome(
+    outcome: StageOutcome
+  ): Promise<boolean> {
+    const upload =
+      outcome.provider === 'instant-deco'
+        ? await uploadRepository.findByInstantDecoRequestId(outcome.providerJobId)
+        : await uploadRepository.findByBlackForestJobId(outcome.providerJobId);
+    if (!upload) {
+      return false;
+    }
+
+    if (!this.matchesWebhookUpload(outcome, upload.id) || this.isTerminal(upload)) {
+      return true;
+    }
+
+    if (outcome.status === 'completed' && outcome.imageUrl) {
+      this.logger.info(`Simple upload completed for upload ${upload.id}`);
+      await providerHealthService.recordOutcome(outcome.provider, true);
+      const imageUrl = await architectureMaskService.applyToOutput(upload, outcome.imageUrl);
+      await this.completeUpload(upload, imageUrl, outcome.provider, outcome.imageUrls);
+    } else {
+      await this.handleSimpleUploadFailure(
+        upload,
+        outcome.provider,
+        outcome.errorMessage || 'Falha no processamento da imagem'
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Falha do job de um upload simples: reenfileira o upload com o próximo
+   * provider da rota (com o seed e a resolução do job original) ou, sem
+   * alternativa, marca o upload como falho
+   */
+  async handleSimpleUploadFailure(
+    upload: Upload,
+    failedProvider: Provider,
+    errorMessage: string
+  ): Promise<void> {
+    await providerHealthService.recordOutcome(failedProvider, false);
+
+    const nextProvider = providerRoutingService.getNextProvider(
+      upload.providerRoute,
+      failedProvider
+    );
+    const reassigned = nextProvider
+      ? await uploadRepository.reassignForFailover(upload.id, failedProvider, nextProvider)
+      : null;
+
+    if (!reassigned) {
+      await this.failUpload(upload.id, errorMessage);
+      return;
+    }
+
+    this.logger.warn(
+      `Provider ${failedProvider} failed for upload ${upload.id}, failing over to ${nextProvider}`,
+      { errorMessage }
+    );
+    await imageProcessingQueue.add(
+      IMAGE_PROCESSING_JOB_NAME,
+      { uploadId: upload.id, mode: 'single', ...upload.processingOptions },
+      { jobId: `upload-${upload.id}-${nextProvider}` }
+    );
+  }
+
+  /**
+   * Versão atual (bem-sucedida e não substituída) de uma etapa
+   */
+  private findCurrentStageResult(
+    upload: Upload,
+    stage: StagingStage
+  ): StagingStageResult | null {
+    const results = (upload.stageResults || []).filter(
+      result =>
+        result.stage === stage && result.success && result.imageUrl && !result.superseded
+    );
+    return results[results.length - 1] ?? null;
+  }
+
+  /**
+   * Última etapa bem-sucedida respeitando a ordem do plano
+   */
+  private findLastSuccessfulStage(upload: Upload): StagingStageResult | null {
+    const results = (upload.stageResults || []).filter(
+      result => result.success && result.imageUrl && !result.superseded
+    );
+    const stages = upload.stagingPlan?.stages || [];
+
+    for (let i = stages.length - 1; i >= 0; i--) {
+      const stageResults = results.filter(r => r.stage === stages[i]?.stage);
+      const latest = stageResults[stageResults.length - 1];
+      if (latest) {
+        return latest;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reconstrói a seleção de etapas a partir do plano persistido
+   */
+  private getStageSelection(plan: StagingPlan): StageSelectionConfig {
+    const selected = new Set(plan.stages.map(s => s.stage));
+    return {
+      foundation: selected.has('foundation'),
+      complement: selected.has('complement'),
+      wall_decoration: selected.has('wall_decoration'),
+      windows_decoration: selected.has('windows_decoration'),
+      customization: selected.has('customization'),
+    };
+  }
+
+  /**
+   * Resultados vindos de webhook só valem para o upload da URL assinada
+   */
+  private matchesWebhookUpload(outcome: StageOutcome, uploadId: string): boolean {
+    if (!outcome.uploadId || outcome.uploadId === uploadId) {
+      return true;
+    }
+
+    this.logger.warn(
+      `Ignoring ${outcome.provider} webhook for job ${outcome.providerJobId}: signed for upload ${outcome.uploadId}, job belongs to ${uploadId}`
+    );
+    return false;
+  }
+
+  private isTerminal(upload: Upload): boolean {
+    return upload.status === 'completed' || upload.status === 'failed';
+  }
+
+  private supportsStages(providerName: Provider): boolean {
+    try {
+      return !!VirtualStagingProviderFactory.createConfiguredProvider(providerName)
+        .executeStage;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Provider do upload, desde que suporte submissão de etapas
+   */
+  private getStageProvider(
+    providerName: Provider
+  ): IVirtualStagingProvider & Required<Pick<IVirtualStagingProvider, 'executeStage'>> {
+    const provider = VirtualStagingProviderFactory.createConfiguredProvider(providerName);
+    if (!provider.executeStage) {
+      throw new Error(`Provider ${providerName} não suporta staging em etapas`);
+    }
+    return provider as IVirtualStagingProvider &
+      Required<Pick<IVirtualStagingProvider, 'executeStage'>>;
+  }
+
+  private async loadReferenceImages(
+    referenceImageUrls: string[] | undefined
+  ): Promise<{ image2?: string; image3?: string; image4?: string } | undefined> {
+    if (!referenceImageUrls?.length) {
+      return undefined;
+    }
+
+    const [image2, image3, image4] = await Promise.all(
+      referenceImageUrls
+        .slice(0, 3)
+        .map(url => loadImageAsDataUrl(url))
+    );
+
+    return {
+      ...(image2 && { image2 }),
+      ...(image3 && { image3 }),
+      ...(image4 && { image4 }),
+    };
+  }
+
+  /**
+   * Salva a imagem final no AWS S3
+   */
+  private async saveImageToS3(
+    uploadId: string,
+    imageUrl: string,
+    userId: string
+  ): Promise<string> {
+    try {
+      const { buffer: imageBuffer } = await loadImage(imageUrl);
+      const key = s3Service.generateFileKey(userId, 'output', 'jpg');
+
+      const s3Url = await s3Service.uploadFile(key, imageBuffer, 'image/jpeg', {
+        uploadId,
+        userId,
+        uploadedAt: new Date().toISOString(),
+      });
+
+      this.logger.info(`Image saved to S3 for upload ${uploadId}`, { s3Url });
+      return s3Url;
+    } catch (error) {
+      this.logger.error(
+        `Error saving image to S3 for upload ${uploadId}:`,
+        error as Error
+      );
+      // Em caso de erro, retornar a URL original
+      return imageUrl;
+    }
+  }
+}
+
+export const stageOrchestratorService = new StageOrchestratorService();
@@ -0,0 +1,192 @@
+import { BaseService } from './base.service';
+import { stageOrchestratorService } from './stage-orchestrator.service';
+import { listingService } from './listing.service';
+import { VirtualStagingProviderFactory } from './providers/provider.factory';
+import { uploadRepository } from '../repositories/upload.repository';
+import { stageJobRepository } from '../repositories/stage-job.repository';
+import { Provider, Upload } from '../interfaces/upload.interface';
+import { IVirtualStagingProvider } from '../interfaces/virtual-staging-provider.interface';
+import { StageOutcome } from '../interfaces/stage-orchestration.interface';
+
+export interface StagePollingSummary {
+  scanned: number;
+  polled: number;
+  outcomes: number;
+  expired: number;
+  redispatched: number; // Usuários com fotos de lote devolvidas à fila
+}
+
+interface OutstandingJob {
+  jobId: string;
+  provider: Provider;
+  submittedAt: Date;
+}
+
+/**
+ * Fallback para webhooks que nunca chegam: consulta o provider pelos jobs em
+ * aberto dos uploads em processamento e entrega os resultados ao orquestrador,
+ * pelo mesmo caminho usado pelos webhooks.
+ */
+export class StagePollingService extends BaseService {
+  // Tempo mínimo desde a submissão antes de consultar (dá chance ao webhook)
+  private readonly gracePeriodMs = parseInt(
+    process.env.STAGE_POLLING_GRACE_MS || '120000',
+    10
+  );
+
+  // Tempo máximo sem resultado desde a submissão do job (ou, sem job em
+  // aberto, desde a última alteração do upload)
+  private readonly deadlineMs = parseInt(
+    process.env.STAGE_PROCESSING_DEADLINE_MS || '1800000',
+    10
+  );
+
+  /**
+   * Varre os uploads em processamento e as fotos de lote despachadas que não iniciaram
+   */
+  async scanProcessingUploads(): Promise<StagePollingSummary> {
+    const redispatched = await listingService.releaseStaleDispatches();
+    const uploads = await uploadRepository.findProcessingUploads();
+    const summary: StagePollingSummary = {
+      scanned: uploads.length,
+      polled: 0,
+      outcomes: 0,
+      expired: 0,
+      redispatched,
+    };
+
+    if (uploads.length === 0) {
+      return summary;
+    }
+
+    const providers = new Map<Provider, IVirtualStagingProvider>();
+
+    for (const upload of uploads) {
+      try {
+        const jobs = await this.getOutstandingJobs(upload);
+
+        // Sem job em aberto (ex.: submissão perdida entre etapas) não há o que
+        // consultar nem reenviar: o prazo conta da última alteração do upload
+        if (jobs.length === 0) {
+          if (this.isOlderThan(upload.updatedAt, this.deadlineMs)) {
+            await this.expireUpload(upload);
+            summary.expired++;
+          }
+          continue;
+        }
+
+        for (const job of jobs) {
+          if (!this.isOlderThan(job.submittedAt, this.gracePeriodMs)) {
+            continue;
+          }
+
+          // Consulta o provider antes de expirar: o resultado pode já estar pronto
+          const provider = this.getProvider(providers, job.provider);
+          let outcome: StageOutcome | null = null;
+          if (provider.pollStageOutcome) {
+            summary.polled++;
+            outcome = await provider.pollStageOutcome(job.jobId);
+          }
+
+          if (outcome && outcome.status !== 'processing') {
+            await stageOrchestratorService.enqueueOutcome(outcome);
+            summary.outcomes++;
+          } else if (this.isOlderThan(job.submittedAt, this.deadlineMs)) {
+            await this.expireJob(upload, job);
+            summary.expired++;
+          }
+        }
+      } catch (error) {
+        this.logger.error(
+          `Error polling provider jobs for upload ${upload.id}:`,
+          error as Error
+        );
+      }
+    }
+
+    if (summary.outcomes > 0 || summary.expired > 0 || summary.redispatched > 0) {
+      this.logOperation('Stage polling scan finished', { ...summary });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Jobs do provider ainda sem resultado: etapas submetidas listadas em
+   * stageJobIds ou o job de uploads simples (blackForestJobId ou
+   * instantDecoRequestId, submetido na última alteração do upload)
+   */
+  private async getOutstandingJobs(upload: Upload): Promise<OutstandingJob[]> {
+    if (!upload.stagingPlan) {
+      const jobId =
+        upload.provider === 'instant-deco'
+          ? upload.instantDecoRequestId
+          : upload.blackForestJobId;
+      return jobId
+        ? [{ jobId, provider: upload.provider, submittedAt: upload.updatedAt }]
+        : [];
+    }
+
+    const jobs: OutstandingJob[] = [];
+    for (const jobId of Object.values(upload.stageJobIds || {})) {
+      const stageJob = await stageJobRepository.findByProviderJobId(jobId);
+      if (stageJob?.status === 'submitted' && stageJob.submittedAt) {
+        jobs.push({ jobId, provider: stageJob.provider, submittedAt: stageJob.submittedAt });
+      }
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Job sem resultado além do prazo: vira um resultado com falha, que segue o
+   * caminho dos webhooks (failover para o próximo provider da rota, nova
+   * tentativa ou falha do upload)
+   */
+  private async expireJob(upload: Upload, job: OutstandingJob): Promise<void> {
+    await stageOrchestratorService.enqueueOutcome({
+      provider: job.provider,
+      providerJobId: job.jobId,
+      status: 'failed',
+      errorMessage: this.timeoutMessage(upload),
+      receivedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Falha o upload que ficou sem job em aberto e sem progresso além do prazo
+   */
+  private async expireUpload(upload: Upload): Promise<void> {
+    const errorMessage = this.timeoutMessage(upload);
+
+    // Encerrar tentativas em aberto para que webhooks tardios sejam ignorados
+    await stageJobRepository.failOutstandingByUploadId(upload.id, errorMessage);
+    await stageOrchestratorService.failUpload(upload.id, errorMessage);
+  }
+
+  private timeoutMessage(upload: Upload): string {
+    const minutes = Math.round(this.deadlineMs / 60000);
+    const stageInfo = upload.currentStage
+      ? ` while waiting for stage ${upload.currentStage}`
+      : '';
+    return `Processing timed out${stageInfo}: no provider result received within ${minutes} minutes`;
+  }
+
+  private isOlderThan(since: Date, ageMs: number): boolean {
+    return Date.now() - new Date(since).getTime() > ageMs;
+  }
+
+  private getProvider(
+    providers: Map<Provider, IVirtualStagingProvider>,
+    providerName: Provider
+  ): IVirtualStagingProvider {
+    let provider = providers.get(providerName);
+    if (!provider) {
+      provider = VirtualStagingProviderFactory.createConfiguredProvider(providerName);
+      providers.set(providerName, provider);
+    }
+    return provider;
+  }
+}
+
+export const stagePollingService = new StagePollingService();
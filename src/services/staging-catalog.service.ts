@@ -0,0 +1,279 @@
+import { BaseService, PaginatedResponse } from './base.service';
+import { cacheService } from './cache.service';
+import { stagingCatalogRepository } from '../repositories/staging-catalog.repository';
+import {
+  BUILT_IN_FURNITURE_STYLES,
+  BUILT_IN_ROOM_TYPES,
+  DEFAULT_STAGING_CATALOG,
+  buildGenericRoomEntry,
+  buildGenericStyleEntry,
+} from '../config/staging-catalog';
+import { StagingCatalogVersion } from '../types/database';
+import { CATALOG_SLUG_PATTERN } from '../interfaces/catalog.interface';
+import {
+  ResolvedStagingCatalog,
+  RoomCatalogEntry,
+  StagingCatalog,
+  StagingCatalogChanges,
+  StyleCatalogEntry,
+} from '../interfaces/staging-catalog.interface';
+
+const CATALOG_CACHE_NAMESPACE = 'staging-catalog';
+const CATALOG_CACHE_KEY = 'active';
+const CREATE_VERSION_ATTEMPTS = 3;
+
+const RANGE_FIELDS = [
+  'mainPiecesRange',
+  'wallDecorRange',
+  'complementaryRange',
+  'windowsDecorRange',
+] as const;
+const ITEM_LIST_FIELDS = [
+  'allowedMainItems',
+  'allowedWallDecor',
+  'allowedComplementary',
+  'allowedWindowsDecor',
+] as const;
+
+/**
+ * Catálogo de staging versionado no banco.
+ *
+ * Cada alteração feita pelos admins cria uma versão imutável; apenas uma fica
+ * ativa. O gerador de planos lê a versão ativa através de um cache curto
+ * (STAGING_CATALOG_CACHE_TTL), então uma publicação chega a todas as
+ * instâncias sem deploy. Sem versão publicada, vale o catálogo embutido.
+ */
+export class StagingCatalogService extends BaseService {
+  private readonly cacheTtl = parseInt(process.env.STAGING_CATALOG_CACHE_TTL || '60'); // segundos
+
+  /**
+   * Catálogo em uso pelo gerador de planos
+   */
+  async getCatalog(): Promise<ResolvedStagingCatalog> {
+    const cached = await cacheService.get<ResolvedStagingCatalog>(
+      CATALOG_CACHE_KEY,
+      CATALOG_CACHE_NAMESPACE
+    );
+    if (cached.data) {
+      return cached.data;
+    }
+
+    let resolved: ResolvedStagingCatalog;
+    try {
+      const active = await stagingCatalogRepository.findActive();
+      resolved = active
+        ? { version: active.version, catalog: active.catalog }
+        : { version: null, catalog: DEFAULT_STAGING_CATALOG };
+    } catch (error) {
+      // Banco indisponível não pode travar o staging: usa o embutido sem cachear
+      this.logger.warn('Failed to load staging catalog, using built-in catalog', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { version: null, catalog: DEFAULT_STAGING_CATALOG };
+    }
+
+    await cacheService.set(CATALOG_CACHE_KEY, resolved, {
+      ttl: this.cacheTtl,
+      namespace: CATALOG_CACHE_NAMESPACE,
+    });
+    return resolved;
+  }
+
+  /**
+   * Descarta o catálogo em cache desta instância
+   */
+  async invalidate(): Promise<void> {
+    await cacheService.delete(CATALOG_CACHE_KEY, CATALOG_CACHE_NAMESPACE);
+  }
+
+  async listVersions(params: {
+    page: number;
+    limit: number;
+    offset: number;
+  }): Promise<PaginatedResponse<StagingCatalogVersion>> {
+    const [versions, total] = await Promise.all([
+      stagingCatalogRepository.list(params.limit, params.offset),
+      stagingCatalogRepository.count(),
+    ]);
+
+    const totalPages = Math.ceil(total / params.limit);
+
+    return {
+      data: versions,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        totalPages,
+        hasNext: params.page < totalPages,
+        hasPrev: params.page > 1,
+      },
+    };
+  }
+
+  async getVersion(version: number): Promise<StagingCatalogVersion | null> {
+    return stagingCatalogRepository.findByVersion(version);
+  }
+
+  /**
+   * Catálogo base para uma nova versão: a versão informada, a ativa ou o embutido
+   * @returns null quando baseVersion não existe
+   */
+  async getBaseCatalog(baseVersion?: number): Promise<StagingCatalog | null> {
+    if (baseVersion === undefined) {
+      return (await this.getCatalog()).catalog;
+    }
+    const base = await stagingCatalogRepository.findByVersion(baseVersion);
+    return base?.catalog ?? null;
+  }
+
+  /**
+   * Aplica alterações parciais (por cômodo/estilo) sobre um catálogo.
+   * Cômodos/estilos novos partem da entrada genérica.
+   */
+  applyChanges(base: StagingCatalog, changes: StagingCatalogChanges): StagingCatalog {
+    const rooms = { ...base.rooms };
+    for (const [roomType, entry] of Object.entries(changes.rooms ?? {})) {
+      rooms[roomType] = { ...(rooms[roomType] ?? buildGenericRoomEntry(roomType)), ...entry };
+    }
+
+    const styles = { ...base.styles };
+    for (const [style, entry] of Object.entries(changes.styles ?? {})) {
+      styles[style] = { ...(styles[style] ?? buildGenericStyleEntry(style)), ...entry };
+    }
+
+    return { rooms, styles };
+  }
+
+  /**
+   * Valida um catálogo completo: os cômodos/estilos embutidos são obrigatórios,
+   * os demais só precisam de slug e campos válidos
+   * @returns erros por campo (vazio quando válido)
+   */
+  validateCatalog(candidate: unknown): Record<string, string> {
+    const errors: Record<string, string> = {};
+    const catalog = candidate as Partial<StagingCatalog> | null;
+
+    if (!catalog || typeof catalog !== 'object') {
+      return { catalog: 'catalog must be an object with rooms and styles' };
+    }
+
+    const roomTypes = new Set([...BUILT_IN_ROOM_TYPES, ...Object.keys(catalog.rooms ?? {})]);
+    const furnitureStyles = new Set([
+      ...BUILT_IN_FURNITURE_STYLES,
+      ...Object.keys(catalog.styles ?? {}),
+    ]);
+
+    for (const roomType of roomTypes) {
+      const entry = catalog.rooms?.[roomType] as Partial<RoomCatalogEntry> | undefined;
+      const path = `rooms.${roomType}`;
+      if (!CATALOG_SLUG_PATTERN.test(roomType)) {
+        errors[path] = 'room type must be a lowercase slug (letters, digits, underscores)';
+        continue;
+      }
+      if (!entry || typeof entry !== 'object') {
+        errors[path] = 'room entry is required';
+        continue;
+      }
+      if (!this.isNonEmptyString(entry.promptLabel)) {
+        errors[`${path}.promptLabel`] = 'promptLabel must be a non-empty string';
+      }
+      for (const field of RANGE_FIELDS) {
+        if (!this.isValidRange(entry[field])) {
+          errors[`${path}.${field}`] = `${field} must be [min, max] with 0 <= min <= max`;
+        }
+      }
+      for (const field of ITEM_LIST_FIELDS) {
+        if (!this.isStringList(entry[field])) {
+          errors[`${path}.${field}`] = `${field} must be a list of non-empty strings`;
+        }
+      }
+      if (Array.isArray(entry.allowedMainItems) && entry.allowedMainItems.length === 0) {
+        errors[`${path}.allowedMainItems`] = 'allowedMainItems must not be empty';
+      }
+    }
+
+    for (const style of furnitureStyles) {
+      const entry = catalog.styles?.[style] as Partial<StyleCatalogEntry> | undefined;
+      const path = `styles.${style}`;
+      if (!CATALOG_SLUG_PATTERN.test(style)) {
+        errors[path] = 'furniture style must be a lowercase slug (letters, digits, underscores)';
+        continue;
+      }
+      if (!entry || typeof entry !== 'object') {
+        errors[path] = 'style entry is required';
+        continue;
+      }
+      if (!this.isNonEmptyString(entry.promptLabel)) {
+        errors[`${path}.promptLabel`] = 'promptLabel must be a non-empty string';
+      }
+      if (!this.isStringList(entry.emphasis)) {
+        errors[`${path}.emphasis`] = 'emphasis must be a list of non-empty strings';
+      }
+      if (!this.isNonEmptyString(entry.guidance)) {
+        errors[`${path}.guidance`] = 'guidance must be a non-empty string';
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Salva um catálogo (já validado) como nova versão, opcionalmente publicando-a
+   */
+  async createVersion(
+    catalog: StagingCatalog,
+    options: { notes?: string; createdBy?: string; activate?: boolean } = {}
+  ): Promise<StagingCatalogVersion> {
+    let created: StagingCatalogVersion | null = null;
+    for (let attempt = 0; attempt < CREATE_VERSION_ATTEMPTS && !created; attempt++) {
+      created = await stagingCatalogRepository.create({
+        catalog,
+        ...(options.notes !== undefined && { notes: options.notes }),
+        ...(options.createdBy !== undefined && { createdBy: options.createdBy }),
+      });
+    }
+
+    if (!created) {
+      throw new Error('Failed to allocate a staging catalog version number');
+    }
+
+    this.logOperation('createVersion', { version: created.version, createdBy: options.createdBy });
+    if (options.activate) {
+      return (await this.activateVersion(created.version)) ?? created;
+    }
+    return created;
+  }
+
+  /**
+   * Publica uma versão (também usado para voltar a uma versão anterior)
+   * @returns null quando a versão não existe
+   */
+  async activateVersion(version: number): Promise<StagingCatalogVersion | null> {
+    const activated = await stagingCatalogRepository.activate(version);
+    if (activated) {
+      await this.invalidate();
+      this.logOperation('activateVersion', { version });
+    }
+    return activated;
+  }
+
+  private isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+  }
+
+  private isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => this.isNonEmptyString(item));
+  }
+
+  private isValidRange(value: unknown): boolean {
+    return (
+      Array.isArray(value) &&
+      value.length === 2 &&
+      value.every(bound => Number.isInteger(bound) && bound >= 0) &&
+      value[0] <= value[1]
+    );
+  }
+}
+
+export const stagingCatalogService = new StagingCatalogService();
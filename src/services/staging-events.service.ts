@@ -0,0 +1,171 @@
+import { Redis } from 'ioredis';
+import { BaseService } from './base.service';
+import { redis } from '../lib/redis';
+import { Upload, StagingProgressResult, StagingStage } from '../interfaces/upload.interface';
+import {
+  STAGING_EVENTS_CHANNEL_PREFIX,
+  StagingEvent,
+  StagingEventType,
+} from '../interfaces/staging-events.interface';
+
+type StagingEventListener = (event: StagingEvent) => void;
+
+/**
+ * Eventos de progresso do staging em tempo real.
+ *
+ * Workers e webhooks publicam cada transição no canal Redis do upload; cada
+ * instância da API mantém uma única conexão de assinatura e repassa os eventos
+ * aos streams SSE abertos nela.
+ */
+export class StagingEventsService extends BaseService {
+  private subscriber: Redis | null = null;
+  private readonly listeners = new Map<string, Set<StagingEventListener>>();
+
+  /**
+   * Publica um evento do upload. Nunca lança: falhas não afetam o processamento.
+   */
+  async publish(
+    type: Exclude<StagingEventType, 'snapshot'>,
+    upload: Upload,
+    details: { stage?: StagingStage; imageUrl?: string } = {}
+  ): Promise<void> {
+    try {
+      const event = this.buildEvent(type, upload, details);
+      await redis.publish(
+        `${STAGING_EVENTS_CHANNEL_PREFIX}${upload.id}`,
+        JSON.stringify(event)
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to publish ${type} event for upload ${upload.id}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Assina os eventos de um upload
+   * @returns função que cancela a assinatura
+   */
+  async subscribe(
+    uploadId: string,
+    listener: StagingEventListener
+  ): Promise<() => Promise<void>> {
+    const channel = `${STAGING_EVENTS_CHANNEL_PREFIX}${uploadId}`;
+    const subscriber = this.getSubscriber();
+
+    let channelListeners = this.listeners.get(channel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      this.listeners.set(channel, channelListeners);
+      await subscriber.subscribe(channel);
+    }
+    channelListeners.add(listener);
+
+    return async () => {
+      const current = this.listeners.get(channel);
+      if (!current) {
+        return;
+      }
+
+      current.delete(listener);
+      if (current.size === 0) {
+        this.listeners.delete(channel);
+        await subscriber.unsubscribe(channel).catch(error => {
+          this.logger.warn(`Failed to unsubscribe from ${channel}`, {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        });
+      }
+    };
+  }
+
+  /**
+   * Evento com o estado atual do upload (enviado ao abrir o stream)
+   */
+  buildSnapshot(upload: Upload): StagingEvent {
+    return this.buildEvent('snapshot', upload, {
+      ...(upload.outputImageUrl && { imageUrl: upload.outputImageUrl }),
+    });
+  }
+
+  /**
+   * Monta o progresso do upload a partir do plano e dos resultados das etapas
+   */
+  buildProgress(upload: Upload): StagingProgressResult {
+    const stages = upload.stagingPlan?.stages.map(config => config.stage) ?? [];
+    const stageResults = upload.stageResults ?? [];
+    const completedStages = [
+      ...new Set(
+        stageResults
+          .filter(result => result.success && !result.superseded)
+          .map(result => result.stage)
+      ),
+    ];
+
+    let totalProgress = 0;
+    if (upload.status === 'completed') {
+      totalProgress = 100;
+    } else if (stages.length > 0) {
+      totalProgress = Math.round((completedStages.length / stages.length) * 100);
+    }
+
+    return {
+      uploadId: upload.id,
+      currentStage: upload.currentStage ?? stages[0] ?? 'foundation',
+      completedStages,
+      stageResults,
+      ...(upload.outputImageUrl && { finalImageUrl: upload.outputImageUrl }),
+      success: upload.status !== 'failed',
+      ...(upload.errorMessage && { errorMessage: upload.errorMessage }),
+      totalProgress,
+    };
+  }
+
+  private buildEvent(
+    type: StagingEventType,
+    upload: Upload,
+    details: { stage?: StagingStage; imageUrl?: string }
+  ): StagingEvent {
+    return {
+      type,
+      uploadId: upload.id,
+      status: upload.status,
+      progress: this.buildProgress(upload),
+      ...(details.stage && { stage: details.stage }),
+      ...(details.imageUrl && { imageUrl: details.imageUrl }),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Conexão dedicada: no modo subscribe o ioredis não aceita outros comandos
+   */
+  private getSubscriber(): Redis {
+    if (!this.subscriber) {
+      this.subscriber = redis.duplicate();
+      this.subscriber.on('message', (channel: string, message: string) => {
+        const channelListeners = this.listeners.get(channel);
+        if (!channelListeners) {
+          return;
+        }
+
+        let event: StagingEvent;
+        try {
+          event = JSON.parse(message);
+        } catch {
+          this.logger.warn(`Invalid staging event on ${channel}`);
+          return;
+        }
+
+        channelListeners.forEach(listener => listener(event));
+      });
+      this.subscriber.on('error', error => {
+        this.logger.error('Staging events subscriber error:', error);
+      });
+    }
+
+    return this.subscriber;
+  }
+}
+
+export const stagingEventsService = new StagingEventsService();
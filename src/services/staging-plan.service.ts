@@ -1,528 +1,99 @@
 import {
   RoomType,
   FurnitureStyle,
+  DesignPalette,
   StagingStage,
   StagingPlan,
   StagingStageConfig,
   StageSelectionConfig,
 } from '../interfaces/upload.interface';
-
-type Range = [number, number];
-
-interface RoomStagingPlan {
-  // How many items to add (by group)
-  mainPiecesRange: Range; // e.g., sofa/bed/table/desk depending on room
-  wallDecorRange: Range; // frames, mirrors (on free wall only)
-  complementaryRange: Range; // plants, lamps, rugs, cushions, accessories
-  windowsDecorRange: Range; // curtains, blinds, window treatments
-
-  // Allowed item types for this room (semantic guardrails)
-  allowedMainItems: string[]; // room-specific primary furniture
-  allowedWallDecor: string[]; // safe wall decor
-  allowedComplementary: string[]; // safe complementary items
-  allowedWindowsDecor: string[]; // safe window treatments
-
+import {
+  RoomCatalogEntry,
+  StagingCatalog,
+  StagingRange,
+  StyleCatalogEntry,
+} from '../interfaces/staging-catalog.interface';
+import {
+  PromptTemplateName,
+  PromptTemplateSelection,
+} from '../interfaces/prompt-template.interface';
+import { stagingCatalogService } from './staging-catalog.service';
+import { promptTemplateService } from './prompt-template.service';
+import { buildGenericRoomEntry, buildGenericStyleEntry } from '../config/staging-catalog';
+import { STAGING_GLOBAL_RULES } from '../config/prompt-templates';
+import { createSeededRandom } from '../utils/seeded-random.util';
+
+type Range = StagingRange;
+
+interface RoomStagingPlan extends RoomCatalogEntry {
   // Optional style emphasis (short, to steer material/finish without forcing structure)
   styleEmphasis?: string[];
 }
 
 class StagingPlanService {
-  // ---------- NEW: room-aware, style-aware plan ----------
+  // ---------- room-aware, style-aware plan (lido do catálogo) ----------
   private getRoomStagingPlan(
+    catalog: StagingCatalog,
     roomType: RoomType,
     furnitureStyle: FurnitureStyle
   ): RoomStagingPlan {
-    // Base library per room
-    const baseByRoom: Record<
-      RoomType,
-      Omit<RoomStagingPlan, 'styleEmphasis'>
-    > = {
-      living_room: {
-        // Quantidades ajustadas (essenciais, sem sobrecarregar)
-        mainPiecesRange: [2, 4],
-        wallDecorRange: [0, 2], // pode ser 0 quando há muitas janelas
-        complementaryRange: [3, 5],
-        windowsDecorRange: [1, 4], // tratar janelas quando existirem
-
-        allowedMainItems: [
-          // Seating âncora — modernos e relevantes
-          'modular sectional (low-profile, neutral tones)',
-          'compact 2–3 seat sofa (straight arms, slim legs)',
-          'accent swivel chair (bouclé or fabric, 1–2)',
-          'barrel lounge chair (sculptural, upholstered)',
-          'chaise lounge (slim, modern profile)',
-
-          // Mesas de centro — vidro, pedra, metal
-          'smoked-glass coffee table with slim metal base',
-          'clear tempered-glass coffee table (rectangular or square)',
-          'marble or travertine coffee table (pedestal or slab)',
-          'nesting coffee tables (glass/stone top, metal frame)',
-          'plinth-style coffee table (stone, lacquer, or glass base)',
-
-          // Mesas laterais / apoio
-          'cylinder side table (stone, glass, or lacquer finish)',
-          'round glass side table with metal legs',
-          'sculptural pedestal side table (minimal, modern)',
-        ],
-
-        allowedWallDecor: [
-          // Arte e espelhos essenciais (superficiais, sem obra)
-          'smalled framed artwork (abstract/botanical)',
-          'smalled round or pill mirror',
-          // Iluminação de parede plug-in (não embutida)
-          'plug-in wall sconces (pair, no hardwiring)',
-          'plug-in picture light over artwork',
-        ],
-
-        // SOMENTE complementos (detalhes) — nada de mini-móveis
-        allowedComplementary: [
-          // Tapetes (base da composição)
-          'large area rug anchoring front legs of seating',
-          'layered rug (smaller patterned rug on top of neutral base rug)',
-
-          // Iluminação portátil/leve
-          'arc floor lamp or slim linear floor lamp',
-          'reading/task floor lamp (slim, matte black or brass)',
-          'portable cordless table lamp (rechargeable, modern design)',
-          'small sculptural table lamp (stone, ceramic or smoked glass)',
-
-          // Têxteis de apoio
-          'contrasting throw pillows (2–4) in complementary textures',
-          'neutral bouclé or linen throw blanket casually draped on sofa',
-          'pouf or small ottoman (fabric or leather)',
-          'floor cushion (oversized, casual seating)',
-
-          // Plantas (variar tamanhos e suportes)
-          'indoor tree (olive, fiddle-leaf, bird of paradise) in matte planter',
-          'medium plant (monstera, rubber plant, ZZ plant) in ceramic or stone planter',
-          'tall snake plant (sansevieria) in slim pedestal planter',
-          'tabletop plant (succulent, pothos) in small ceramic pot',
-          'arrangement of dried pampas/grass in tall vase',
-
-          // Objetos modernos (materiais honestos, 2024/25)
-          'ceramic/stone vases in varied heights (cluster of 2–3)',
-          'ribbed or smoked-glass vase with single branch or flower',
-          'travertine or marble tray with candles/decor',
-          'sculptural object for coffee table (metal, resin or stone)',
-          'stack of coffee table books (2–3, neutral covers)',
-          'minimal reed diffuser (glass bottle, slim sticks)',
-          'set of decorative bowls or catchalls (stone/ceramic)',
-          'pillar candles in glass or ceramic holders (grouped)',
-
-          // Organização & lifestyle
-          'woven basket for throws or magazines (floor corner)',
-          'tray on ottoman or coffee table with drinks/books',
-          'coasters set (stone, marble or leather)',
-          'small decorative box (storage for remotes)',
-        ],
-
-        // Tratamento de janelas — só onde existir janela real, estética atual
-        allowedWindowsDecor: [
-          'linen curtains (floor-length, neutral tones)',
-          'sheer curtains (white/cream, light filtering)',
-          'double-layer curtains (sheer + blackout) on existing windows',
-          'minimal curtain rod or ceiling track (existing windows only)',
-        ],
-      },
-
-      bedroom: {
-        // ranges ajustados — sempre cama + apoios
-        mainPiecesRange: [1, 1], // cama + 1–3 itens de apoio
-        wallDecorRange: [0, 1], // pode ser zero (quando sem parede livre)
-        complementaryRange: [1, 2],
-        windowsDecorRange: [1, 1],
-
-        allowedMainItems: [
-          // Âncora obrigatória
-          'queen or king-size bed (low-profile, upholstered headboard in bouclé, linen-blend, or channel-tufted velvet)',
-        ],
-
-        allowedWallDecor: [
-          'single oversized abstract artwork above headboard',
-          'large arched mirror with thin black or brass frame',
-          'paired minimalist prints above nightstands',
-          'slim floating shelf/ledge for curated objects',
-          'slim plug-in wall sconces (matte black, brass, or alabaster)',
-        ],
-
-        allowedComplementary: [
-          // Iluminação
-          'slim LED floor lamp with sculptural base (matte black or brushed bronze)',
-          'geometric bedside lamps with linen or pleated shades',
-
-          // Têxteis
-          'layered bedding with boucle or textured throws in warm neutrals',
-          'large area rug with abstract geometric or organic pattern (low pile, neutral tones)',
-
-          // Espelhos & plantas
-          'arched full-height floor mirror with thin matte black frame',
-          'tall indoor plant (olive tree, bird of paradise, fiddle-leaf fig) in ribbed ceramic planter',
-
-          // Detalhes sobre superfícies
-          'ceramic or stone decorative tray with sculptural objects',
-          'stack of contemporary art books on nightstand or console',
-          'sculptural vase in matte ceramic or tinted glass with greenery',
-
-          // Organização
-          'woven storage basket with leather accents',
-          'minimal lidded hamper in fabric or matte metal finish',
-        ],
-        allowedWindowsDecor: [
-          'floor-length blackout curtains in neutral linen/cotton blend',
-          'layered sheers + blackout for softness and depth',
-          'roman shades in neutral textured fabric',
-        ],
-      },
-
-      kitchen: {
-        mainPiecesRange: [1, 3],
-        wallDecorRange: [0, 1],
-        complementaryRange: [1, 3],
-        windowsDecorRange: [0, 2],
-        allowedMainItems: [
-          'counter or island stools (2–4; slim metal frame, upholstered seat in boucle or faux leather)',
-          'compact café table with 2 sculptural chairs (round stone or ceramic top)',
-          'narrow bar table with sleek stools (matte metal base, oak top)',
-          'freestanding bar cart with slim metal frame and glass/stone shelves',
-        ],
-        allowedWallDecor: [
-          'small framed abstract print (neutral tones)',
-          'minimal wall clock (matte black, slim design)',
-          'slim floating ledge for small decor (surface-mounted, shallow)',
-        ],
-        allowedComplementary: [
-          'low-pile runner rug (neutral, washable, anti-slip)',
-          'compact plant (olive or snake plant) in ceramic pot away from prep zone',
-          'sculptural bowl or vase on café/bar table (stone, ceramic, or tinted glass)',
-          'seat cushions or faux leather pads for stools',
-        ],
-        allowedWindowsDecor: [
-          'sheer roman shades (moisture resistant)',
-          'light-filtering roller blinds (easy to clean)',
-          'woven wood shades (sealed, water-friendly)',
-          'frosted window film for privacy',
-          'herb planter set on sill (compact, modern containers)',
-        ],
-      },
-
-      bathroom: {
-        mainPiecesRange: [0, 1],
-        wallDecorRange: [0, 1],
-        complementaryRange: [2, 4],
-        windowsDecorRange: [0, 1],
-        allowedMainItems: [
-          'slim ladder towel rack (matte black or oak)',
-          'narrow floating shelf (above toilet or sink)',
-          'compact freestanding storage tower (metal/wood mix)',
-        ],
-
-        allowedWallDecor: [
-          'framed line art or abstract print (moisture-resistant frame)',
-          'round auxiliary mirror with slim black or brass frame',
-        ],
-
-        allowedComplementary: [
-          'set of folded neutral towels (white, beige, gray)',
-          'dispenser set in ceramic or stone (soap + lotion)',
-          'low-pile bath mat (neutral cotton)',
-          'small humidity-tolerant plant (fern, aloe, orchid) in ceramic pot (outside shower)',
-          'woven or matte metal laundry hamper (compact)',
-        ],
-
-        allowedWindowsDecor: [
-          'frosted film for privacy',
-          'linen roman shade (moisture resistant)',
-          'simple waterproof roller shade',
-        ],
-      },
-
-      dining_room: {
-        mainPiecesRange: [1, 2],
-        wallDecorRange: [1, 2],
-        complementaryRange: [2, 4],
-        windowsDecorRange: [1, 2],
-
-        allowedMainItems: [
-          'extendable dining table (oak or walnut veneer, slim metal base)',
-          'rectangular dining table with matte ceramic or stone top',
-          'round pedestal dining table (marble or fluted wood base)',
-          'set of upholstered dining chairs (fabric or bouclé, slim legs)',
-          'bench with cushion (upholstered, oak base)',
-          'counter stools for bar (slim profile, neutral upholstery)',
-          'slim sideboard with fluted detailing or matte veneer',
-          'wine console with glass doors and wood/metal mix',
-        ],
-
-        allowedWallDecor: [
-          'large abstract framed artwork (earthy/neutral palette)',
-          'round mirror with oak or black metal frame',
-          'minimal floating shelf (oak or black, max 20cm deep)',
-          'pair of slim sconces (matte black or brushed brass)',
-        ],
-
-        allowedComplementary: [
-          'oversized area rug (wool, jute, or wool-blend, neutral abstract)',
-          'ceramic or stone centerpiece with seasonal greenery',
-          'linen or cotton table runner (earth tones)',
-          'pair of buffet lamps with fabric or glass shades',
-          'large plant in ribbed ceramic planter',
-          'minimalist bar cart in matte black or wood/metal mix',
-        ],
-
-        allowedWindowsDecor: [
-          'linen curtains (floor-length, neutral tones)',
-          'layered treatments (sheer + blackout)',
-          'roman shades (neutral fabric, tailored)',
-          'wooden blinds (oak or walnut tone)',
-          'minimal tiebacks in matching fabric/metal',
-        ],
-      },
-
-      home_office: {
-        mainPiecesRange: [2, 3],
-        wallDecorRange: [0, 2],
-        complementaryRange: [2, 4],
-        windowsDecorRange: [1, 2],
-        allowedMainItems: [
-          'sit-stand desk (white oak or matte black frame)',
-          'ergonomic task chair (mesh or upholstered)',
-          'guest lounge chair (slim, upholstered)',
-          'low credenza with clean fronts',
-          'open shelving unit or slim bookcase',
-          'compact filing cabinet (neutral finish)',
-        ],
-        allowedWallDecor: [
-          'framed abstract or photography prints',
-          'magnetic whiteboard or pinboard (framed)',
-          'modular pegboard organizer',
-          'floating shelves (oak/black metal)',
-          'decorative acoustic panels (fabric or wood)',
-        ],
-        allowedComplementary: [
-          'sleek LED desk lamp',
-          'slim floor lamp',
-          'low-pile area rug under chair zone',
-          'plant (snake plant, ZZ, or olive)',
-          'desktop organizers (wood, metal, or acrylic)',
-          'monitor stand (wood/metal finish)',
-          'cable management tray or box',
-        ],
-        allowedWindowsDecor: [
-          'light-filtering blinds (fabric or wood)',
-          'tailored roman shades (neutral tones)',
-          'cordless cellular shades',
-          'neutral professional curtains (linen/cotton blend)',
-          'anti-glare window film',
-        ],
-      },
-
-      kids_room: {
-        mainPiecesRange: [2, 4],
-        wallDecorRange: [1, 2],
-        complementaryRange: [2, 4],
-        windowsDecorRange: [1, 2],
-        allowedMainItems: [
-          'twin, full, or bunk bed (upholstered headboard or wood frame)',
-          'nightstand with rounded corners',
-          'compact desk with ergonomic chair',
-          'bookcase or cubby storage system',
-          'modular toy storage unit',
-          'reading bench with cushions (storage underneath)',
-        ],
-        allowedWallDecor: [
-          'playful framed prints (animals, abstract, or typography)',
-          'customizable name/initial framed art',
-          'shatterproof mirror at child-safe height',
-          'narrow picture ledge for books',
-          'peg rail with hooks (color-accented)',
-        ],
-        allowedComplementary: [
-          'soft washable rug (cotton or wool-blend, playful pattern)',
-          'toy baskets (woven, fabric, or felt)',
-          'beanbag or lounge floor cushion',
-          'reading tent/canopy with fairy lights',
-          'table lamp or night light (fun design)',
-          'small potted plant (out of reach)',
-        ],
-        allowedWindowsDecor: [
-          'blackout curtains (neutral or soft playful print)',
-          'fun patterned roman shades (safe cordless)',
-          'cordless blinds (child safe)',
-          'room-darkening cellular shades',
-        ],
-      },
-
-      outdoor: {
-        mainPiecesRange: [2, 4],
-        wallDecorRange: [0, 1],
-        complementaryRange: [2, 4],
-        windowsDecorRange: [0, 1],
-        allowedMainItems: [
-          'modular outdoor sectional (weather-resistant, neutral fabric)',
-          'pair of lounge chairs (aluminum or teak frame, quick-dry cushions)',
-          'outdoor coffee table (stone, concrete, or teak)',
-          'compact bistro/dining set (aluminum or teak)',
-          'chaise lounge (single or pair, slim frame)',
-          'freestanding cantilever umbrella (neutral canopy)',
-        ],
-        allowedWallDecor: [
-          'outdoor-rated abstract wall art',
-          'shatterproof outdoor mirror (minimal frame)',
-          'modular wall planter system',
-        ],
-        allowedComplementary: [
-          'UV-resistant outdoor rug (neutral geometric pattern)',
-          'planters with mixed greenery at varied heights',
-          'lanterns, solar lamps, or string lights',
-          'outdoor cushions and throws in neutral tones',
-          'small nesting side tables',
-          'ceramic or stone tray for drinks/decor',
-        ],
-        allowedWindowsDecor: [
-          'outdoor curtains (weather-resistant fabric)',
-          'bamboo or synthetic woven roll-up shades',
-          'privacy screens (movable or freestanding)',
-        ],
-      },
-    };
-
-    // Style emphasis (light touch, avoids forcing structure)
-    const styleEmphasisByStyle: Record<FurnitureStyle, string[]> = {
-      standard: [
-        'balanced proportions',
-        'warm neutral palette (greige/warm gray)',
-        'oak/walnut veneers',
-        'brushed nickel hardware',
-        'cotton/linen weaves',
-        'tone-on-tone patterns (subtle herringbone/chevron)',
-        'soft rounded edges',
-      ],
-      modern: [
-        'clean lines, low-profile silhouettes',
-        'matte finishes (lacquer/powder-coat)',
-        'matte black or satin chrome accents',
-        'smoked glass or stone tops',
-        'fluted wood details',
-        'integrated soft curves (2025 trend)',
-      ],
-      scandinavian: [
-        'light woods (oak/beech)',
-        'airy whites/creams with soft pastels',
-        'bouclé/wool knits, cozy layers',
-        'organic curves, minimal ornament',
-        'stoneware/ceramic accents',
-        'light, natural textures',
-      ],
-      industrial: [
-        'blackened steel/iron',
-        'raw or reclaimed wood',
-        'concrete/stone textures',
-        'charcoal/ink/tobacco neutrals',
-        'exposed joinery, robust forms',
-        'leather/canvas accents',
-      ],
-      midcentury: [
-        'tapered legs, slim profiles',
-        'walnut/teak wood tones',
-        'mustard/teal/olive accents',
-        'linen tweed/bouclé textiles',
-        'geometric/atomic motifs',
-        'brass or black hardware',
-      ],
-      luxury: [
-        'velvet/silk-blend, high-pile textiles',
-        'polished brass/champagne gold',
-        'marble or mirrored surfaces',
-        'rich neutrals with jewel accents',
-        'sculptural silhouettes',
-        'fine ribbed glass/fluted details',
-      ],
-      coastal: [
-        'white/sand/driftwood palette',
-        'soft blue/seafoam accents',
-        'rattan/jute textures',
-        'weathered/whitewashed woods',
-        'linen/cotton textiles',
-        'subtle stripes, airy botanicals',
-      ],
-      farmhouse: [
-        'warm whites and earth tones',
-        'reclaimed/knotty woods',
-        'shaker profiles',
-        'black/antique bronze hardware',
-        'hand-thrown ceramics/stoneware',
-        'gingham/ticking stripes',
-      ],
-    };
-
-    const plan = baseByRoom[roomType];
-
     return {
-      ...plan,
-      styleEmphasis: styleEmphasisByStyle[furnitureStyle],
+      ...(catalog.rooms[roomType] ?? buildGenericRoomEntry(roomType)),
+      styleEmphasis: this.getStyleEntry(catalog, furnitureStyle).emphasis,
     };
   }
 
-  // ------- labels -------
-  private getRoomTypeLabel(roomType: RoomType): string {
-    const labels: Record<RoomType, string> = {
-      bedroom: 'bedroom',
-      living_room: 'living room',
-      kitchen: 'kitchen',
-      bathroom: 'bathroom',
-      home_office: 'home office',
-      dining_room: 'dining room',
-      kids_room: 'kids room',
-      outdoor: 'outdoor space',
-    };
-    return labels[roomType];
+  // Estilos cadastrados sem entrada no catálogo usam uma orientação genérica
+  private getStyleEntry(catalog: StagingCatalog, furnitureStyle: FurnitureStyle): StyleCatalogEntry {
+    return catalog.styles[furnitureStyle] ?? buildGenericStyleEntry(furnitureStyle);
   }
 
-  private getFurnitureStyleLabel(furnitureStyle: FurnitureStyle): string {
-    const labels: Record<FurnitureStyle, string> = {
-      standard: 'standard',
-      modern: 'modern',
-      scandinavian: 'Scandinavian',
-      industrial: 'industrial',
-      midcentury: 'mid-century modern',
-      luxury: 'luxury',
-      coastal: 'coastal',
-      farmhouse: 'farmhouse',
-    };
-    return labels[furnitureStyle];
+  private buildDynamicStyleGuidance(
+    catalog: StagingCatalog,
+    furnitureStyle: FurnitureStyle
+  ): string {
+    const s = this.getStyleEntry(catalog, furnitureStyle).guidance;
+    return s ? `\n${s}\n` : '';
   }
 
-  private buildDynamicStyleGuidance(furnitureStyle: FurnitureStyle): string {
-    const profile: Record<FurnitureStyle, string> = {
-      standard: `Replace all existing furniture and decor items with standard contemporary alternatives: soft rounded edges, balanced proportions, and medium-firm box cushions. Favor oak or walnut veneers, linen or cotton weaves, and brushed nickel or matte black accents. Include subtle stitch details and tone-on-tone piping. Avoid ornate carvings, glossy glam finishes, and heavy tufting. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
-
-      modern: `Replace all existing furniture and decor items with modern alternatives: clean low-profile silhouettes, rectilinear forms softened by gentle curves, thin sled or blade legs, and flush-front detailing with shadow gaps. Use matte lacquer, powder-coated metal, smoked glass, and stone such as travertine or basalt. Limited fluted wood accents are allowed, paired with matte black or satin chrome details. Avoid rustic distressing, farmhouse cross-braces, heavy ornament, or glossy mirror chrome. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
-
-      scandinavian: `Replace all existing furniture and decor items with Scandinavian alternatives: airy minimal silhouettes, organic curves, and tapered light-wood legs in oak or beech. Favor bouclé, wool, cotton, and stoneware finishes with visible grain and natural textures. Accent with light neutral tones and subtle pastels, with matte black or white hardware. Avoid dark heavy woods, mirrored glam, or bulky tufted forms. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
-
-      industrial: `Replace all existing furniture and decor items with industrial alternatives: robust proportions, exposed joinery, and square tube or steel frames. Use blackened steel, raw or reclaimed wood, concrete, and oiled leather finishes. Details may include visible welds, bolted brackets, and antique brass or blackened hardware. Avoid delicate ornament, glossy whites, or glam cues. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
-
-      midcentury: `Replace all existing furniture and decor items with midcentury modern alternatives: slim profiles, boxy cushions, loose backs, and tapered walnut or teak legs. Apply linen tweed, bouclé, or fine woven fabrics with light tufting or piping. Accents may include brass or matte black hardware, with geometric or atomic-inspired motifs in small scale. Avoid oversized overstuffed seating or futuristic glossy chrome. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
-
-      luxury: `Replace all existing furniture and decor items with luxury alternatives: sculptural sumptuous silhouettes, deeply plush seating, and softly curved arms. Use rich surfaces in velvet, silk blends, marble, ribbed or fluted glass, and mirror accents. Incorporate mitered stone edges, polished reveals, and metallics in polished brass or champagne gold. Avoid rustic or distressed finishes and industrial roughness. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
-
-      coastal: `Replace all existing furniture and decor items with coastal alternatives: breezy casual silhouettes, rounded edges, and relaxed slipcovered forms. Use rattan, jute, driftwood, and bleached light woods with linen or cotton upholstery. Accent with soft neutrals, light stripes, and open-weave details in brushed nickel or light bronze. Avoid jewel tones, heavy black metals, and glam velvets. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
-
-      farmhouse: `Replace all existing furniture and decor items with farmhouse alternatives: sturdy shaker-inspired frames, natural or greige wood finishes, and reclaimed or knotty textures. Favor stoneware accents, textured cotton or linen fabrics, and black or antique bronze hardware. Subtle soft distressing is allowed, but avoid glass-heavy tables, ultra-modern chrome, or glossy lacquer. Preserve all walls, floors, ceilings, doors, windows, and circulation paths exactly as in the original image.`,
-    };
+  // Materiais e cores da paleta do imóvel, repetidos em todos os cômodos
+  private buildPaletteGuidance(palette?: DesignPalette): string {
+    if (!palette) {
+      return '';
+    }
+    const parts = [
+      palette.materials.length > 0 && `materials: ${palette.materials.join(', ')}`,
+      palette.colors.length > 0 && `colors: ${palette.colors.join(', ')}`,
+    ].filter(Boolean);
+    return parts.length > 0
+      ? `\nDesign palette shared by every room of this property (${parts.join('; ')}). Keep these materials and colors consistent across all furniture and decor.\n`
+      : '';
+  }
 
-    const s = profile[furnitureStyle];
-    return s ? `\n${s}\n` : '';
+  // Itens da paleta permitidos no cômodo primeiro; o restante é sorteado
+  private pickItems(
+    allowed: string[],
+    preferred: string[] | undefined,
+    n: number,
+    random: () => number
+  ): string[] {
+    const picked = (preferred ?? []).filter(item => allowed.includes(item)).slice(0, n);
+    const rest = this.sampleArray(
+      allowed.filter(item => !picked.includes(item)),
+      n - picked.length,
+      random
+    );
+    return [...picked, ...rest];
   }
 
   // ========== NOVOS MÉTODOS PARA STAGING EM ETAPAS ==========
-  sampleArray<T>(arr: T[] | undefined, n = 4): T[] {
+  sampleArray<T>(arr: T[] | undefined, n = 4, random: () => number = Math.random): T[] {
     if (!arr) {
       return [];
     }
     const copy = [...arr];
     for (let i = copy.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(random() * (i + 1));
       if (copy[i] !== undefined && copy[j] !== undefined) {
         const temp = copy[i];
         copy[i] = copy[j];
@@ -535,74 +106,58 @@ class StagingPlanService {
   }
 
   /**
-   * Gera um plano completo de staging em 4 etapas para um cômodo específico
+   * Gera um plano completo de staging em 4 etapas para um cômodo específico,
+   * a partir da versão ativa do catálogo. Os prompts vêm dos templates
+   * versionados; templates.assignmentKey (uploadId) fixa a variante do A/B.
+   * Com a paleta do imóvel, os itens sorteados se repetem entre as etapas e
+   * priorizam os da paleta, e os materiais/cores entram no prompt.
    */
-  generateStagingPlan(
+  async generateStagingPlan(
     roomType: RoomType,
     furnitureStyle: FurnitureStyle,
-    stageSelection?: StageSelectionConfig
-  ): StagingPlan {
-    const plan = this.getRoomStagingPlan(roomType, furnitureStyle);
-    const roomLabel = this.getRoomTypeLabel(roomType);
-    const styleLabel = this.getFurnitureStyleLabel(furnitureStyle);
+    stageSelection?: StageSelectionConfig,
+    templates: PromptTemplateSelection = {},
+    palette?: DesignPalette
+  ): Promise<StagingPlan> {
+    const { version, catalog } = await stagingCatalogService.getCatalog();
+    const plan = this.getRoomStagingPlan(catalog, roomType, furnitureStyle);
+    const roomLabel = plan.promptLabel;
+    const styleLabel = this.getStyleEntry(catalog, furnitureStyle).promptLabel;
 
     // Gerar estilo global uma única vez para todas as etapas
-    const globalStyleGuidance = this.buildDynamicStyleGuidance(furnitureStyle);
-
-    // Função para gerar regras específicas por stage
-    const getStageSpecificGlobalRules = (stage: StagingStage): string[] => {
-      let stageSpecificText = '';
+    const globalStyleGuidance =
+      this.buildDynamicStyleGuidance(catalog, furnitureStyle) +
+      this.buildPaletteGuidance(palette);
 
-      switch (stage) {
-        case 'foundation':
-          stageSpecificText = `Add only new furniture items on top of the original photo; never modify or substitute existing architecture or surfaces. 
-Preserve floor, walls, ceiling, doors, windows, and lighting exactly as they appear, without recoloring or altering textures. 
-Maintain composition, perspective, dimensions, and circulation paths identical to the original image.`;
-          break;
-        case 'complement':
-          stageSpecificText = `Add only new decor items on top of the original photo; never modify or substitute existing architecture or surfaces. 
-Preserve floor, walls, ceiling, doors, windows, and lighting exactly as they appear, without recoloring or altering textures. 
-Maintain composition, perspective, dimensions, and circulation paths identical to the original image.`;
-          break;
-        case 'wall_decoration':
-          stageSpecificText = `Add only new wall decor items on top of the original photo; never modify or substitute existing architecture or surfaces. 
-Preserve floor, walls, ceiling, doors, windows, and lighting exactly as they appear, without recoloring or altering textures. 
-Maintain composition, perspective, dimensions, and circulation paths identical to the original image.`;
-          break;
-        case 'windows_decoration':
-          stageSpecificText = `Add only new windows decoration items on top of the original photo; never modify or substitute existing architecture or surfaces. 
-Preserve floor, walls, ceiling, doors, windows, and lighting exactly as they appear, without recoloring or altering textures. 
-Maintain composition, perspective, dimensions, and circulation paths identical to the original image.`;
-          break;
-        case 'customization':
-          stageSpecificText =
-            'Make only subtle final adjustments and refinements to existing elements, on top of the original photo;';
-          break;
-        default:
-          stageSpecificText =
-            'Add only furniture and decor items, on top of the original photo; never modify, move, or substitute any existing structures, furniture or surfaces.';
-      }
-
-      return [`${stageSpecificText}`];
-    };
+    // Com paleta, o sorteio é fixo por seed e cômodo
+    const random = palette
+      ? createSeededRandom(`${palette.seed}:${roomType}`)
+      : Math.random;
 
     // Versões curtas das categorias permitidas
-    const allowedMainShort = this.sampleArray(plan.allowedMainItems, 3).join(
+    const allowedMainShort = this.sampleArray(plan.allowedMainItems, 3, random).join(
       ', '
     );
-    const allowedCompShort = this.sampleArray(
+    const allowedCompShort = this.pickItems(
       plan.allowedComplementary,
-      10
+      palette?.itemPicks.complementary,
+      10,
+      random
     ).join(', ');
-    const allowedWallShort = this.sampleArray(plan.allowedWallDecor, 2).join(
-      ', '
-    );
-    const allowedWindowsShort = this.sampleArray(
+    const allowedWallShort = this.pickItems(
+      plan.allowedWallDecor,
+      palette?.itemPicks.wallDecor,
+      2,
+      random
+    ).join(', ');
+    const allowedWindowsShort = this.pickItems(
       plan.allowedWindowsDecor,
-      3
+      palette?.itemPicks.windowsDecor,
+      3,
+      random
     ).join(', ');
 
-    const stages: StagingStageConfig[] = [
+    const stages: Array<Omit<StagingStageConfig, 'prompt'>> = [
       // Etapa 1: Base/Fundação - Móveis principais
       {
         stage: 'foundation',
@@ -615,21 +170,6 @@ Maintain composition, perspective, dimensions, and circulation paths identical t
           'no_window_treatments',
           'circulation_clear',
         ],
-        prompt: this.generateStagePrompt(
-          'foundation',
-          roomLabel,
-          styleLabel,
-          allowedMainShort,
-          '',
-          '',
-          '',
-          plan.mainPiecesRange,
-          plan.complementaryRange,
-          plan.wallDecorRange,
-          plan.windowsDecorRange,
-          getStageSpecificGlobalRules('foundation'),
-          globalStyleGuidance
-        ),
       },
 
       // Etapa 2: Complementos - Acessórios e itens funcionais
@@ -644,21 +184,6 @@ Maintain composition, perspective, dimensions, and circulation paths identical t
           'circulation_clear',
           'plant_placement',
         ],
-        prompt: this.generateStagePrompt(
-          'complement',
-          roomLabel,
-          styleLabel,
-          '',
-          allowedCompShort,
-          '',
-          '',
-          plan.mainPiecesRange,
-          plan.complementaryRange,
-          plan.wallDecorRange,
-          plan.windowsDecorRange,
-          getStageSpecificGlobalRules('complement'),
-          globalStyleGuidance
-        ),
       },
 
       // Etapa 3: Decoração de janelas - Cortinas, persianas e tratamentos de janela
@@ -680,21 +205,6 @@ Maintain composition, perspective, dimensions, and circulation paths identical t
           'proper_window_coverage',
           'style_consistency',
         ],
-        prompt: this.generateStagePrompt(
-          'windows_decoration',
-          roomLabel,
-          styleLabel,
-          '',
-          '',
-          '',
-          allowedWindowsShort,
-          plan.mainPiecesRange,
-          plan.complementaryRange,
-          plan.wallDecorRange,
-          plan.windowsDecorRange,
-          getStageSpecificGlobalRules('windows_decoration'),
-          globalStyleGuidance
-        ),
       },
 
       // Etapa 4: Decoração de parede - Quadros, espelhos e elementos decorativos
@@ -715,21 +225,6 @@ Maintain composition, perspective, dimensions, and circulation paths identical t
           'proper_height_placement',
           'balanced_distribution',
         ],
-        prompt: this.generateStagePrompt(
-          'wall_decoration',
-          roomLabel,
-          styleLabel,
-          '',
-          '',
-          allowedWallShort,
-          '',
-          plan.mainPiecesRange,
-          plan.complementaryRange,
-          plan.wallDecorRange,
-          plan.windowsDecorRange,
-          getStageSpecificGlobalRules('wall_decoration'),
-          globalStyleGuidance
-        ),
       },
 
       // Etapa 5: Customização - Ajustes finais e personalização
@@ -750,124 +245,93 @@ Maintain composition, perspective, dimensions, and circulation paths identical t
           'style_consistency',
           'final_validation',
         ],
-        prompt: this.generateStagePrompt(
-          'customization',
-          roomLabel,
-          styleLabel,
-          '',
-          '',
-          '',
-          '',
-          plan.mainPiecesRange,
-          plan.complementaryRange,
-          plan.wallDecorRange,
-          plan.windowsDecorRange,
-          getStageSpecificGlobalRules('customization'),
-          globalStyleGuidance
-        ),
       },
     ];
 
     // Filtrar etapas baseado na seleção do usuário
     const filteredStages = stageSelection
-      ? stages.filter(stage => {
-          switch (stage.stage) {
-            case 'foundation':
-              return stageSelection.foundation;
-            case 'complement':
-              return stageSelection.complement;
-            case 'wall_decoration':
-              return stageSelection.wall_decoration;
-            case 'windows_decoration':
-              return stageSelection.windows_decoration;
-            case 'customization':
-              return stageSelection.customization;
-            default:
-              return true;
-          }
-        })
+      ? stages.filter(stage => stageSelection[stage.stage] ?? true)
       : stages;
 
+    // Versões dos templates (A/B) apenas das etapas que serão executadas
+    const promptTemplates = await promptTemplateService.resolveVersions(
+      [
+        ...filteredStages.map(stage => this.getStageTemplateName(stage.stage)),
+        'stage.instruction',
+      ],
+      templates
+    );
+
+    // Itens sorteados de cada etapa (a customização não lista itens)
+    const stageItems: Record<StagingStage, string> = {
+      foundation: allowedMainShort,
+      complement: allowedCompShort,
+      windows_decoration: allowedWindowsShort,
+      wall_decoration: allowedWallShort,
+      customization: '',
+    };
+    const formatRange = ([min, max]: Range) => `${min}-${max}`;
+
+    const renderedStages: StagingStageConfig[] = await Promise.all(
+      filteredStages.map(async stage => {
+        const templateName = this.getStageTemplateName(stage.stage);
+        const { text } = await promptTemplateService.render(
+          templateName,
+          {
+            room: roomLabel,
+            style: styleLabel,
+            items: stageItems[stage.stage],
+            minItems: stage.minItems,
+            maxItems: stage.maxItems,
+            mainRange: formatRange(plan.mainPiecesRange),
+            complementaryRange: formatRange(plan.complementaryRange),
+            wallDecorRange: formatRange(plan.wallDecorRange),
+            windowsDecorRange: formatRange(plan.windowsDecorRange),
+            styleGuidance: globalStyleGuidance,
+          },
+          { versions: promptTemplates }
+        );
+        return { ...stage, prompt: text };
+      })
+    );
+
     return {
       roomType,
       furnitureStyle,
-      stages: filteredStages,
-      globalRules: getStageSpecificGlobalRules('foundation'),
+      stages: renderedStages,
+      globalRules: [STAGING_GLOBAL_RULES],
+      ...(version !== null && { catalogVersion: version }),
+      promptTemplates,
+      ...(palette && { palette }),
     };
   }
 
-  /**
-   * Gera prompt específico para cada etapa
-   */
-  private generateStagePrompt(
-    stage: StagingStage,
-    roomLabel: string,
-    styleLabel: string,
-    allowedMainShort: string,
-    allowedCompShort: string,
-    allowedWallShort: string,
-    allowedWindowsShort: string,
-    mainRange: Range,
-    compRange: Range,
-    wallDecorRange: Range,
-    windowsDecorRange: Range,
-    globalRules: string[],
-    stylesRules: string
-  ): string {
-    const [minMain, maxMain] = mainRange;
-    const [minComp, maxComp] = compRange;
-    const [minWallDecor, maxWallDecor] = wallDecorRange;
-    const [minWindowsDecor, maxWindowsDecor] = windowsDecorRange;
-
-    const globalRulesText = globalRules.join('\n');
-
-    switch (stage) {
-      case 'foundation':
-        return `${globalRulesText}
-Add between ${minMain}-${maxMain} main furniture item appropriate to this ${roomLabel} in ${styleLabel} style: 
-${allowedMainShort}
- `;
-
-      case 'complement':
-        return `${globalRulesText}
-Add between ${minComp}-${maxComp} main furniture item appropriate to this ${roomLabel} in ${styleLabel} style: 
-${allowedCompShort}`;
-
-      case 'wall_decoration':
-        return `${globalRulesText}
-Add between ${minWallDecor}-${maxWallDecor} main furniture item appropriate to this ${roomLabel} in ${styleLabel} style: 
-${allowedWallShort}`;
-
-      case 'windows_decoration':
-        return `${globalRulesText}
-Add between ${minWindowsDecor}-${maxWindowsDecor} main furniture item appropriate to this ${roomLabel} in ${styleLabel} style: 
-${allowedWindowsShort}`;
-      case 'customization':
-        return `
-        Maintain wall, ground and roof as original image.
-${stylesRules}
-Maintain all doors, openings, windows, dimensions (width and height) and circulation paths exactly as in the original image. Do not block, move, resize, or alter them in any way.
-`;
-
-      default:
-        throw new Error(`Unknown staging stage: ${stage}`);
-    }
+  private getStageTemplateName(stage: StagingStage): PromptTemplateName {
+    return `stage.${stage}`;
   }
 
   /**
    * Gera prompt para uma etapa específica com contexto atual
+   * @param userInstruction instrução livre do usuário (regeneração), anexada ao final
+   * @param templates versões dos templates já atribuídas ao upload
+   * @param palette paleta do imóvel gravada no plano do upload
    */
-  generateStageSpecificPrompt(
+  async generateStageSpecificPrompt(
     stage: StagingStage,
     roomType: RoomType,
     furnitureStyle: FurnitureStyle,
     currentItemCount: number = 0,
-    stageSelection?: StageSelectionConfig
-  ): string {
-    const plan = this.generateStagingPlan(
+    stageSelection?: StageSelectionConfig,
+    userInstruction?: string,
+    templates: PromptTemplateSelection = {},
+    palette?: DesignPalette
+  ): Promise<string> {
+    const plan = await this.generateStagingPlan(
       roomType,
       furnitureStyle,
-      stageSelection
+      stageSelection,
+      templates,
+      palette
     );
     const stageConfig = plan.stages.find(s => s.stage === stage);
 
@@ -875,6 +339,15 @@ Maintain all doors, openings, windows, dimensions (width and height) and circula
       throw new Error(`Stage configuration not found for: ${stage}`);
     }
 
+    if (userInstruction) {
+      const { text } = await promptTemplateService.render(
+        'stage.instruction',
+        { prompt: stageConfig.prompt, instruction: userInstruction },
+        { versions: plan.promptTemplates ?? {} }
+      );
+      return text;
+    }
+
     return stageConfig.prompt;
   }
 }
@@ -0,0 +1,108 @@
+import sharp from 'sharp';
+import { StagingValidationService } from './staging-validation.service';
+
+// Cômodo sintético no tamanho de análise (256x192): parede em cima, piso embaixo
+const WIDTH = 256;
+const HEIGHT = 192;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill: string;
+}
+
+async function renderRoom(options: { wall?: string; rects?: Rect[] } = {}): Promise<Buffer> {
+  const shapes = (options.rects ?? [])
+    .map(
+      r => `<rect x="${r.x}" y="${r.y}" width="${r.width}" height="${r.height}" fill="${r.fill}"/>`
+    )
+    .join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}">
+    <rect x="0" y="0" width="${WIDTH}" height="120" fill="${options.wall ?? '#c8c8c8'}"/>
+    <rect x="0" y="120" width="${WIDTH}" height="${HEIGHT - 120}" fill="#966e46"/>
+    ${shapes}
+  </svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+// Dois móveis separados na metade de baixo, alinhados à grade de 32x24
+const SOFA: Rect = { x: 32, y: 120, width: 64, height: 48, fill: '#1e1e1e' };
+const TABLE: Rect = { x: 160, y: 120, width: 64, height: 48, fill: '#1e1e1e' };
+
+describe('StagingValidationService', () => {
+  const service = new StagingValidationService();
+
+  it('aceita uma imagem sem alterações', async () => {
+    const room = await renderRoom();
+
+    const result = await service.validateStage(room, room, 'customization', 'living_room', 0);
+
+    expect(result.passed).toBe(true);
+    expect(result.itemCount).toBe(0);
+    expect(result.architectureSimilarity).toBe(1);
+    expect(result.changeMap?.flat().every(value => value === 0)).toBe(true);
+  });
+
+  it('conta os móveis adicionados na faixa da etapa', async () => {
+    const [empty, staged] = await Promise.all([
+      renderRoom(),
+      renderRoom({ rects: [SOFA, TABLE] }),
+    ]);
+
+    const result = await service.validateStage(empty, staged, 'foundation', 'living_room', 2);
+
+    expect(result.itemCount).toBe(2);
+    expect(result.architectureDriftExceeded).toBe(false);
+    expect(result.hasWallDecor).toBe(false);
+    expect(result.doorsBlocked).toBe(false);
+    expect(result.passed).toBe(true);
+  });
+
+  it('reprova quando faltam itens', async () => {
+    const [empty, staged] = await Promise.all([renderRoom(), renderRoom({ rects: [SOFA] })]);
+
+    const result = await service.validateStage(empty, staged, 'foundation', 'living_room', 2);
+
+    expect(result.itemCount).toBe(1);
+    expect(result.passed).toBe(false);
+    expect(result.errors).toContain('Foundation stage should have at least 2 main items, found 1');
+  });
+
+  it('reprova quando a parede foi repintada', async () => {
+    const [empty, repainted] = await Promise.all([
+      renderRoom(),
+      renderRoom({ wall: '#3c3ca0', rects: [SOFA, TABLE] }),
+    ]);
+
+    const result = await service.validateStage(empty, repainted, 'foundation', 'living_room', 2);
+
+    expect(result.architectureDriftExceeded).toBe(true);
+    expect(result.colorDeviationDetected).toBe(true);
+    expect(result.passed).toBe(false);
+  });
+
+  it('aceita data URLs em base64', async () => {
+    const room = `data:image/png;base64,${(await renderRoom()).toString('base64')}`;
+
+    const result = await service.validateStage(room, room, 'customization', 'bedroom', 0);
+
+    expect(result.passed).toBe(true);
+  });
+
+  it('reprova imagens que não podem ser lidas', async () => {
+    const room = await renderRoom();
+
+    const result = await service.validateStage(
+      room,
+      Buffer.from('not an image'),
+      'foundation',
+      'living_room',
+      1
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.errors[0]).toMatch(/^Validation error: /);
+  });
+});
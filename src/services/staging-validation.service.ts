@@ -1,18 +1,69 @@
 import { StagingValidationResult, StagingStage, RoomType } from '../interfaces/upload.interface';
 import sharp from 'sharp';
 
+// Resolução de análise: as duas imagens são reduzidas ao mesmo tamanho antes da comparação
+const ANALYSIS_WIDTH = 256;
+const ANALYSIS_HEIGHT = 192;
+
+// Grade do mapa de mudanças por região
+const GRID_ROWS = 8;
+const GRID_COLS = 8;
+
+// Janela (em pixels) do cálculo de similaridade estrutural
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Diferença média (0-1) a partir da qual uma região é considerada alterada
+const CHANGED_REGION_THRESHOLD = 0.1;
+
+// Faixas verticais (fração da altura) usadas na análise de cor
+const WALL_BAND: [number, number] = [0.05, 0.3];
+const FLOOR_BAND: [number, number] = [0.9, 1];
+const WALL_DECOR_BAND: [number, number] = [0.1, 0.45];
+const CIRCULATION_BAND: [number, number] = [0.75, 1];
+
+// Faixa vertical em que cada etapa pode alterar a imagem; o restante é tratado
+// como arquitetura (teto, paredes, janelas) e deve permanecer igual
+const STAGE_CHANGE_BANDS: Record<StagingStage, [number, number]> = {
+  foundation: [0.4, 1],
+  complement: [0.3, 1],
+  wall_decoration: [0.1, 0.75],
+  windows_decoration: [0, 0.9],
+  customization: [0.25, 1],
+};
+
+interface AnalysisImage {
+  rgb: Buffer;
+  grey: Uint8Array;
+}
+
 /**
  * Serviço de validação para o sistema de staging em etapas
- * Implementa heurísticas simples e rápidas para validar cada etapa
+ *
+ * Compara a imagem de entrada da etapa com a imagem gerada: similaridade
+ * estrutural (SSIM) nas regiões que a etapa não deveria alterar, mapa de
+ * mudanças por região e desvio de cor de paredes e piso.
  */
 export class StagingValidationService {
-  
+  private readonly maxArchitectureDrift = parseFloat(
+    process.env.STAGE_MAX_ARCHITECTURE_DRIFT || '0.25'
+  );
+  private readonly maxWallColorDrift = parseFloat(
+    process.env.STAGE_MAX_WALL_COLOR_DRIFT || '0.12'
+  );
+  private readonly maxFloorColorDrift = parseFloat(
+    process.env.STAGE_MAX_FLOOR_COLOR_DRIFT || '0.2'
+  );
+
   /**
    * Valida uma etapa específica do staging
+   * @param originalImage imagem de entrada da etapa (buffer ou base64/data URL)
+   * @param processedImage imagem gerada pela etapa (buffer ou base64/data URL)
    */
   async validateStage(
-    originalImageBase64: string,
-    processedImageBase64: string,
+    originalImage: Buffer | string,
+    processedImage: Buffer | string,
     stage: StagingStage,
     roomType: RoomType,
     expectedItemCount: number
@@ -29,25 +80,50 @@ export class StagingValidationService {
         errors: []
       };
 
-      // 1. Validação de contagem de itens (heurística simples)
-      result.itemCount = await this.estimateItemCount(processedImageBase64);
-      
-      // 2. Validação de desvio de cor global
-      result.colorDeviationDetected = await this.detectColorDeviation(
-        originalImageBase64, 
-        processedImageBase64
+      const [original, processed] = await Promise.all([
+        this.loadForAnalysis(originalImage),
+        this.loadForAnalysis(processedImage),
+      ]);
+      const changeBand = STAGE_CHANGE_BANDS[stage];
+
+      // 1. Mapa de mudanças por região
+      result.changeMap = this.computeChangeMap(original, processed);
+
+      // 2. Similaridade estrutural nas regiões de arquitetura
+      result.architectureSimilarity = this.round(
+        this.computeMaskedSsim(original, processed, changeBand)
       );
+      result.architectureDrift = this.round(1 - result.architectureSimilarity);
+      result.architectureDriftExceeded =
+        result.architectureDrift > this.maxArchitectureDrift;
+
+      // 3. Desvio de cor de paredes e piso
+      result.wallColorDrift = this.round(this.computeColorDrift(original, processed, WALL_BAND));
+      result.floorColorDrift = this.round(this.computeColorDrift(original, processed, FLOOR_BAND));
+      result.colorDeviationDetected =
+        result.wallColorDrift > this.maxWallColorDrift ||
+        result.floorColorDrift > this.maxFloorColorDrift;
 
-      // 3. Detecção de wall decor (heurística baseada em análise de bordas)
-      result.hasWallDecor = await this.detectWallDecor(processedImageBase64);
+      // 4. Itens adicionados: grupos de regiões alteradas dentro da faixa da etapa
+      result.itemCount = this.countChangedClusters(result.changeMap, changeBand);
 
-      // 4. Detecção de cortinas/persianas
-      result.hasWindowTreatments = await this.detectWindowTreatments(processedImageBase64);
+      // 5. Wall decor, cortinas/persianas e circulação
+      result.hasWallDecor = this.detectWallDecor(result.changeMap);
+      result.hasWindowTreatments = this.detectWindowTreatments(original, processed);
+      const circulation = this.validateCirculation(result.changeMap);
+      result.doorsBlocked = circulation.doorsBlocked;
+      result.stairsBlocked = circulation.stairsBlocked;
 
-      // 5. Validações específicas por etapa
+      if (result.architectureDriftExceeded) {
+        result.errors.push(
+          `Architecture drift ${result.architectureDrift} exceeds ${this.maxArchitectureDrift} - structural elements were modified`
+        );
+      }
+
+      // 6. Validações específicas por etapa
       await this.validateStageSpecific(result, stage, expectedItemCount);
 
-      // 6. Validações específicas por tipo de cômodo
+      // 7. Validações específicas por tipo de cômodo
       await this.validateRoomSpecific(result, roomType);
 
       // Determinar se passou na validação
@@ -69,177 +145,260 @@ export class StagingValidationService {
   }
 
   /**
-   * Estima o número de itens adicionados (heurística simples)
-   * Baseado em análise de diferenças entre imagens
+   * Reduz a imagem à resolução de análise (RGB e tons de cinza)
    */
-  private async estimateItemCount(imageBase64: string): Promise<number> {
-    try {
-      // Implementação simplificada - em produção seria mais sofisticada
-      // Por agora, retorna uma estimativa baseada no tamanho da imagem
-      const payload = imageBase64.includes('base64,') 
-        ? imageBase64.split('base64,')[1] 
-        : imageBase64;
-      
-      if (!payload) {
-        throw new Error('Invalid base64 image data');
+  private async loadForAnalysis(image: Buffer | string): Promise<AnalysisImage> {
+    const rgb = await sharp(this.toBuffer(image))
+      .rotate()
+      .resize(ANALYSIS_WIDTH, ANALYSIS_HEIGHT, { fit: 'fill' })
+      .removeAlpha()
+      .raw()
+      .toBuffer();
+
+    const grey = new Uint8Array(ANALYSIS_WIDTH * ANALYSIS_HEIGHT);
+    for (let i = 0; i < grey.length; i++) {
+      grey[i] = Math.round(
+        0.299 * rgb[i * 3]! + 0.587 * rgb[i * 3 + 1]! + 0.114 * rgb[i * 3 + 2]!
+      );
+    }
+
+    return { rgb, grey };
+  }
+
+  private toBuffer(image: Buffer | string): Buffer {
+    if (Buffer.isBuffer(image)) {
+      return image;
+    }
+
+    const payload = image.includes('base64,') ? image.split('base64,')[1] : image;
+    if (!payload) {
+      throw new Error('Invalid base64 image data');
+    }
+    return Buffer.from(payload, 'base64');
+  }
+
+  /**
+   * Diferença média (0-1) entre as imagens em cada célula da grade
+   */
+  private computeChangeMap(original: AnalysisImage, processed: AnalysisImage): number[][] {
+    const cellWidth = ANALYSIS_WIDTH / GRID_COLS;
+    const cellHeight = ANALYSIS_HEIGHT / GRID_ROWS;
+    const changeMap: number[][] = [];
+
+    for (let row = 0; row < GRID_ROWS; row++) {
+      const cells: number[] = [];
+      for (let col = 0; col < GRID_COLS; col++) {
+        let total = 0;
+        let count = 0;
+        for (let y = row * cellHeight; y < (row + 1) * cellHeight; y++) {
+          for (let x = col * cellWidth; x < (col + 1) * cellWidth; x++) {
+            const offset = (y * ANALYSIS_WIDTH + x) * 3;
+            total +=
+              Math.abs(original.rgb[offset]! - processed.rgb[offset]!) +
+              Math.abs(original.rgb[offset + 1]! - processed.rgb[offset + 1]!) +
+              Math.abs(original.rgb[offset + 2]! - processed.rgb[offset + 2]!);
+            count += 3;
+          }
+        }
+        cells.push(this.round(total / count / 255));
       }
-      
-      const buffer = Buffer.from(payload, 'base64');
-      const metadata = await sharp(buffer).metadata();
-      
-      // Heurística simples: imagens maiores tendem a ter mais itens
-      const pixelCount = (metadata.width || 512) * (metadata.height || 512);
-      const estimatedItems = Math.floor(pixelCount / 100000); // Ajustar conforme necessário
-      
-      return Math.max(1, Math.min(estimatedItems, 10)); // Entre 1 e 10 itens
-    } catch (error) {
-      return 1; // Fallback
+      changeMap.push(cells);
     }
+
+    return changeMap;
   }
 
   /**
-   * Detecta desvio significativo de cor entre imagens
+   * SSIM médio das janelas fora da faixa em que a etapa pode alterar a imagem
    */
-  private async detectColorDeviation(
-    originalBase64: string, 
-    processedBase64: string
-  ): Promise<boolean> {
-    try {
-      const originalPayload = originalBase64.includes('base64,') 
-        ? originalBase64.split('base64,')[1] 
-        : originalBase64;
-      const processedPayload = processedBase64.includes('base64,') 
-        ? processedBase64.split('base64,')[1] 
-        : processedBase64;
-
-      if (!originalPayload || !processedPayload) {
-        return false;
+  private computeMaskedSsim(
+    original: AnalysisImage,
+    processed: AnalysisImage,
+    changeBand: [number, number]
+  ): number {
+    let total = 0;
+    let windows = 0;
+
+    for (let y0 = 0; y0 + SSIM_WINDOW <= ANALYSIS_HEIGHT; y0 += SSIM_WINDOW) {
+      const center = (y0 + SSIM_WINDOW / 2) / ANALYSIS_HEIGHT;
+      if (center >= changeBand[0] && center <= changeBand[1]) {
+        continue;
       }
 
-      const originalBuffer = Buffer.from(originalPayload, 'base64');
-      const processedBuffer = Buffer.from(processedPayload, 'base64');
+      for (let x0 = 0; x0 + SSIM_WINDOW <= ANALYSIS_WIDTH; x0 += SSIM_WINDOW) {
+        total += this.windowSsim(original.grey, processed.grey, x0, y0);
+        windows++;
+      }
+    }
 
-      // Análise simplificada de histograma de cores
-      const originalStats = await sharp(originalBuffer).stats();
-      const processedStats = await sharp(processedBuffer).stats();
+    // Etapas que podem alterar a imagem inteira não têm região de arquitetura
+    return windows > 0 ? total / windows : 1;
+  }
 
-      // Compara médias dos canais RGB
-      const originalMean = originalStats.channels?.reduce((sum, ch) => sum + ch.mean, 0) / 3 || 0;
-      const processedMean = processedStats.channels?.reduce((sum, ch) => sum + ch.mean, 0) / 3 || 0;
+  private windowSsim(a: Uint8Array, b: Uint8Array, x0: number, y0: number): number {
+    const n = SSIM_WINDOW * SSIM_WINDOW;
+    let sumA = 0;
+    let sumB = 0;
+    for (let y = y0; y < y0 + SSIM_WINDOW; y++) {
+      for (let x = x0; x < x0 + SSIM_WINDOW; x++) {
+        sumA += a[y * ANALYSIS_WIDTH + x]!;
+        sumB += b[y * ANALYSIS_WIDTH + x]!;
+      }
+    }
+    const meanA = sumA / n;
+    const meanB = sumB / n;
 
-      const deviation = originalMean > 0 ? Math.abs(originalMean - processedMean) / originalMean : 0;
-      
-      // Se desvio > 15%, considera significativo
-      return deviation > 0.15;
-    } catch (error) {
-      return false; // Em caso de erro, assume que não há desvio
+    let varA = 0;
+    let varB = 0;
+    let covariance = 0;
+    for (let y = y0; y < y0 + SSIM_WINDOW; y++) {
+      for (let x = x0; x < x0 + SSIM_WINDOW; x++) {
+        const da = a[y * ANALYSIS_WIDTH + x]! - meanA;
+        const db = b[y * ANALYSIS_WIDTH + x]! - meanB;
+        varA += da * da;
+        varB += db * db;
+        covariance += da * db;
+      }
     }
+    varA /= n - 1;
+    varB /= n - 1;
+    covariance /= n - 1;
+
+    return (
+      ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+      ((meanA ** 2 + meanB ** 2 + SSIM_C1) * (varA + varB + SSIM_C2))
+    );
   }
 
   /**
-   * Detecta presença de wall decor (quadros, espelhos, etc.)
-   * Heurística baseada em análise de bordas retangulares nas paredes
+   * Distância (0-1) entre as cores medianas de uma faixa nas duas imagens.
+   * A mediana ignora móveis que cubram parte da faixa.
    */
-  private async detectWallDecor(imageBase64: string): Promise<boolean> {
-    try {
-      // Implementação simplificada
-      // Em produção, usaria análise de bordas e detecção de formas retangulares
-      
-      const payload = imageBase64.includes('base64,') 
-        ? imageBase64.split('base64,')[1] 
-        : imageBase64;
-      
-      if (!payload) {
-        return false;
+  private computeColorDrift(
+    original: AnalysisImage,
+    processed: AnalysisImage,
+    band: [number, number]
+  ): number {
+    const originalColor = this.medianColor(original.rgb, band);
+    const processedColor = this.medianColor(processed.rgb, band);
+
+    const distance = Math.sqrt(
+      originalColor.reduce(
+        (sum, channel, i) => sum + (channel - processedColor[i]!) ** 2,
+        0
+      )
+    );
+    return distance / Math.sqrt(3 * 255 ** 2);
+  }
+
+  private medianColor(rgb: Buffer, band: [number, number]): number[] {
+    const startRow = Math.floor(band[0] * ANALYSIS_HEIGHT);
+    const endRow = Math.min(ANALYSIS_HEIGHT, Math.ceil(band[1] * ANALYSIS_HEIGHT));
+
+    return [0, 1, 2].map(channel => {
+      const histogram = new Array<number>(256).fill(0);
+      let count = 0;
+      for (let y = startRow; y < endRow; y++) {
+        for (let x = 0; x < ANALYSIS_WIDTH; x++) {
+          histogram[rgb[(y * ANALYSIS_WIDTH + x) * 3 + channel]!]!++;
+          count++;
+        }
       }
-      
-      const buffer = Buffer.from(payload, 'base64');
-      
-      // Análise de bordas usando Sharp
-      const edges = await sharp(buffer)
-        .greyscale()
-        .convolve({
-          width: 3,
-          height: 3,
-          kernel: [-1, -1, -1, -1, 8, -1, -1, -1, -1]
-        })
-        .raw()
-        .toBuffer();
-
-      // Heurística: se há muitas bordas na região superior da imagem (onde ficam quadros)
-      // conta pixels de borda na metade superior
-      const metadata = await sharp(buffer).metadata();
-      const width = metadata.width || 512;
-      const height = metadata.height || 512;
-      
-      let edgePixels = 0;
-      const upperHalfSize = width * Math.floor(height / 2);
-      
-      for (let i = 0; i < upperHalfSize && i < edges.length; i++) {
-        const pixel = edges[i];
-        if (pixel !== undefined && pixel > 100) { // Threshold para detectar bordas
-          edgePixels++;
+
+      let accumulated = 0;
+      for (let value = 0; value < 256; value++) {
+        accumulated += histogram[value]!;
+        if (accumulated >= count / 2) {
+          return value;
         }
       }
-      
-      const edgeRatio = edgePixels / upperHalfSize;
-      return edgeRatio > 0.05; // Se > 5% da área superior tem bordas, pode ser wall decor
-    } catch (error) {
-      return false;
-    }
+      return 255;
+    });
   }
 
   /**
-   * Detecta cortinas ou persianas
+   * Estima o número de itens adicionados: grupos conectados de células
+   * alteradas dentro da faixa da etapa
    */
-  private async detectWindowTreatments(imageBase64: string): Promise<boolean> {
-    try {
-      // Heurística simplificada: detecta padrões verticais repetitivos
-      // que podem indicar cortinas ou persianas
-      
-      const payload = imageBase64.includes('base64,') 
-        ? imageBase64.split('base64,')[1] 
-        : imageBase64;
-      
-      if (!payload) {
-        return false;
-      }
-      
-      const buffer = Buffer.from(payload, 'base64');
-      
-      // Análise de padrões verticais
-      const { data } = await sharp(buffer)
-        .greyscale()
-        .raw()
-        .toBuffer({ resolveWithObject: true });
-
-      const metadata = await sharp(buffer).metadata();
-      const width = metadata.width || 512;
-      const height = metadata.height || 512;
-
-      // Procura por padrões verticais repetitivos (cortinas/persianas)
-      let verticalPatterns = 0;
-      
-      for (let x = 0; x < width - 10; x += 10) {
-        let columnVariance = 0;
-        for (let y = 0; y < height - 1; y++) {
-          const pixel1 = data[y * width + x];
-          const pixel2 = data[(y + 1) * width + x];
-          if (pixel1 !== undefined && pixel2 !== undefined) {
-            columnVariance += Math.abs(pixel1 - pixel2);
+  private countChangedClusters(changeMap: number[][], changeBand: [number, number]): number {
+    const changed = changeMap.map((cells, row) => {
+      const center = (row + 0.5) / GRID_ROWS;
+      const inBand = center >= changeBand[0] && center <= changeBand[1];
+      return cells.map(value => inBand && value > CHANGED_REGION_THRESHOLD);
+    });
+
+    let clusters = 0;
+    const visited = changed.map(cells => cells.map(() => false));
+
+    for (let row = 0; row < GRID_ROWS; row++) {
+      for (let col = 0; col < GRID_COLS; col++) {
+        if (!changed[row]![col] || visited[row]![col]) {
+          continue;
+        }
+
+        clusters++;
+        const stack: Array<[number, number]> = [[row, col]];
+        visited[row]![col] = true;
+        while (stack.length > 0) {
+          const [r, c] = stack.pop()!;
+          for (const [nr, nc] of [[r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]] as const) {
+            if (changed[nr]?.[nc] && !visited[nr]![nc]) {
+              visited[nr]![nc] = true;
+              stack.push([nr, nc]);
+            }
           }
         }
-        
-        if (columnVariance > 1000) { // Threshold para detectar variação vertical
-          verticalPatterns++;
+      }
+    }
+
+    return clusters;
+  }
+
+  /**
+   * Detecta wall decor (quadros, espelhos, etc.): regiões alteradas na faixa
+   * superior das paredes, acima da altura dos móveis
+   */
+  private detectWallDecor(changeMap: number[][]): boolean {
+    const changedCells = this.cellsInBand(changeMap, WALL_DECOR_BAND).filter(
+      value => value > CHANGED_REGION_THRESHOLD
+    );
+    return changedCells.length >= 2;
+  }
+
+  /**
+   * Detecta cortinas ou persianas: aumento de padrões verticais repetitivos
+   * em relação à imagem de entrada
+   */
+  private detectWindowTreatments(original: AnalysisImage, processed: AnalysisImage): boolean {
+    const increase =
+      this.verticalPatternRatio(processed.grey) - this.verticalPatternRatio(original.grey);
+    return increase > 0.15;
+  }
+
+  private verticalPatternRatio(grey: Uint8Array): number {
+    const step = 4;
+    let verticalPatterns = 0;
+    let columns = 0;
+
+    for (let x = 0; x < ANALYSIS_WIDTH; x += step) {
+      let horizontalVariance = 0;
+      let verticalVariance = 0;
+      for (let y = 0; y < ANALYSIS_HEIGHT - 1; y++) {
+        const pixel = grey[y * ANALYSIS_WIDTH + x]!;
+        verticalVariance += Math.abs(pixel - grey[(y + 1) * ANALYSIS_WIDTH + x]!);
+        if (x + 1 < ANALYSIS_WIDTH) {
+          horizontalVariance += Math.abs(pixel - grey[y * ANALYSIS_WIDTH + x + 1]!);
         }
       }
-      
-      const patternRatio = verticalPatterns / (width / 10);
-      return patternRatio > 0.3; // Se > 30% das colunas têm padrões, pode ser cortina
-    } catch (error) {
-      return false;
+
+      // Pregas de cortina e lâminas de persiana variam muito mais na horizontal
+      if (horizontalVariance > verticalVariance * 2 && horizontalVariance > ANALYSIS_HEIGHT * 8) {
+        verticalPatterns++;
+      }
+      columns++;
     }
+
+    return columns > 0 ? verticalPatterns / columns : 0;
   }
 
   /**
@@ -256,14 +415,14 @@ export class StagingValidationService {
           result.errors.push(`Foundation stage should have at least ${expectedItemCount} main items, found ${result.itemCount}`);
         }
         break;
-        
+
       case 'complement':
         // Validação específica para complementos
         if (result.itemCount < expectedItemCount) {
           result.errors.push(`Complement stage should have at least ${expectedItemCount} complementary items, found ${result.itemCount}`);
         }
         break;
-        
+
       case 'wall_decoration':
         // Na etapa de decoração de parede, validar itens de parede
         if (result.itemCount < expectedItemCount) {
@@ -271,7 +430,7 @@ export class StagingValidationService {
         }
         // Permitir wall decor nesta etapa
         break;
-        
+
       case 'windows_decoration':
         // Na etapa de decoração de janelas, validar tratamentos de janela
         if (result.itemCount < expectedItemCount) {
@@ -279,7 +438,7 @@ export class StagingValidationService {
         }
         // Permitir window treatments nesta etapa
         break;
-        
+
       case 'customization':
         // Na etapa de customização, permitir ajustes finais (0-3 itens)
         if (result.itemCount > 3) {
@@ -294,45 +453,45 @@ export class StagingValidationService {
       if (result.hasWallDecor) {
         result.errors.push('Wall decor detected - not allowed in any stage');
       }
-      
+
       if (result.hasWindowTreatments) {
         result.errors.push('Window treatments detected - not allowed in any stage');
       }
-      
+
       if (result.colorDeviationDetected) {
         result.errors.push('Significant color deviation detected - architectural elements may have been modified');
       }
     }
-    
+
     // Validações específicas para wall_decoration (não permitir window treatments)
     if (stage === 'wall_decoration') {
       if (result.hasWindowTreatments) {
         result.errors.push('Window treatments detected - not allowed in wall decoration stage');
       }
-      
+
       if (result.colorDeviationDetected) {
         result.errors.push('Significant color deviation detected - architectural elements may have been modified');
       }
     }
-    
+
     // Validações específicas para windows_decoration (não permitir wall decor)
     if (stage === 'windows_decoration') {
       if (result.hasWallDecor) {
         result.errors.push('Wall decor detected - not allowed in windows decoration stage');
       }
-      
+
       if (result.colorDeviationDetected) {
         result.errors.push('Significant color deviation detected - architectural elements may have been modified');
       }
     }
-    
+
     // Validações específicas para customization (permitir ajustes sutis)
     if (stage === 'customization') {
       // Na customização, permitimos mais flexibilidade mas ainda validamos estruturas
       if (result.doorsBlocked || result.stairsBlocked) {
         result.errors.push('Circulation paths must remain clear even during customization');
       }
-      
+
       // Permitir pequenas variações de cor para ajustes de estilo
       // mas não grandes modificações estruturais
     }
@@ -350,32 +509,50 @@ export class StagingValidationService {
         // Validações específicas para cozinha
         // Ex: verificar se bancos não bloqueiam circulação
         break;
-        
+
       case 'bathroom':
         // Validações específicas para banheiro
         // Ex: verificar se não há obstrução de fixtures
         break;
-        
+
       case 'living_room':
         // Validações específicas para sala
         break;
-        
+
       // Adicionar outras validações conforme necessário
     }
   }
 
   /**
-   * Valida se portas e escadas estão livres (implementação simplificada)
+   * Valida se a circulação está livre: o piso próximo à câmera não pode ter
+   * sido ocupado em praticamente toda a largura. Escadas não são detectadas
+   * pela comparação de imagens.
    */
-  private async validateCirculation(imageBase64: string): Promise<{ doorsBlocked: boolean; stairsBlocked: boolean }> {
-    // Implementação simplificada
-    // Em produção, usaria detecção de objetos ou análise de bordas mais sofisticada
-    
+  private validateCirculation(changeMap: number[][]): { doorsBlocked: boolean; stairsBlocked: boolean } {
+    const floorCells = this.cellsInBand(changeMap, CIRCULATION_BAND);
+    const changedRatio =
+      floorCells.length > 0
+        ? floorCells.filter(value => value > CHANGED_REGION_THRESHOLD).length / floorCells.length
+        : 0;
+
     return {
-      doorsBlocked: false, // Por agora, assume que não há bloqueio
+      doorsBlocked: changedRatio > 0.9,
       stairsBlocked: false
     };
   }
+
+  private cellsInBand(changeMap: number[][], band: [number, number]): number[] {
+    return changeMap
+      .filter((_, row) => {
+        const center = (row + 0.5) / GRID_ROWS;
+        return center >= band[0] && center <= band[1];
+      })
+      .flat();
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
 }
 
-export const stagingValidationService = new StagingValidationService();
\ No newline at end of file
+export const stagingValidationService = new StagingValidationService();
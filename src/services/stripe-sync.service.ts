@@ -0,0 +1,251 @@
+import Stripe from 'stripe';
+import { eq } from 'drizzle-orm';
+import { BaseService } from './base.service';
+import { creditService } from './credit.service';
+import { entitlementService } from './entitlement.service';
+import { stripe } from '@/lib/stripe';
+import { webhookProcessingQueue } from '@/lib/queues';
+import { db } from '@/db/connection';
+import { user } from '@/db/schema';
+import { planRepository } from '@/repositories/plan.repository';
+import { subscriptionRepository } from '@/repositories/subscription.repository';
+import { paymentRepository } from '@/repositories/payment.repository';
+import { stripeEventRepository } from '@/repositories/stripe-event.repository';
+import { Subscription } from '@/types/database';
+
+// Invoices that start a new billing period and therefore grant the plan's photos
+const CREDIT_GRANTING_BILLING_REASONS: Stripe.Invoice.BillingReason[] = [
+  'subscription_create',
+  'subscription_cycle',
+];
+
+/**
+ * Applies Stripe webhook events to the local billing tables.
+ *
+ * Events are verified by the webhook endpoint, queued on the webhook-processing
+ * queue (job id = Stripe event id, failed jobs are not kept) and applied here
+ * at most once per event id.
+ * Subscriptions are always re-fetched from Stripe, so out-of-order deliveries
+ * never overwrite a newer state.
+ */
+export class StripeSyncService extends BaseService {
+  /**
+   * Queue a verified Stripe event for processing
+   */
+  async enqueueEvent(event: Stripe.Event): Promise<void> {
+    await webhookProcessingQueue.add(
+      'stripe-event',
+      {
+        webhookType: 'stripe',
+        payload: event,
+        headers: {},
+        timestamp: Date.now(),
+      },
+      // Failed jobs are removed so a Stripe redelivery is not deduplicated
+      // against them; stripe_events still guards against double processing
+      { jobId: event.id, removeOnFail: true }
+    );
+  }
+
+  /**
+   * Apply a Stripe event
+   * @returns action label for the worker result
+   */
+  async processEvent(event: Stripe.Event): Promise<string> {
+    if (await stripeEventRepository.isProcessed(event.id)) {
+      this.logger.info(`Stripe event ${event.id} already processed`, { type: event.type });
+      return `stripe_${event.type}_duplicate`;
+    }
+
+    switch (event.type) {
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await this.syncSubscription(event.data.object.id);
+        break;
+      case 'invoice.paid':
+      case 'invoice.payment_succeeded':
+        await this.handleInvoice(event.data.object, 'succeeded');
+        break;
+      case 'invoice.payment_failed':
+        await this.handleInvoice(event.data.object, 'failed');
+        break;
+      default:
+        this.logger.info('Unhandled Stripe event type', { type: event.type });
+    }
+
+    await stripeEventRepository.markProcessed(event.id, event.type);
+    return `stripe_${event.type}`;
+  }
+
+  /**
+   * Upsert the local subscription from the current Stripe state
+   * @returns the local subscription, or null when its plan or user is unknown
+   */
+  private async syncSubscription(stripeSubscriptionId: string): Promise<Subscription | null> {
+    const stripeSubscription = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+    const item = stripeSubscription.items.data[0];
+    if (!item) {
+      this.logger.warn(`Stripe subscription ${stripeSubscriptionId} has no items`);
+      return null;
+    }
+
+    const plan = await planRepository.findByStripePriceId(item.price.id);
+    if (!plan) {
+      this.logger.warn(`No plan configured for Stripe price ${item.price.id}`, {
+        stripeSubscriptionId,
+      });
+      return null;
+    }
+
+    const existing = await subscriptionRepository.findByStripeSubscriptionId(stripeSubscriptionId);
+    const customerId = this.getId(stripeSubscription.customer);
+    const userId =
+      stripeSubscription.metadata.userId ||
+      existing?.userId ||
+      (await this.resolveUserIdFromCustomer(customerId));
+    if (!userId) {
+      this.logger.warn(`Could not resolve user for Stripe subscription ${stripeSubscriptionId}`, {
+        customerId,
+      });
+      return null;
+    }
+
+    const currentPeriodEnd = new Date(item.current_period_end * 1000);
+    const subscription = await subscriptionRepository.upsertByStripeSubscriptionId({
+      userId,
+      planId: plan.id,
+      stripeSubscriptionId,
+      stripeCustomerId: customerId,
+      stripePriceId: item.price.id,
+      status: this.mapSubscriptionStatus(stripeSubscription.status),
+      currentPeriodStart: new Date(item.current_period_start * 1000),
+      currentPeriodEnd,
+      renewalAt: currentPeriodEnd,
+      cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+    });
+
+    await entitlementService.invalidate(userId);
+
+    this.logOperation('syncSubscription', {
+      stripeSubscriptionId,
+      status: subscription.status,
+      planId: plan.id,
+    });
+    return subscription;
+  }
+
+  /**
+   * Record the invoice payment and grant the plan's photos when a billing period is paid
+   */
+  private async handleInvoice(
+    invoice: Stripe.Invoice,
+    status: 'succeeded' | 'failed'
+  ): Promise<void> {
+    if (!invoice.id) {
+      return;
+    }
+
+    const stripeSubscriptionId = invoice.parent?.subscription_details
+      ? this.getId(invoice.parent.subscription_details.subscription)
+      : null;
+    const subscription = stripeSubscriptionId
+      ? await this.syncSubscription(stripeSubscriptionId)
+      : null;
+
+    const userId =
+      subscription?.userId ??
+      (invoice.customer ? await this.resolveUserIdFromCustomer(this.getId(invoice.customer)) : null);
+    if (!userId) {
+      this.logger.warn(`Could not resolve user for Stripe invoice ${invoice.id}`);
+      return;
+    }
+
+    await paymentRepository.upsertByStripeInvoiceId({
+      userId,
+      stripeInvoiceId: invoice.id,
+      stripePaymentIntentId: await this.findPaymentIntentId(invoice.id),
+      amount: status === 'succeeded' ? invoice.amount_paid : invoice.amount_due,
+      currency: invoice.currency,
+      status,
+    });
+
+    if (
+      status === 'succeeded' &&
+      subscription &&
+      invoice.billing_reason &&
+      CREDIT_GRANTING_BILLING_REASONS.includes(invoice.billing_reason)
+    ) {
+      await this.grantPlanCredits(subscription, invoice);
+    }
+  }
+
+  private async grantPlanCredits(subscription: Subscription, invoice: Stripe.Invoice): Promise<void> {
+    const plan = await planRepository.findById(subscription.planId);
+    if (!plan) {
+      return;
+    }
+
+    // Yearly invoices cover twelve monthly allowances
+    const months = subscription.stripePriceId === plan.stripeYearlyPriceId ? 12 : 1;
+    const amount = plan.photosPerMonth * months;
+
+    await creditService.grantCredits(subscription.userId, amount, {
+      reference: `stripe_invoice:${invoice.id}`,
+      description: `${plan.name} plan renewal (invoice ${invoice.number ?? invoice.id})`,
+    });
+  }
+
+  private async findPaymentIntentId(invoiceId: string): Promise<string | null> {
+    const invoicePayments = await stripe.invoicePayments.list({ invoice: invoiceId, limit: 1 });
+    const paymentIntent = invoicePayments.data[0]?.payment.payment_intent;
+    return paymentIntent ? this.getId(paymentIntent) : null;
+  }
+
+  /**
+   * Resolve the local user from Stripe customer metadata, falling back to the customer email
+   */
+  private async resolveUserIdFromCustomer(customerId: string): Promise<string | null> {
+    const customer = await stripe.customers.retrieve(customerId);
+    if (customer.deleted) {
+      return null;
+    }
+
+    if (customer.metadata.userId) {
+      return customer.metadata.userId;
+    }
+
+    if (!customer.email) {
+      return null;
+    }
+
+    const [existingUser] = await db
+      .select({ id: user.id })
+      .from(user)
+      .where(eq(user.email, customer.email))
+      .limit(1);
+
+    return existingUser?.id ?? null;
+  }
+
+  private mapSubscriptionStatus(status: Stripe.Subscription.Status): Subscription['status'] {
+    switch (status) {
+      case 'active':
+      case 'trialing':
+        return 'active';
+      case 'past_due':
+      case 'unpaid':
+      case 'incomplete':
+      case 'paused':
+        return 'past_due';
+      default:
+        return 'canceled';
+    }
+  }
+
+  private getId(value: string | { id?: string }): string {
+    return typeof value === 'string' ? value : value.id ?? '';
+  }
+}
+
+export const stripeSyncService = new StripeSyncService();
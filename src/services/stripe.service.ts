@@ -233,7 +233,7 @@ export class StripeService {
   /**
    * Verify webhook signature
    */
-  static verifyWebhookSignature(payload: string, signature: string, secret: string): Stripe.Event {
+  static verifyWebhookSignature(payload: string | Buffer, signature: string, secret: string): Stripe.Event {
     try {
       return stripe.webhooks.constructEvent(payload, signature, secret);
     } catch (error) {
@@ -1,4 +1,4 @@
-import { Provider } from '../interfaces/upload.interface';
+import { Provider, RoomType, FurnitureStyle } from '../interfaces/upload.interface';
 import { 
   IVirtualStagingProvider, 
   ProviderConfig, 
@@ -7,6 +7,7 @@ import {
   VirtualStagingResult
 } from '../interfaces/virtual-staging-provider.interface';
 import { BaseService } from './base.service';
+import { providerRoutingService } from './provider-routing.service';
 
 /**
  * Factory para gerenciar provedores de virtual staging
@@ -193,14 +194,15 @@ export class VirtualStagingProviderFactory extends BaseService {
   }
 
   /**
-   * Obtém o melhor provedor baseado em critérios
+   * Obtém o melhor provedor baseado em critérios.
+   * Ambiente/estilo passam pela política de roteamento (regras, pesos e saúde).
    */
-  public getBestProvider(criteria?: {
-    roomType?: string;
-    furnitureStyle?: string;
+  public async getBestProvider(criteria?: {
+    roomType?: RoomType;
+    furnitureStyle?: FurnitureStyle;
     requiresSync?: boolean;
     requiresWebhooks?: boolean;
-  }): Provider {
+  }): Promise<Provider> {
     const availableProviders = this.getAvailableProviders();
     
     if (availableProviders.length === 0) {
@@ -213,21 +215,30 @@ export class VirtualStagingProviderFactory extends BaseService {
     }
 
     // Filtrar baseado nos critérios
-    const suitableProviders = availableProviders.filter(providerName => {
-      const provider = this.getProvider(providerName);
-      const capabilities = provider.getCapabilities();
-
-      if (criteria.requiresSync && provider.isAsync) return false;
-      if (criteria.requiresWebhooks && !provider.supportsWebhooks) return false;
-      
-      return true;
-    });
+    const suitableProviders = availableProviders
+      .map(providerName => this.getProvider(providerName))
+      .filter(provider => {
+        if (criteria.requiresSync && provider.isAsync) return false;
+        if (criteria.requiresWebhooks && !provider.supportsWebhooks) return false;
+        
+        return true;
+      });
 
     if (suitableProviders.length === 0) {
       throw new Error('No suitable providers found for the given criteria');
     }
 
-    return suitableProviders[0]!;
+    if (!criteria.roomType || !criteria.furnitureStyle) {
+      return suitableProviders[0]!.name;
+    }
+
+    const [bestProvider] = await providerRoutingService.resolveRoute(
+      { roomType: criteria.roomType, furnitureStyle: criteria.furnitureStyle },
+      suitableProviders,
+      suitableProviders[0]!.name
+    );
+
+    return bestProvider!;
   }
 
   /**
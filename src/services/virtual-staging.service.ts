@@ -4,9 +4,26 @@ import {
   VirtualStagingResult,
   ProviderConfig,
 } from '../interfaces/virtual-staging-provider.interface';
-import { Provider } from '../interfaces/upload.interface';
+import { Provider, Upload } from '../interfaces/upload.interface';
+import { ProviderRouteCriteria } from '../interfaces/provider-routing.interface';
+import {
+  IMAGE_PROCESSING_JOB_NAME,
+  ImageProcessingJobData,
+} from '../interfaces/image-processing.interface';
 import { VirtualStagingProviderFactory } from './providers/provider.factory';
 import { BaseService } from './base.service';
+import { stageOrchestratorService } from './stage-orchestrator.service';
+import { providerRoutingService } from './provider-routing.service';
+import { customerWebhookService } from './customer-webhook.service';
+import { stagingEventsService } from './staging-events.service';
+import { creditService } from './credit.service';
+import { uploadRepository } from '../repositories/upload.repository';
+import { providerConfigManager } from '../config/provider.config';
+import { imageProcessingQueue } from '../lib/queues';
+import {
+  loadImageAsDataUrl,
+  getExternallyAccessibleUrl,
+} from '../utils/image-source.util';
 
 /**
  * Service unificado para virtual staging que gerencia múltiplos providers
@@ -161,6 +178,161 @@ export class VirtualStagingService extends BaseService {
     }
   }
 
+  /**
+   * Enfileira o processamento de um upload para execução pelos workers
+   */
+  async enqueueUploadProcessing(data: ImageProcessingJobData): Promise<void> {
+    await imageProcessingQueue.add(IMAGE_PROCESSING_JOB_NAME, data, {
+      jobId: `upload-${data.uploadId}`,
+    });
+
+    this.logOperation('Upload queued for processing', {
+      uploadId: data.uploadId,
+      mode: data.mode,
+    });
+  }
+
+  /**
+   * Enfileira um upload recém-criado com créditos reservados. Se o
+   * enfileiramento falhar, devolve a reserva e remove o upload antes de
+   * propagar o erro, para não deixar créditos presos num upload que nunca roda.
+   */
+  async enqueueNewUpload(data: ImageProcessingJobData): Promise<void> {
+    try {
+      await this.enqueueUploadProcessing(data);
+    } catch (error) {
+      this.logger.error(`Failed to queue upload ${data.uploadId}, rolling back`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      await creditService.refundForUpload(data.uploadId, 'Upload could not be queued');
+      await uploadRepository.delete(data.uploadId);
+      throw error;
+    }
+  }
+
+  /**
+   * Executa o processamento de um upload persistido (chamado pelo worker).
+   * Providers com suporte a etapas são delegados ao orquestrador; os demais
+   * recebem uma única chamada e o resultado chega por webhook ou polling.
+   */
+  async processUpload(
+    upload: Upload,
+    options: ImageProcessingJobData
+  ): Promise<VirtualStagingResult> {
+    const provider = this.getProvider(upload.provider);
+
+    if (options.mode === 'staged' && provider.processVirtualStagingInStages) {
+      const stagedUpload = await stageOrchestratorService.startStaging({
+        uploadId: upload.id,
+        roomType: upload.roomType,
+        furnitureStyle: upload.furnitureStyle,
+        inputImageUrl: upload.inputImageUrl,
+        ...(options.stageSelection && {
+          stageSelection: options.stageSelection,
+        }),
+        ...(options.seed !== undefined && { seed: options.seed }),
+        ...(options.highResolution && { highResolution: true }),
+        ...(options.referenceImageUrls && {
+          referenceImageUrls: options.referenceImageUrls,
+        }),
+        ...(options.palette && { palette: options.palette }),
+      });
+
+      return {
+        success: true,
+        metadata: {
+          status: 'processing',
+          currentStage: stagedUpload.currentStage,
+          totalStages: stagedUpload.stagingPlan?.stages.length,
+        },
+      };
+    }
+
+    // O failover após falha do job reenfileira o upload só com estas opções
+    const processingOptions = {
+      ...(options.seed !== undefined && { seed: options.seed }),
+      ...(options.highResolution && { highResolution: true }),
+    };
+    if (Object.keys(processingOptions).length > 0) {
+      await uploadRepository.updateProcessingOptions(upload.id, processingOptions);
+    }
+
+    const imageBase64 = await loadImageAsDataUrl(upload.inputImageUrl);
+    const imageUrl = await getExternallyAccessibleUrl(upload.inputImageUrl);
+
+    // Tenta o provider do upload e, em caso de erro na submissão, os próximos da rota
+    let current: IVirtualStagingProvider | null = provider;
+    let result: VirtualStagingResult = {
+      success: false,
+      errorMessage: 'Nenhum provider disponível',
+    };
+
+    while (current) {
+      result = await this.processVirtualStaging(
+        {
+          uploadId: upload.id,
+          imageBase64,
+          imageUrl,
+          roomType: upload.roomType,
+          furnitureStyle: upload.furnitureStyle,
+          ...(current.config.webhookUrl && {
+            webhookUrl: current.config.webhookUrl,
+          }),
+          options: {
+            ...(options.seed !== undefined && { seed: options.seed }),
+            highResolution: options.highResolution === true,
+          },
+        },
+        current.name
+      );
+
+      // A chamada já foi registrada pelo circuit breaker do provider
+      if (result.success && result.requestId) {
+        break;
+      }
+
+      const next = providerRoutingService.getNextProvider(
+        upload.providerRoute,
+        current.name,
+        name => this.providers.has(name)
+      );
+
+      if (next) {
+        this.logger.warn(
+          `Provider ${current.name} failed for upload ${upload.id}, failing over to ${next}`,
+          { errorMessage: result.errorMessage }
+        );
+        await uploadRepository.updateProvider(upload.id, next);
+        upload.provider = next;
+      }
+      current = next ? this.getProvider(next) : null;
+    }
+
+    if (result.success && result.requestId) {
+      if (result.promptTemplates) {
+        await uploadRepository.updatePromptTemplates(upload.id, result.promptTemplates);
+      }
+
+      const submitted =
+        upload.provider === 'instant-deco'
+          ? await uploadRepository.updateInstantDecoRequestId(
+              upload.id,
+              result.requestId
+            )
+          : await uploadRepository.updateBlackForestJobId(
+              upload.id,
+              result.requestId
+            );
+
+      if (submitted) {
+        await stagingEventsService.publish('processing', submitted);
+        await customerWebhookService.emit('upload.processing', submitted);
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Verifica status de job
    */
@@ -310,6 +482,24 @@ export class VirtualStagingService extends BaseService {
     return this.providers.has(providerName);
   }
 
+  /**
+   * Monta a rota de providers (primário + failover) de um novo upload
+   */
+  async resolveProviderRoute(criteria: ProviderRouteCriteria): Promise<Provider[]> {
+    return providerRoutingService.resolveRoute(
+      criteria,
+      Array.from(this.providers.values()),
+      this.defaultProvider
+    );
+  }
+
+  /**
+   * Verifica se um provider suporta staging em etapas pelo orquestrador
+   */
+  supportsStagedProcessing(providerName: Provider): boolean {
+    return !!this.providers.get(providerName)?.executeStage;
+  }
+
   /**
    * Recarrega configuração de um provider
    */
@@ -334,3 +524,11 @@ export class VirtualStagingService extends BaseService {
     }
   }
 }
+
+// Instância compartilhada configurada a partir das variáveis de ambiente
+export const virtualStagingService = new VirtualStagingService(
+  Object.fromEntries(providerConfigManager.getAllConfigs()) as Record<
+    Provider,
+    ProviderConfig
+  >
+);
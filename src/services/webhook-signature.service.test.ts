@@ -0,0 +1,111 @@
+import { createHmac } from 'crypto';
+import { redis } from '../lib/redis';
+import { WebhookSignatureService } from './webhook-signature.service';
+
+jest.mock('../lib/redis', () => ({ redis: { set: jest.fn(), del: jest.fn() } }));
+jest.mock('../lib/logger');
+
+const SECRET = 'test-secret';
+const WEBHOOK_URL = 'https://api.example.com/api/v1/webhooks/black-forest';
+
+/**
+ * Parâmetros de assinatura de uma URL assinada
+ */
+function signedParams(url: string): Record<string, string> {
+  return Object.fromEntries(new URL(url).searchParams);
+}
+
+describe('WebhookSignatureService', () => {
+  const service = new WebhookSignatureService();
+
+  beforeEach(() => {
+    process.env.PROVIDER_WEBHOOK_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    delete process.env.PROVIDER_WEBHOOK_SECRET;
+  });
+
+  describe('verify', () => {
+    it('aceita a URL assinada para o mesmo provider', () => {
+      const url = service.signUrl(WEBHOOK_URL, 'black-forest', 'upload-1');
+      const params = signedParams(url);
+
+      expect(params.ref).toBe('upload-1');
+      expect(service.verify('black-forest', params)).toBeNull();
+    });
+
+    it('rejeita a URL de outro provider ou de outro upload', () => {
+      const params = signedParams(service.signUrl(WEBHOOK_URL, 'black-forest', 'upload-1'));
+
+      expect(service.verify('instant-deco', params)).toBe('invalid_signature');
+      expect(service.verify('black-forest', { ...params, ref: 'upload-2' })).toBe(
+        'invalid_signature'
+      );
+    });
+
+    it('rejeita assinaturas adulteradas ou ausentes', () => {
+      const params = signedParams(service.signUrl(WEBHOOK_URL, 'black-forest', 'upload-1'));
+
+      expect(service.verify('black-forest', { ...params, sig: 'ab'.repeat(32) })).toBe(
+        'invalid_signature'
+      );
+      expect(service.verify('black-forest', { ...params, sig: 'not-hex' })).toBe(
+        'invalid_signature'
+      );
+      expect(service.verify('black-forest', { ts: params.ts, nonce: params.nonce })).toBe(
+        'missing_signature'
+      );
+    });
+
+    it('rejeita URLs expiradas', () => {
+      const now = Date.now();
+      const spy = jest.spyOn(Date, 'now').mockReturnValue(now - 3 * 60 * 60 * 1000);
+      const params = signedParams(service.signUrl(WEBHOOK_URL, 'black-forest', 'upload-1'));
+      spy.mockRestore();
+
+      expect(service.verify('black-forest', params)).toBe('expired');
+    });
+
+    it('rejeita tudo quando o segredo não está configurado', () => {
+      const params = signedParams(service.signUrl(WEBHOOK_URL, 'black-forest', 'upload-1'));
+      delete process.env.PROVIDER_WEBHOOK_SECRET;
+
+      expect(service.verify('black-forest', params)).toBe('secret_not_configured');
+    });
+  });
+
+  describe('verifyBody', () => {
+    const body = Buffer.from('{"id":"job-1","status":"Ready"}');
+    const signature = createHmac('sha256', SECRET).update(body).digest('hex');
+
+    it('aceita o HMAC do corpo com ou sem o prefixo sha256=', () => {
+      expect(service.verifyBody(body, signature)).toBeNull();
+      expect(service.verifyBody(body, `sha256=${signature}`)).toBeNull();
+    });
+
+    it('rejeita corpo alterado ou sem assinatura', () => {
+      expect(service.verifyBody(Buffer.from('{"id":"job-2"}'), signature)).toBe(
+        'invalid_signature'
+      );
+      expect(service.verifyBody(body, undefined)).toBe('missing_signature');
+      expect(service.verifyBody(undefined, signature)).toBe('missing_signature');
+    });
+  });
+
+  describe('claimNonce', () => {
+    it('reserva o nonce por evento com NX pelo tempo de validade da URL', async () => {
+      jest.mocked(redis.set).mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+
+      await expect(service.claimNonce('black-forest', 'abc', 'job-1:Ready')).resolves.toBe(true);
+      await expect(service.claimNonce('black-forest', 'abc', 'job-1:Ready')).resolves.toBe(false);
+      expect(redis.set).toHaveBeenCalledWith(
+        'provider-webhook:nonce:black-forest:abc:job-1:Ready',
+        expect.any(String),
+        'PX',
+        7200000,
+        'NX'
+      );
+    });
+  });
+});
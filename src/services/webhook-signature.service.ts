@@ -0,0 +1,182 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { BaseService } from './base.service';
+import { redis } from '../lib/redis';
+import { Provider } from '../interfaces/upload.interface';
+
+const PROCESSED_EVENT_PREFIX = 'provider-webhook:event:';
+const USED_NONCE_PREFIX = 'provider-webhook:nonce:';
+
+export type WebhookVerificationFailure =
+  | 'secret_not_configured'
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'expired';
+
+/**
+ * Assinatura dos webhooks recebidos dos providers.
+ *
+ * Cada submissão envia ao provider uma URL de webhook própria com timestamp,
+ * nonce, upload (ref) e HMAC-SHA256 (segredo compartilhado
+ * PROVIDER_WEBHOOK_SECRET). No recebimento, a assinatura e a idade da URL são
+ * validadas, cada evento (provider + job + status) só é aceito uma vez por
+ * nonce e por upload (providers que chamam a URL mais de uma vez por job, com
+ * status diferentes, continuam aceitos) e o orquestrador confere se o job correlacionado pertence ao upload da
+ * URL, o que impede replays e o reuso da URL para outro job.
+ */
+export class WebhookSignatureService extends BaseService {
+  private readonly maxAgeMs = parseInt(
+    process.env.PROVIDER_WEBHOOK_MAX_AGE_MS || '7200000',
+    10
+  );
+
+  /**
+   * Segredo compartilhado, também enviado ao Black Forest em webhook_secret
+   */
+  getSecret(): string | undefined {
+    return process.env.PROVIDER_WEBHOOK_SECRET || undefined;
+  }
+
+  /**
+   * Adiciona timestamp, nonce, upload e assinatura à URL de webhook de uma submissão
+   */
+  signUrl(webhookUrl: string, provider: Provider, uploadId: string): string {
+    const secret = this.getSecret();
+    if (!secret) {
+      this.logger.warn(
+        `PROVIDER_WEBHOOK_SECRET not configured, ${provider} webhooks will be rejected`
+      );
+      return webhookUrl;
+    }
+
+    const timestamp = Date.now().toString();
+    const nonce = randomBytes(12).toString('hex');
+    const url = new URL(webhookUrl);
+    url.searchParams.set('ts', timestamp);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('ref', uploadId);
+    url.searchParams.set('sig', this.sign(secret, provider, timestamp, nonce, uploadId));
+
+    return url.toString();
+  }
+
+  /**
+   * Valida a assinatura e a idade de uma URL de webhook recebida
+   * @returns null quando válida, ou o motivo da rejeição
+   */
+  verify(
+    provider: Provider,
+    params: { ts?: unknown; nonce?: unknown; ref?: unknown; sig?: unknown }
+  ): WebhookVerificationFailure | null {
+    const secret = this.getSecret();
+    if (!secret) {
+      return 'secret_not_configured';
+    }
+
+    const { ts, nonce, ref, sig } = params;
+    if (
+      typeof ts !== 'string' ||
+      typeof nonce !== 'string' ||
+      typeof ref !== 'string' ||
+      typeof sig !== 'string'
+    ) {
+      return 'missing_signature';
+    }
+
+    if (!this.matches(this.sign(secret, provider, ts, nonce, ref), sig)) {
+      return 'invalid_signature';
+    }
+
+    const age = Date.now() - parseInt(ts, 10);
+    if (!Number.isFinite(age) || age < 0 || age > this.maxAgeMs) {
+      return 'expired';
+    }
+
+    return null;
+  }
+
+  /**
+   * Valida a assinatura do corpo enviada pelo provider (HMAC-SHA256 do corpo
+   * bruto com o segredo compartilhado, em hex, com ou sem o prefixo "sha256=")
+   * @returns null quando válida, ou o motivo da rejeição
+   */
+  verifyBody(
+    rawBody: Buffer | undefined,
+    signature: unknown
+  ): WebhookVerificationFailure | null {
+    const secret = this.getSecret();
+    if (!secret) {
+      return 'secret_not_configured';
+    }
+    if (!rawBody || typeof signature !== 'string') {
+      return 'missing_signature';
+    }
+
+    const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+    return this.matches(expected, signature.replace(/^sha256=/, ''))
+      ? null
+      : 'invalid_signature';
+  }
+
+  /**
+   * Reserva o nonce da URL assinada para um evento (job + status) pelo tempo de
+   * validade dela; retorna false quando a URL já entregou esse evento
+   */
+  async claimNonce(provider: Provider, nonce: string, eventId: string): Promise<boolean> {
+    const claimed = await redis.set(
+      `${USED_NONCE_PREFIX}${provider}:${nonce}:${eventId}`,
+      Date.now().toString(),
+      'PX',
+      this.maxAgeMs,
+      'NX'
+    );
+    return claimed === 'OK';
+  }
+
+  /**
+   * Libera o nonce para que o provider possa reenviar o webhook após um erro nosso
+   */
+  async releaseNonce(provider: Provider, nonce: string, eventId: string): Promise<void> {
+    await redis.del(`${USED_NONCE_PREFIX}${provider}:${nonce}:${eventId}`);
+  }
+
+  /**
+   * Reserva o id do evento; retorna false quando ele já foi recebido
+   */
+  async claimEvent(provider: Provider, eventId: string): Promise<boolean> {
+    const claimed = await redis.set(
+      `${PROCESSED_EVENT_PREFIX}${provider}:${eventId}`,
+      Date.now().toString(),
+      'PX',
+      this.maxAgeMs,
+      'NX'
+    );
+    return claimed === 'OK';
+  }
+
+  /**
+   * Libera o id do evento para que o provider possa reenviá-lo após um erro nosso
+   */
+  async releaseEvent(provider: Provider, eventId: string): Promise<void> {
+    await redis.del(`${PROCESSED_EVENT_PREFIX}${provider}:${eventId}`);
+  }
+
+  private sign(
+    secret: string,
+    provider: Provider,
+    timestamp: string,
+    nonce: string,
+    uploadId: string
+  ): string {
+    return createHmac('sha256', secret)
+      .update(`${provider}.${timestamp}.${nonce}.${uploadId}`)
+      .digest('hex');
+  }
+
+  private matches(expectedHex: string, receivedHex: string): boolean {
+    const expected = Buffer.from(expectedHex, 'hex');
+    const received = Buffer.from(receivedHex, 'hex');
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+}
+
+export const webhookSignatureService = new WebhookSignatureService();
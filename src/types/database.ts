@@ -25,6 +25,18 @@ export type NewLora = InferInsertModel<typeof schema.loras>;
 export type Job = InferSelectModel<typeof schema.jobs>;
 export type NewJob = InferInsertModel<typeof schema.jobs>;
 
+// Stage job types
+export type StageJob = InferSelectModel<typeof schema.stageJobs>;
+export type NewStageJob = InferInsertModel<typeof schema.stageJobs>;
+
+// Staging catalog version types
+export type StagingCatalogVersion = InferSelectModel<typeof schema.stagingCatalogVersions>;
+export type NewStagingCatalogVersion = InferInsertModel<typeof schema.stagingCatalogVersions>;
+
+// Prompt template types
+export type PromptTemplate = InferSelectModel<typeof schema.promptTemplates>;
+export type NewPromptTemplate = InferInsertModel<typeof schema.promptTemplates>;
+
 // Plan types
 export type Plan = InferSelectModel<typeof schema.plans>;
 export type NewPlan = InferInsertModel<typeof schema.plans>;
@@ -45,6 +57,30 @@ export type NewSubscription = InferInsertModel<typeof schema.subscriptions>;
 export type Payment = InferSelectModel<typeof schema.payments>;
 export type NewPayment = InferInsertModel<typeof schema.payments>;
 
+// Stripe event types
+export type StripeEvent = InferSelectModel<typeof schema.stripeEvents>;
+export type NewStripeEvent = InferInsertModel<typeof schema.stripeEvents>;
+
+// Credit ledger types
+export type CreditLedgerEntry = InferSelectModel<typeof schema.creditLedger>;
+export type NewCreditLedgerEntry = InferInsertModel<typeof schema.creditLedger>;
+
+// Listing types
+export type Listing = InferSelectModel<typeof schema.listings>;
+export type NewListing = InferInsertModel<typeof schema.listings>;
+export type ListingStaging = InferSelectModel<typeof schema.listingStagings>;
+export type NewListingStaging = InferInsertModel<typeof schema.listingStagings>;
+
+// Branding types
+export type BrandingSettings = InferSelectModel<typeof schema.brandingSettings>;
+export type NewBrandingSettings = InferInsertModel<typeof schema.brandingSettings>;
+
+// Customer webhook types
+export type WebhookEndpoint = InferSelectModel<typeof schema.webhookEndpoints>;
+export type NewWebhookEndpoint = InferInsertModel<typeof schema.webhookEndpoints>;
+export type WebhookDelivery = InferSelectModel<typeof schema.webhookDeliveries>;
+export type NewWebhookDelivery = InferInsertModel<typeof schema.webhookDeliveries>;
+
 // Audit log types
 export type AuditLog = InferSelectModel<typeof schema.auditLogs>;
 export type NewAuditLog = InferInsertModel<typeof schema.auditLogs>;
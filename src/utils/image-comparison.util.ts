@@ -0,0 +1,238 @@
+import sharp from 'sharp';
+import { createTextWatermarkSvg } from './image-watermark.util';
+import { ComparisonOptions } from '../interfaces/comparison.interface';
+
+// Maior lado de cada painel: imagens estáticas e quadros da animação
+const STATIC_PANEL_SIZE = 1600;
+const ANIMATED_PANEL_SIZE = 960;
+
+// Animação de cortina: quadros por sentido e tempo de cada quadro (ms)
+const WIPE_STEPS = 24;
+const WIPE_FRAME_DELAY = 50;
+const WIPE_HOLD_DELAY = 800;
+
+const CONTENT_TYPES = { jpeg: 'image/jpeg', webp: 'image/webp', gif: 'image/gif' } as const;
+
+interface Panel {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: 3;
+}
+
+export interface RenderedComparison {
+  buffer: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decodifica as duas imagens com as dimensões da imagem final (a original é
+ * recortada para o mesmo enquadramento quando a proporção difere)
+ */
+async function loadPanels(
+  before: Buffer,
+  after: Buffer,
+  maxSize: number
+): Promise<{ before: Panel; after: Panel }> {
+  const { data: afterData, info } = await sharp(after)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const beforeData = await sharp(before)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .resize(info.width, info.height, { fit: 'cover' })
+    .raw()
+    .toBuffer();
+
+  const size = { width: info.width, height: info.height, channels: 3 as const };
+  return { before: { data: beforeData, ...size }, after: { data: afterData, ...size } };
+}
+
+function rawLayer(panel: Panel, left: number, top: number): sharp.OverlayOptions {
+  return {
+    input: panel.data,
+    raw: { width: panel.width, height: panel.height, channels: panel.channels },
+    left,
+    top,
+  };
+}
+
+/**
+ * Canvas branco com as camadas aplicadas
+ */
+function compose(width: number, height: number, layers: sharp.OverlayOptions[]): sharp.Sharp {
+  return sharp({
+    create: { width, height, channels: 3, background: { r: 255, g: 255, b: 255 } },
+  }).composite(layers);
+}
+
+function encode(image: sharp.Sharp, format: ComparisonOptions['format']): sharp.Sharp {
+  return format === 'webp' ? image.webp({ quality: 88 }) : image.jpeg({ quality: 90 });
+}
+
+/**
+ * Lado a lado (side-by-side) ou empilhado (top-bottom), com um respiro branco entre as fotos
+ */
+async function renderSplit(
+  panels: { before: Panel; after: Panel },
+  options: ComparisonOptions
+): Promise<RenderedComparison> {
+  const { width, height } = panels.after;
+  const gap = Math.max(4, Math.round(Math.max(width, height) * 0.005));
+  const horizontal = options.layout === 'side-by-side';
+  const afterLeft = horizontal ? width + gap : 0;
+  const afterTop = horizontal ? 0 : height + gap;
+  const canvasWidth = horizontal ? width * 2 + gap : width;
+  const canvasHeight = horizontal ? height : height * 2 + gap;
+
+  const layers = [rawLayer(panels.before, 0, 0), rawLayer(panels.after, afterLeft, afterTop)];
+  if (options.labels) {
+    layers.push(
+      { input: createTextWatermarkSvg(width, height, 'Before', { position: 'top-left' }), left: 0, top: 0 },
+      {
+        input: createTextWatermarkSvg(width, height, 'After', { position: 'top-left' }),
+        left: afterLeft,
+        top: afterTop,
+      }
+    );
+  }
+
+  const buffer = await encode(compose(canvasWidth, canvasHeight, layers), options.format).toBuffer();
+  return { buffer, contentType: CONTENT_TYPES[options.format], width: canvasWidth, height: canvasHeight };
+}
+
+/**
+ * Divisão diagonal: original no triângulo superior esquerdo, resultado no inferior direito
+ */
+async function renderDiagonal(
+  panels: { before: Panel; after: Panel },
+  options: ComparisonOptions
+): Promise<RenderedComparison> {
+  const { width, height } = panels.after;
+  const stroke = Math.max(3, Math.round(Math.min(width, height) * 0.006));
+
+  const beforeTriangle = await sharp(panels.before.data, {
+    raw: { width, height, channels: panels.before.channels },
+  })
+    .ensureAlpha()
+    .composite([
+      {
+        input: Buffer.from(
+          `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><polygon points="0,0 ${width},0 0,${height}" fill="#ffffff"/></svg>`
+        ),
+        blend: 'dest-in',
+      },
+    ])
+    .png()
+    .toBuffer();
+
+  const layers: sharp.OverlayOptions[] = [
+    rawLayer(panels.after, 0, 0),
+    { input: beforeTriangle, left: 0, top: 0 },
+    {
+      input: Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><line x1="${width}" y1="0" x2="0" y2="${height}" stroke="#ffffff" stroke-width="${stroke}"/></svg>`
+      ),
+      left: 0,
+      top: 0,
+    },
+  ];
+  if (options.labels) {
+    layers.push(
+      { input: createTextWatermarkSvg(width, height, 'Before', { position: 'top-left' }), left: 0, top: 0 },
+      { input: createTextWatermarkSvg(width, height, 'After', { position: 'bottom-right' }), left: 0, top: 0 }
+    );
+  }
+
+  const buffer = await encode(compose(width, height, layers), options.format).toBuffer();
+  return { buffer, contentType: CONTENT_TYPES[options.format], width, height };
+}
+
+/**
+ * Animação de cortina: uma linha vertical vai e volta revelando a original à
+ * esquerda e o resultado à direita
+ */
+async function renderWipe(
+  panels: { before: Panel; after: Panel },
+  options: ComparisonOptions
+): Promise<RenderedComparison> {
+  const { width, height } = panels.after;
+  const stroke = Math.max(2, Math.round(width * 0.004));
+  const labels: sharp.OverlayOptions[] = options.labels
+    ? [
+        { input: createTextWatermarkSvg(width, height, 'Before', { position: 'top-left' }), left: 0, top: 0 },
+        { input: createTextWatermarkSvg(width, height, 'After', { position: 'top-right' }), left: 0, top: 0 },
+      ]
+    : [];
+
+  // Ida da esquerda para a direita e volta, sem repetir as pontas
+  const forward = Array.from({ length: WIPE_STEPS + 1 }, (_, step) =>
+    Math.round((width * step) / WIPE_STEPS)
+  );
+  const positions = [...forward, ...forward.slice(1, -1).reverse()];
+
+  const frames: Buffer[] = [];
+  for (const position of positions) {
+    const layers: sharp.OverlayOptions[] = [rawLayer(panels.after, 0, 0)];
+    if (position > 0) {
+      const revealed = await sharp(panels.before.data, {
+        raw: { width, height, channels: panels.before.channels },
+      })
+        .extract({ left: 0, top: 0, width: position, height })
+        .raw()
+        .toBuffer();
+      layers.push({ input: revealed, raw: { width: position, height, channels: 3 }, left: 0, top: 0 });
+    }
+    layers.push(
+      {
+        input: Buffer.from(
+          `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect x="${Math.min(Math.max(0, position - stroke / 2), width - stroke)}" y="0" width="${stroke}" height="${height}" fill="#ffffff"/></svg>`
+        ),
+        left: 0,
+        top: 0,
+      },
+      ...labels
+    );
+    frames.push(await compose(width, height, layers).jpeg({ quality: 92 }).toBuffer());
+  }
+
+  // Pausa nas pontas (imagem toda original ou toda resultado)
+  const delay = positions.map(position =>
+    position === 0 || position === width ? WIPE_HOLD_DELAY : WIPE_FRAME_DELAY
+  );
+  const animation = sharp(frames, { join: { animated: true } });
+  const buffer = await (
+    options.format === 'gif'
+      ? animation.gif({ delay, loop: 0 })
+      : animation.webp({ delay, loop: 0, quality: 85 })
+  ).toBuffer();
+
+  return { buffer, contentType: CONTENT_TYPES[options.format], width, height };
+}
+
+/**
+ * Gera a comparação antes/depois
+ * @param before Foto original
+ * @param after Imagem final do staging
+ */
+export async function renderComparison(
+  before: Buffer,
+  after: Buffer,
+  options: ComparisonOptions
+): Promise<RenderedComparison> {
+  const animated = options.layout === 'wipe';
+  const panels = await loadPanels(before, after, animated ? ANIMATED_PANEL_SIZE : STATIC_PANEL_SIZE);
+
+  if (animated) {
+    return renderWipe(panels, options);
+  }
+  return options.layout === 'diagonal'
+    ? renderDiagonal(panels, options)
+    : renderSplit(panels, options);
+}
@@ -51,4 +51,173 @@ export async function generateWhiteMaskBase64(imageBuffer: Buffer): Promise<stri
   const maskBuffer = await generateWhiteMask(imageBuffer);
   const base64String = bufferToBase64(maskBuffer);
   return `data:image/png;base64,${base64String}`;
-}
\ No newline at end of file
+}
+
+// Resolução usada para derivar a máscara de estrutura
+const STRUCTURE_ANALYSIS_WIDTH = 256;
+
+/**
+ * Normaliza uma máscara para as dimensões da imagem, em tons de cinza
+ * (branco = área editável, preto = área preservada)
+ * @param maskBuffer Buffer da máscara (qualquer formato suportado pelo sharp)
+ * @returns Buffer PNG em tons de cinza
+ */
+export async function normalizeMask(
+  maskBuffer: Buffer,
+  width: number,
+  height: number
+): Promise<Buffer> {
+  return sharp(maskBuffer)
+    .resize(width, height, { fit: 'fill' })
+    .flatten({ background: { r: 0, g: 0, b: 0 } })
+    .toColourspace('b-w')
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Dimensões da imagem como exibida, após a rotação EXIF (metadata() informa as
+ * dimensões armazenadas; as orientações 5-8 trocam largura e altura)
+ */
+export async function getOrientedSize(
+  imageBuffer: Buffer
+): Promise<{ width: number; height: number }> {
+  const { width, height, orientation } = await sharp(imageBuffer).metadata();
+  if (!width || !height) {
+    throw new Error('Não foi possível obter as dimensões da imagem');
+  }
+  return (orientation ?? 1) >= 5 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Deriva uma máscara de preservação da arquitetura a partir da foto.
+ * A linha entre parede e piso é estimada pela borda horizontal mais forte na
+ * metade inferior de cada coluna; a área editável é o piso mais uma faixa
+ * acima dela (altura dos móveis). Colunas muito claras nessa faixa (janelas,
+ * portas de vidro) ficam com uma faixa menor.
+ * @param imageBuffer Buffer da imagem original
+ * @returns Buffer PNG em tons de cinza com as dimensões da imagem
+ */
+export async function generateStructureMask(imageBuffer: Buffer): Promise<Buffer> {
+  const { data: grey, info } = await sharp(imageBuffer)
+    .rotate()
+    .resize({ width: STRUCTURE_ANALYSIS_WIDTH })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const width = info.width;
+  const height = info.height;
+  const at = (x: number, y: number) => grey[y * width + x]!;
+
+  // 1. Linha parede/piso por coluna
+  const searchStart = Math.floor(height * 0.45);
+  const searchEnd = Math.floor(height * 0.9);
+  const defaultFloorLine = Math.floor(height * 0.6);
+  const rawFloorLine: number[] = [];
+
+  for (let x = 0; x < width; x++) {
+    let bestRow = defaultFloorLine;
+    let bestStrength = 0;
+    for (let y = Math.max(1, searchStart); y < Math.min(height - 1, searchEnd); y++) {
+      let strength = 0;
+      for (let dx = -2; dx <= 2; dx++) {
+        const cx = Math.min(width - 1, Math.max(0, x + dx));
+        strength += Math.abs(at(cx, y + 1) - at(cx, y - 1));
+      }
+      if (strength > bestStrength) {
+        bestStrength = strength;
+        bestRow = y;
+      }
+    }
+    // Bordas fracas não indicam a linha do piso
+    rawFloorLine.push(bestStrength >= 5 * 20 ? bestRow : defaultFloorLine);
+  }
+
+  // 2. Suaviza a linha com mediana para ignorar bordas de objetos isolados
+  const floorLine = rawFloorLine.map((_, x) => {
+    const window = rawFloorLine
+      .slice(Math.max(0, x - 7), Math.min(width, x + 8))
+      .sort((a, b) => a - b);
+    return window[Math.floor(window.length / 2)]!;
+  });
+
+  // 3. Área editável: piso + faixa dos móveis, reduzida em colunas muito claras
+  const headroom = Math.floor(height * 0.3);
+  const reducedHeadroom = Math.floor(height * 0.1);
+  const mask = Buffer.alloc(width * height);
+
+  for (let x = 0; x < width; x++) {
+    const line = floorLine[x]!;
+    let bright = 0;
+    for (let y = Math.max(0, line - headroom); y < line; y++) {
+      if (at(x, y) >= 235) {
+        bright++;
+      }
+    }
+    const columnHeadroom = bright > headroom / 2 ? reducedHeadroom : headroom;
+    const top = Math.max(0, line - columnHeadroom);
+
+    for (let y = top; y < height; y++) {
+      mask[y * width + x] = 255;
+    }
+  }
+
+  const size = await getOrientedSize(imageBuffer);
+  return sharp(mask, { raw: { width, height, channels: 1 } })
+    .resize(size.width, size.height, { fit: 'fill' })
+    .toColourspace('b-w')
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Compõe a imagem processada sobre a original apenas dentro da máscara:
+ * fora dela, a imagem final mantém exatamente os pixels da original
+ * @param feather raio (px) da suavização da borda da máscara
+ * @returns Buffer JPEG com as dimensões da imagem original
+ */
+export async function compositeWithMask(
+  originalBuffer: Buffer,
+  processedBuffer: Buffer,
+  maskBuffer: Buffer,
+  feather: number = 4
+): Promise<Buffer> {
+  const { data: original, info } = await sharp(originalBuffer)
+    .rotate()
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let alpha = sharp(maskBuffer)
+    .resize(info.width, info.height, { fit: 'fill' })
+    .flatten({ background: { r: 0, g: 0, b: 0 } })
+    .greyscale();
+  if (feather > 0) {
+    alpha = alpha.blur(feather);
+  }
+  const weights = await alpha.extractChannel(0).raw().toBuffer();
+
+  const processed = await sharp(processedBuffer)
+    .rotate()
+    .resize(info.width, info.height, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  const channels = info.channels;
+  const output = Buffer.alloc(original.length);
+  for (let i = 0; i < info.width * info.height; i++) {
+    const weight = weights[i]! / 255;
+    for (let c = 0; c < channels; c++) {
+      const offset = i * channels + c;
+      output[offset] = Math.round(
+        original[offset]! * (1 - weight) + processed[offset]! * weight
+      );
+    }
+  }
+
+  return sharp(output, { raw: { width: info.width, height: info.height, channels } })
+    .jpeg({ quality: 92 })
+    .toBuffer();
+}
@@ -0,0 +1,53 @@
+import { s3Service } from '../lib/s3';
+
+/**
+ * Baixa uma imagem em memória. URLs do nosso bucket são lidas direto do S3
+ * (funciona com bucket privado); demais URLs são baixadas via HTTP.
+ * @param imageUrl URL da imagem (S3, provider ou data URL)
+ * @returns Buffer e content type da imagem
+ */
+export async function loadImage(
+  imageUrl: string
+): Promise<{ buffer: Buffer; contentType: string }> {
+  const key = s3Service.getKeyFromUrl(imageUrl);
+  if (key) {
+    const { body, contentType } = await s3Service.downloadFile(key);
+    return { buffer: body, contentType };
+  }
+
+  const response = await fetch(imageUrl, {
+    signal: AbortSignal.timeout(30000),
+    headers: { 'User-Agent': 'Stagingfy/1.0' },
+  });
+  if (!response.ok) {
+    throw new Error(`Erro ao baixar imagem: HTTP ${response.status} ${response.statusText}`);
+  }
+
+  return {
+    buffer: Buffer.from(await response.arrayBuffer()),
+    contentType: response.headers.get('content-type') || 'image/jpeg',
+  };
+}
+
+/**
+ * Baixa uma imagem e retorna como data URL base64
+ * @param imageUrl URL da imagem
+ * @returns String no formato data:<mime>;base64,<payload>
+ */
+export async function loadImageAsDataUrl(imageUrl: string): Promise<string> {
+  const { buffer, contentType } = await loadImage(imageUrl);
+  return `data:${contentType};base64,${buffer.toString('base64')}`;
+}
+
+/**
+ * Retorna uma URL acessível por serviços externos (URL pré-assinada para o nosso bucket)
+ * @param imageUrl URL da imagem
+ * @param expiresIn Validade da URL pré-assinada em segundos
+ */
+export async function getExternallyAccessibleUrl(
+  imageUrl: string,
+  expiresIn: number = 3600
+): Promise<string> {
+  const key = s3Service.getKeyFromUrl(imageUrl);
+  return key ? s3Service.getPresignedDownloadUrl(key, expiresIn) : imageUrl;
+}
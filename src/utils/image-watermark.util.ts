@@ -0,0 +1,140 @@
+import sharp from 'sharp';
+import { WatermarkOverlay, WatermarkPosition } from '../interfaces/branding.interface';
+
+// Texto padrão da divulgação exigida por MLS em fotos com mobília virtual
+export const DEFAULT_DISCLOSURE_TEXT = 'Virtually Staged';
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Canto superior esquerdo de uma caixa posicionada na imagem, com margem das bordas
+ */
+function placeBox(
+  position: WatermarkPosition,
+  width: number,
+  height: number,
+  boxWidth: number,
+  boxHeight: number,
+  margin: number
+): { left: number; top: number } {
+  const left = position.endsWith('left')
+    ? margin
+    : position.endsWith('right')
+      ? width - boxWidth - margin
+      : (width - boxWidth) / 2;
+  const top = position.startsWith('top')
+    ? margin
+    : position.startsWith('bottom')
+      ? height - boxHeight - margin
+      : (height - boxHeight) / 2;
+
+  return { left: Math.max(0, Math.round(left)), top: Math.max(0, Math.round(top)) };
+}
+
+/**
+ * Dimensões da faixa de texto, proporcionais ao menor lado da imagem para
+ * ficar legível em qualquer resolução
+ */
+function measureTextBox(width: number, height: number, text: string) {
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) * 0.035));
+  const padding = Math.round(fontSize * 0.6);
+  return {
+    fontSize,
+    padding,
+    margin: Math.round(fontSize * 0.8),
+    // Largura aproximada do texto (sans-serif em negrito)
+    width: Math.round(text.length * fontSize * 0.62) + padding * 2,
+    height: fontSize + padding * 2,
+  };
+}
+
+/**
+ * Gera um SVG transparente com as dimensões da imagem e uma faixa de texto,
+ * para uso no composite do sharp
+ * @param width Largura da imagem final
+ * @param height Altura da imagem final
+ * @param text Texto da faixa (ex.: "Virtually Staged")
+ * @param options Posição (padrão: canto inferior direito) e opacidade de 0 a 1
+ */
+export function createTextWatermarkSvg(
+  width: number,
+  height: number,
+  text: string,
+  options: { position?: WatermarkPosition; opacity?: number } = {}
+): Buffer {
+  const box = measureTextBox(width, height, text);
+  const { left, top } = placeBox(
+    options.position ?? 'bottom-right',
+    width,
+    height,
+    box.width,
+    box.height,
+    box.margin
+  );
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <g opacity="${options.opacity ?? 1}">
+    <rect x="${left}" y="${top}" width="${box.width}" height="${box.height}" rx="${Math.round(box.padding / 2)}" fill="#000000" fill-opacity="0.55"/>
+    <text x="${left + box.width / 2}" y="${top + box.height / 2}" font-family="Helvetica, Arial, sans-serif" font-size="${box.fontSize}" font-weight="bold" fill="#ffffff" text-anchor="middle" dominant-baseline="central">${escapeXml(text)}</text>
+  </g>
+</svg>`;
+
+  return Buffer.from(svg);
+}
+
+/**
+ * Aplica a faixa de texto e/ou o logo sobre a imagem.
+ * Quando os dois ficam na mesma posição, o logo é deslocado para não cobrir o texto.
+ * @returns JPEG com as marcas aplicadas
+ */
+export async function applyWatermarks(image: Buffer, overlay: WatermarkOverlay): Promise<Buffer> {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const layers: sharp.OverlayOptions[] = [];
+
+  if (overlay.text) {
+    layers.push({
+      input: createTextWatermarkSvg(width, height, overlay.text.content, {
+        position: overlay.text.position,
+        opacity: overlay.text.opacity,
+      }),
+      top: 0,
+      left: 0,
+    });
+  }
+
+  if (overlay.logo) {
+    const { image: logo, position, opacity, scale } = overlay.logo;
+    const { data: logoData, info: logoInfo } = await sharp(logo)
+      .resize(Math.round((width * scale) / 100), Math.round(height * 0.3), {
+        fit: 'inside',
+        withoutEnlargement: false,
+      })
+      .ensureAlpha()
+      // Multiplica só o canal alfa pela opacidade
+      .linear([1, 1, 1, opacity], [0, 0, 0, 0])
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    const textBox = overlay.text && measureTextBox(width, height, overlay.text.content);
+    const margin = textBox?.margin ?? Math.round(Math.min(width, height) * 0.03);
+    let { left, top } = placeBox(position, width, height, logoInfo.width, logoInfo.height, margin);
+    if (textBox && overlay.text!.position === position) {
+      const shift = textBox.height + margin;
+      top = position.startsWith('top') ? top + shift : Math.max(0, top - shift);
+    }
+
+    layers.push({ input: logoData, top, left });
+  }
+
+  return sharp(data, { raw: { width, height, channels: info.channels } })
+    .composite(layers)
+    .jpeg({ quality: 92 })
+    .toBuffer();
+}
@@ -0,0 +1,83 @@
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+// Faixas que não podem receber requisições do servidor: loopback, redes
+// privadas, link-local (inclui o metadata 169.254.169.254 da nuvem), CGNAT,
+// multicast, reservadas e IPv4 traduzido (NAT64). O BlockList confere IPv4
+// mapeado em IPv6 (::ffff:a.b.c.d) com as faixas IPv4.
+const BLOCKED_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Indica se o endereço IP é roteável publicamente
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Hostname de uma URL sem os colchetes de um IPv6 literal
+ */
+function normalizeHostname(hostname: string): string {
+  return hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+}
+
+/**
+ * Verificação sem DNS: rejeita localhost e IPs literais não públicos
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = normalizeHostname(hostname);
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+  return isIP(host) !== 0 && !isPublicAddress(host);
+}
+
+/**
+ * Resolve o hostname e falha quando algum dos endereços não é público
+ * @throws Error quando o host não resolve ou aponta para uma rede interna
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const host = normalizeHostname(hostname);
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+
+  if (addresses.length === 0 || blocked) {
+    throw new Error(
+      `Host ${host} resolve para um endereço não público${blocked ? ` (${blocked.address})` : ''}`
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { createSeededRandom } from './seeded-random.util';
+
+const take = (random: () => number, count: number) =>
+  Array.from({ length: count }, () => random());
+
+describe('createSeededRandom', () => {
+  it('repete a mesma sequência para a mesma chave', () => {
+    expect(take(createSeededRandom('42:living_room'), 20)).toEqual(
+      take(createSeededRandom('42:living_room'), 20)
+    );
+  });
+
+  it('gera sequências diferentes para chaves diferentes', () => {
+    expect(take(createSeededRandom('42:living_room'), 5)).not.toEqual(
+      take(createSeededRandom('42:bedroom'), 5)
+    );
+  });
+
+  it('retorna valores em [0, 1)', () => {
+    const values = take(createSeededRandom('range'), 1000);
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...values)).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,18 @@
+import { createHash } from 'crypto';
+
+/**
+ * Gerador pseudoaleatório determinístico (mulberry32) a partir de uma chave.
+ * A mesma chave gera sempre a mesma sequência, como Math.random em [0, 1).
+ * @param key Texto que identifica a sequência (ex.: "<seed>:<cômodo>")
+ */
+export function createSeededRandom(key: string): () => number {
+  let state = createHash('sha256').update(key).digest().readUInt32BE(0);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,104 @@
+import { PassThrough, Writable } from 'stream';
+import { crc32, ZipWriter } from './zip-writer.util';
+
+/**
+ * Coleta tudo o que foi escrito no stream
+ */
+function collect(stream: PassThrough): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(chunk));
+  return new Promise(resolve => stream.on('end', () => resolve(Buffer.concat(chunks))));
+}
+
+/**
+ * Lê os arquivos do ZIP pelo diretório central
+ */
+function readZip(zip: Buffer): Array<{ name: string; crc: number; data: Buffer }> {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+
+  const count = zip.readUInt16LE(end + 10);
+  let position = zip.readUInt32LE(end + 16);
+  const files = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(position + 16);
+    const size = zip.readUInt32LE(position + 20);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const offset = zip.readUInt32LE(position + 42);
+    const name = zip.toString('utf8', position + 46, position + 46 + nameLength);
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    expect(zip.readUInt32LE(offset + 14)).toBe(crc);
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+    files.push({ name, crc, data: zip.subarray(dataStart, dataStart + size) });
+
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('crc32', () => {
+  it('calcula o CRC-32 padrão do ZIP', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe('ZipWriter', () => {
+  it('escreve os arquivos e o diretório central', async () => {
+    const output = new PassThrough();
+    const written = collect(output);
+    const zip = new ZipWriter(output);
+
+    const after = Buffer.from('after');
+    const manifest = Buffer.from('{"photos":[]}');
+    await zip.addFile('1024px/01-living-room-after.jpg', after);
+    await zip.addFile('manifest.json', manifest);
+    await zip.finish();
+
+    expect(readZip(await written)).toEqual([
+      { name: '1024px/01-living-room-after.jpg', crc: crc32(after), data: after },
+      { name: 'manifest.json', crc: crc32(manifest), data: manifest },
+    ]);
+  });
+
+  it('aguarda o drain de uma saída lenta', async () => {
+    const chunks: Buffer[] = [];
+    const output = new Writable({
+      highWaterMark: 16,
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        setImmediate(callback);
+      },
+    });
+    const zip = new ZipWriter(output);
+    const data = Buffer.alloc(64 * 1024, 7);
+
+    await zip.addFile('big.bin', data);
+    await zip.finish();
+
+    const [file] = readZip(Buffer.concat(chunks));
+    expect(file?.data.equals(data)).toBe(true);
+  });
+
+  it('rejeita arquivos depois do finish', async () => {
+    const output = new PassThrough();
+    void collect(output);
+    const zip = new ZipWriter(output);
+    await zip.finish();
+
+    await expect(zip.addFile('late.txt', Buffer.from('x'))).rejects.toThrow('ZIP já finalizado');
+  });
+
+  it('falha quando a saída foi fechada', async () => {
+    const output = new PassThrough();
+    output.destroy();
+    const zip = new ZipWriter(output);
+
+    await expect(zip.addFile('a.txt', Buffer.from('a'))).rejects.toThrow(
+      'Stream de saída do ZIP foi fechado'
+    );
+  });
+});
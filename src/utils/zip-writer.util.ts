@@ -0,0 +1,175 @@
+import { Writable } from 'stream';
+
+// Limites do formato ZIP sem a extensão ZIP64
+const MAX_ZIP_ENTRIES = 0xffff;
+const MAX_ZIP_OFFSET = 0xffffffff;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Data e hora no formato MS-DOS usado pelos cabeçalhos do ZIP
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * Escreve um arquivo ZIP direto num stream (ex.: a resposta HTTP), um arquivo
+ * por vez, sem montar o ZIP inteiro em memória. Os arquivos são armazenados
+ * sem compressão (JPEG já é comprimido) e o diretório central é escrito no
+ * finish(). Respeita o backpressure do stream de saída.
+ */
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private finished = false;
+
+  constructor(private readonly output: Writable) {}
+
+  /**
+   * Adiciona um arquivo ao ZIP
+   * @param name Caminho dentro do ZIP (use "/" como separador)
+   * @param data Conteúdo do arquivo
+   */
+  async addFile(name: string, data: Buffer, modifiedAt: Date = new Date()): Promise<void> {
+    if (this.finished) {
+      throw new Error('ZIP já finalizado');
+    }
+    if (this.entries.length >= MAX_ZIP_ENTRIES) {
+      throw new Error(`ZIP excede o limite de ${MAX_ZIP_ENTRIES} arquivos`);
+    }
+
+    const fileName = Buffer.from(name, 'utf8');
+    const header = Buffer.alloc(30);
+    if (this.offset + header.length + fileName.length + data.length > MAX_ZIP_OFFSET) {
+      throw new Error('ZIP excede o limite de 4GB');
+    }
+
+    const entry: ZipEntry = {
+      name: fileName,
+      crc: crc32(data),
+      size: data.length,
+      offset: this.offset,
+      ...toDosDateTime(modifiedAt),
+    };
+
+    header.writeUInt32LE(0x04034b50, 0); // assinatura do cabeçalho local
+    header.writeUInt16LE(20, 4); // versão necessária (2.0)
+    header.writeUInt16LE(0x0800, 6); // nomes em UTF-8
+    header.writeUInt16LE(0, 8); // sem compressão
+    header.writeUInt16LE(entry.time, 10);
+    header.writeUInt16LE(entry.date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.size, 18); // tamanho comprimido
+    header.writeUInt32LE(entry.size, 22); // tamanho original
+    header.writeUInt16LE(fileName.length, 26);
+    header.writeUInt16LE(0, 28); // sem campos extras
+
+    await this.write(Buffer.concat([header, fileName]));
+    await this.write(data);
+    this.entries.push(entry);
+  }
+
+  /**
+   * Escreve o diretório central e encerra o stream de saída
+   */
+  async finish(): Promise<void> {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+
+    const centralDirectoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0); // assinatura do diretório central
+      header.writeUInt16LE(20, 4); // versão que criou
+      header.writeUInt16LE(20, 6); // versão necessária
+      header.writeUInt16LE(0x0800, 8);
+      header.writeUInt16LE(0, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.size, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Campos extras, comentário, disco e atributos ficam zerados
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0); // assinatura do fim do diretório central
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - centralDirectoryOffset, 12);
+    end.writeUInt32LE(centralDirectoryOffset, 16);
+    await this.write(end);
+
+    await new Promise<void>(resolve => this.output.end(resolve));
+  }
+
+  /**
+   * Escreve no stream aguardando o drain; falha se a saída for fechada
+   * (ex.: o cliente abandonou o download)
+   */
+  private async write(chunk: Buffer): Promise<void> {
+    if (this.output.destroyed || this.output.writableEnded) {
+      throw new Error('Stream de saída do ZIP foi fechado');
+    }
+
+    this.offset += chunk.length;
+    if (this.output.write(chunk)) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        this.output.off('drain', onDrain);
+        this.output.off('close', onClose);
+        this.output.off('error', onClose);
+      };
+      const onDrain = () => {
+        cleanup();
+        resolve();
+      };
+      const onClose = () => {
+        cleanup();
+        reject(new Error('Stream de saída do ZIP foi fechado'));
+      };
+      this.output.on('drain', onDrain);
+      this.output.on('close', onClose);
+      this.output.on('error', onClose);
+    });
+  }
+}
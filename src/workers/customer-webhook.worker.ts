@@ -0,0 +1,31 @@
+import { Worker, Job } from 'bullmq';
+import { redis } from '@/lib/redis';
+import { logger } from '@/lib/logger';
+import { QUEUE_NAMES } from '@/lib/queues';
+import { customerWebhookService } from '@/services/customer-webhook.service';
+import { CustomerWebhookJobData } from '@/interfaces/customer-webhook.interface';
+
+const isFinalAttempt = (job: Job): boolean =>
+  job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+// Customer webhook delivery worker
+export const customerWebhookWorker = new Worker<CustomerWebhookJobData>(
+  QUEUE_NAMES.CUSTOMER_WEBHOOKS,
+  async (job: Job<CustomerWebhookJobData>) => {
+    await customerWebhookService.deliver(job.data.deliveryId, isFinalAttempt(job));
+  },
+  {
+    connection: redis,
+    concurrency: 5, // Deliveries are I/O bound
+  }
+);
+
+customerWebhookWorker.on('failed', (job, err) => {
+  logger.warn(`Customer webhook worker failed job ${job?.id}: ${err.message}`);
+});
+
+customerWebhookWorker.on('error', (err) => {
+  logger.error('Customer webhook worker error:', err);
+});
+
+export default customerWebhookWorker;
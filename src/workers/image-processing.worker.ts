@@ -2,54 +2,61 @@ import { Worker, Job } from 'bullmq';
 import { redis } from '@/lib/redis';
 import { logger } from '@/lib/logger';
 import { QUEUE_NAMES } from '@/lib/queues';
+import { uploadRepository } from '@/repositories/upload.repository';
+import { virtualStagingService } from '@/services/virtual-staging.service';
+import { stageOrchestratorService } from '@/services/stage-orchestrator.service';
+import {
+  ImageProcessingJobData,
+  ImageProcessingJobResult,
+} from '@/interfaces/image-processing.interface';
 
-export interface ImageProcessingJobData {
-  jobId: string;
-  userId: string;
-  inputImageUrl: string;
-  prompt: string;
-  roomTypeId: string;
-  furnitureStyleId: string;
-  loraId?: string;
-  model: string;
-}
-
-export interface ImageProcessingJobResult {
-  outputImageUrl: string;
-  creditsUsed: number;
-  processingTime: number;
-}
+const isFinalAttempt = (job: Job): boolean =>
+  job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
 
 // Image processing worker
 export const imageProcessingWorker = new Worker<ImageProcessingJobData, ImageProcessingJobResult>(
   QUEUE_NAMES.IMAGE_PROCESSING,
   async (job: Job<ImageProcessingJobData>) => {
-    const { jobId, userId, inputImageUrl, prompt, roomTypeId, furnitureStyleId, loraId, model } = job.data;
-    
-    logger.info(`Starting image processing job ${jobId} for user ${userId}`);
-    
+    const { uploadId, mode } = job.data;
+    const startTime = Date.now();
+
+    logger.info(`Starting image processing for upload ${uploadId}`, { mode });
+
+    const upload = await uploadRepository.findById(uploadId);
+
+    // Only pending uploads are processed; anything else was already started
+    if (!upload || upload.status !== 'pending') {
+      logger.warn(`Skipping image processing for upload ${uploadId}`, {
+        status: upload?.status ?? 'not_found',
+      });
+      return { uploadId, action: 'skipped', processingTime: Date.now() - startTime };
+    }
+
     try {
-      const startTime = Date.now();
-      
-      // TODO: Implement actual image processing logic
-      // This will integrate with Black Forest Labs API (Flux)
-      // For now, we'll simulate the processing
-      
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Simulate processing time
-      
+      const result = await virtualStagingService.processUpload(upload, job.data);
+
+      if (!result.success) {
+        throw new Error(result.errorMessage || 'Provider rejected the request');
+      }
+
       const processingTime = Date.now() - startTime;
-      const outputImageUrl = `https://example.com/processed-images/${jobId}.jpg`;
-      const creditsUsed = 1; // This will be calculated based on the model and processing complexity
-      
-      logger.info(`Image processing job ${jobId} completed in ${processingTime}ms`);
-      
+      logger.info(`Image processing for upload ${uploadId} dispatched in ${processingTime}ms`);
+
       return {
-        outputImageUrl,
-        creditsUsed,
+        uploadId,
+        action: result.requestId ? 'submitted' : 'staging_started',
+        ...(result.requestId && { requestId: result.requestId }),
         processingTime,
       };
     } catch (error) {
-      logger.error(`Image processing job ${jobId} failed:`, error as Error);
+      logger.error(`Image processing for upload ${uploadId} failed:`, error as Error);
+
+      if (isFinalAttempt(job)) {
+        await stageOrchestratorService.failUpload(
+          uploadId,
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
       throw error;
     }
   },
@@ -71,4 +78,4 @@ imageProcessingWorker.on('error', (err) => {
   logger.error('Image processing worker error:', err);
 });
 
-export default imageProcessingWorker;
\ No newline at end of file
+export default imageProcessingWorker;
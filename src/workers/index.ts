@@ -2,12 +2,18 @@ import { logger } from '@/lib/logger';
 import imageProcessingWorker from './image-processing.worker';
 import emailNotificationsWorker from './email-notifications.worker';
 import webhookProcessingWorker from './webhook-processing.worker';
+import stageOrchestrationWorker from './stage-orchestration.worker';
+import stagePollingWorker, { scheduleStagePolling } from './stage-polling.worker';
+import customerWebhookWorker from './customer-webhook.worker';
 
 // Array of all workers
 const workers = [
   imageProcessingWorker,
   emailNotificationsWorker,
   webhookProcessingWorker,
+  stageOrchestrationWorker,
+  stagePollingWorker,
+  customerWebhookWorker,
 ];
 
 // Initialize all workers
@@ -17,6 +23,9 @@ export const initializeWorkers = async () => {
     
     // Start all workers
     await Promise.all(workers.map(worker => worker.waitUntilReady()));
+
+    // Schedule repeatable jobs
+    await scheduleStagePolling();
     
     logger.info(`Successfully initialized ${workers.length} workers`);
   } catch (error) {
@@ -44,6 +53,9 @@ export {
   imageProcessingWorker,
   emailNotificationsWorker,
   webhookProcessingWorker,
+  stageOrchestrationWorker,
+  stagePollingWorker,
+  customerWebhookWorker,
 };
 
 export default {
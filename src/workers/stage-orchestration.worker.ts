@@ -0,0 +1,72 @@
+import { Worker, Job } from 'bullmq';
+import { redis } from '@/lib/redis';
+import { logger } from '@/lib/logger';
+import { QUEUE_NAMES } from '@/lib/queues';
+import { stageOrchestratorService } from '@/services/stage-orchestrator.service';
+import {
+  STAGE_JOB_NAMES,
+  StageSubmissionJobData,
+  StageOutcome,
+} from '@/interfaces/stage-orchestration.interface';
+
+export type StageOrchestrationJobData = StageSubmissionJobData | StageOutcome;
+
+export interface StageOrchestrationJobResult {
+  action: string;
+  processedAt: Date;
+}
+
+const isFinalAttempt = (job: Job): boolean =>
+  job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+// Stage orchestration worker
+export const stageOrchestrationWorker = new Worker<StageOrchestrationJobData, StageOrchestrationJobResult>(
+  QUEUE_NAMES.STAGE_ORCHESTRATION,
+  async (job: Job<StageOrchestrationJobData>) => {
+    switch (job.name) {
+      case STAGE_JOB_NAMES.SUBMIT_STAGE: {
+        const data = job.data as StageSubmissionJobData;
+
+        try {
+          await stageOrchestratorService.submitStage(data);
+        } catch (error) {
+          if (isFinalAttempt(job)) {
+            await stageOrchestratorService.handleSubmissionFailure(
+              data,
+              error instanceof Error ? error.message : 'Unknown error'
+            );
+          }
+          throw error;
+        }
+
+        return { action: 'stage_submitted', processedAt: new Date() };
+      }
+
+      case STAGE_JOB_NAMES.PROCESS_OUTCOME: {
+        await stageOrchestratorService.processOutcome(job.data as StageOutcome);
+        return { action: 'outcome_processed', processedAt: new Date() };
+      }
+
+      default:
+        throw new Error(`Unknown stage orchestration job: ${job.name}`);
+    }
+  },
+  {
+    connection: redis,
+    concurrency: 5,
+  }
+);
+
+stageOrchestrationWorker.on('completed', (job) => {
+  logger.info(`Stage orchestration worker completed job ${job.id}`);
+});
+
+stageOrchestrationWorker.on('failed', (job, err) => {
+  logger.error(`Stage orchestration worker failed job ${job?.id}:`, err);
+});
+
+stageOrchestrationWorker.on('error', (err) => {
+  logger.error('Stage orchestration worker error:', err);
+});
+
+export default stageOrchestrationWorker;
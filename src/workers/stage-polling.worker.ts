@@ -0,0 +1,49 @@
+import { Worker, Job } from 'bullmq';
+import { redis } from '@/lib/redis';
+import { logger } from '@/lib/logger';
+import { QUEUE_NAMES, stagePollingQueue } from '@/lib/queues';
+import {
+  stagePollingService,
+  StagePollingSummary,
+} from '@/services/stage-polling.service';
+
+const STAGE_POLLING_SCHEDULER_ID = 'stage-polling-scan';
+const STAGE_POLLING_INTERVAL_MS = parseInt(
+  process.env.STAGE_POLLING_INTERVAL_MS || '60000',
+  10
+);
+
+// Stage polling worker
+export const stagePollingWorker = new Worker<Record<string, never>, StagePollingSummary>(
+  QUEUE_NAMES.STAGE_POLLING,
+  async (_job: Job) => stagePollingService.scanProcessingUploads(),
+  {
+    connection: redis,
+    concurrency: 1, // A single scan at a time
+  }
+);
+
+// Register (or update) the repeatable scan; safe to call from every instance
+export const scheduleStagePolling = async () => {
+  await stagePollingQueue.upsertJobScheduler(
+    STAGE_POLLING_SCHEDULER_ID,
+    { every: STAGE_POLLING_INTERVAL_MS },
+    { name: 'scan-processing-uploads', data: {} }
+  );
+
+  logger.info(`Stage polling scheduled every ${STAGE_POLLING_INTERVAL_MS}ms`);
+};
+
+stagePollingWorker.on('completed', (job, result) => {
+  logger.debug(`Stage polling worker completed job ${job.id}`, { ...result });
+});
+
+stagePollingWorker.on('failed', (job, err) => {
+  logger.error(`Stage polling worker failed job ${job?.id}:`, err);
+});
+
+stagePollingWorker.on('error', (err) => {
+  logger.error('Stage polling worker error:', err);
+});
+
+export default stagePollingWorker;
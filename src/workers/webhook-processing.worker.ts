@@ -1,15 +1,18 @@
 import { Worker, Job } from 'bullmq';
+import Stripe from 'stripe';
 import { redis } from '@/lib/redis';
 import { logger } from '@/lib/logger';
 import { QUEUE_NAMES } from '@/lib/queues';
+import { stripeSyncService } from '@/services/stripe-sync.service';
 
-export interface WebhookProcessingJobData {
-  webhookType: 'stripe' | 'black_forest' | 'other';
-  payload: Record<string, any>;
+export type WebhookProcessingJobData = {
   headers: Record<string, string>;
   signature?: string;
   timestamp: number;
-}
+} & (
+  | { webhookType: 'stripe'; payload: Stripe.Event }
+  | { webhookType: 'black_forest' | 'other'; payload: Record<string, unknown> }
+);
 
 export interface WebhookProcessingJobResult {
   processed: boolean;
@@ -21,7 +24,7 @@ export interface WebhookProcessingJobResult {
 export const webhookProcessingWorker = new Worker<WebhookProcessingJobData, WebhookProcessingJobResult>(
   QUEUE_NAMES.WEBHOOK_PROCESSING,
   async (job: Job<WebhookProcessingJobData>) => {
-    const { webhookType, payload, headers, signature, timestamp } = job.data;
+    const { webhookType, timestamp } = job.data;
     
     logger.info(`Processing ${webhookType} webhook with timestamp ${timestamp}`);
     
@@ -30,13 +33,13 @@ export const webhookProcessingWorker = new Worker<WebhookProcessingJobData, Webh
       
       switch (webhookType) {
         case 'stripe':
-          action = await processStripeWebhook(payload, signature);
+          action = await processStripeWebhook(job.data.payload);
           break;
         case 'black_forest':
-          action = await processBlackForestWebhook(payload);
+          action = await processBlackForestWebhook(job.data.payload);
           break;
         default:
-          action = await processGenericWebhook(payload);
+          action = await processGenericWebhook(job.data.payload);
           break;
       }
       
@@ -60,21 +63,20 @@ export const webhookProcessingWorker = new Worker<WebhookProcessingJobData, Webh
   }
 );
 
-async function processStripeWebhook(payload: Record<string, any>, signature?: string): Promise<string> {
-  // TODO: Implement Stripe webhook processing
-  // This will handle subscription updates, payment confirmations, etc.
-  logger.info('Processing Stripe webhook:', payload.type);
-  return `stripe_${payload.type}`;
+async function processStripeWebhook(event: Stripe.Event): Promise<string> {
+  // Signature was verified by the webhook endpoint before the event was queued
+  logger.info('Processing Stripe webhook', { type: event.type });
+  return stripeSyncService.processEvent(event);
 }
 
-async function processBlackForestWebhook(payload: Record<string, any>): Promise<string> {
+async function processBlackForestWebhook(payload: Record<string, unknown>): Promise<string> {
   // TODO: Implement Black Forest Labs webhook processing
   // This will handle image generation completion notifications
   logger.info('Processing Black Forest webhook');
   return 'black_forest_image_completed';
 }
 
-async function processGenericWebhook(payload: Record<string, any>): Promise<string> {
+async function processGenericWebhook(payload: Record<string, unknown>): Promise<string> {
   // TODO: Implement generic webhook processing
   logger.info('Processing generic webhook');
   return 'generic_webhook_processed';